@@ -1,10 +1,15 @@
 
-import React, { useState } from 'react';
+import React, { useMemo, useState } from 'react';
 import { Card } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Badge } from '@/components/ui/badge';
-import { Brain, Send, Search, Sparkles } from 'lucide-react';
+import SaveViewPopover from '@/components/SaveViewPopover';
+import { Brain, Code, ExternalLink, Play, Send, Search, Sparkles } from 'lucide-react';
+import { toast } from 'sonner';
+import { getRuleOptions } from '@/utils/businessRules';
+import { LlmProvider, generateQuery } from '@/utils/llmProvider';
+import { Query, QueryError, bindQuery, executeQuery, formatQuery, isQueryText, parseQuery } from '@/utils/queryLanguage';
 
 interface AIQueryInterfaceProps {
   files: {
@@ -14,53 +19,84 @@ interface AIQueryInterfaceProps {
       headers: string[];
     };
   };
+  queryHistory: string[];
+  onQueryHistoryChange: (queryHistory: string[]) => void;
+  llmProvider: LlmProvider;
+  // Show the query's rows in the Data tab
+  onOpenQuery: (query: Query) => void;
+  onSaveView: (name: string, query: Query) => void;
 }
 
-const AIQueryInterface: React.FC<AIQueryInterfaceProps> = ({ files }) => {
+const AIQueryInterface: React.FC<AIQueryInterfaceProps> = ({
+  files,
+  queryHistory,
+  onQueryHistoryChange,
+  llmProvider,
+  onOpenQuery,
+  onSaveView
+}) => {
   const [query, setQuery] = useState('');
   const [isLoading, setIsLoading] = useState(false);
-  const [results, setResults] = useState<any[]>([]);
-  const [queryHistory, setQueryHistory] = useState<string[]>([]);
+  // Query language text of the last question, editable before it is run again
+  const [expression, setExpression] = useState('');
+  const [compiled, setCompiled] = useState<Query | null>(null);
+  const [expressionError, setExpressionError] = useState<string | null>(null);
+  const queryOptions = useMemo(() => getRuleOptions(files), [files]);
+
+  // Re-run on every data change so the count stays current
+  const result = useMemo(() => {
+    if (!compiled) return null;
+    try {
+      return executeQuery(compiled, files);
+    } catch {
+      return null;
+    }
+  }, [compiled, files]);
 
   const suggestedQueries = [
     "Show tasks with more than 2 phases",
     "Find workers with Python skills",
-    "Tasks assigned to overloaded workers",
-    "Clients with missing contact information",
+    "Tasks whose worker's CurrentLoad > 30",
+    "Clients with missing contact person",
     "Tasks with estimated hours > 40"
   ];
 
+  const runExpression = (text: string) => {
+    try {
+      const bound = bindQuery(parseQuery(text), queryOptions.headers);
+      setExpression(formatQuery(bound));
+      setCompiled(bound);
+      setExpressionError(null);
+    } catch (error) {
+      if (!(error instanceof QueryError)) throw error;
+      setExpression(text);
+      setCompiled(null);
+      setExpressionError(error.position !== undefined
+        ? `${error.message} (at character ${error.position + 1})`
+        : error.message);
+    }
+  };
+
   const handleQuery = async () => {
     if (!query.trim()) return;
 
     setIsLoading(true);
     try {
-      // In a real implementation, this would call OpenAI API
-      // For now, we'll simulate AI query processing
-      
       // Add to history
-      setQueryHistory(prev => [query, ...prev.slice(0, 4)]);
-      
-      // Simulate filtering based on query keywords
-      let filteredResults: any[] = [];
-      const lowerQuery = query.toLowerCase();
-      
-      Object.values(files).forEach(file => {
-        const matching = file.data.filter(row => {
-          return Object.values(row).some(value => 
-            String(value).toLowerCase().includes(lowerQuery.split(' ')[0])
-          );
-        });
-        
-        if (matching.length > 0) {
-          filteredResults = [...filteredResults, ...matching.slice(0, 10)];
-        }
-      });
+      onQueryHistoryChange([query, ...queryHistory.slice(0, 4)]);
 
-      setResults(filteredResults);
-      
+      // Text already in the query language runs as written
+      if (isQueryText(query.trim())) {
+        runExpression(query.trim());
+        return;
+      }
+      const generated = await generateQuery(llmProvider, query, queryOptions);
+      setExpression(formatQuery(generated));
+      setCompiled(generated);
+      setExpressionError(null);
     } catch (error) {
       console.error('Query error:', error);
+      toast.error(error instanceof Error ? error.message : 'Query failed');
     } finally {
       setIsLoading(false);
     }
@@ -77,14 +113,15 @@ const AIQueryInterface: React.FC<AIQueryInterfaceProps> = ({ files }) => {
           <Brain className="h-6 w-6 text-purple-400" />
           <h2 className="text-xl font-semibold text-white">AI Data Query</h2>
           <Sparkles className="h-5 w-5 text-yellow-400" />
+          <Badge variant="outline" className="border-purple-500/50 text-purple-300">{llmProvider.label}</Badge>
         </div>
         <p className="text-slate-300 mb-6">
-          Ask questions about your data in natural language. Our AI will understand and filter your data accordingly.
+          Ask questions about your data in natural language or write a query directly. Questions are compiled into a query you can check and edit before opening the matching rows in the Data tab.
         </p>
         
         <div className="flex space-x-3">
           <Input
-            placeholder="e.g., 'Show me tasks longer than 1 phase with preferred phase 2'"
+            placeholder={'e.g. "Tasks whose worker\'s CurrentLoad > 30" or tasks where Phases > 2 and Skills has "Python"'}
             value={query}
             onChange={(e) => setQuery(e.target.value)}
             onKeyPress={(e) => e.key === 'Enter' && handleQuery()}
@@ -100,6 +137,54 @@ const AIQueryInterface: React.FC<AIQueryInterfaceProps> = ({ files }) => {
         </div>
       </Card>
 
+      {(expression || expressionError) && (
+        <Card className="p-6 bg-slate-800/50 border-slate-700">
+          <div className="flex items-center space-x-2 mb-3">
+            <Code className="h-5 w-5 text-purple-400" />
+            <h3 className="text-lg font-semibold text-white">Query</h3>
+          </div>
+          <div className="flex space-x-3">
+            <Input
+              value={expression}
+              onChange={(e) => setExpression(e.target.value)}
+              onKeyDown={(e) => e.key === 'Enter' && runExpression(expression)}
+              className="bg-slate-900/60 border-slate-600 text-purple-100 font-mono"
+              spellCheck={false}
+            />
+            <Button variant="outline" onClick={() => runExpression(expression)} className="border-slate-600 text-slate-300">
+              <Play className="h-4 w-4 mr-2" />
+              Run
+            </Button>
+          </div>
+          {expressionError ? (
+            <p className="text-sm text-red-400 mt-2">{expressionError}</p>
+          ) : (
+            <p className="text-xs text-slate-500 mt-2">
+              Compare fields with =, !=, &gt;, &lt;, in (…), contains, has, is empty; combine with and, or, not.
+              Related fields: worker.*, client.* and dependencies.* for tasks, tasks.* for workers and clients.
+            </p>
+          )}
+          {result && (
+            <div className="flex items-center justify-between mt-4">
+              <span className="text-slate-300">
+                {result.rows.length} of {files[result.fileName].data.length} {result.entity} match
+              </span>
+              <div className="flex items-center space-x-2">
+                <SaveViewPopover onSave={(name) => onSaveView(name, compiled!)} />
+                <Button
+                  onClick={() => onOpenQuery(compiled!)}
+                  disabled={result.rows.length === 0}
+                  className="bg-purple-600 hover:bg-purple-700"
+                >
+                  <ExternalLink className="h-4 w-4 mr-2" />
+                  Open in Data tab
+                </Button>
+              </div>
+            </div>
+          )}
+        </Card>
+      )}
+
       {/* Suggested Queries */}
       <Card className="p-6 bg-slate-800/50 border-slate-700">
         <h3 className="text-lg font-semibold text-white mb-4">Suggested Queries</h3>
@@ -137,47 +222,6 @@ const AIQueryInterface: React.FC<AIQueryInterfaceProps> = ({ files }) => {
         </Card>
       )}
 
-      {/* Results */}
-      {results.length > 0 && (
-        <Card className="p-6 bg-slate-800/50 border-slate-700">
-          <div className="flex items-center justify-between mb-4">
-            <h3 className="text-lg font-semibold text-white">Query Results</h3>
-            <Badge variant="secondary">{results.length} results</Badge>
-          </div>
-          
-          <div className="overflow-x-auto">
-            <table className="w-full">
-              <thead className="bg-slate-700">
-                <tr>
-                  {results.length > 0 && Object.keys(results[0]).map((key) => (
-                    <th key={key} className="px-4 py-2 text-left text-xs font-medium text-slate-300 uppercase">
-                      {key}
-                    </th>
-                  ))}
-                </tr>
-              </thead>
-              <tbody className="divide-y divide-slate-700">
-                {results.slice(0, 10).map((row, index) => (
-                  <tr key={index} className="hover:bg-slate-700/30">
-                    {Object.values(row).map((value: any, cellIndex) => (
-                      <td key={cellIndex} className="px-4 py-2 text-sm text-white">
-                        {String(value)}
-                      </td>
-                    ))}
-                  </tr>
-                ))}
-              </tbody>
-            </table>
-          </div>
-          
-          {results.length > 10 && (
-            <p className="text-center text-slate-400 mt-4">
-              Showing first 10 results of {results.length} total
-            </p>
-          )}
-        </Card>
-      )}
-
       {Object.keys(files).length === 0 && (
         <Card className="p-12 bg-slate-800/50 border-slate-700 text-center">
           <Brain className="h-12 w-12 text-slate-600 mx-auto mb-4" />
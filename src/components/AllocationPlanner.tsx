@@ -0,0 +1,257 @@
+import React, { useMemo, useState } from 'react';
+import { Card } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { AlertTriangle, ArrowRight, CalendarRange, CheckCircle, RefreshCw } from 'lucide-react';
+import { BusinessRule } from '@/utils/businessRules';
+import { PrioritizationConfig, PriorityDataFile } from '@/utils/prioritization';
+import { AssignmentChangeKind, solveAllocation } from '@/utils/allocation';
+
+interface AllocationPlannerProps {
+  files: { [fileName: string]: PriorityDataFile };
+  rules: BusinessRule[];
+  prioritization: PrioritizationConfig;
+  onNavigateToTask: (fileName: string, row: number, column: string) => void;
+}
+
+const CHANGE_STYLES: { [K in AssignmentChangeKind]: { label: string; className: string } } = {
+  kept: { label: 'Kept', className: 'border-slate-600 text-slate-400' },
+  assigned: { label: 'Assigned', className: 'border-green-500/50 text-green-400' },
+  reassigned: { label: 'Reassigned', className: 'border-blue-500/50 text-blue-400' },
+  unassigned: { label: 'Unassigned', className: 'border-red-500/50 text-red-400' }
+};
+
+const formatHours = (hours: number) => `${Math.round(hours * 10) / 10}h`;
+
+const AllocationPlanner: React.FC<AllocationPlannerProps> = ({ files, rules, prioritization, onNavigateToTask }) => {
+  const [showKept, setShowKept] = useState(false);
+  // Solved when the tab opens and on request; solving on every cell edit would block typing on large files
+  const [inputs, setInputs] = useState({ files, rules, prioritization });
+  const isStale = inputs.files !== files || inputs.rules !== rules || inputs.prioritization !== prioritization;
+
+  const result = useMemo(
+    () => solveAllocation(inputs.files, inputs.rules, inputs.prioritization),
+    [inputs]
+  );
+  const scheduleById = useMemo(
+    () => new Map(result.schedule.map(task => [task.taskId, task])),
+    [result]
+  );
+
+  const rerunButton = (
+    <Button
+      size="sm"
+      onClick={() => setInputs({ files, rules, prioritization })}
+      className="bg-purple-600 hover:bg-purple-700"
+    >
+      <RefreshCw className="h-4 w-4 mr-2" />
+      Re-run
+    </Button>
+  );
+
+  const changed = result.changes.filter(change => change.kind !== 'kept');
+  const visibleChanges = showKept ? result.changes : changed;
+
+  const taskLink = (taskId: string, fileName: string, row: number) => (
+    <button
+      onClick={() => onNavigateToTask(fileName, row, 'AssignedWorkerID')}
+      className="font-mono text-purple-300 hover:text-white underline-offset-2 hover:underline"
+    >
+      {taskId}
+    </button>
+  );
+
+  if (result.workers.length === 0 || result.changes.length + result.finishedTaskIds.length === 0) {
+    return (
+      <Card className="p-6 bg-slate-800/50 border-slate-700">
+        <div className="text-center py-8">
+          <CalendarRange className="h-12 w-12 text-slate-400 mx-auto mb-4" />
+          <h3 className="text-lg font-semibold text-white mb-2">Nothing to allocate yet</h3>
+          <p className="text-slate-400">Load a workers file and a tasks file to propose an assignment.</p>
+          {isStale && <div className="mt-4">{rerunButton}</div>}
+        </div>
+      </Card>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-start justify-between">
+        <div>
+          <h2 className="text-2xl font-bold text-white">Task Allocation</h2>
+          <p className="text-slate-400">
+            Open tasks assigned to workers and phases by skills, load, dependencies and enabled rules, highest priority first
+          </p>
+        </div>
+        <div className="flex flex-wrap gap-2 justify-end">
+          <Badge variant="outline" className="border-green-500/50 text-green-400">{result.schedule.length} scheduled</Badge>
+          <Badge variant="outline" className="border-red-500/50 text-red-400">{result.unassignable.length} unassignable</Badge>
+          <Badge variant="outline" className="border-blue-500/50 text-blue-400">{changed.length} changes</Badge>
+          <Badge variant="outline" className="border-slate-600 text-slate-400">{result.finishedTaskIds.length} finished</Badge>
+        </div>
+      </div>
+
+      {isStale && (
+        <div className="flex items-center justify-between p-3 rounded-lg bg-yellow-500/10 border border-yellow-500/30">
+          <p className="text-sm text-yellow-300 flex items-center">
+            <AlertTriangle className="h-4 w-4 mr-2 flex-shrink-0" />
+            The data, rules or priorities changed since this proposal was made
+          </p>
+          {rerunButton}
+        </div>
+      )}
+
+      {/* Proposed schedule */}
+      <Card className="p-6 bg-slate-800/50 border-slate-700">
+        <h3 className="text-lg font-semibold text-white mb-1">Proposed Schedule</h3>
+        <p className="text-sm text-slate-400 mb-4">
+          Hours booked per phase against MaxLoadPerPhase; CurrentLoad is booked in phase 1
+        </p>
+        <div className="overflow-x-auto rounded-lg border border-slate-700">
+          <table className="w-full">
+            <thead className="bg-slate-800">
+              <tr>
+                <th className="px-3 py-2 text-left text-xs font-medium text-slate-300 uppercase">Worker</th>
+                {Array.from({ length: result.phaseCount }, (_, index) => (
+                  <th key={index} className="px-3 py-2 text-left text-xs font-medium text-slate-300 uppercase">
+                    Phase {index + 1}
+                  </th>
+                ))}
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-slate-700">
+              {result.workers.map(worker => (
+                <tr key={worker.workerId}>
+                  <td className="px-3 py-2 align-top">
+                    <div className="text-sm font-mono text-white">{worker.workerId}</div>
+                    <div className="text-xs text-slate-400 truncate max-w-[140px]">{worker.name}</div>
+                    {worker.slotLimit !== null && (
+                      <div className="text-xs text-slate-500">≤ {worker.slotLimit} tasks per phase</div>
+                    )}
+                  </td>
+                  {worker.phases.map((load, index) => {
+                    const full = worker.capacity !== null && load.hours >= worker.capacity;
+                    return (
+                      <td key={index} className="px-3 py-2 align-top">
+                        <div className={`text-xs mb-1 ${full ? 'text-yellow-400' : 'text-slate-400'}`}>
+                          {formatHours(load.hours)}{worker.capacity !== null && ` / ${formatHours(worker.capacity)}`}
+                        </div>
+                        <div className="flex flex-wrap gap-1">
+                          {load.taskIds.map(taskId => {
+                            const task = scheduleById.get(taskId)!;
+                            return (
+                              <Badge
+                                key={taskId}
+                                variant="outline"
+                                title={`${task.name}: ${formatHours(task.hoursPerPhase)} in this phase`}
+                                className="border-purple-500/50 text-purple-200 font-mono"
+                              >
+                                {taskId}
+                              </Badge>
+                            );
+                          })}
+                        </div>
+                      </td>
+                    );
+                  })}
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      </Card>
+
+      {/* Unassignable tasks */}
+      <Card className="p-6 bg-slate-800/50 border-slate-700">
+        <h3 className="text-lg font-semibold text-white mb-4 flex items-center">
+          {result.unassignable.length > 0
+            ? <AlertTriangle className="h-5 w-5 mr-2 text-red-400" />
+            : <CheckCircle className="h-5 w-5 mr-2 text-green-400" />}
+          Unassignable Tasks ({result.unassignable.length})
+        </h3>
+        {result.unassignable.length === 0 ? (
+          <p className="text-sm text-slate-400">Every open task has a worker and a phase.</p>
+        ) : (
+          <div className="space-y-2">
+            {result.unassignable.map(task => (
+              <div key={task.taskId} className="p-3 rounded-lg bg-red-500/10 border border-red-500/30">
+                <div className="flex items-center space-x-2 text-sm">
+                  {taskLink(task.taskId, task.fileName, task.row)}
+                  <span className="text-white">{task.name}</span>
+                  <span className="text-xs text-slate-500">score {Math.round(task.score)}</span>
+                </div>
+                <ul className="mt-1 space-y-0.5">
+                  {task.reasons.map((reason, index) => (
+                    <li key={index} className="text-xs text-red-300">{reason}</li>
+                  ))}
+                </ul>
+              </div>
+            ))}
+          </div>
+        )}
+      </Card>
+
+      {/* Diff against AssignedWorkerID */}
+      <Card className="p-6 bg-slate-800/50 border-slate-700">
+        <div className="flex items-center justify-between mb-4">
+          <div>
+            <h3 className="text-lg font-semibold text-white">Changes to AssignedWorkerID</h3>
+            <p className="text-sm text-slate-400">The proposal against the workers assigned in the tasks file</p>
+          </div>
+          <Button
+            size="sm"
+            variant="outline"
+            onClick={() => setShowKept(!showKept)}
+            className="border-slate-600 text-slate-300"
+          >
+            {showKept ? 'Only changes' : `Show all ${result.changes.length}`}
+          </Button>
+        </div>
+        {visibleChanges.length === 0 ? (
+          <p className="text-sm text-slate-400">Every open task keeps its current worker.</p>
+        ) : (
+          <div className="overflow-x-auto rounded-lg border border-slate-700">
+            <table className="w-full">
+              <thead className="bg-slate-800">
+                <tr>
+                  <th className="px-3 py-2 text-left text-xs font-medium text-slate-300 uppercase">Task</th>
+                  <th className="px-3 py-2 text-left text-xs font-medium text-slate-300 uppercase">Current</th>
+                  <th className="px-3 py-2" />
+                  <th className="px-3 py-2 text-left text-xs font-medium text-slate-300 uppercase">Proposed</th>
+                  <th className="px-3 py-2 text-left text-xs font-medium text-slate-300 uppercase">Phases</th>
+                  <th className="px-3 py-2 text-left text-xs font-medium text-slate-300 uppercase">Change</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-slate-700">
+                {visibleChanges.map(change => {
+                  const task = scheduleById.get(change.taskId);
+                  return (
+                    <tr key={change.taskId}>
+                      <td className="px-3 py-2 text-sm">{taskLink(change.taskId, change.fileName, change.row)}</td>
+                      <td className="px-3 py-2 text-sm font-mono text-slate-300">{change.from || '—'}</td>
+                      <td className="px-3 py-2"><ArrowRight className="h-4 w-4 text-slate-500" /></td>
+                      <td className="px-3 py-2 text-sm font-mono text-white">{change.to ?? '—'}</td>
+                      <td className="px-3 py-2 text-xs text-slate-400">
+                        {task && (task.phase === task.endPhase ? task.phase : `${task.phase}–${task.endPhase}`)}
+                        {task && task.preferredPhase !== null && task.preferredPhase !== task.phase && (
+                          <span className="text-slate-500"> (preferred {task.preferredPhase})</span>
+                        )}
+                      </td>
+                      <td className="px-3 py-2">
+                        <Badge variant="outline" className={CHANGE_STYLES[change.kind].className}>
+                          {CHANGE_STYLES[change.kind].label}
+                        </Badge>
+                      </td>
+                    </tr>
+                  );
+                })}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </Card>
+    </div>
+  );
+};
+
+export default AllocationPlanner;
@@ -0,0 +1,150 @@
+import React, { useMemo, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
+import { Filter } from 'lucide-react';
+import { ColumnFilter, ColumnKind, getDistinctValues, isFilterActive } from '@/utils/gridModel';
+
+interface ColumnFilterPopoverProps {
+  column: string;
+  kind: ColumnKind;
+  data: Record<string, unknown>[];
+  filter?: ColumnFilter;
+  onChange: (filter: ColumnFilter | undefined) => void;
+}
+
+const parseBound = (value: string): number | undefined => {
+  if (value.trim() === '') return undefined;
+  const number = Number(value);
+  return isNaN(number) ? undefined : number;
+};
+
+const EnumFilter: React.FC<{ values: string[]; selected: string[] | null; onChange: (selected: string[] | null) => void }> = ({
+  values,
+  selected,
+  onChange
+}) => {
+  // No filter means every value is selected
+  const isSelected = (value: string) => selected === null || selected.includes(value);
+
+  const toggle = (value: string, checked: boolean) => {
+    const current = selected ?? values;
+    const next = checked ? [...current, value] : current.filter(v => v !== value);
+    onChange(next.length === values.length ? null : next);
+  };
+
+  return (
+    <div className="space-y-2">
+      <div className="flex justify-between text-xs">
+        <button className="text-purple-300 hover:text-purple-200" onClick={() => onChange(null)}>Select all</button>
+        <button className="text-purple-300 hover:text-purple-200" onClick={() => onChange([])}>Clear</button>
+      </div>
+      <div className="max-h-56 overflow-y-auto space-y-1">
+        {values.map(value => (
+          <label key={value} className="flex items-center space-x-2 text-sm text-slate-200 cursor-pointer">
+            <Checkbox
+              checked={isSelected(value)}
+              onCheckedChange={(checked) => toggle(value, checked === true)}
+              className="border-slate-500"
+            />
+            <span className="truncate">{value === '' ? '(blank)' : value}</span>
+          </label>
+        ))}
+      </div>
+    </div>
+  );
+};
+
+const ColumnFilterPopover: React.FC<ColumnFilterPopoverProps> = ({ column, kind, data, filter, onChange }) => {
+  const [isOpen, setIsOpen] = useState(false);
+  // Distinct values are only needed while the pick list is open
+  const distinctValues = useMemo(
+    () => (isOpen && kind === 'enum' ? getDistinctValues(data, column) : []),
+    [isOpen, kind, data, column]
+  );
+
+  const active = isFilterActive(filter);
+
+  return (
+    <Popover open={isOpen} onOpenChange={setIsOpen}>
+      <PopoverTrigger asChild>
+        <button
+          title={`Filter ${column}`}
+          onClick={(e) => e.stopPropagation()}
+          className={`p-0.5 rounded ${active ? 'text-purple-300' : 'text-slate-500 hover:text-slate-300'}`}
+        >
+          <Filter className="h-3 w-3" />
+        </button>
+      </PopoverTrigger>
+      <PopoverContent className="w-64 bg-slate-900 border-slate-700 text-white" align="start">
+        <div className="space-y-3">
+          <Label className="text-slate-300 text-xs uppercase">Filter {column}</Label>
+
+          {kind === 'text' && (
+            <Input
+              placeholder="Contains…"
+              value={filter?.kind === 'text' ? filter.contains : ''}
+              onChange={(e) => onChange(e.target.value ? { kind: 'text', contains: e.target.value } : undefined)}
+              className="h-8 bg-slate-800 border-slate-600 text-white"
+              autoFocus
+            />
+          )}
+
+          {kind === 'number' && (
+            <div className="flex items-center space-x-2">
+              <Input
+                type="number"
+                placeholder="Min"
+                defaultValue={filter?.kind === 'number' ? filter.min : undefined}
+                onChange={(e) => {
+                  const max = filter?.kind === 'number' ? filter.max : undefined;
+                  const min = parseBound(e.target.value);
+                  onChange(min === undefined && max === undefined ? undefined : { kind: 'number', min, max });
+                }}
+                className="h-8 bg-slate-800 border-slate-600 text-white"
+              />
+              <span className="text-slate-500">–</span>
+              <Input
+                type="number"
+                placeholder="Max"
+                defaultValue={filter?.kind === 'number' ? filter.max : undefined}
+                onChange={(e) => {
+                  const min = filter?.kind === 'number' ? filter.min : undefined;
+                  const max = parseBound(e.target.value);
+                  onChange(min === undefined && max === undefined ? undefined : { kind: 'number', min, max });
+                }}
+                className="h-8 bg-slate-800 border-slate-600 text-white"
+              />
+            </div>
+          )}
+
+          {kind === 'enum' && (
+            <EnumFilter
+              values={distinctValues}
+              selected={filter?.kind === 'enum' ? filter.values : null}
+              onChange={(selected) => onChange(selected === null ? undefined : { kind: 'enum', values: selected })}
+            />
+          )}
+
+          {active && (
+            <Button
+              variant="ghost"
+              size="sm"
+              onClick={() => {
+                onChange(undefined);
+                setIsOpen(false);
+              }}
+              className="w-full text-slate-400 hover:text-white"
+            >
+              Clear filter
+            </Button>
+          )}
+        </div>
+      </PopoverContent>
+    </Popover>
+  );
+};
+
+export default ColumnFilterPopover;
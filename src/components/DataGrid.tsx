@@ -1,9 +1,52 @@
-
-import React, { useState } from 'react';
+import React, { useEffect, useLayoutEffect, useMemo, useRef, useState } from 'react';
 import { Card } from '@/components/ui/card';
 import { Input } from '@/components/ui/input';
 import { Button } from '@/components/ui/button';
-import { AlertTriangle, AlertCircle, Edit3, Save, X } from 'lucide-react';
+import {
+  DropdownMenu,
+  DropdownMenuCheckboxItem,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger
+} from '@/components/ui/dropdown-menu';
+import {
+  AlertTriangle,
+  AlertCircle,
+  ArrowDown,
+  ArrowUp,
+  Columns3,
+  Edit3,
+  EyeOff,
+  MoreVertical,
+  Pin,
+  PinOff,
+  Plus,
+  Save,
+  Search,
+  Trash2,
+  X
+} from 'lucide-react';
+import ColumnFilterPopover from '@/components/ColumnFilterPopover';
+import SaveViewPopover from '@/components/SaveViewPopover';
+import {
+  ColumnFilter,
+  ColumnKind,
+  ColumnLayout,
+  DEFAULT_COLUMN_WIDTH,
+  MIN_COLUMN_WIDTH,
+  CellPosition,
+  SortState,
+  buildErrorIndex,
+  computeRowOrder,
+  findIssueCell,
+  getVisibleColumns,
+  inferColumnKind,
+  isFilterActive,
+  moveColumn,
+  normalizeLayout
+} from '@/utils/gridModel';
 
 interface DataGridProps {
   data: any[];
@@ -14,26 +57,210 @@ interface DataGridProps {
     message: string;
     severity: 'error' | 'warning';
   }>;
+  onCellEdit?: (rowIndex: number, column: string, value: string) => void;
+  onRowDelete?: (rowIndex: number) => void;
+  onRowInsert?: (rowIndex: number) => void;
+  // Scroll to and focus a cell; a new requestId repeats the jump
+  focusRequest?: CellPosition & { requestId: number };
+  // Rows matched by a query from the AI Query tab or a saved view, shown until cleared
+  queryFilter?: {
+    expression: string;
+    // Name of the saved view the query came from
+    viewName?: string;
+    rows: number[];
+    onClear: () => void;
+    onSaveView: (name: string, layout: { sort: SortState | null; columns: string[] }) => void;
+  };
+  // Sort and visible columns of an opened view; a new requestId applies them again
+  viewRequest?: { sort: SortState | null; columns: string[] | null; requestId: number };
 }
 
-const DataGrid: React.FC<DataGridProps> = ({ data, headers, validationErrors }) => {
+const ROW_HEIGHT = 40;
+const HEADER_HEIGHT = 44;
+const ROW_NUMBER_WIDTH = 72;
+const VIEWPORT_HEIGHT = 480;
+// Rows rendered above and below the viewport to avoid flicker while scrolling
+const OVERSCAN = 8;
+
+const DataGrid: React.FC<DataGridProps> = ({
+  data,
+  headers,
+  validationErrors,
+  onCellEdit,
+  onRowDelete,
+  onRowInsert,
+  focusRequest,
+  queryFilter,
+  viewRequest
+}) => {
   const [editingCell, setEditingCell] = useState<{ row: number; column: string } | null>(null);
   const [editValue, setEditValue] = useState('');
-  const [currentPage, setCurrentPage] = useState(0);
-  const rowsPerPage = 10;
+  const [scrollTop, setScrollTop] = useState(0);
+  const [sort, setSort] = useState<SortState | null>(null);
+  const [filters, setFilters] = useState<{ [column: string]: ColumnFilter }>({});
+  const [savedLayout, setSavedLayout] = useState<ColumnLayout | null>(null);
+  const [draggedColumn, setDraggedColumn] = useState<string | null>(null);
+  const [issuesOnly, setIssuesOnly] = useState(false);
+  const [activeCell, setActiveCell] = useState<CellPosition | null>(null);
+  const [scrollTarget, setScrollTarget] = useState<{ top: number; left: number } | null>(null);
+  const wrapperRef = useRef<HTMLDivElement>(null);
+  const scrollRef = useRef<HTMLDivElement>(null);
+  const scrollToEndRef = useRef(false);
+  const focusActiveCellRef = useRef(false);
+
+  const errorIndex = useMemo(() => buildErrorIndex(validationErrors), [validationErrors]);
+  const columnKinds = useMemo(
+    () => Object.fromEntries(headers.map(header => [header, inferColumnKind(data, header)])) as { [column: string]: ColumnKind },
+    [data, headers]
+  );
+  const matchedRows = queryFilter?.rows;
+  const queryRows = useMemo(() => (matchedRows ? new Set(matchedRows) : null), [matchedRows]);
+  const rowOrder = useMemo(
+    () => computeRowOrder(data, filters, sort, issuesOnly || queryRows
+      ? (rowIndex) => (!issuesOnly || errorIndex.has(rowIndex)) && (!queryRows || queryRows.has(rowIndex))
+      : undefined),
+    [data, filters, sort, issuesOnly, errorIndex, queryRows]
+  );
+
+  const layout = normalizeLayout(savedLayout, headers);
+  const visibleColumns = getVisibleColumns(layout);
+  const widthOf = (column: string) => layout.widths[column] ?? DEFAULT_COLUMN_WIDTH;
+  const totalWidth = ROW_NUMBER_WIDTH + visibleColumns.reduce((sum, column) => sum + widthOf(column), 0);
+
+  // Sticky offsets for pinned columns, which always come first
+  const pinnedOffsets: { [column: string]: number } = {};
+  let pinnedLeft = ROW_NUMBER_WIDTH;
+  visibleColumns.filter(column => layout.pinned.includes(column)).forEach(column => {
+    pinnedOffsets[column] = pinnedLeft;
+    pinnedLeft += widthOf(column);
+  });
+
+  const updateLayout = (update: (current: ColumnLayout) => Partial<ColumnLayout>) => {
+    setSavedLayout(prev => {
+      const current = normalizeLayout(prev, headers);
+      return { ...current, ...update(current) };
+    });
+  };
+
+  const firstVisibleRow = Math.max(0, Math.floor(scrollTop / ROW_HEIGHT) - OVERSCAN);
+  const lastVisibleRow = Math.min(rowOrder.length, Math.ceil((scrollTop + VIEWPORT_HEIGHT) / ROW_HEIGHT) + OVERSCAN);
+  // Leave room for the "no matches" message when filters hide every row
+  const bodyHeight = rowOrder.length > 0 ? rowOrder.length * ROW_HEIGHT : 2 * ROW_HEIGHT;
+  const viewportHeight = Math.min(VIEWPORT_HEIGHT, HEADER_HEIGHT + bodyHeight + 16);
+
+  // Follow a newly added row to the bottom of the grid
+  useEffect(() => {
+    if (scrollToEndRef.current && scrollRef.current) {
+      scrollRef.current.scrollTop = scrollRef.current.scrollHeight;
+      scrollToEndRef.current = false;
+    }
+  }, [data.length]);
+
+  /**
+   * Scroll a cell into view and focus it. Filters that hide the row and a
+   * hidden column are cleared first so the cell can actually be shown.
+   */
+  const revealCell = (cell: CellPosition) => {
+    const container = scrollRef.current;
+    if (!container) return;
+
+    let order = rowOrder;
+    if (!order.includes(cell.row)) {
+      setIssuesOnly(false);
+      setFilters({});
+      queryFilter?.onClear();
+      order = computeRowOrder(data, {}, sort);
+    }
+    let columns = visibleColumns;
+    if (layout.hidden.includes(cell.column)) {
+      setHidden(cell.column, false);
+      columns = getVisibleColumns({ ...layout, hidden: layout.hidden.filter(c => c !== cell.column) });
+    }
+
+    const rowTop = order.indexOf(cell.row) * ROW_HEIGHT;
+    const visibleBody = container.clientHeight - HEADER_HEIGHT;
+    const top = rowTop < container.scrollTop || rowTop + ROW_HEIGHT > container.scrollTop + visibleBody
+      ? Math.max(0, rowTop - visibleBody / 2)
+      : container.scrollTop;
+
+    let left = container.scrollLeft;
+    if (!layout.pinned.includes(cell.column)) {
+      const stickyWidth = ROW_NUMBER_WIDTH + columns
+        .filter(column => layout.pinned.includes(column))
+        .reduce((sum, column) => sum + widthOf(column), 0);
+      const columnLeft = ROW_NUMBER_WIDTH + columns
+        .slice(0, columns.indexOf(cell.column))
+        .reduce((sum, column) => sum + widthOf(column), 0);
+      if (columnLeft - stickyWidth < left || columnLeft + widthOf(cell.column) > left + container.clientWidth) {
+        left = Math.max(0, columnLeft - stickyWidth);
+      }
+    }
 
-  const getCellError = (rowIndex: number, column: string) => {
-    return validationErrors.find(error => error.row === rowIndex && error.column === column);
+    focusActiveCellRef.current = true;
+    setActiveCell(cell);
+    setScrollTop(top);
+    setScrollTarget({ top, left });
+  };
+
+  // Applied after render, once a grown body can hold the new scroll position
+  useLayoutEffect(() => {
+    if (scrollTarget && scrollRef.current) {
+      scrollRef.current.scrollTop = scrollTarget.top;
+      scrollRef.current.scrollLeft = scrollTarget.left;
+    }
+  }, [scrollTarget]);
+
+  // Column filters are replaced by the view's query; columns it does not list are hidden
+  const applyView = (view: { sort: SortState | null; columns: string[] | null }) => {
+    setFilters({});
+    setIssuesOnly(false);
+    setSort(view.sort && headers.includes(view.sort.column) ? view.sort : null);
+    const shown = (view.columns ?? headers).filter(column => headers.includes(column));
+    updateLayout(current => ({
+      order: [...shown, ...current.order.filter(column => !shown.includes(column))],
+      hidden: headers.filter(column => !shown.includes(column))
+    }));
+  };
+
+  // Focus requests can arrive before the grid has ever rendered its rows
+  const revealCellRef = useRef(revealCell);
+  const applyViewRef = useRef(applyView);
+  useEffect(() => {
+    revealCellRef.current = revealCell;
+    applyViewRef.current = applyView;
+  });
+
+  useEffect(() => {
+    if (viewRequest) applyViewRef.current(viewRequest);
+  }, [viewRequest]);
+
+  useEffect(() => {
+    if (focusRequest) {
+      wrapperRef.current?.scrollIntoView({ block: 'start', behavior: 'smooth' });
+      revealCellRef.current({ row: focusRequest.row, column: focusRequest.column });
+    }
+  }, [focusRequest]);
+
+  // F8 / Shift+F8 step through the cells with issues
+  const handleGridKeyDown = (event: React.KeyboardEvent) => {
+    if (event.key !== 'F8') return;
+    event.preventDefault();
+
+    const next = findIssueCell(rowOrder, visibleColumns, errorIndex, activeCell, event.shiftKey ? -1 : 1);
+    if (next) {
+      revealCell(next);
+    }
   };
 
   const handleCellEdit = (rowIndex: number, column: string, currentValue: any) => {
     setEditingCell({ row: rowIndex, column });
-    setEditValue(String(currentValue || ''));
+    setEditValue(String(currentValue ?? ''));
   };
 
   const handleSaveEdit = () => {
-    // In a real app, you'd update the data here
-    console.log('Saving edit:', editingCell, editValue);
+    if (editingCell && onCellEdit) {
+      onCellEdit(editingCell.row, editingCell.column, editValue);
+    }
     setEditingCell(null);
     setEditValue('');
   };
@@ -43,155 +270,397 @@ const DataGrid: React.FC<DataGridProps> = ({ data, headers, validationErrors })
     setEditValue('');
   };
 
-  const paginatedData = data.slice(currentPage * rowsPerPage, (currentPage + 1) * rowsPerPage);
-  const totalPages = Math.ceil(data.length / rowsPerPage);
+  // Ascending, then descending, then back to file order
+  const toggleSort = (column: string) => {
+    setSort(prev => {
+      if (prev?.column !== column) return { column, direction: 'asc' };
+      return prev.direction === 'asc' ? { column, direction: 'desc' } : null;
+    });
+  };
+
+  const setColumnFilter = (column: string, filter: ColumnFilter | undefined) => {
+    setFilters(prev => {
+      const { [column]: _removed, ...rest } = prev;
+      return filter ? { ...rest, [column]: filter } : rest;
+    });
+  };
+
+  const togglePinned = (column: string) => {
+    updateLayout(current => ({
+      pinned: current.pinned.includes(column)
+        ? current.pinned.filter(c => c !== column)
+        : [...current.pinned, column]
+    }));
+  };
+
+  const setHidden = (column: string, hidden: boolean) => {
+    updateLayout(current => ({
+      hidden: hidden ? [...current.hidden, column] : current.hidden.filter(c => c !== column)
+    }));
+  };
+
+  const startResize = (event: React.MouseEvent, column: string) => {
+    event.preventDefault();
+    event.stopPropagation();
+    const startX = event.clientX;
+    const startWidth = widthOf(column);
+
+    const handleMove = (moveEvent: MouseEvent) => {
+      const width = Math.max(MIN_COLUMN_WIDTH, startWidth + moveEvent.clientX - startX);
+      updateLayout(current => ({ widths: { ...current.widths, [column]: width } }));
+    };
+    const handleUp = () => {
+      window.removeEventListener('mousemove', handleMove);
+      window.removeEventListener('mouseup', handleUp);
+    };
+
+    window.addEventListener('mousemove', handleMove);
+    window.addEventListener('mouseup', handleUp);
+  };
+
+  const dropColumn = (target: string) => {
+    if (draggedColumn) {
+      updateLayout(current => ({ order: moveColumn(current.order, draggedColumn, target) }));
+    }
+    setDraggedColumn(null);
+  };
+
+  const activeFilterCount = Object.values(filters).filter(isFilterActive).length;
+  const issueRowCount = errorIndex.size;
 
   if (data.length === 0) {
     return (
       <Card className="p-8 bg-slate-800/30 border-slate-700 text-center">
         <p className="text-slate-400">No data to display</p>
+        {onRowInsert && (
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={() => onRowInsert(0)}
+            className="mt-4 border-slate-600 text-slate-300"
+          >
+            <Plus className="h-4 w-4 mr-2" />
+            Add Row
+          </Button>
+        )}
       </Card>
     );
   }
 
-  return (
-    <div className="space-y-4">
-      <div className="overflow-hidden rounded-lg border border-slate-700">
-        <div className="overflow-x-auto">
-          <table className="w-full">
-            <thead className="bg-slate-800">
-              <tr>
-                <th className="px-4 py-3 text-left text-xs font-medium text-slate-300 uppercase tracking-wider">
-                  #
-                </th>
-                {headers.map((header) => (
-                  <th
-                    key={header}
-                    className="px-4 py-3 text-left text-xs font-medium text-slate-300 uppercase tracking-wider"
-                  >
-                    {header}
-                  </th>
-                ))}
-              </tr>
-            </thead>
-            <tbody className="bg-slate-800/50 divide-y divide-slate-700">
-              {paginatedData.map((row, rowIndex) => {
-                const actualRowIndex = currentPage * rowsPerPage + rowIndex;
-                return (
-                  <tr key={actualRowIndex} className="hover:bg-slate-700/50">
-                    <td className="px-4 py-3 text-sm text-slate-400">
-                      {actualRowIndex + 1}
-                    </td>
-                    {headers.map((header) => {
-                      const cellError = getCellError(actualRowIndex, header);
-                      const isEditing = editingCell?.row === actualRowIndex && editingCell?.column === header;
-                      const cellValue = row[header];
-
-                      return (
-                        <td
-                          key={header}
-                          className={`px-4 py-3 text-sm relative ${
-                            cellError
-                              ? cellError.severity === 'error'
-                                ? 'bg-red-500/10 border-l-2 border-red-500'
-                                : 'bg-yellow-500/10 border-l-2 border-yellow-500'
-                              : ''
-                          }`}
-                        >
-                          {isEditing ? (
-                            <div className="flex items-center space-x-2">
-                              <Input
-                                value={editValue}
-                                onChange={(e) => setEditValue(e.target.value)}
-                                className="h-8 text-xs bg-slate-700 border-slate-600"
-                                autoFocus
-                              />
-                              <Button
-                                size="sm"
-                                variant="ghost"
-                                onClick={handleSaveEdit}
-                                className="h-6 w-6 p-0 text-green-400 hover:text-green-300"
-                              >
-                                <Save className="h-3 w-3" />
-                              </Button>
-                              <Button
-                                size="sm"
-                                variant="ghost"
-                                onClick={handleCancelEdit}
-                                className="h-6 w-6 p-0 text-red-400 hover:text-red-300"
-                              >
-                                <X className="h-3 w-3" />
-                              </Button>
-                            </div>
-                          ) : (
-                            <div className="group flex items-center justify-between">
-                              <span className="text-white truncate pr-2">
-                                {String(cellValue || '')}
-                              </span>
-                              <Button
-                                size="sm"
-                                variant="ghost"
-                                onClick={() => handleCellEdit(actualRowIndex, header, cellValue)}
-                                className="opacity-0 group-hover:opacity-100 h-6 w-6 p-0 text-slate-400 hover:text-white"
-                              >
-                                <Edit3 className="h-3 w-3" />
-                              </Button>
-                            </div>
-                          )}
-                          
-                          {cellError && (
-                            <div className="absolute right-2 top-1/2 transform -translate-y-1/2">
-                              {cellError.severity === 'error' ? (
-                                <AlertCircle className="h-4 w-4 text-red-400" />
-                              ) : (
-                                <AlertTriangle className="h-4 w-4 text-yellow-400" />
-                              )}
-                            </div>
-                          )}
-                          
-                          {cellError && (
-                            <div className="absolute top-full left-0 mt-1 z-10 bg-slate-900 border border-slate-700 rounded px-2 py-1 text-xs text-white shadow-lg opacity-0 group-hover:opacity-100 transition-opacity">
-                              {cellError.message}
-                            </div>
-                          )}
-                        </td>
-                      );
-                    })}
-                  </tr>
-                );
-              })}
-            </tbody>
-          </table>
-        </div>
-      </div>
+  const pinnedStyle = (column: string): React.CSSProperties =>
+    column in pinnedOffsets ? { position: 'sticky', left: pinnedOffsets[column], zIndex: 10 } : {};
 
-      {/* Pagination */}
-      {totalPages > 1 && (
-        <div className="flex items-center justify-between">
+  return (
+    <div ref={wrapperRef} className="space-y-4 scroll-mt-24" onKeyDown={handleGridKeyDown}>
+      <div className="flex items-center justify-between">
+        <div className="flex items-center space-x-3">
           <p className="text-sm text-slate-400">
-            Showing {currentPage * rowsPerPage + 1} to {Math.min((currentPage + 1) * rowsPerPage, data.length)} of {data.length} rows
+            {rowOrder.length === data.length
+              ? `${data.length} rows`
+              : `Showing ${rowOrder.length} of ${data.length} rows`}
           </p>
-          <div className="flex space-x-2">
+          {(activeFilterCount > 0 || sort) && (
             <Button
-              variant="outline"
+              variant="ghost"
               size="sm"
-              onClick={() => setCurrentPage(Math.max(0, currentPage - 1))}
-              disabled={currentPage === 0}
-              className="border-slate-600 text-slate-300"
+              onClick={() => {
+                setFilters({});
+                setSort(null);
+              }}
+              className="h-7 text-slate-400 hover:text-white"
             >
-              Previous
+              <X className="h-3 w-3 mr-1" />
+              Clear {activeFilterCount > 0 ? `${activeFilterCount} filters` : 'sort'}
             </Button>
-            <Button
-              variant="outline"
-              size="sm"
-              onClick={() => setCurrentPage(Math.min(totalPages - 1, currentPage + 1))}
-              disabled={currentPage === totalPages - 1}
-              className="border-slate-600 text-slate-300"
+          )}
+          {queryFilter && (
+            <div className="flex items-center space-x-1 rounded-full bg-purple-500/20 border border-purple-500/40 pl-3 pr-1 py-0.5 max-w-md">
+              <Search className="h-3 w-3 text-purple-300 flex-shrink-0" />
+              {queryFilter.viewName && (
+                <span className="text-xs font-medium text-white flex-shrink-0">{queryFilter.viewName}:</span>
+              )}
+              <span className="text-xs font-mono text-purple-200 truncate" title={queryFilter.expression}>
+                {queryFilter.expression}
+              </span>
+              <SaveViewPopover
+                compact
+                onSave={(name) => queryFilter.onSaveView(name, { sort, columns: visibleColumns })}
+              />
+              <button
+                onClick={queryFilter.onClear}
+                title="Clear query"
+                className="p-0.5 rounded-full text-purple-300 hover:text-white"
+              >
+                <X className="h-3 w-3" />
+              </button>
+            </div>
+          )}
+        </div>
+        <div className="flex items-center space-x-2">
+          {issueRowCount > 0 && (
+            <span className="text-xs text-slate-500" title="Step through issues with F8 / Shift+F8">
+              F8 next issue
+            </span>
+          )}
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={() => setIssuesOnly(!issuesOnly)}
+            disabled={issueRowCount === 0 && !issuesOnly}
+            className={issuesOnly ? 'border-purple-500 bg-purple-500/20 text-purple-200' : 'border-slate-600 text-slate-300'}
+          >
+            <AlertCircle className="h-4 w-4 mr-2" />
+            Issues only ({issueRowCount})
+          </Button>
+          <DropdownMenu>
+            <DropdownMenuTrigger asChild>
+              <Button variant="outline" size="sm" className="border-slate-600 text-slate-300">
+                <Columns3 className="h-4 w-4 mr-2" />
+                Columns
+                {layout.hidden.length > 0 && ` (${layout.hidden.length} hidden)`}
+              </Button>
+            </DropdownMenuTrigger>
+            <DropdownMenuContent align="end" className="w-56 max-h-80 overflow-y-auto">
+              <DropdownMenuLabel>Visible columns</DropdownMenuLabel>
+              <DropdownMenuSeparator />
+              {layout.order.map(column => (
+                <DropdownMenuCheckboxItem
+                  key={column}
+                  checked={!layout.hidden.includes(column)}
+                  onCheckedChange={(checked) => setHidden(column, !checked)}
+                  onSelect={(e) => e.preventDefault()}
+                >
+                  {column}
+                </DropdownMenuCheckboxItem>
+              ))}
+              <DropdownMenuSeparator />
+              <DropdownMenuItem onClick={() => setSavedLayout(null)}>Reset layout</DropdownMenuItem>
+            </DropdownMenuContent>
+          </DropdownMenu>
+        </div>
+      </div>
+
+      <div
+        ref={scrollRef}
+        onScroll={(e) => setScrollTop(e.currentTarget.scrollTop)}
+        className="overflow-auto rounded-lg border border-slate-700 bg-slate-800/50"
+        style={{ height: viewportHeight }}
+      >
+        <div className="relative" style={{ width: totalWidth, height: HEADER_HEIGHT + bodyHeight }}>
+          {/* Header */}
+          <div className="sticky top-0 z-20 flex bg-slate-800 border-b border-slate-700" style={{ height: HEADER_HEIGHT, width: totalWidth }}>
+            <div
+              className="sticky left-0 z-10 flex items-center px-4 bg-slate-800 text-xs font-medium text-slate-300 uppercase tracking-wider"
+              style={{ width: ROW_NUMBER_WIDTH, minWidth: ROW_NUMBER_WIDTH }}
             >
-              Next
-            </Button>
+              #
+            </div>
+            {visibleColumns.map(column => {
+              const isPinned = layout.pinned.includes(column);
+
+              return (
+                <div
+                  key={column}
+                  draggable
+                  onDragStart={() => setDraggedColumn(column)}
+                  onDragOver={(e) => e.preventDefault()}
+                  onDrop={() => dropColumn(column)}
+                  onDragEnd={() => setDraggedColumn(null)}
+                  className={`group relative flex items-center px-3 bg-slate-800 text-xs font-medium text-slate-300 uppercase tracking-wider select-none ${
+                    draggedColumn && draggedColumn !== column ? 'border-l border-dashed border-slate-600' : ''
+                  } ${isPinned ? 'border-r border-slate-600' : ''}`}
+                  style={{ width: widthOf(column), minWidth: widthOf(column), ...pinnedStyle(column) }}
+                >
+                  <button
+                    onClick={() => toggleSort(column)}
+                    title="Sort"
+                    className="flex items-center space-x-1 min-w-0 flex-1 text-left hover:text-white"
+                  >
+                    <span className="truncate">{column}</span>
+                    {sort?.column === column && (
+                      sort.direction === 'asc'
+                        ? <ArrowUp className="h-3 w-3 flex-shrink-0 text-purple-300" />
+                        : <ArrowDown className="h-3 w-3 flex-shrink-0 text-purple-300" />
+                    )}
+                  </button>
+                  <div className="flex items-center space-x-0.5 flex-shrink-0">
+                    <ColumnFilterPopover
+                      column={column}
+                      kind={columnKinds[column] ?? 'text'}
+                      data={data}
+                      filter={filters[column]}
+                      onChange={(filter) => setColumnFilter(column, filter)}
+                    />
+                    <DropdownMenu>
+                      <DropdownMenuTrigger asChild>
+                        <button className="p-0.5 rounded text-slate-500 hover:text-slate-300 opacity-0 group-hover:opacity-100">
+                          <MoreVertical className="h-3 w-3" />
+                        </button>
+                      </DropdownMenuTrigger>
+                      <DropdownMenuContent align="end">
+                        <DropdownMenuItem onClick={() => setSort({ column, direction: 'asc' })}>
+                          <ArrowUp className="h-4 w-4 mr-2" />
+                          Sort ascending
+                        </DropdownMenuItem>
+                        <DropdownMenuItem onClick={() => setSort({ column, direction: 'desc' })}>
+                          <ArrowDown className="h-4 w-4 mr-2" />
+                          Sort descending
+                        </DropdownMenuItem>
+                        <DropdownMenuSeparator />
+                        <DropdownMenuItem onClick={() => togglePinned(column)}>
+                          {isPinned ? <PinOff className="h-4 w-4 mr-2" /> : <Pin className="h-4 w-4 mr-2" />}
+                          {isPinned ? 'Unpin column' : 'Pin column'}
+                        </DropdownMenuItem>
+                        <DropdownMenuItem onClick={() => setHidden(column, true)}>
+                          <EyeOff className="h-4 w-4 mr-2" />
+                          Hide column
+                        </DropdownMenuItem>
+                      </DropdownMenuContent>
+                    </DropdownMenu>
+                  </div>
+                  <div
+                    onMouseDown={(e) => startResize(e, column)}
+                    className="absolute right-0 top-0 h-full w-1.5 cursor-col-resize hover:bg-purple-500/50"
+                  />
+                </div>
+              );
+            })}
           </div>
+
+          {/* Rows inside the viewport only */}
+          {rowOrder.slice(firstVisibleRow, lastVisibleRow).map((rowIndex, offset) => {
+            const row = data[rowIndex];
+            const rowIssues = errorIndex.get(rowIndex);
+
+            return (
+              <div
+                key={rowIndex}
+                className="absolute left-0 flex border-b border-slate-700 bg-slate-800/50 hover:bg-slate-700/50"
+                style={{ top: HEADER_HEIGHT + (firstVisibleRow + offset) * ROW_HEIGHT, height: ROW_HEIGHT, width: totalWidth }}
+              >
+                <div
+                  className="group sticky left-0 z-10 flex items-center space-x-1 px-4 bg-slate-800 text-sm text-slate-400"
+                  style={{ width: ROW_NUMBER_WIDTH, minWidth: ROW_NUMBER_WIDTH }}
+                >
+                  <span>{rowIndex + 1}</span>
+                  {onRowDelete && (
+                    <Button
+                      size="sm"
+                      variant="ghost"
+                      onClick={() => onRowDelete(rowIndex)}
+                      title="Delete row"
+                      className="opacity-0 group-hover:opacity-100 h-6 w-6 p-0 text-slate-400 hover:text-red-400"
+                    >
+                      <Trash2 className="h-3 w-3" />
+                    </Button>
+                  )}
+                </div>
+                {visibleColumns.map(column => {
+                  const cellIssue = rowIssues?.get(column);
+                  const isEditing = editingCell?.row === rowIndex && editingCell?.column === column;
+                  const isActive = activeCell?.row === rowIndex && activeCell?.column === column;
+                  const cellValue = row[column];
+
+                  return (
+                    <div
+                      key={column}
+                      ref={isActive ? (element) => {
+                        if (element && focusActiveCellRef.current) {
+                          focusActiveCellRef.current = false;
+                          element.focus({ preventScroll: true });
+                        }
+                      } : undefined}
+                      tabIndex={-1}
+                      onClick={() => setActiveCell({ row: rowIndex, column })}
+                      title={cellIssue ? cellIssue.messages.join('\n') : undefined}
+                      className={`group relative flex items-center px-3 text-sm outline-none ${
+                        column in pinnedOffsets ? 'bg-slate-800 border-r border-slate-600' : ''
+                      } ${isActive ? 'ring-2 ring-inset ring-purple-400' : ''}`}
+                      style={{ width: widthOf(column), minWidth: widthOf(column), ...pinnedStyle(column) }}
+                    >
+                      {/* Overlay so the highlight also works on opaque pinned cells */}
+                      {cellIssue && (
+                        <div className={`absolute inset-0 pointer-events-none border-l-2 ${
+                          cellIssue.severity === 'error' ? 'bg-red-500/10 border-red-500' : 'bg-yellow-500/10 border-yellow-500'
+                        }`} />
+                      )}
+                      {isEditing ? (
+                        <div className="flex items-center space-x-1 w-full">
+                          <Input
+                            value={editValue}
+                            onChange={(e) => setEditValue(e.target.value)}
+                            onKeyDown={(e) => {
+                              if (e.key === 'Enter') handleSaveEdit();
+                              if (e.key === 'Escape') handleCancelEdit();
+                            }}
+                            className="h-7 text-xs bg-slate-700 border-slate-600"
+                            autoFocus
+                          />
+                          <Button
+                            size="sm"
+                            variant="ghost"
+                            onClick={handleSaveEdit}
+                            className="h-6 w-6 p-0 text-green-400 hover:text-green-300"
+                          >
+                            <Save className="h-3 w-3" />
+                          </Button>
+                          <Button
+                            size="sm"
+                            variant="ghost"
+                            onClick={handleCancelEdit}
+                            className="h-6 w-6 p-0 text-red-400 hover:text-red-300"
+                          >
+                            <X className="h-3 w-3" />
+                          </Button>
+                        </div>
+                      ) : (
+                        <>
+                          <span className="text-white truncate pr-2 flex-1" onDoubleClick={() => handleCellEdit(rowIndex, column, cellValue)}>
+                            {String(cellValue ?? '')}
+                          </span>
+                          <Button
+                            size="sm"
+                            variant="ghost"
+                            onClick={() => handleCellEdit(rowIndex, column, cellValue)}
+                            className="opacity-0 group-hover:opacity-100 h-6 w-6 p-0 text-slate-400 hover:text-white"
+                          >
+                            <Edit3 className="h-3 w-3" />
+                          </Button>
+                          {cellIssue && (
+                            cellIssue.severity === 'error'
+                              ? <AlertCircle className="h-4 w-4 flex-shrink-0 text-red-400" />
+                              : <AlertTriangle className="h-4 w-4 flex-shrink-0 text-yellow-400" />
+                          )}
+                        </>
+                      )}
+                    </div>
+                  );
+                })}
+              </div>
+            );
+          })}
+
+          {rowOrder.length === 0 && (
+            <div className="absolute left-0 right-0 p-8 text-center text-slate-400" style={{ top: HEADER_HEIGHT }}>
+              No rows match the current filters
+            </div>
+          )}
         </div>
+      </div>
+
+      {onRowInsert && (
+        <Button
+          variant="outline"
+          size="sm"
+          onClick={() => {
+            scrollToEndRef.current = true;
+            onRowInsert(data.length);
+          }}
+          className="border-slate-600 text-slate-300"
+        >
+          <Plus className="h-4 w-4 mr-2" />
+          Add Row
+        </Button>
       )}
     </div>
   );
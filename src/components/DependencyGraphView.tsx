@@ -0,0 +1,296 @@
+import React, { useMemo, useState } from 'react';
+import { Card } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { AlertTriangle, GitBranch, RefreshCw } from 'lucide-react';
+import {
+  DependencyFields,
+  buildDependencyGraph,
+  computeDependencyLayers,
+  findDependencyCycles,
+  findPhaseInversions,
+  formatDependencyPath
+} from '@/utils/dependencyGraph';
+
+interface DependencyGraphViewProps {
+  fileName: string;
+  data: Record<string, unknown>[];
+  fields: DependencyFields;
+  onNavigateToRow?: (row: number, column: string) => void;
+}
+
+const NODE_WIDTH = 96;
+const NODE_HEIGHT = 30;
+const LAYER_GAP = 72;
+const ROW_GAP = 14;
+const PADDING = 24;
+// Above this many tasks the graph starts focused on the problem tasks
+const FOCUS_THRESHOLD = 200;
+const MAX_DRAWN_NODES = 400;
+
+const edgeKey = (task: string, dependency: string) => `${task}>${dependency}`;
+
+const DependencyGraphView: React.FC<DependencyGraphViewProps> = ({ fileName, data, fields, onNavigateToRow }) => {
+  const graph = useMemo(() => buildDependencyGraph(data, fields), [data, fields]);
+  const cycles = useMemo(() => findDependencyCycles(graph), [graph]);
+  const inversions = useMemo(() => findPhaseInversions(graph), [graph]);
+  const layers = useMemo(() => computeDependencyLayers(graph), [graph]);
+  const selfDependent = useMemo(
+    () => Array.from(graph.nodes.values()).filter(node => node.dependsOnSelf).map(node => node.id),
+    [graph]
+  );
+
+  const [showAll, setShowAll] = useState(graph.nodes.size <= FOCUS_THRESHOLD);
+  const [selectedCycle, setSelectedCycle] = useState<number | null>(null);
+  const [hoveredTask, setHoveredTask] = useState<string | null>(null);
+
+  // Cycle index per task
+  const cycleOf = useMemo(
+    () => new Map(cycles.flatMap((cycle, index) => cycle.tasks.map(task => [task, index] as const))),
+    [cycles]
+  );
+  const inversionEdges = useMemo(
+    () => new Set(inversions.map(inversion => edgeKey(inversion.task, inversion.dependency))),
+    [inversions]
+  );
+  const selectedEdges = useMemo(() => {
+    const path = selectedCycle !== null ? cycles[selectedCycle]?.path ?? [] : [];
+    return new Set(path.slice(0, -1).map((task, i) => edgeKey(task, path[i + 1])));
+  }, [cycles, selectedCycle]);
+
+  const layout = useMemo(() => {
+    // Problem tasks plus what they directly depend on
+    const problemTasks = new Set<string>([...cycleOf.keys(), ...selfDependent]);
+    inversions.forEach(inversion => {
+      problemTasks.add(inversion.task);
+      problemTasks.add(inversion.dependency);
+    });
+    const focused = new Set(problemTasks);
+    problemTasks.forEach(task => graph.nodes.get(task)!.dependsOn.forEach(dependency => focused.add(dependency)));
+
+    const visible = Array.from(graph.nodes.keys())
+      .filter(task => showAll || focused.has(task))
+      .slice(0, MAX_DRAWN_NODES);
+    const visibleSet = new Set(visible);
+
+    // Drop empty columns left by hidden tasks
+    const usedLayers = Array.from(new Set(visible.map(task => layers.get(task)!))).sort((a, b) => a - b);
+    const columnOf = new Map(usedLayers.map((layer, column) => [layer, column]));
+    const rowsPerColumn: number[] = [];
+    const positions = new Map<string, { x: number; y: number }>();
+    visible.forEach(task => {
+      const column = columnOf.get(layers.get(task)!)!;
+      const row = rowsPerColumn[column] ?? 0;
+      rowsPerColumn[column] = row + 1;
+      positions.set(task, {
+        x: PADDING + column * (NODE_WIDTH + LAYER_GAP),
+        y: PADDING + row * (NODE_HEIGHT + ROW_GAP)
+      });
+    });
+
+    return {
+      visible,
+      visibleSet,
+      positions,
+      truncated: visible.length === MAX_DRAWN_NODES,
+      width: PADDING * 2 + Math.max(1, usedLayers.length) * (NODE_WIDTH + LAYER_GAP) - LAYER_GAP,
+      height: PADDING * 2 + Math.max(1, ...rowsPerColumn) * (NODE_HEIGHT + ROW_GAP) - ROW_GAP
+    };
+  }, [graph, layers, cycleOf, selfDependent, inversions, showAll]);
+
+  const goToTask = (task: string) => {
+    const node = graph.nodes.get(task);
+    if (node) onNavigateToRow?.(node.row, fields.dependenciesField);
+  };
+
+  const renderTaskChip = (task: string) => (
+    <button
+      key={task}
+      onClick={() => goToTask(task)}
+      onMouseEnter={() => setHoveredTask(task)}
+      onMouseLeave={() => setHoveredTask(null)}
+      className="px-1.5 py-0.5 rounded bg-slate-700 text-slate-200 hover:bg-purple-600 font-mono text-xs"
+      title={`Go to ${task} in ${fileName}`}
+    >
+      {task}
+    </button>
+  );
+
+  const edgeColor = (task: string, dependency: string) => {
+    const key = edgeKey(task, dependency);
+    if (hoveredTask && (task === hoveredTask || dependency === hoveredTask)) return '#c084fc';
+    if (selectedEdges.has(key)) return '#f87171';
+    if (cycleOf.has(task) && cycleOf.get(task) === cycleOf.get(dependency)) {
+      return selectedCycle === null ? '#f87171' : '#7f1d1d';
+    }
+    if (inversionEdges.has(key)) return '#facc15';
+    return '#475569';
+  };
+
+  return (
+    <Card className="p-6 bg-slate-800/50 border-slate-700 space-y-4">
+      <div className="flex items-center justify-between">
+        <div className="flex items-center space-x-2">
+          <GitBranch className="h-5 w-5 text-purple-400" />
+          <h3 className="text-lg font-semibold text-white">Task Dependencies</h3>
+          <Badge variant="outline" className="border-slate-600 text-slate-300">{fileName}</Badge>
+        </div>
+        <div className="flex items-center space-x-2">
+          <Switch id={`dependency-show-all-${fileName}`} checked={showAll} onCheckedChange={setShowAll} />
+          <Label htmlFor={`dependency-show-all-${fileName}`} className="text-sm text-slate-300">
+            Show all {graph.nodes.size} tasks
+          </Label>
+        </div>
+      </div>
+
+      {cycles.length === 0 && selfDependent.length === 0 && inversions.length === 0 ? (
+        <p className="text-sm text-green-400">No circular dependencies or phase conflicts.</p>
+      ) : (
+        <div className="grid grid-cols-1 lg:grid-cols-3 gap-4 text-sm">
+          <div className="space-y-2">
+            <h4 className="text-red-300 font-medium flex items-center">
+              <RefreshCw className="h-4 w-4 mr-2" />
+              Cycles ({cycles.length + selfDependent.length})
+            </h4>
+            <div className="space-y-2 max-h-48 overflow-y-auto">
+              {cycles.map((cycle, index) => (
+                <div
+                  key={cycle.tasks[0]}
+                  onClick={() => setSelectedCycle(selectedCycle === index ? null : index)}
+                  className={`p-2 rounded border cursor-pointer ${
+                    selectedCycle === index ? 'border-red-400 bg-red-500/20' : 'border-red-500/30 bg-red-500/10 hover:bg-red-500/20'
+                  }`}
+                >
+                  <p className="text-red-200 text-xs mb-1">{formatDependencyPath(cycle.path)}</p>
+                  <div className="flex flex-wrap gap-1" onClick={(e) => e.stopPropagation()}>
+                    {cycle.tasks.slice(0, 12).map(renderTaskChip)}
+                    {cycle.tasks.length > 12 && <span className="text-slate-400 text-xs">+{cycle.tasks.length - 12} more</span>}
+                  </div>
+                </div>
+              ))}
+              {selfDependent.map(task => (
+                <div key={task} className="p-2 rounded border border-red-500/30 bg-red-500/10 flex items-center space-x-2">
+                  {renderTaskChip(task)}
+                  <span className="text-red-200 text-xs">depends on itself</span>
+                </div>
+              ))}
+            </div>
+          </div>
+          <div className="space-y-2 lg:col-span-2">
+            <h4 className="text-yellow-300 font-medium flex items-center">
+              <AlertTriangle className="h-4 w-4 mr-2" />
+              Depends on a later phase ({inversions.length})
+            </h4>
+            <div className="space-y-1 max-h-48 overflow-y-auto">
+              {inversions.map(inversion => (
+                <div key={edgeKey(inversion.task, inversion.dependency)} className="flex items-center space-x-2 text-xs text-slate-300">
+                  {renderTaskChip(inversion.task)}
+                  <span>phase {inversion.taskPhase} depends on</span>
+                  {renderTaskChip(inversion.dependency)}
+                  <span>phase {inversion.dependencyPhase}</span>
+                </div>
+              ))}
+            </div>
+          </div>
+        </div>
+      )}
+
+      {layout.visible.length > 0 && (
+        <div className="overflow-auto max-h-[600px] rounded border border-slate-700 bg-slate-900/60">
+          <svg width={layout.width} height={layout.height}>
+            <defs>
+              {['#475569', '#f87171', '#7f1d1d', '#facc15', '#c084fc'].map(color => (
+                <marker
+                  key={color}
+                  id={`dependency-arrow-${color.slice(1)}`}
+                  viewBox="0 0 10 10"
+                  refX="10"
+                  refY="5"
+                  markerWidth="6"
+                  markerHeight="6"
+                  orient="auto-start-reverse"
+                >
+                  <path d="M 0 0 L 10 5 L 0 10 z" fill={color} />
+                </marker>
+              ))}
+            </defs>
+
+            {/* Arrows run from a dependency to the task waiting on it */}
+            {layout.visible.flatMap(task => graph.nodes.get(task)!.dependsOn
+              .filter(dependency => layout.visibleSet.has(dependency))
+              .map(dependency => {
+                const from = layout.positions.get(dependency)!;
+                const to = layout.positions.get(task)!;
+                const startX = from.x + NODE_WIDTH;
+                const startY = from.y + NODE_HEIGHT / 2;
+                const endX = to.x;
+                const endY = to.y + NODE_HEIGHT / 2;
+                const bend = Math.max(40, Math.abs(endX - startX) / 2);
+                const color = edgeColor(task, dependency);
+                return (
+                  <path
+                    key={edgeKey(task, dependency)}
+                    d={`M ${startX} ${startY} C ${startX + bend} ${startY}, ${endX - bend} ${endY}, ${endX} ${endY}`}
+                    fill="none"
+                    stroke={color}
+                    strokeWidth={selectedEdges.has(edgeKey(task, dependency)) ? 2.5 : 1.25}
+                    markerEnd={`url(#dependency-arrow-${color.slice(1)})`}
+                  />
+                );
+              }))}
+
+            {layout.visible.map(task => {
+              const node = graph.nodes.get(task)!;
+              const position = layout.positions.get(task)!;
+              const inCycle = cycleOf.has(task) || node.dependsOnSelf;
+              const inSelected = selectedCycle !== null && cycleOf.get(task) === selectedCycle;
+              return (
+                <g
+                  key={task}
+                  transform={`translate(${position.x}, ${position.y})`}
+                  onClick={() => goToTask(task)}
+                  onMouseEnter={() => setHoveredTask(task)}
+                  onMouseLeave={() => setHoveredTask(null)}
+                  className="cursor-pointer"
+                >
+                  <title>
+                    {`${task}${node.phase !== null ? ` · phase ${node.phase}` : ''}${
+                      node.dependsOn.length > 0 ? ` · depends on ${node.dependsOn.join(', ')}` : ''
+                    } — click to open row ${node.row + 1}`}
+                  </title>
+                  <rect
+                    width={NODE_WIDTH}
+                    height={NODE_HEIGHT}
+                    rx={6}
+                    fill={inSelected ? 'rgba(239, 68, 68, 0.3)' : '#1e293b'}
+                    stroke={hoveredTask === task ? '#c084fc' : inCycle ? '#f87171' : '#475569'}
+                    strokeWidth={inSelected || hoveredTask === task ? 2 : 1}
+                    strokeDasharray={node.dependsOnSelf ? '4 2' : undefined}
+                  />
+                  <text
+                    x={NODE_WIDTH / 2}
+                    y={NODE_HEIGHT / 2}
+                    dominantBaseline="middle"
+                    textAnchor="middle"
+                    className="fill-slate-100 font-mono text-xs"
+                  >
+                    {task.length > 12 ? `${task.slice(0, 11)}…` : task}
+                  </text>
+                </g>
+              );
+            })}
+          </svg>
+        </div>
+      )}
+
+      {layout.truncated && (
+        <p className="text-xs text-slate-400">
+          Showing the first {MAX_DRAWN_NODES} tasks. Turn off “Show all” to focus on tasks with problems.
+        </p>
+      )}
+    </Card>
+  );
+};
+
+export default DependencyGraphView;
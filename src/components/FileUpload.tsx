@@ -1,49 +1,94 @@
 
-import React, { useCallback, useState } from 'react';
+import React, { useCallback, useEffect, useRef, useState } from 'react';
 import { useDropzone } from 'react-dropzone';
-import Papa from 'papaparse';
-import * as XLSX from 'xlsx';
 import { Card } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Progress } from '@/components/ui/progress';
-import { Upload, FileSpreadsheet, AlertCircle, CheckCircle } from 'lucide-react';
+import { Upload, FileSpreadsheet, AlertCircle, CheckCircle, X } from 'lucide-react';
 import { toast } from 'sonner';
+import HeaderMappingDialog, { PendingMapping } from '@/components/HeaderMappingDialog';
+import SheetSelectionDialog, { PendingWorkbook } from '@/components/SheetSelectionDialog';
+import { EntityType } from '@/utils/validationRules';
+import {
+  ENTITY_SCHEMAS,
+  HeaderMapping,
+  applyHeaderMapping,
+  detectEntity,
+  getRememberedMapping,
+  rememberMapping
+} from '@/utils/schemaDetection';
+import { ParsedRow, ParsedTable, SheetPreview, getSheetFileName, isExcelFile, readWorkbook } from '@/utils/fileParsing';
+import { CsvStream, streamCsv } from '@/utils/csvStreaming';
+import { ValidationError, validationEngine } from '@/utils/validationEngine';
+
+// A parsed file with its columns mapped; validation is left to the handler or the worker
+export interface ProcessedFile {
+  name: string;
+  data: ParsedRow[];
+  headers: string[];
+  validationErrors: ValidationError[];
+  entityType: EntityType | null;
+}
 
 interface FileUploadProps {
-  onFileProcessed: (fileName: string, data: any) => void;
+  // `isStreaming` means more rows and the validation result are still to come
+  onFileProcessed: (fileName: string, data: ProcessedFile, isStreaming?: boolean) => void;
+  onRowsReceived: (fileName: string, rows: ParsedRow[]) => void;
+  onValidationComplete: (fileName: string, errors: ValidationError[]) => void;
+  onUploadCancelled: (fileName: string) => void;
+  files: { [fileName: string]: { name: string; headers: string[]; entityType?: EntityType | null; data: ParsedRow[] } };
 }
 
 interface ProcessingFile {
   name: string;
   progress: number;
-  status: 'processing' | 'success' | 'error';
+  status: 'processing' | 'selecting' | 'mapping' | 'validating' | 'success' | 'error';
   error?: string;
+  rowCount?: number;
+}
+
+// A CSV file being parsed in the worker
+interface CsvUpload {
+  // Null only while the stream is being started
+  stream: CsvStream | null;
+  headers: string[];
+  // Rows parsed before the column mapping was confirmed
+  bufferedRows: ParsedRow[];
+  confirmed: { entity: EntityType; mapping: HeaderMapping } | null;
+  complete: boolean;
 }
 
-const FileUpload: React.FC<FileUploadProps> = ({ onFileProcessed }) => {
+const FileUpload: React.FC<FileUploadProps> = ({
+  onFileProcessed,
+  onRowsReceived,
+  onValidationComplete,
+  onUploadCancelled,
+  files
+}) => {
   const [processingFiles, setProcessingFiles] = useState<ProcessingFile[]>([]);
+  // Parsed files waiting for the user to confirm their column mapping
+  const [pendingMappings, setPendingMappings] = useState<PendingMapping[]>([]);
+  // Workbooks with several sheets wait for the user to pick which to import
+  const [pendingWorkbooks, setPendingWorkbooks] = useState<PendingWorkbook[]>([]);
 
-  const validateData = (data: any[], fileName: string) => {
-    const errors: any[] = [];
-    const fileType = fileName.toLowerCase();
-
-    // Basic validation logic
-    data.forEach((row, index) => {
-      if (fileType.includes('client')) {
-        if (!row.ClientID) errors.push({ row: index, column: 'ClientID', message: 'ClientID is required', severity: 'error' });
-        if (!row.Name) errors.push({ row: index, column: 'Name', message: 'Name is required', severity: 'error' });
-      } else if (fileType.includes('worker')) {
-        if (!row.WorkerID) errors.push({ row: index, column: 'WorkerID', message: 'WorkerID is required', severity: 'error' });
-        if (!row.Skills) errors.push({ row: index, column: 'Skills', message: 'Skills are required', severity: 'warning' });
-      } else if (fileType.includes('task')) {
-        if (!row.TaskID) errors.push({ row: index, column: 'TaskID', message: 'TaskID is required', severity: 'error' });
-        if (row.EstimatedHours && isNaN(Number(row.EstimatedHours))) {
-          errors.push({ row: index, column: 'EstimatedHours', message: 'Must be a number', severity: 'error' });
-        }
-      }
-    });
+  const csvUploadsRef = useRef(new Map<string, CsvUpload>());
+  // Worker callbacks outlive the render that started them
+  const latestRef = useRef({ onRowsReceived, onValidationComplete, files });
+
+  useEffect(() => {
+    latestRef.current = { onRowsReceived, onValidationComplete, files };
+  }, [onRowsReceived, onValidationComplete, files]);
 
-    return errors;
+  // Stop any running workers when the component goes away
+  useEffect(() => {
+    const uploads = csvUploadsRef.current;
+    return () => uploads.forEach(upload => upload.stream?.cancel());
+  }, []);
+
+  const setFileStatus = (fileName: string, update: Partial<ProcessingFile>) => {
+    setProcessingFiles(prev => 
+      prev.map(f => f.name === fileName ? { ...f, ...update } : f)
+    );
   };
 
   const processFile = async (file: File) => {
@@ -56,69 +101,29 @@ const FileUpload: React.FC<FileUploadProps> = ({ onFileProcessed }) => {
     setProcessingFiles(prev => [...prev, processingFile]);
 
     try {
-      // Simulate processing progress
       const updateProgress = (progress: number) => {
         setProcessingFiles(prev => 
           prev.map(f => f.name === file.name ? { ...f, progress } : f)
         );
       };
 
-      updateProgress(25);
-
-      const isExcel = file.name.endsWith('.xlsx') || file.name.endsWith('.xls');
-      let parsedData: any[] = [];
-      let headers: string[] = [];
-
-      if (isExcel) {
-        const arrayBuffer = await file.arrayBuffer();
-        const workbook = XLSX.read(arrayBuffer, { type: 'array' });
-        const sheetName = workbook.SheetNames[0];
-        const worksheet = workbook.Sheets[sheetName];
-        const jsonData = XLSX.utils.sheet_to_json(worksheet, { header: 1 });
-        
-        headers = jsonData[0] as string[];
-        parsedData = jsonData.slice(1).map((row: any) => {
-          const obj: any = {};
-          headers.forEach((header, index) => {
-            obj[header] = row[index] || '';
-          });
-          return obj;
-        });
+      if (isExcelFile(file.name)) {
+        const sheets = readWorkbook(await file.arrayBuffer());
+        updateProgress(100);
+
+        if (sheets.length === 0) {
+          throw new Error('Workbook has no sheets with data');
+        }
+        if (sheets.length === 1) {
+          queueMapping(file.name, sheets[0]);
+        } else {
+          setPendingWorkbooks(prev => [...prev, { fileName: file.name, sheets }]);
+          setFileStatus(file.name, { status: 'selecting' });
+        }
       } else {
-        // CSV parsing
-        const text = await file.text();
-        const result = Papa.parse(text, {
-          header: true,
-          skipEmptyLines: true,
-          transformHeader: (header: string) => header.trim()
-        });
-        
-        parsedData = result.data;
-        headers = Object.keys(parsedData[0] || {});
+        startCsvUpload(file);
       }
 
-      updateProgress(75);
-
-      // Validate data
-      const validationErrors = validateData(parsedData, file.name);
-      
-      updateProgress(100);
-
-      const fileData = {
-        name: file.name,
-        data: parsedData,
-        headers,
-        validationErrors
-      };
-
-      onFileProcessed(file.name, fileData);
-      
-      setProcessingFiles(prev => 
-        prev.map(f => f.name === file.name ? { ...f, status: 'success' } : f)
-      );
-
-      toast.success(`Successfully processed ${file.name}`);
-
     } catch (error) {
       console.error('Error processing file:', error);
       setProcessingFiles(prev => 
@@ -132,6 +137,180 @@ const FileUpload: React.FC<FileUploadProps> = ({ onFileProcessed }) => {
     }
   };
 
+  const queueMapping = (fileName: string, table: ParsedTable) => {
+    setPendingMappings(prev => [...prev, {
+      fileName,
+      headers: table.headers,
+      rows: table.rows,
+      candidates: detectEntity(table.headers, table.rows),
+      remembered: getRememberedMapping(table.headers)
+    }]);
+    setFileStatus(fileName, { status: 'mapping' });
+  };
+
+  const failUpload = (fileName: string, message: string) => {
+    csvUploadsRef.current.delete(fileName);
+    setFileStatus(fileName, { status: 'error', error: message });
+    toast.error(`Failed to process ${fileName}`);
+  };
+
+  /**
+   * Parse a CSV file in a worker. The mapping dialog opens on the first batch;
+   * once confirmed, rows go straight into the workspace as they arrive.
+   */
+  const startCsvUpload = (file: File) => {
+    csvUploadsRef.current.get(file.name)?.stream?.cancel();
+
+    const upload: CsvUpload = { stream: null, headers: [], bufferedRows: [], confirmed: null, complete: false };
+    upload.stream = streamCsv(file, {
+      onRows: (rows, headers) => {
+        if (upload.headers.length === 0) {
+          upload.headers = headers;
+          upload.bufferedRows.push(...rows);
+          queueMapping(file.name, { headers, rows });
+        } else if (upload.confirmed) {
+          latestRef.current.onRowsReceived(
+            file.name,
+            applyHeaderMapping(rows, upload.headers, upload.confirmed.mapping).data
+          );
+        } else {
+          upload.bufferedRows.push(...rows);
+        }
+      },
+      onProgress: (bytesRead, totalBytes) => {
+        setFileStatus(file.name, { progress: totalBytes > 0 ? Math.round((bytesRead / totalBytes) * 100) : 100 });
+      },
+      onComplete: (rowCount, malformedRows) => {
+        if (upload.headers.length === 0) {
+          upload.stream?.cancel();
+          failUpload(file.name, 'File is empty');
+          return;
+        }
+        if (malformedRows > 0) {
+          toast.warning(`${malformedRows} malformed rows in ${file.name}`);
+        }
+        upload.complete = true;
+        setFileStatus(file.name, { rowCount, progress: 100 });
+        finishCsvUpload(file.name);
+      },
+      onError: (message) => failUpload(file.name, message)
+    });
+
+    csvUploadsRef.current.set(file.name, upload);
+  };
+
+  // Runs the worker validation pass once the file is both parsed and mapped
+  const finishCsvUpload = (fileName: string) => {
+    const upload = csvUploadsRef.current.get(fileName);
+    if (!upload || !upload.complete || !upload.confirmed) return;
+
+    const { entity, mapping } = upload.confirmed;
+    const { files: workspaceFiles, onValidationComplete: reportErrors } = latestRef.current;
+    const otherFiles = Object.fromEntries(Object.entries(workspaceFiles).filter(([name]) => name !== fileName));
+
+    setFileStatus(fileName, { status: 'validating' });
+    upload.stream?.validate({
+      fileName,
+      mapping,
+      entityType: entity,
+      rules: validationEngine.getRules(),
+      referenceFiles: validationEngine.getReferenceSources(otherFiles)
+    })
+      .then(errors => {
+        csvUploadsRef.current.delete(fileName);
+        reportErrors(fileName, errors);
+        setFileStatus(fileName, { status: 'success' });
+        toast.success(`Successfully processed ${fileName} as ${ENTITY_SCHEMAS[entity].label.toLowerCase()}`);
+      })
+      .catch(error => {
+        // Cancelled uploads have already been cleaned up
+        if (csvUploadsRef.current.get(fileName) === upload) {
+          failUpload(fileName, error.message);
+        }
+      });
+  };
+
+  const cancelUpload = (fileName: string) => {
+    const upload = csvUploadsRef.current.get(fileName);
+    if (!upload) return;
+
+    csvUploadsRef.current.delete(fileName);
+    upload.stream?.cancel();
+    setPendingMappings(prev => prev.filter(pending => pending.fileName !== fileName));
+    if (upload.confirmed) {
+      onUploadCancelled(fileName);
+    }
+    setFileStatus(fileName, { status: 'error', error: 'Cancelled' });
+  };
+
+  // Replace the workbook's entry with one entry per chosen sheet
+  const confirmSheets = (sheets: SheetPreview[]) => {
+    const [workbook] = pendingWorkbooks;
+    setPendingWorkbooks(prev => prev.slice(1));
+
+    const sheetFiles = sheets.map(sheet => ({
+      sheet,
+      fileName: getSheetFileName(workbook.fileName, sheet.name)
+    }));
+    setProcessingFiles(prev => [
+      ...prev.filter(f => f.name !== workbook.fileName),
+      ...sheetFiles.map(({ fileName }): ProcessingFile => ({ name: fileName, progress: 100, status: 'mapping' }))
+    ]);
+    sheetFiles.forEach(({ sheet, fileName }) => queueMapping(fileName, sheet));
+  };
+
+  const skipWorkbook = () => {
+    const [workbook] = pendingWorkbooks;
+    setPendingWorkbooks(prev => prev.slice(1));
+    setFileStatus(workbook.fileName, { status: 'error', error: 'No sheets imported' });
+  };
+
+  const confirmMapping = (entity: EntityType, mapping: HeaderMapping) => {
+    const [pending] = pendingMappings;
+    setPendingMappings(prev => prev.slice(1));
+
+    rememberMapping(pending.headers, entity, mapping);
+
+    const upload = csvUploadsRef.current.get(pending.fileName);
+    if (upload) {
+      upload.confirmed = { entity, mapping };
+      const mapped = applyHeaderMapping(upload.bufferedRows, upload.headers, mapping);
+      upload.bufferedRows = [];
+
+      onFileProcessed(pending.fileName, {
+        name: pending.fileName,
+        data: mapped.data,
+        headers: mapped.headers,
+        validationErrors: [],
+        entityType: entity
+      }, true);
+      setFileStatus(pending.fileName, { status: upload.complete ? 'validating' : 'processing' });
+      finishCsvUpload(pending.fileName);
+      return;
+    }
+
+    const mapped = applyHeaderMapping(pending.rows, pending.headers, mapping);
+
+    onFileProcessed(pending.fileName, {
+      name: pending.fileName,
+      data: mapped.data,
+      headers: mapped.headers,
+      validationErrors: [],
+      entityType: entity
+    });
+
+    setFileStatus(pending.fileName, { status: 'success' });
+    toast.success(`Successfully processed ${pending.fileName} as ${ENTITY_SCHEMAS[entity].label.toLowerCase()}`);
+  };
+
+  const skipMapping = () => {
+    const [pending] = pendingMappings;
+    setPendingMappings(prev => prev.slice(1));
+    csvUploadsRef.current.get(pending.fileName)?.stream?.cancel();
+    csvUploadsRef.current.delete(pending.fileName);
+    setFileStatus(pending.fileName, { status: 'error', error: 'Skipped during column mapping' });
+  };
+
   const onDrop = useCallback((acceptedFiles: File[]) => {
     acceptedFiles.forEach(processFile);
   }, []);
@@ -146,8 +325,9 @@ const FileUpload: React.FC<FileUploadProps> = ({ onFileProcessed }) => {
     multiple: true
   });
 
+  // Files still parsing or awaiting input stay in the list
   const clearProcessingFiles = () => {
-    setProcessingFiles([]);
+    setProcessingFiles(prev => prev.filter(f => f.status !== 'success' && f.status !== 'error'));
   };
 
   return (
@@ -209,12 +389,26 @@ const FileUpload: React.FC<FileUploadProps> = ({ onFileProcessed }) => {
                     )}
                     <span className="text-xs text-slate-400">
                       {file.status === 'processing' && `${file.progress}%`}
+                      {file.status === 'selecting' && 'Awaiting sheet selection'}
+                      {file.status === 'mapping' && 'Awaiting column mapping'}
+                      {file.status === 'validating' && `Validating ${file.rowCount ?? ''} rows`}
                       {file.status === 'success' && 'Complete'}
                       {file.status === 'error' && 'Failed'}
                     </span>
+                    {csvUploadsRef.current.has(file.name) && (
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        title="Cancel"
+                        onClick={() => cancelUpload(file.name)}
+                        className="h-6 w-6 p-0 text-slate-400 hover:text-red-400"
+                      >
+                        <X className="h-4 w-4" />
+                      </Button>
+                    )}
                   </div>
                 </div>
-                {file.status === 'processing' && (
+                {(file.status === 'processing' || file.status === 'mapping') && file.progress < 100 && (
                   <Progress value={file.progress} className="h-2" />
                 )}
                 {file.status === 'error' && file.error && (
@@ -225,6 +419,24 @@ const FileUpload: React.FC<FileUploadProps> = ({ onFileProcessed }) => {
           </div>
         </Card>
       )}
+
+      {pendingWorkbooks.length > 0 && (
+        <SheetSelectionDialog
+          key={pendingWorkbooks[0].fileName}
+          workbook={pendingWorkbooks[0]}
+          onConfirm={confirmSheets}
+          onCancel={skipWorkbook}
+        />
+      )}
+
+      {pendingWorkbooks.length === 0 && pendingMappings.length > 0 && (
+        <HeaderMappingDialog
+          key={pendingMappings[0].fileName}
+          pending={pendingMappings[0]}
+          onConfirm={confirmMapping}
+          onCancel={skipMapping}
+        />
+      )}
     </div>
   );
 };
@@ -0,0 +1,171 @@
+import React, { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle
+} from '@/components/ui/dialog';
+import { ArrowRight } from 'lucide-react';
+import { EntityType } from '@/utils/validationRules';
+import { ENTITY_SCHEMAS, EntityCandidate, HeaderMapping, proposeMapping } from '@/utils/schemaDetection';
+
+export interface PendingMapping {
+  fileName: string;
+  headers: string[];
+  rows: Record<string, unknown>[];
+  candidates: EntityCandidate[];
+  // Mapping previously confirmed for the same header signature
+  remembered: { entity: EntityType; mapping: HeaderMapping } | null;
+}
+
+interface HeaderMappingDialogProps {
+  pending: PendingMapping;
+  onConfirm: (entity: EntityType, mapping: HeaderMapping) => void;
+  onCancel: () => void;
+}
+
+const KEEP_AS_IS = '__keep__';
+
+// Rendered with a key per pending file, so initial state is derived once
+const HeaderMappingDialog: React.FC<HeaderMappingDialogProps> = ({ pending, onConfirm, onCancel }) => {
+  const initial = pending.remembered ?? pending.candidates[0];
+  const initialCandidate = pending.candidates.find(c => c.entity === initial.entity);
+
+  const [entity, setEntity] = useState<EntityType>(initial.entity);
+  const [mapping, setMapping] = useState<HeaderMapping>(initial.mapping);
+  // The automatic proposal; scores are only shown for columns still matching it
+  const [proposed, setProposed] = useState<HeaderMapping>(initialCandidate?.mapping ?? {});
+  const [scores, setScores] = useState<{ [header: string]: number }>(initialCandidate?.scores ?? {});
+
+  const changeEntity = (nextEntity: EntityType) => {
+    const proposal = proposeMapping(pending.headers, pending.rows, nextEntity);
+    setEntity(nextEntity);
+    setMapping(proposal.mapping);
+    setProposed(proposal.mapping);
+    setScores(proposal.scores);
+  };
+
+  const changeColumn = (header: string, column: string) => {
+    const target = column === KEEP_AS_IS ? null : column;
+    setMapping(prev => {
+      // A canonical column can only be used once
+      const next = Object.fromEntries(
+        Object.entries(prev).map(([source, mapped]) => [source, target && mapped === target ? null : mapped])
+      );
+      next[header] = target;
+      return next;
+    });
+  };
+
+  const schemaColumns = ENTITY_SCHEMAS[entity].columns;
+  const mappedColumns = new Set(Object.values(mapping).filter(Boolean));
+  const missingColumns = schemaColumns.filter(column => !mappedColumns.has(column.name));
+  const confidenceFor = (candidateEntity: EntityType) =>
+    pending.candidates.find(c => c.entity === candidateEntity)?.confidence ?? 0;
+
+  return (
+    <Dialog open onOpenChange={(open) => !open && onCancel()}>
+      <DialogContent className="bg-slate-900 border-slate-700 text-white max-w-3xl">
+        <DialogHeader>
+          <DialogTitle className="text-white">Map columns for {pending.fileName}</DialogTitle>
+          <DialogDescription className="text-slate-400">
+            {pending.remembered
+              ? 'Using the mapping you confirmed for files with these headers.'
+              : 'We matched the headers against the known schemas. Confirm or adjust the mapping.'}
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="flex items-center space-x-3">
+          <Label className="text-slate-300">File contains</Label>
+          <Select value={entity} onValueChange={(value) => changeEntity(value as EntityType)}>
+            <SelectTrigger className="w-64 bg-slate-800 border-slate-600 text-white">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {pending.candidates.map(candidate => (
+                <SelectItem key={candidate.entity} value={candidate.entity}>
+                  {ENTITY_SCHEMAS[candidate.entity].label} ({Math.round(candidate.confidence * 100)}% match)
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          {confidenceFor(entity) < 0.5 && (
+            <Badge variant="outline" className="text-yellow-400 border-yellow-500/50">Low confidence</Badge>
+          )}
+        </div>
+
+        <div className="max-h-96 overflow-y-auto rounded-lg border border-slate-700">
+          <table className="w-full">
+            <thead className="bg-slate-800 sticky top-0">
+              <tr>
+                <th className="px-3 py-2 text-left text-xs font-medium text-slate-300 uppercase">Source Column</th>
+                <th className="px-3 py-2 text-left text-xs font-medium text-slate-300 uppercase">Sample Values</th>
+                <th className="px-3 py-2" />
+                <th className="px-3 py-2 text-left text-xs font-medium text-slate-300 uppercase">Maps To</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-slate-700">
+              {pending.headers.map(header => (
+                <tr key={header}>
+                  <td className="px-3 py-2 text-sm text-white font-mono">{header}</td>
+                  <td className="px-3 py-2 text-xs text-slate-400 max-w-[200px] truncate">
+                    {pending.rows.slice(0, 3).map(row => String(row[header] ?? '')).join(', ')}
+                  </td>
+                  <td className="px-3 py-2">
+                    <ArrowRight className="h-4 w-4 text-slate-500" />
+                  </td>
+                  <td className="px-3 py-2">
+                    <div className="flex items-center space-x-2">
+                      <Select
+                        value={mapping[header] ?? KEEP_AS_IS}
+                        onValueChange={(value) => changeColumn(header, value)}
+                      >
+                        <SelectTrigger className="h-8 w-48 bg-slate-800 border-slate-600 text-white">
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          <SelectItem value={KEEP_AS_IS}>(keep as is)</SelectItem>
+                          {schemaColumns.map(column => (
+                            <SelectItem key={column.name} value={column.name}>{column.name}</SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                      {mapping[header] && mapping[header] === proposed[header] && scores[header] !== undefined && (
+                        <span className={`text-xs ${scores[header] >= 0.8 ? 'text-green-400' : 'text-yellow-400'}`}>
+                          {Math.round(scores[header] * 100)}%
+                        </span>
+                      )}
+                    </div>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+
+        {missingColumns.length > 0 && (
+          <p className="text-xs text-yellow-300">
+            Not found in this file: {missingColumns.map(column => column.name).join(', ')}
+          </p>
+        )}
+
+        <DialogFooter>
+          <Button variant="outline" onClick={onCancel}>
+            Skip File
+          </Button>
+          <Button onClick={() => onConfirm(entity, mapping)} className="bg-purple-600 hover:bg-purple-700">
+            Confirm Mapping
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default HeaderMappingDialog;
@@ -0,0 +1,119 @@
+import React from 'react';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import { Sheet, SheetContent, SheetDescription, SheetHeader, SheetTitle, SheetTrigger } from '@/components/ui/sheet';
+import { History, Redo2, Undo2 } from 'lucide-react';
+import { DataCommand, describeCommandTarget } from '@/utils/dataCommands';
+
+interface HistoryPanelProps {
+  entries: DataCommand[];
+  position: number;
+  canUndo: boolean;
+  canRedo: boolean;
+  onUndo: () => void;
+  onRedo: () => void;
+  onJumpTo: (position: number) => void;
+}
+
+const HistoryPanel: React.FC<HistoryPanelProps> = ({
+  entries,
+  position,
+  canUndo,
+  canRedo,
+  onUndo,
+  onRedo,
+  onJumpTo
+}) => {
+  return (
+    <div className="flex items-center space-x-1">
+      <Button
+        variant="ghost"
+        size="sm"
+        onClick={onUndo}
+        disabled={!canUndo}
+        title="Undo (Ctrl+Z)"
+        className="text-slate-300 hover:text-white"
+      >
+        <Undo2 className="h-4 w-4" />
+      </Button>
+      <Button
+        variant="ghost"
+        size="sm"
+        onClick={onRedo}
+        disabled={!canRedo}
+        title="Redo (Ctrl+Shift+Z)"
+        className="text-slate-300 hover:text-white"
+      >
+        <Redo2 className="h-4 w-4" />
+      </Button>
+
+      <Sheet>
+        <SheetTrigger asChild>
+          <Button variant="outline" size="sm" className="border-slate-600 text-slate-300">
+            <History className="h-4 w-4 mr-2" />
+            History ({position})
+          </Button>
+        </SheetTrigger>
+        <SheetContent className="bg-slate-900 border-slate-700 text-white">
+          <SheetHeader>
+            <SheetTitle className="text-white">Edit History</SheetTitle>
+            <SheetDescription className="text-slate-400">
+              Click an entry to restore the data to the state right after it.
+            </SheetDescription>
+          </SheetHeader>
+
+          <ScrollArea className="h-[calc(100vh-8rem)] mt-4 pr-3">
+            <div className="space-y-2">
+              {[...entries].reverse().map((entry, reversedIndex) => {
+                const entryPosition = entries.length - reversedIndex;
+                const isApplied = entryPosition <= position;
+                const isCurrent = entryPosition === position;
+
+                return (
+                  <button
+                    key={entry.id}
+                    onClick={() => onJumpTo(entryPosition)}
+                    className={`w-full text-left p-3 rounded-lg border transition-colors ${
+                      isCurrent
+                        ? 'bg-purple-500/20 border-purple-500/50'
+                        : isApplied
+                          ? 'bg-slate-800/50 border-slate-700 hover:bg-slate-700/50'
+                          : 'bg-slate-800/20 border-slate-800 opacity-50 hover:opacity-80'
+                    }`}
+                  >
+                    <div className="flex items-center justify-between">
+                      <span className="text-sm font-medium text-white">{entry.label}</span>
+                      {isCurrent && <Badge variant="secondary" className="text-xs">Current</Badge>}
+                      {!isApplied && <Badge variant="outline" className="text-xs text-slate-400">Undone</Badge>}
+                    </div>
+                    <p className="text-xs text-slate-400 mt-1">
+                      {entry.fileName} · {describeCommandTarget(entry)}
+                    </p>
+                    <p className="text-xs text-slate-500 mt-1">
+                      {new Date(entry.timestamp).toLocaleTimeString()}
+                    </p>
+                  </button>
+                );
+              })}
+
+              <button
+                onClick={() => onJumpTo(0)}
+                className={`w-full text-left p-3 rounded-lg border transition-colors ${
+                  position === 0
+                    ? 'bg-purple-500/20 border-purple-500/50'
+                    : 'bg-slate-800/50 border-slate-700 hover:bg-slate-700/50'
+                }`}
+              >
+                <span className="text-sm font-medium text-white">Original upload</span>
+                <p className="text-xs text-slate-400 mt-1">Before any edits</p>
+              </button>
+            </div>
+          </ScrollArea>
+        </SheetContent>
+      </Sheet>
+    </div>
+  );
+};
+
+export default HistoryPanel;
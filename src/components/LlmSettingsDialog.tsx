@@ -0,0 +1,124 @@
+import React, { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger
+} from '@/components/ui/dialog';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Cpu } from 'lucide-react';
+import { DEFAULT_LLM_SETTINGS, LlmSettings } from '@/utils/llmProvider';
+
+interface LlmSettingsDialogProps {
+  settings: LlmSettings;
+  onSettingsChange: (settings: LlmSettings) => void;
+}
+
+const LlmSettingsDialog: React.FC<LlmSettingsDialogProps> = ({ settings, onSettingsChange }) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const [draft, setDraft] = useState(settings);
+
+  const handleOpenChange = (open: boolean) => {
+    setIsOpen(open);
+    if (open) setDraft(settings);
+  };
+
+  const handleSave = () => {
+    onSettingsChange({ ...draft, baseUrl: draft.baseUrl.trim().replace(/\/+$/, ''), model: draft.model.trim() });
+    setIsOpen(false);
+  };
+
+  const isRemote = draft.provider === 'openai-compatible';
+
+  return (
+    <Dialog open={isOpen} onOpenChange={handleOpenChange}>
+      <DialogTrigger asChild>
+        <Button variant="outline" size="sm" className="border-slate-600 text-slate-300 max-w-[180px]">
+          <Cpu className="h-4 w-4 mr-2 flex-shrink-0" />
+          <span className="truncate">{settings.provider === 'openai-compatible' ? settings.model : 'Offline'}</span>
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="bg-slate-900 border-slate-700 text-white max-w-lg">
+        <DialogHeader>
+          <DialogTitle className="text-white">Language model</DialogTitle>
+          <DialogDescription className="text-slate-400">
+            Used by AI Query and the natural language rule builder. Answers are checked against the
+            filter and rule schemas before they touch the data.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div>
+            <Label className="text-slate-300">Provider</Label>
+            <Select
+              value={draft.provider}
+              onValueChange={(provider) => setDraft({ ...draft, provider: provider as LlmSettings['provider'] })}
+            >
+              <SelectTrigger className="bg-slate-800 border-slate-600 text-white">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="offline">Offline parser (no model)</SelectItem>
+                <SelectItem value="openai-compatible">OpenAI-compatible API</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+
+          {isRemote && (
+            <>
+              <div>
+                <Label className="text-slate-300">Base URL</Label>
+                <Input
+                  value={draft.baseUrl}
+                  onChange={(e) => setDraft({ ...draft, baseUrl: e.target.value })}
+                  placeholder={DEFAULT_LLM_SETTINGS.baseUrl}
+                  className="bg-slate-800 border-slate-600 text-white font-mono"
+                />
+              </div>
+              <div>
+                <Label className="text-slate-300">Model</Label>
+                <Input
+                  value={draft.model}
+                  onChange={(e) => setDraft({ ...draft, model: e.target.value })}
+                  placeholder={DEFAULT_LLM_SETTINGS.model}
+                  className="bg-slate-800 border-slate-600 text-white font-mono"
+                />
+              </div>
+              <div>
+                <Label className="text-slate-300">API key (optional for local servers)</Label>
+                <Input
+                  type="password"
+                  value={draft.apiKey}
+                  onChange={(e) => setDraft({ ...draft, apiKey: e.target.value })}
+                  className="bg-slate-800 border-slate-600 text-white"
+                />
+                <p className="text-xs text-slate-500 mt-1">Stored in this browser only.</p>
+              </div>
+            </>
+          )}
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => setIsOpen(false)}>
+            Cancel
+          </Button>
+          <Button
+            onClick={handleSave}
+            disabled={isRemote && (!draft.baseUrl.trim() || !draft.model.trim())}
+            className="bg-purple-600 hover:bg-purple-700"
+          >
+            Save
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default LlmSettingsDialog;
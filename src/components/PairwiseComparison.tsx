@@ -0,0 +1,157 @@
+import React, { useMemo } from 'react';
+import { Card } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Slider } from '@/components/ui/slider';
+import { AlertTriangle, CheckCircle, RotateCcw, Scale } from 'lucide-react';
+import { PrioritizationRule } from '@/utils/prioritization';
+import {
+  CONSISTENCY_THRESHOLD,
+  PairwiseJudgments,
+  deriveAhpWeights,
+  describeJudgment,
+  getJudgment,
+  setJudgment,
+  snapToScale
+} from '@/utils/ahp';
+
+interface PairwiseComparisonProps {
+  rules: PrioritizationRule[];
+  judgments: PairwiseJudgments;
+  onJudgmentsChange: (judgments: PairwiseJudgments) => void;
+  // Weights out of 100 by rule id
+  onApplyWeights: (weights: { [ruleId: string]: number }) => void;
+}
+
+// Slider positions run from -8 (left criterion 9× more important) to 8 (right 9×)
+const toPosition = (ratio: number) => (ratio >= 1 ? -(Math.round(ratio) - 1) : Math.round(1 / ratio) - 1);
+const toRatio = (position: number) => (position <= 0 ? 1 - position : 1 / (1 + position));
+
+const PairwiseComparison: React.FC<PairwiseComparisonProps> = ({ rules, judgments, onJudgmentsChange, onApplyWeights }) => {
+  const ids = rules.map(rule => rule.id);
+  const nameOf = (id: string) => rules.find(rule => rule.id === id)?.name ?? id;
+  const result = useMemo(() => deriveAhpWeights(rules.map(rule => rule.id), judgments), [rules, judgments]);
+
+  const pairs = ids.flatMap((a, index) => ids.slice(index + 1).map(b => [a, b] as const));
+  const derived = Object.fromEntries(rules.map((rule, index) => [rule.id, Math.round(result.weights[index] * 100)]));
+
+  if (rules.length < 2) {
+    return (
+      <Card className="p-6 bg-slate-800/50 border-slate-700">
+        <p className="text-sm text-slate-400">Pairwise comparison needs at least two criteria.</p>
+      </Card>
+    );
+  }
+
+  return (
+    <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+      <Card className="p-6 bg-slate-800/50 border-slate-700 lg:col-span-2">
+        <div className="mb-4">
+          <h3 className="text-lg font-semibold text-white mb-2">Compare Criteria in Pairs</h3>
+          <p className="text-sm text-slate-400">
+            Move each slider towards the criterion that matters more, from equal in the middle to extremely more important at the ends
+          </p>
+        </div>
+
+        <div className="space-y-5">
+          {pairs.map(([a, b]) => {
+            const ratio = getJudgment(judgments, a, b);
+            return (
+              <div key={`${a}|${b}`} className="space-y-2">
+                <div className="flex items-center justify-between text-sm">
+                  <span className={ratio > 1 ? 'text-white font-medium' : 'text-slate-400'}>{nameOf(a)}</span>
+                  <span className={ratio < 1 ? 'text-white font-medium' : 'text-slate-400'}>{nameOf(b)}</span>
+                </div>
+                <Slider
+                  value={[toPosition(ratio)]}
+                  onValueChange={(value) => onJudgmentsChange(setJudgment(judgments, a, b, toRatio(value[0])))}
+                  min={-8}
+                  max={8}
+                  step={1}
+                  className="w-full"
+                />
+                <p className="text-xs text-purple-200 text-center">{describeJudgment(nameOf(a), nameOf(b), ratio)}</p>
+              </div>
+            );
+          })}
+        </div>
+      </Card>
+
+      <div className="space-y-6">
+        <Card className="p-6 bg-slate-800/50 border-slate-700">
+          <h3 className="text-lg font-semibold text-white mb-4 flex items-center">
+            <Scale className="h-5 w-5 mr-2 text-purple-400" />
+            Derived Weights
+          </h3>
+          <div className="space-y-3">
+            {rules.map(rule => (
+              <div key={rule.id} className="space-y-1">
+                <div className="flex items-center justify-between text-sm">
+                  <span className="text-slate-300">{rule.name}</span>
+                  <span className="text-white font-medium">
+                    {derived[rule.id]}%
+                    <span className="text-xs text-slate-500 ml-2">now {rule.weight}%</span>
+                  </span>
+                </div>
+                <div className="h-2 rounded-full bg-slate-700 overflow-hidden">
+                  <div className="h-full bg-purple-500" style={{ width: `${derived[rule.id]}%` }} />
+                </div>
+              </div>
+            ))}
+          </div>
+          <div className="flex space-x-2 mt-6">
+            <Button onClick={() => onApplyWeights(derived)} className="flex-1 bg-purple-600 hover:bg-purple-700">
+              Apply Weights
+            </Button>
+            <Button
+              onClick={() => onJudgmentsChange({})}
+              variant="outline"
+              className="border-slate-600 text-slate-300"
+              title="Set every pair back to equal"
+            >
+              <RotateCcw className="h-4 w-4" />
+            </Button>
+          </div>
+        </Card>
+
+        <Card className={`p-6 ${result.consistent
+          ? 'bg-green-500/10 border-green-500/30'
+          : 'bg-yellow-500/10 border-yellow-500/30'}`}
+        >
+          <div className="flex items-center space-x-2 mb-2">
+            {result.consistent
+              ? <CheckCircle className="h-5 w-5 text-green-400" />
+              : <AlertTriangle className="h-5 w-5 text-yellow-400" />}
+            <h3 className="text-lg font-semibold text-white">Consistency</h3>
+          </div>
+          {result.consistencyRatio === null ? (
+            <p className="text-sm text-slate-300">Two criteria cannot contradict each other; compare at least three to check consistency.</p>
+          ) : (
+            <>
+              <p className="text-sm text-slate-300">
+                Consistency ratio <span className="font-semibold text-white">{result.consistencyRatio.toFixed(2)}</span>
+                {result.consistent
+                  ? ` is within ${CONSISTENCY_THRESHOLD.toFixed(2)}; the judgments agree with each other.`
+                  : ` is above ${CONSISTENCY_THRESHOLD.toFixed(2)}; some judgments contradict the others.`}
+              </p>
+              {!result.consistent && (
+                <div className="mt-3 space-y-2">
+                  <p className="text-xs text-slate-400">Revisit these first:</p>
+                  {result.worstJudgments.map(judgment => (
+                    <div key={`${judgment.a}|${judgment.b}`} className="text-xs p-2 rounded bg-slate-800/60 border border-slate-700">
+                      <p className="text-slate-300">You said: {describeJudgment(nameOf(judgment.a), nameOf(judgment.b), judgment.given)}</p>
+                      <p className="text-yellow-300">
+                        Your other answers suggest: {describeJudgment(nameOf(judgment.a), nameOf(judgment.b), snapToScale(judgment.implied))}
+                      </p>
+                    </div>
+                  ))}
+                </div>
+              )}
+            </>
+          )}
+        </Card>
+      </div>
+    </div>
+  );
+};
+
+export default PairwiseComparison;
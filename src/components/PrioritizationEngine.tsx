@@ -1,190 +1,260 @@
-
-import React, { useState } from 'react';
+import React, { useMemo, useRef, useState } from 'react';
 import { Card } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Slider } from '@/components/ui/slider';
 import { Badge } from '@/components/ui/badge';
-import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import {
+  Select,
+  SelectContent,
+  SelectGroup,
+  SelectItem,
+  SelectLabel,
+  SelectTrigger,
+  SelectValue
+} from '@/components/ui/select';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
 import { Input } from '@/components/ui/input';
-import { DragDropContext, Droppable, Draggable } from 'react-beautiful-dnd';
-import { ArrowUpDown, Zap, Settings, Save, RotateCcw } from 'lucide-react';
+import { DragDropContext, Droppable, Draggable, DropResult } from 'react-beautiful-dnd';
+import { AlertTriangle, ArrowDown, ArrowUp, ArrowUpDown, Download, Zap, Settings, Save, RotateCcw, Trash2, Upload } from 'lucide-react';
 import { toast } from 'sonner';
+import PriorityRanking from '@/components/PriorityRanking';
+import PairwiseComparison from '@/components/PairwiseComparison';
+import {
+  DEFAULT_PRIORITIZATION_CONFIG,
+  PRIORITY_METRIC_IDS,
+  PRIORITY_METRICS,
+  RANK_WEIGHT_METHODS,
+  RANK_WEIGHT_METHOD_LABELS,
+  PrioritizationConfig,
+  PrioritizationRule,
+  PriorityDataFile,
+  RankWeightMethod,
+  WeightMethod,
+  describeRuleBinding,
+  getBindableColumns,
+  getRuleBinding,
+  isRankWeightMethod,
+  rankByPriority,
+  rankToWeights,
+  sortRulesByWeight
+} from '@/utils/prioritization';
+import {
+  BUILT_IN_TEMPLATES,
+  PrioritizationTemplate,
+  createTemplateFromRules,
+  getUnboundCriteria,
+  isBuiltInTemplate,
+  mergeTemplates,
+  parseTemplatesFile,
+  readUserTemplates,
+  saveUserTemplates,
+  serializeTemplatesFile
+} from '@/utils/prioritizationTemplates';
 
-interface PrioritizationRule {
-  id: string;
-  name: string;
-  weight: number;
-  type: 'business' | 'technical' | 'temporal';
-  description: string;
-}
+// Where weights came from when they do not follow the drag and drop order
+const WEIGHT_SOURCES: { [method: string]: string } = {
+  manual: 'set with the sliders',
+  template: 'taken from a template',
+  ahp: 'derived from pairwise comparisons'
+};
+
+const downloadTemplates = (templates: PrioritizationTemplate[], fileName: string) => {
+  const blob = new Blob([serializeTemplatesFile(templates)], { type: 'application/json' });
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement('a');
+  a.href = url;
+  a.download = fileName;
+  a.click();
+  URL.revokeObjectURL(url);
+};
 
-interface PrioritizationTemplate {
-  id: string;
-  name: string;
-  description: string;
-  rules: Omit<PrioritizationRule, 'id'>[];
+// Select values for a binding: "metric:<id>" or "column:<header>"
+const toBindingValue = (rule: PrioritizationRule) => {
+  const binding = getRuleBinding(rule);
+  if (!binding) return '';
+  return binding.kind === 'metric' ? `metric:${binding.metric}` : `column:${binding.column}`;
+};
+
+interface PrioritizationEngineProps {
+  files: { [fileName: string]: PriorityDataFile };
+  config: PrioritizationConfig;
+  onConfigChange: (config: PrioritizationConfig) => void;
 }
 
-const PrioritizationEngine: React.FC = () => {
-  const [activeTemplate, setActiveTemplate] = useState<string>('custom');
-  const [prioritizationRules, setPrioritizationRules] = useState<PrioritizationRule[]>([
-    {
-      id: '1',
-      name: 'Data Completeness',
-      weight: 80,
-      type: 'technical',
-      description: 'Prioritize files with fewer missing values'
-    },
-    {
-      id: '2',
-      name: 'Business Criticality',
-      weight: 90,
-      type: 'business',
-      description: 'Files marked as business-critical get higher priority'
-    },
-    {
-      id: '3',
-      name: 'File Size',
-      weight: 60,
-      type: 'technical',
-      description: 'Smaller files processed first for quick wins'
-    },
-    {
-      id: '4',
-      name: 'Upload Timestamp',
-      weight: 40,
-      type: 'temporal',
-      description: 'Recently uploaded files get priority'
-    },
-    {
-      id: '5',
-      name: 'Error Density',
-      weight: 85,
-      type: 'technical',
-      description: 'Files with fewer errors processed first'
-    }
-  ]);
-
-  const templates: PrioritizationTemplate[] = [
-    {
-      id: 'quality-first',
-      name: 'Quality First',
-      description: 'Prioritize data quality and completeness over speed',
-      rules: [
-        { name: 'Data Completeness', weight: 95, type: 'technical', description: 'Prioritize complete datasets' },
-        { name: 'Error Density', weight: 90, type: 'technical', description: 'Low error rate priority' },
-        { name: 'Business Criticality', weight: 70, type: 'business', description: 'Business importance' },
-        { name: 'File Size', weight: 30, type: 'technical', description: 'Size consideration' }
-      ]
-    },
-    {
-      id: 'speed-optimized',
-      name: 'Speed Optimized',
-      description: 'Process files quickly for immediate results',
-      rules: [
-        { name: 'File Size', weight: 95, type: 'technical', description: 'Small files first' },
-        { name: 'Simple Structure', weight: 85, type: 'technical', description: 'Simple schemas first' },
-        { name: 'Low Error Count', weight: 80, type: 'technical', description: 'Clean data priority' },
-        { name: 'Recent Upload', weight: 60, type: 'temporal', description: 'Recent files' }
-      ]
-    },
-    {
-      id: 'business-critical',
-      name: 'Business Critical',
-      description: 'Business value and impact driven prioritization',
-      rules: [
-        { name: 'Business Criticality', weight: 100, type: 'business', description: 'Maximum business priority' },
-        { name: 'Revenue Impact', weight: 90, type: 'business', description: 'High revenue impact' },
-        { name: 'Stakeholder Priority', weight: 85, type: 'business', description: 'Key stakeholder requests' },
-        { name: 'Deadline Proximity', weight: 75, type: 'temporal', description: 'Urgent deadlines' }
-      ]
-    }
-  ];
+const PrioritizationEngine: React.FC<PrioritizationEngineProps> = ({ files, config, onConfigChange }) => {
+  const { template: activeTemplate, rules: prioritizationRules } = config;
+  const weightMethod = config.weightMethod ?? 'manual';
+  const [rankMethod, setRankMethod] = useState<RankWeightMethod>(isRankWeightMethod(weightMethod) ? weightMethod : 'roc');
+
+  // The drag and drop list is the rules ranked by weight, so it follows the sliders
+  const rankedRules = useMemo(() => sortRulesByWeight(prioritizationRules), [prioritizationRules]);
+  const rankWeights = rankToWeights(rankedRules.length, rankMethod);
+
+  const setPrioritizationRules = (rules: PrioritizationRule[], method: WeightMethod) => {
+    onConfigChange({ ...config, rules, weightMethod: method });
+  };
+
+  const applyRankWeights = (ordered: PrioritizationRule[], method: RankWeightMethod) => {
+    const weights = rankToWeights(ordered.length, method);
+    setPrioritizationRules(ordered.map((rule, index) => ({ ...rule, weight: weights[index] })), method);
+  };
+
+  const [userTemplates, setUserTemplates] = useState<PrioritizationTemplate[]>(readUserTemplates);
+  const [templateName, setTemplateName] = useState('');
+  const [templateDescription, setTemplateDescription] = useState('');
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const templates = [...BUILT_IN_TEMPLATES, ...userTemplates];
+
+  const ranking = useMemo(() => rankByPriority(config, files), [config, files]);
+  const unboundNotes = (ruleId: string) => ranking.unbound
+    .filter(entry => entry.ruleId === ruleId)
+    .map(entry => `${entry.reason}; left out of the ${entry.entity ? `${entry.entity.slice(0, -1)} ` : ''}ranking`);
+  const bindableColumns = useMemo(() => getBindableColumns(files), [files]);
+
+  const updateUserTemplates = (next: PrioritizationTemplate[]) => {
+    setUserTemplates(next);
+    saveUserTemplates(next);
+  };
 
   const updateRuleWeight = (ruleId: string, newWeight: number) => {
-    setPrioritizationRules(rules => 
-      rules.map(rule => 
+    setPrioritizationRules(
+      prioritizationRules.map(rule => 
         rule.id === ruleId ? { ...rule, weight: newWeight } : rule
-      )
+      ),
+      'manual'
     );
   };
 
-  const handleDragEnd = (result: any) => {
+  // Binding a criterion changes what it measures, not its weight
+  const updateRuleBinding = (ruleId: string, value: string) => {
+    const separator = value.indexOf(':');
+    const kind = value.slice(0, separator);
+    const target = value.slice(separator + 1);
+    setPrioritizationRules(
+      prioritizationRules.map(rule => {
+        if (rule.id !== ruleId) return rule;
+        return kind === 'metric'
+          ? { ...rule, metric: target as PrioritizationRule['metric'], column: undefined, higherIsBetter: undefined }
+          : { ...rule, metric: undefined, column: target, higherIsBetter: rule.higherIsBetter ?? true };
+      }),
+      weightMethod
+    );
+  };
+
+  const toggleColumnDirection = (ruleId: string) => {
+    setPrioritizationRules(
+      prioritizationRules.map(rule =>
+        rule.id === ruleId ? { ...rule, higherIsBetter: !(rule.higherIsBetter ?? true) } : rule
+      ),
+      weightMethod
+    );
+  };
+
+  const handleDragEnd = (result: DropResult) => {
     if (!result.destination) return;
 
-    const items = Array.from(prioritizationRules);
+    const items = Array.from(rankedRules);
     const [reorderedItem] = items.splice(result.source.index, 1);
     items.splice(result.destination.index, 0, reorderedItem);
 
-    setPrioritizationRules(items);
+    applyRankWeights(items, rankMethod);
     toast.success('Rule order updated');
   };
 
+  const changeRankMethod = (method: RankWeightMethod) => {
+    setRankMethod(method);
+    applyRankWeights(rankedRules, method);
+    toast.success(`Weights set by ${RANK_WEIGHT_METHOD_LABELS[method].label.toLowerCase()}`);
+  };
+
   const applyTemplate = (templateId: string) => {
     const template = templates.find(t => t.id === templateId);
     if (template) {
-      const newRules = template.rules.map((rule, index) => ({
-        ...rule,
-        id: `template-${index}`
-      }));
-      setPrioritizationRules(newRules);
-      setActiveTemplate(templateId);
-      toast.success(`Applied ${template.name} template`);
+      onConfigChange({
+        template: templateId,
+        rules: template.rules,
+        weightMethod: 'template',
+        pairwise: template.pairwise ?? config.pairwise
+      });
+      const unbound = getUnboundCriteria(template.rules);
+      if (unbound.length > 0) {
+        toast.warning(`Applied ${template.name}; ${unbound.join(', ')} ${unbound.length === 1 ? 'is' : 'are'} not bound and will not affect the ranking`);
+      } else {
+        toast.success(`Applied ${template.name} template`);
+      }
     }
   };
 
-  const resetToDefault = () => {
-    // Reset to original default rules
-    setPrioritizationRules([
-      {
-        id: '1',
-        name: 'Data Completeness',
-        weight: 80,
-        type: 'technical',
-        description: 'Prioritize files with fewer missing values'
-      },
-      {
-        id: '2',
-        name: 'Business Criticality',
-        weight: 90,
-        type: 'business',
-        description: 'Files marked as business-critical get higher priority'
-      },
-      {
-        id: '3',
-        name: 'File Size',
-        weight: 60,
-        type: 'technical',
-        description: 'Smaller files processed first for quick wins'
-      },
-      {
-        id: '4',
-        name: 'Upload Timestamp',
-        weight: 40,
-        type: 'temporal',
-        description: 'Recently uploaded files get priority'
-      },
-      {
-        id: '5',
-        name: 'Error Density',
-        weight: 85,
-        type: 'technical',
-        description: 'Files with fewer errors processed first'
+  const saveAsTemplate = () => {
+    if (!templateName.trim()) {
+      toast.error('Give the template a name');
+      return;
+    }
+    const template = createTemplateFromRules(templateName, templateDescription, prioritizationRules, config.pairwise);
+    updateUserTemplates([...userTemplates, template]);
+    onConfigChange({ ...config, template: template.id });
+    setTemplateName('');
+    setTemplateDescription('');
+
+    const unbound = getUnboundCriteria(template.rules);
+    if (unbound.length > 0) {
+      toast.warning(`Saved ${template.name}; bind ${unbound.join(', ')} so ${unbound.length === 1 ? 'it counts' : 'they count'} in the ranking`);
+    } else {
+      toast.success(`Saved ${template.name} template`);
+    }
+  };
+
+  const deleteTemplate = (templateId: string) => {
+    const template = userTemplates.find(t => t.id === templateId);
+    updateUserTemplates(userTemplates.filter(t => t.id !== templateId));
+    if (template) toast.success(`Deleted ${template.name} template`);
+  };
+
+  const exportTemplate = (template: PrioritizationTemplate) => {
+    downloadTemplates([template], `${template.name.replace(/[^\w-]+/g, '-').toLowerCase() || 'template'}.template.json`);
+  };
+
+  const importTemplates = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (!file) return;
+
+    try {
+      const incoming = parseTemplatesFile(await file.text());
+      updateUserTemplates(mergeTemplates(userTemplates, incoming));
+      const unbound = incoming.reduce((total, template) => total + getUnboundCriteria(template.rules).length, 0);
+      const summary = `Imported ${incoming.length} ${incoming.length === 1 ? 'template' : 'templates'} from ${file.name}`;
+      if (unbound > 0) {
+        toast.warning(`${summary}; ${unbound} ${unbound === 1 ? 'criterion is' : 'criteria are'} not bound to a metric or column`);
+      } else {
+        toast.success(summary);
       }
-    ]);
-    setActiveTemplate('custom');
+    } catch (error) {
+      toast.error(`Invalid templates file: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  };
+
+  const applyPairwiseWeights = (weights: { [ruleId: string]: number }) => {
+    setPrioritizationRules(prioritizationRules.map(rule => ({ ...rule, weight: weights[rule.id] ?? rule.weight })), 'ahp');
+    toast.success('Applied weights from pairwise comparisons');
+  };
+
+  const resetToDefault = () => {
+    onConfigChange(DEFAULT_PRIORITIZATION_CONFIG);
     toast.success('Reset to default configuration');
   };
 
   const exportConfiguration = () => {
-    const config = {
+    const exportedConfig = {
       template: activeTemplate,
       rules: prioritizationRules,
+      // What produced the weights: manual, template, ahp, rank-sum, reciprocal or roc
+      weightMethod,
+      pairwise: config.pairwise ?? {},
       timestamp: new Date().toISOString()
     };
 
-    const blob = new Blob([JSON.stringify(config, null, 2)], { type: 'application/json' });
+    const blob = new Blob([JSON.stringify(exportedConfig, null, 2)], { type: 'application/json' });
     const url = URL.createObjectURL(blob);
     const a = document.createElement('a');
     a.href = url;
@@ -194,18 +264,13 @@ const PrioritizationEngine: React.FC = () => {
     toast.success('Configuration exported');
   };
 
-  const calculatePriorityScore = () => {
-    const totalWeight = prioritizationRules.reduce((sum, rule) => sum + rule.weight, 0);
-    return Math.round(totalWeight / prioritizationRules.length);
-  };
-
   return (
     <div className="space-y-6">
       {/* Header */}
       <div className="flex items-center justify-between">
         <div>
           <h2 className="text-2xl font-bold text-white">Processing Prioritization</h2>
-          <p className="text-slate-400">Configure how files should be prioritized for processing</p>
+          <p className="text-slate-400">Weight the criteria that rank your clients and tasks</p>
         </div>
         <div className="flex items-center space-x-2">
           <Button onClick={resetToDefault} variant="outline" size="sm" className="border-slate-600">
@@ -219,23 +284,12 @@ const PrioritizationEngine: React.FC = () => {
         </div>
       </div>
 
-      {/* Priority Score */}
-      <Card className="p-6 bg-gradient-to-r from-purple-500/20 to-blue-500/20 border-purple-500/30">
-        <div className="flex items-center justify-between">
-          <div>
-            <h3 className="text-lg font-semibold text-white">Current Priority Score</h3>
-            <p className="text-sm text-slate-300">Overall processing priority based on your rules</p>
-          </div>
-          <div className="text-right">
-            <div className="text-3xl font-bold text-white">{calculatePriorityScore()}</div>
-            <p className="text-sm text-slate-400">out of 100</p>
-          </div>
-        </div>
-      </Card>
+      <PriorityRanking ranking={ranking} rules={prioritizationRules} />
 
       <Tabs defaultValue="sliders" className="space-y-4">
-        <TabsList className="grid w-full grid-cols-3 bg-slate-800/50">
+        <TabsList className="grid w-full grid-cols-4 bg-slate-800/50">
           <TabsTrigger value="sliders">Weight Sliders</TabsTrigger>
+          <TabsTrigger value="pairwise">Pairwise (AHP)</TabsTrigger>
           <TabsTrigger value="dragdrop">Drag & Drop</TabsTrigger>
           <TabsTrigger value="templates">Templates</TabsTrigger>
         </TabsList>
@@ -258,6 +312,55 @@ const PrioritizationEngine: React.FC = () => {
                     </Badge>
                   </div>
                   
+                  <div className="space-y-2">
+                    <label className="text-sm text-slate-300">Measures</label>
+                    <div className="flex items-center space-x-2">
+                      <Select value={toBindingValue(rule)} onValueChange={(value) => updateRuleBinding(rule.id, value)}>
+                        <SelectTrigger className="bg-slate-700 border-slate-600 text-white">
+                          <SelectValue placeholder="Choose a metric or column" />
+                        </SelectTrigger>
+                        <SelectContent>
+                          <SelectGroup>
+                            <SelectLabel>Metrics</SelectLabel>
+                            {PRIORITY_METRIC_IDS.map(metric => (
+                              <SelectItem key={metric} value={`metric:${metric}`}>{PRIORITY_METRICS[metric].label}</SelectItem>
+                            ))}
+                          </SelectGroup>
+                          {(bindableColumns.length > 0 || rule.column) && (
+                            <SelectGroup>
+                              <SelectLabel>Columns</SelectLabel>
+                              {Array.from(new Set([...bindableColumns, ...(rule.column ? [rule.column] : [])])).map(column => (
+                                <SelectItem key={column} value={`column:${column}`}>{column}</SelectItem>
+                              ))}
+                            </SelectGroup>
+                          )}
+                        </SelectContent>
+                      </Select>
+                      {rule.column && (
+                        <Button
+                          size="sm"
+                          variant="outline"
+                          onClick={() => toggleColumnDirection(rule.id)}
+                          title="Which end of the column ranks first"
+                          className="border-slate-600 text-slate-300 flex-shrink-0"
+                        >
+                          {rule.higherIsBetter ?? true
+                            ? <><ArrowUp className="h-4 w-4 mr-1" />Higher first</>
+                            : <><ArrowDown className="h-4 w-4 mr-1" />Lower first</>}
+                        </Button>
+                      )}
+                    </div>
+                    {getRuleBinding(rule) && (
+                      <p className="text-xs text-slate-500">{describeRuleBinding(getRuleBinding(rule)!).description}</p>
+                    )}
+                    {unboundNotes(rule.id).map(note => (
+                      <p key={note} className="text-xs text-yellow-400 flex items-center">
+                        <AlertTriangle className="h-3 w-3 mr-1 flex-shrink-0" />
+                        {note}
+                      </p>
+                    ))}
+                  </div>
+
                   <div className="space-y-2">
                     <div className="flex items-center justify-between">
                       <label className="text-sm text-slate-300">Weight</label>
@@ -278,18 +381,53 @@ const PrioritizationEngine: React.FC = () => {
           </div>
         </TabsContent>
 
+        <TabsContent value="pairwise" className="space-y-4">
+          <PairwiseComparison
+            rules={prioritizationRules}
+            judgments={config.pairwise ?? {}}
+            onJudgmentsChange={(pairwise) => onConfigChange({ ...config, pairwise })}
+            onApplyWeights={applyPairwiseWeights}
+          />
+        </TabsContent>
+
         <TabsContent value="dragdrop" className="space-y-4">
           <Card className="p-6 bg-slate-800/50 border-slate-700">
-            <div className="mb-4">
-              <h3 className="text-lg font-semibold text-white mb-2">Drag to Reorder Priority</h3>
-              <p className="text-sm text-slate-400">Rules at the top have higher priority</p>
+            <div className="flex items-start justify-between mb-4">
+              <div>
+                <h3 className="text-lg font-semibold text-white mb-2">Drag to Reorder Priority</h3>
+                <p className="text-sm text-slate-400">Rules at the top have higher priority; their weights follow from the order</p>
+              </div>
+              <div className="w-56">
+                <Select value={rankMethod} onValueChange={(value) => changeRankMethod(value as RankWeightMethod)}>
+                  <SelectTrigger className="bg-slate-700 border-slate-600 text-white">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {RANK_WEIGHT_METHODS.map(method => (
+                      <SelectItem key={method} value={method}>{RANK_WEIGHT_METHOD_LABELS[method].label}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <p className="text-xs text-slate-500 mt-1">{RANK_WEIGHT_METHOD_LABELS[rankMethod].description}</p>
+              </div>
             </div>
-            
+
+            {!isRankWeightMethod(weightMethod) && (
+              <div className="flex items-center justify-between mb-4 p-3 rounded-lg bg-slate-700/30 border border-slate-600">
+                <p className="text-sm text-slate-300">
+                  The weights were {WEIGHT_SOURCES[weightMethod]}; drag a rule or apply {RANK_WEIGHT_METHOD_LABELS[rankMethod].label.toLowerCase()} to weight by this order.
+                </p>
+                <Button size="sm" variant="outline" onClick={() => changeRankMethod(rankMethod)} className="border-slate-600 ml-4">
+                  Apply
+                </Button>
+              </div>
+            )}
+
             <DragDropContext onDragEnd={handleDragEnd}>
               <Droppable droppableId="rules">
                 {(provided) => (
                   <div {...provided.droppableProps} ref={provided.innerRef} className="space-y-3">
-                    {prioritizationRules.map((rule, index) => (
+                    {rankedRules.map((rule, index) => (
                       <Draggable key={rule.id} draggableId={rule.id} index={index}>
                         {(provided, snapshot) => (
                           <div
@@ -306,6 +444,9 @@ const PrioritizationEngine: React.FC = () => {
                                 <div className="flex items-center justify-between">
                                   <h4 className="text-white font-medium">{rule.name}</h4>
                                   <div className="flex items-center space-x-2">
+                                    {!isRankWeightMethod(weightMethod) && (
+                                      <span className="text-xs text-slate-500">→ {rankWeights[index]}%</span>
+                                    )}
                                     <Badge variant="outline">{rule.weight}%</Badge>
                                     <Badge variant={
                                       rule.type === 'business' ? 'default' : 
@@ -331,52 +472,126 @@ const PrioritizationEngine: React.FC = () => {
         </TabsContent>
 
         <TabsContent value="templates" className="space-y-4">
+          <div className="flex items-center justify-between">
+            <p className="text-sm text-slate-400">
+              Built-in templates and the ones you saved; each criterion measures a metric or a column of your data
+            </p>
+            <div className="flex items-center space-x-2">
+              <Button onClick={() => fileInputRef.current?.click()} variant="outline" size="sm" className="border-slate-600">
+                <Upload className="h-4 w-4 mr-2" />
+                Import
+              </Button>
+              {userTemplates.length > 0 && (
+                <Button
+                  onClick={() => downloadTemplates(userTemplates, 'prioritization-templates.json')}
+                  variant="outline"
+                  size="sm"
+                  className="border-slate-600"
+                >
+                  <Download className="h-4 w-4 mr-2" />
+                  Export saved
+                </Button>
+              )}
+              <input
+                ref={fileInputRef}
+                type="file"
+                accept="application/json,.json"
+                onChange={importTemplates}
+                className="hidden"
+              />
+            </div>
+          </div>
+
           <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
-            {templates.map((template) => (
-              <Card key={template.id} className={`p-6 cursor-pointer transition-all ${
-                activeTemplate === template.id 
-                  ? 'bg-purple-500/20 border-purple-500/50' 
-                  : 'bg-slate-800/50 border-slate-700 hover:bg-slate-700/50'
-              }`}>
-                <div className="space-y-4">
-                  <div>
-                    <h3 className="text-lg font-semibold text-white">{template.name}</h3>
-                    <p className="text-sm text-slate-400 mt-1">{template.description}</p>
-                  </div>
-                  
-                  <div className="space-y-2">
-                    {template.rules.slice(0, 3).map((rule, index) => (
-                      <div key={index} className="flex items-center justify-between text-sm">
-                        <span className="text-slate-300">{rule.name}</span>
-                        <span className="text-slate-400">{rule.weight}%</span>
+            {templates.map((template) => {
+              const unbound = getUnboundCriteria(template.rules);
+              return (
+                <Card key={template.id} className={`p-6 cursor-pointer transition-all ${
+                  activeTemplate === template.id 
+                    ? 'bg-purple-500/20 border-purple-500/50' 
+                    : 'bg-slate-800/50 border-slate-700 hover:bg-slate-700/50'
+                }`}>
+                  <div className="space-y-4">
+                    <div>
+                      <div className="flex items-start justify-between">
+                        <h3 className="text-lg font-semibold text-white">{template.name}</h3>
+                        <div className="flex items-center space-x-1">
+                          <Button
+                            size="sm"
+                            variant="ghost"
+                            onClick={() => exportTemplate(template)}
+                            title="Export this template"
+                            className="h-8 w-8 p-0 text-slate-400 hover:text-white"
+                          >
+                            <Download className="h-4 w-4" />
+                          </Button>
+                          {!isBuiltInTemplate(template.id) && (
+                            <Button
+                              size="sm"
+                              variant="ghost"
+                              onClick={() => deleteTemplate(template.id)}
+                              title="Delete"
+                              className="h-8 w-8 p-0 text-slate-400 hover:text-red-400"
+                            >
+                              <Trash2 className="h-4 w-4" />
+                            </Button>
+                          )}
+                        </div>
                       </div>
-                    ))}
-                    {template.rules.length > 3 && (
-                      <p className="text-xs text-slate-500">+{template.rules.length - 3} more rules</p>
-                    )}
+                      <p className="text-sm text-slate-400 mt-1">{template.description}</p>
+                      {unbound.length > 0 && (
+                        <p className="text-xs text-yellow-400 mt-2 flex items-center" title={unbound.join(', ')}>
+                          <AlertTriangle className="h-3 w-3 mr-1 flex-shrink-0" />
+                          {unbound.length} {unbound.length === 1 ? 'criterion is' : 'criteria are'} not bound to a metric or column
+                        </p>
+                      )}
+                    </div>
+                    
+                    <div className="space-y-2">
+                      {template.rules.slice(0, 3).map((rule, index) => (
+                        <div key={index} className="flex items-center justify-between text-sm">
+                          <span className={unbound.includes(rule.name) ? 'text-yellow-400' : 'text-slate-300'}>{rule.name}</span>
+                          <span className="text-slate-400">{rule.weight}%</span>
+                        </div>
+                      ))}
+                      {template.rules.length > 3 && (
+                        <p className="text-xs text-slate-500">+{template.rules.length - 3} more rules</p>
+                      )}
+                    </div>
+                    
+                    <Button 
+                      onClick={() => applyTemplate(template.id)}
+                      className="w-full"
+                      variant={activeTemplate === template.id ? "default" : "outline"}
+                    >
+                      <Zap className="h-4 w-4 mr-2" />
+                      {activeTemplate === template.id ? 'Active' : 'Apply Template'}
+                    </Button>
                   </div>
-                  
-                  <Button 
-                    onClick={() => applyTemplate(template.id)}
-                    className="w-full"
-                    variant={activeTemplate === template.id ? "default" : "outline"}
-                  >
-                    <Zap className="h-4 w-4 mr-2" />
-                    {activeTemplate === template.id ? 'Active' : 'Apply Template'}
-                  </Button>
-                </div>
-              </Card>
-            ))}
+                </Card>
+              );
+            })}
           </div>
 
           {/* Custom Template Creator */}
           <Card className="p-6 bg-slate-800/50 border-slate-700">
-            <h3 className="text-lg font-semibold text-white mb-4">Create Custom Template</h3>
+            <h3 className="text-lg font-semibold text-white mb-2">Create Custom Template</h3>
+            <p className="text-sm text-slate-400 mb-4">Save the current criteria, weights and bindings under a name</p>
             <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
-              <Input placeholder="Template name" className="bg-slate-700 border-slate-600" />
-              <Input placeholder="Description" className="bg-slate-700 border-slate-600" />
+              <Input
+                value={templateName}
+                onChange={(e) => setTemplateName(e.target.value)}
+                placeholder="Template name"
+                className="bg-slate-700 border-slate-600"
+              />
+              <Input
+                value={templateDescription}
+                onChange={(e) => setTemplateDescription(e.target.value)}
+                placeholder="Description"
+                className="bg-slate-700 border-slate-600"
+              />
             </div>
-            <Button className="mt-4" variant="outline">
+            <Button onClick={saveAsTemplate} disabled={!templateName.trim()} className="mt-4" variant="outline">
               <Settings className="h-4 w-4 mr-2" />
               Save as Template
             </Button>
@@ -0,0 +1,185 @@
+import React, { useState } from 'react';
+import { Card } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { AlertTriangle, ChevronDown, ChevronRight, Trophy } from 'lucide-react';
+import {
+  PRIORITY_ENTITIES,
+  PrioritizationRule,
+  PriorityEntity,
+  PriorityRanking as Ranking,
+  RankedItem,
+  describeRuleBinding,
+  formatBindingValue
+} from '@/utils/prioritization';
+
+interface PriorityRankingProps {
+  ranking: Ranking;
+  rules: PrioritizationRule[];
+}
+
+// One colour per criterion, in rule order
+const CRITERION_COLORS = [
+  'bg-purple-500',
+  'bg-blue-500',
+  'bg-emerald-500',
+  'bg-amber-500',
+  'bg-pink-500',
+  'bg-cyan-500',
+  'bg-orange-500',
+  'bg-lime-500'
+];
+
+const formatPoints = (points: number) => points.toFixed(1);
+
+const PriorityRanking: React.FC<PriorityRankingProps> = ({ ranking, rules }) => {
+  const [entity, setEntity] = useState<PriorityEntity>('tasks');
+  const [expandedId, setExpandedId] = useState<string | null>(null);
+
+  const items = ranking[entity];
+  const colorOf = (ruleId: string) =>
+    CRITERION_COLORS[rules.findIndex(rule => rule.id === ruleId) % CRITERION_COLORS.length];
+  // Rules left out of this entity's scores
+  const excluded = ranking.unbound.filter(entry => !entry.entity || entry.entity === entity);
+  const unboundIds = excluded.map(entry => entry.ruleId);
+  const unboundRules = excluded.map(entry => ({
+    name: rules.find(rule => rule.id === entry.ruleId)?.name ?? entry.ruleId,
+    reason: entry.reason
+  }));
+
+  const renderBreakdown = (item: RankedItem, next: RankedItem | undefined) => (
+    <div className="mt-3 rounded-lg border border-slate-700 overflow-x-auto">
+      <table className="w-full">
+        <thead className="bg-slate-800">
+          <tr>
+            <th className="px-3 py-2 text-left text-xs font-medium text-slate-300 uppercase">Criterion</th>
+            <th className="px-3 py-2 text-left text-xs font-medium text-slate-300 uppercase">Measured</th>
+            <th className="px-3 py-2 text-right text-xs font-medium text-slate-300 uppercase">Scaled</th>
+            <th className="px-3 py-2 text-right text-xs font-medium text-slate-300 uppercase">Weight</th>
+            <th className="px-3 py-2 text-right text-xs font-medium text-slate-300 uppercase">Points</th>
+            {next && (
+              <th className="px-3 py-2 text-right text-xs font-medium text-slate-300 uppercase">vs #{next.rank} {next.id}</th>
+            )}
+          </tr>
+        </thead>
+        <tbody className="divide-y divide-slate-700">
+          {item.contributions.map((contribution, index) => {
+            const { description } = describeRuleBinding(contribution.binding);
+            const difference = next ? contribution.points - next.contributions[index].points : 0;
+            return (
+              <tr key={contribution.ruleId}>
+                <td className="px-3 py-2 text-sm text-white">
+                  <div className="flex items-center space-x-2">
+                    <span className={`h-2 w-2 rounded-full ${colorOf(contribution.ruleId)}`} />
+                    <span title={description}>{contribution.name}</span>
+                  </div>
+                </td>
+                <td className="px-3 py-2 text-xs text-slate-400">
+                  {contribution.raw === null ? 'no value' : formatBindingValue(contribution.binding, contribution.raw)}
+                </td>
+                <td className="px-3 py-2 text-xs text-slate-300 text-right">{Math.round(contribution.normalized * 100)}%</td>
+                <td className="px-3 py-2 text-xs text-slate-300 text-right">{Math.round(contribution.share * 100)}%</td>
+                <td className="px-3 py-2 text-sm text-white text-right">{formatPoints(contribution.points)}</td>
+                {next && (
+                  <td className={`px-3 py-2 text-xs text-right ${
+                    difference > 0.05 ? 'text-green-400' : difference < -0.05 ? 'text-red-400' : 'text-slate-500'
+                  }`}>
+                    {difference > 0 ? '+' : ''}{formatPoints(difference)}
+                  </td>
+                )}
+              </tr>
+            );
+          })}
+        </tbody>
+      </table>
+    </div>
+  );
+
+  return (
+    <Card className="p-6 bg-gradient-to-r from-purple-500/20 to-blue-500/20 border-purple-500/30">
+      <div className="flex items-center justify-between mb-4">
+        <div>
+          <h3 className="text-lg font-semibold text-white flex items-center">
+            <Trophy className="h-5 w-5 mr-2 text-purple-400" />
+            Priority Ranking
+          </h3>
+          <p className="text-sm text-slate-300">
+            Scores out of 100 from your weighted criteria; click an item to see where its points come from
+          </p>
+        </div>
+        <div className="flex space-x-2">
+          {PRIORITY_ENTITIES.map(option => (
+            <Button
+              key={option}
+              size="sm"
+              variant={entity === option ? 'default' : 'outline'}
+              onClick={() => {
+                setEntity(option);
+                setExpandedId(null);
+              }}
+              className={entity === option ? 'bg-purple-600 hover:bg-purple-700' : 'border-slate-600 text-slate-300'}
+            >
+              {option === 'clients' ? 'Clients' : 'Tasks'} ({ranking[option].length})
+            </Button>
+          ))}
+        </div>
+      </div>
+
+      {unboundRules.length > 0 && (
+        <div className="flex items-center space-x-2 mb-3 text-sm text-yellow-400">
+          <AlertTriangle className="h-4 w-4 flex-shrink-0" />
+          <span>
+            Not scored: {unboundRules.map(rule => `${rule.name} (${rule.reason.charAt(0).toLowerCase()}${rule.reason.slice(1)})`).join(', ')}
+          </span>
+        </div>
+      )}
+
+      <div className="flex flex-wrap gap-3 mb-3">
+        {rules.filter(rule => !unboundIds.includes(rule.id)).map(rule => (
+          <div key={rule.id} className="flex items-center space-x-1 text-xs text-slate-300">
+            <span className={`h-2 w-2 rounded-full ${colorOf(rule.id)}`} />
+            <span>{rule.name}</span>
+          </div>
+        ))}
+      </div>
+
+      {items.length === 0 ? (
+        <p className="text-sm text-slate-400">Load a {entity === 'clients' ? 'clients' : 'tasks'} file to rank its rows.</p>
+      ) : (
+        <div className="space-y-2 max-h-[32rem] overflow-y-auto pr-1">
+          {items.map((item, index) => {
+            const key = `${item.fileName}:${item.row}`;
+            const isExpanded = expandedId === key;
+            return (
+              <div key={key} className="p-3 rounded-lg bg-slate-800/60 border border-slate-700">
+                <button
+                  onClick={() => setExpandedId(isExpanded ? null : key)}
+                  className="w-full flex items-center space-x-3 text-left"
+                >
+                  {isExpanded
+                    ? <ChevronDown className="h-4 w-4 text-slate-400 flex-shrink-0" />
+                    : <ChevronRight className="h-4 w-4 text-slate-400 flex-shrink-0" />}
+                  <span className="w-8 text-sm font-bold text-purple-300">#{item.rank}</span>
+                  <span className="w-16 text-sm font-mono text-white">{item.id}</span>
+                  <span className="flex-1 text-sm text-slate-300 truncate">{item.name}</span>
+                  <div className="hidden sm:flex w-48 h-2 rounded-full bg-slate-700 overflow-hidden">
+                    {item.contributions.map(contribution => (
+                      <div
+                        key={contribution.ruleId}
+                        className={colorOf(contribution.ruleId)}
+                        style={{ width: `${contribution.points}%` }}
+                      />
+                    ))}
+                  </div>
+                  <span className="w-12 text-right text-sm font-semibold text-white">{Math.round(item.score)}</span>
+                </button>
+                {isExpanded && renderBreakdown(item, items[index + 1])}
+              </div>
+            );
+          })}
+        </div>
+      )}
+    </Card>
+  );
+};
+
+export default PriorityRanking;
@@ -1,5 +1,5 @@
 
-import React, { useState } from 'react';
+import React, { useMemo, useRef, useState } from 'react';
 import { Card } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
@@ -7,42 +7,77 @@ import { Label } from '@/components/ui/label';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { Badge } from '@/components/ui/badge';
 import { Textarea } from '@/components/ui/textarea';
-import { Plus, Download, Trash2, Settings, Code } from 'lucide-react';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Plus, Download, Trash2, Settings, Code, Edit3, AlertTriangle, CheckCircle, GitCompare, Upload } from 'lucide-react';
 import { toast } from 'sonner';
+import RuleConditionsEditor from '@/components/RuleConditionsEditor';
+import RuleImportDialog, { PendingRulesImport } from '@/components/RuleImportDialog';
+import { ValidationError } from '@/utils/validationEngine';
+import { EntityType } from '@/utils/validationRules';
+import {
+  BusinessRule,
+  BusinessRuleType,
+  businessRuleSchema,
+  createDefaultConditions,
+  describeBusinessRule,
+  getBusinessRuleErrorId,
+  getBusinessRuleProblem,
+  getRuleOptions
+} from '@/utils/businessRules';
+import { analyzeRuleConflicts } from '@/utils/ruleConflicts';
+import { findMissingReferences, mergeBusinessRules, parseRulesFile, serializeRulesFile } from '@/utils/rulesFile';
+import { ParsedRule, RuleParseFinding, parseRuleSentence } from '@/utils/ruleParser';
+import { LlmProvider, generateBusinessRule } from '@/utils/llmProvider';
 
 interface RuleBuilderProps {
-  rules: any[];
-  onRulesChange: (rules: any[]) => void;
+  rules: BusinessRule[];
+  onRulesChange: (rules: BusinessRule[]) => void;
   files: {
     [key: string]: {
       name: string;
-      data: any[];
+      data: Record<string, unknown>[];
       headers: string[];
+      entityType?: EntityType | null;
     };
   };
+  // Current rule violations per file, for the per-rule counts
+  violations?: { [fileName: string]: ValidationError[] };
+  llmProvider: LlmProvider;
 }
 
-interface Rule {
-  id: string;
-  name: string;
-  type: 'co-run' | 'slot-restriction' | 'load-limit' | 'phase-window' | 'regex' | 'custom';
-  description: string;
-  conditions: any;
-  priority: number;
-  enabled: boolean;
-}
+const createEmptyRule = (type: BusinessRuleType = 'co-run'): BusinessRule => ({
+  id: '',
+  name: '',
+  type,
+  description: '',
+  conditions: createDefaultConditions(type),
+  priority: 1,
+  enabled: true
+} as BusinessRule);
 
-const RuleBuilder: React.FC<RuleBuilderProps> = ({ rules, onRulesChange, files }) => {
-  const [newRule, setNewRule] = useState<Partial<Rule>>({
-    name: '',
-    type: 'co-run',
-    description: '',
-    conditions: {},
-    priority: 1,
-    enabled: true
-  });
+const RuleBuilder: React.FC<RuleBuilderProps> = ({ rules, onRulesChange, files, violations = {}, llmProvider }) => {
+  const [newRule, setNewRule] = useState<BusinessRule>(createEmptyRule);
+  // Id of the rule being edited; null while adding a new one
+  const [editingId, setEditingId] = useState<string | null>(null);
   const [showRuleForm, setShowRuleForm] = useState(false);
   const [naturalLanguageRule, setNaturalLanguageRule] = useState('');
+  const [isGenerating, setIsGenerating] = useState(false);
+  // What the sentence parser read, shown with the generated rule until it is saved
+  const [parseFindings, setParseFindings] = useState<RuleParseFinding[]>([]);
+  const [confirmedFindings, setConfirmedFindings] = useState<Set<number>>(new Set());
+  const [pendingImport, setPendingImport] = useState<PendingRulesImport | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const ruleOptions = useMemo(() => getRuleOptions(files), [files]);
+  const conflicts = useMemo(() => analyzeRuleConflicts(rules, files), [rules, files]);
+  const conflictedRuleIds = useMemo(() => new Set(conflicts.flatMap(conflict => conflict.ruleIds)), [conflicts]);
+
+  const violationCounts = useMemo(() => {
+    const counts = new Map<string, number>();
+    Object.values(violations).forEach(errors => errors.forEach(error => {
+      if (error.ruleId) counts.set(error.ruleId, (counts.get(error.ruleId) ?? 0) + 1);
+    }));
+    return counts;
+  }, [violations]);
 
   const ruleTypes = [
     { value: 'co-run', label: 'Co-run Tasks', description: 'Tasks that must run together' },
@@ -53,33 +88,43 @@ const RuleBuilder: React.FC<RuleBuilderProps> = ({ rules, onRulesChange, files }
     { value: 'custom', label: 'Custom Rule', description: 'Define your own logic' }
   ];
 
-  const addRule = () => {
-    if (!newRule.name) {
-      toast.error('Rule name is required');
+  const closeForm = () => {
+    setNewRule(createEmptyRule());
+    setEditingId(null);
+    setShowRuleForm(false);
+    setParseFindings([]);
+  };
+
+  const saveRule = () => {
+    if (parseFindings.some((finding, index) => finding.confidence === 'low' && !confirmedFindings.has(index))) {
+      toast.error('Confirm the highlighted parts of the generated rule first');
       return;
     }
 
-    const rule: Rule = {
-      id: Date.now().toString(),
-      name: newRule.name!,
-      type: newRule.type!,
-      description: newRule.description || '',
-      conditions: newRule.conditions || {},
-      priority: newRule.priority || 1,
-      enabled: true
-    };
+    const rule = { ...newRule, id: editingId ?? Date.now().toString() };
+    const result = businessRuleSchema.safeParse(rule);
+    if (!result.success) {
+      toast.error(result.error.issues[0]?.message ?? 'Invalid rule');
+      return;
+    }
 
-    onRulesChange([...rules, rule]);
-    setNewRule({
-      name: '',
-      type: 'co-run',
-      description: '',
-      conditions: {},
-      priority: 1,
-      enabled: true
-    });
-    setShowRuleForm(false);
-    toast.success('Rule added successfully');
+    onRulesChange(editingId
+      ? rules.map(existing => (existing.id === editingId ? result.data as BusinessRule : existing))
+      : [...rules, result.data as BusinessRule]);
+    toast.success(editingId ? 'Rule updated' : 'Rule added successfully');
+    closeForm();
+  };
+
+  const startEdit = (rule: BusinessRule) => {
+    setParseFindings([]);
+    setNewRule(rule);
+    setEditingId(rule.id);
+    setShowRuleForm(true);
+  };
+
+  const changeType = (type: BusinessRuleType) => {
+    // Conditions of one type mean nothing to another
+    setNewRule({ ...newRule, type, conditions: createDefaultConditions(type) } as BusinessRule);
   };
 
   const removeRule = (id: string) => {
@@ -93,54 +138,63 @@ const RuleBuilder: React.FC<RuleBuilderProps> = ({ rules, onRulesChange, files }
     ));
   };
 
-  const processNaturalLanguageRule = () => {
+  // A model's rule is always confirmed as a whole; names the data lacks are rejected before it gets here
+  const generateWithModel = async (sentence: string): Promise<ParsedRule> => ({
+    rule: await generateBusinessRule(llmProvider, sentence, ruleOptions),
+    findings: [{ source: sentence, reading: `Generated by ${llmProvider.label}; check the conditions below`, confidence: 'low' }]
+  });
+
+  const processNaturalLanguageRule = async () => {
     if (!naturalLanguageRule.trim()) return;
 
-    // Simple NLP processing - in a real app, this would use OpenAI
-    let ruleType = 'custom';
-    let conditions = {};
-    
-    const text = naturalLanguageRule.toLowerCase();
-    
-    if (text.includes('together') || text.includes('co-run')) {
-      ruleType = 'co-run';
-      conditions = { taskIds: [] };
-    } else if (text.includes('limit') || text.includes('maximum')) {
-      ruleType = 'load-limit';
-      conditions = { maxLoad: 100 };
-    } else if (text.includes('phase') || text.includes('window')) {
-      ruleType = 'phase-window';
-      conditions = { phases: [] };
+    let parsed: ParsedRule | null;
+    if (llmProvider.remote) {
+      setIsGenerating(true);
+      try {
+        parsed = await generateWithModel(naturalLanguageRule.trim());
+      } catch (error) {
+        toast.error(error instanceof Error ? error.message : 'Rule generation failed');
+        return;
+      } finally {
+        setIsGenerating(false);
+      }
+    } else {
+      parsed = parseRuleSentence(naturalLanguageRule, ruleOptions);
+    }
+    if (!parsed) {
+      toast.error('Could not recognise a rule. Try "T1 and T2 must run together" or "Frontend workers: at most 3 slots per phase"');
+      return;
     }
 
-    const suggestedRule: Partial<Rule> = {
-      name: `Auto-generated: ${naturalLanguageRule.slice(0, 30)}...`,
-      type: ruleType as any,
-      description: `Generated from: "${naturalLanguageRule}"`,
-      conditions,
-      priority: 1,
-      enabled: true
-    };
-
-    setNewRule(suggestedRule);
+    setNewRule(parsed.rule);
+    setParseFindings(parsed.findings);
+    setConfirmedFindings(new Set());
+    setEditingId(null);
     setShowRuleForm(true);
     setNaturalLanguageRule('');
-    toast.success('Rule generated from natural language!');
+
+    const unsure = parsed.findings.filter(finding => finding.confidence === 'low').length;
+    if (unsure > 0) {
+      toast.warning(`Rule generated; confirm ${unsure} ${unsure === 1 ? 'part' : 'parts'} before saving`);
+    } else {
+      toast.success('Rule generated from natural language!');
+    }
   };
 
-  const exportRules = () => {
-    const rulesConfig = {
-      version: '1.0',
-      timestamp: new Date().toISOString(),
-      rules: rules,
-      metadata: {
-        totalRules: rules.length,
-        enabledRules: rules.filter(r => r.enabled).length,
-        ruleTypes: [...new Set(rules.map(r => r.type))]
+  const toggleConfirmed = (index: number, checked: boolean) => {
+    setConfirmedFindings(prev => {
+      const next = new Set(prev);
+      if (checked) {
+        next.add(index);
+      } else {
+        next.delete(index);
       }
-    };
+      return next;
+    });
+  };
 
-    const blob = new Blob([JSON.stringify(rulesConfig, null, 2)], { type: 'application/json' });
+  const exportRules = () => {
+    const blob = new Blob([serializeRulesFile(rules)], { type: 'application/json' });
     const url = URL.createObjectURL(blob);
     const a = document.createElement('a');
     a.href = url;
@@ -150,6 +204,25 @@ const RuleBuilder: React.FC<RuleBuilderProps> = ({ rules, onRulesChange, files }
     toast.success('Rules exported successfully');
   };
 
+  const importRules = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (!file) return;
+
+    try {
+      setPendingImport({ fileName: file.name, ...parseRulesFile(await file.text()) });
+    } catch (error) {
+      toast.error(`Invalid rules file: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  };
+
+  const applyImport = (mode: 'merge' | 'replace') => {
+    if (!pendingImport) return;
+    onRulesChange(mode === 'merge' ? mergeBusinessRules(rules, pendingImport.rules) : pendingImport.rules);
+    toast.success(`${mode === 'merge' ? 'Merged' : 'Replaced with'} ${pendingImport.rules.length} rules from ${pendingImport.fileName}`);
+    setPendingImport(null);
+  };
+
   return (
     <div className="space-y-6">
       {/* Natural Language Rule Input */}
@@ -157,6 +230,7 @@ const RuleBuilder: React.FC<RuleBuilderProps> = ({ rules, onRulesChange, files }
         <h3 className="text-lg font-semibold text-white mb-4 flex items-center">
           <Settings className="h-5 w-5 mr-2" />
           Natural Language Rule Builder
+          <Badge variant="outline" className="ml-3 border-blue-500/50 text-blue-300">{llmProvider.label}</Badge>
         </h3>
         <p className="text-slate-300 mb-4">
           Describe rules in plain English and we'll convert them to structured rules
@@ -168,8 +242,12 @@ const RuleBuilder: React.FC<RuleBuilderProps> = ({ rules, onRulesChange, files }
             onChange={(e) => setNaturalLanguageRule(e.target.value)}
             className="bg-slate-800/50 border-slate-600 text-white placeholder-slate-400"
           />
-          <Button onClick={processNaturalLanguageRule} className="bg-blue-600 hover:bg-blue-700">
-            <Plus className="h-4 w-4 mr-2" />
+          <Button onClick={processNaturalLanguageRule} disabled={isGenerating} className="bg-blue-600 hover:bg-blue-700">
+            {isGenerating ? (
+              <div className="animate-spin rounded-full h-4 w-4 border-b-2 border-white mr-2" />
+            ) : (
+              <Plus className="h-4 w-4 mr-2" />
+            )}
             Generate
           </Button>
         </div>
@@ -178,7 +256,7 @@ const RuleBuilder: React.FC<RuleBuilderProps> = ({ rules, onRulesChange, files }
       {/* Rule Form */}
       {showRuleForm && (
         <Card className="p-6 bg-slate-800/50 border-slate-700">
-          <h3 className="text-lg font-semibold text-white mb-4">Add New Rule</h3>
+          <h3 className="text-lg font-semibold text-white mb-4">{editingId ? 'Edit Rule' : 'Add New Rule'}</h3>
           <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
             <div>
               <Label htmlFor="ruleName" className="text-slate-300">Rule Name</Label>
@@ -192,7 +270,7 @@ const RuleBuilder: React.FC<RuleBuilderProps> = ({ rules, onRulesChange, files }
             </div>
             <div>
               <Label htmlFor="ruleType" className="text-slate-300">Rule Type</Label>
-              <Select value={newRule.type} onValueChange={(value) => setNewRule({ ...newRule, type: value as any })}>
+              <Select value={newRule.type} onValueChange={(value) => changeType(value as BusinessRuleType)}>
                 <SelectTrigger className="bg-slate-700 border-slate-600 text-white">
                   <SelectValue />
                 </SelectTrigger>
@@ -219,7 +297,7 @@ const RuleBuilder: React.FC<RuleBuilderProps> = ({ rules, onRulesChange, files }
               />
             </div>
             <div>
-              <Label htmlFor="rulePriority" className="text-slate-300">Priority (1-10)</Label>
+              <Label htmlFor="rulePriority" className="text-slate-300">Priority (1-10, higher wins conflicts)</Label>
               <Input
                 id="rulePriority"
                 type="number"
@@ -230,13 +308,42 @@ const RuleBuilder: React.FC<RuleBuilderProps> = ({ rules, onRulesChange, files }
                 className="bg-slate-700 border-slate-600 text-white"
               />
             </div>
+            {parseFindings.length > 0 && (
+              <div className="md:col-span-2 space-y-1">
+                <Label className="text-slate-300">Read from your sentence</Label>
+                {parseFindings.map((finding, index) => (
+                  <div
+                    key={index}
+                    className={`flex items-center space-x-2 text-sm px-3 py-1.5 rounded ${
+                      finding.confidence === 'low' ? 'bg-yellow-500/10 text-yellow-200' : 'text-slate-300'
+                    }`}
+                  >
+                    {finding.confidence === 'low' ? (
+                      <Checkbox
+                        checked={confirmedFindings.has(index)}
+                        onCheckedChange={(checked) => toggleConfirmed(index, checked === true)}
+                        className="border-yellow-500/70"
+                        title="Confirm"
+                      />
+                    ) : (
+                      <CheckCircle className="h-4 w-4 text-green-400 shrink-0" />
+                    )}
+                    <span className="font-mono text-xs text-slate-400">"{finding.source}"</span>
+                    <span>→ {finding.reading}</span>
+                  </div>
+                ))}
+              </div>
+            )}
+            <div className="md:col-span-2 border-t border-slate-700 pt-4">
+              <RuleConditionsEditor rule={newRule} options={ruleOptions} onChange={setNewRule} />
+            </div>
           </div>
           <div className="flex justify-end space-x-3 mt-6">
-            <Button variant="outline" onClick={() => setShowRuleForm(false)}>
+            <Button variant="outline" onClick={closeForm}>
               Cancel
             </Button>
-            <Button onClick={addRule} className="bg-purple-600 hover:bg-purple-700">
-              Add Rule
+            <Button onClick={saveRule} className="bg-purple-600 hover:bg-purple-700">
+              {editingId ? 'Save Rule' : 'Add Rule'}
             </Button>
           </div>
         </Card>
@@ -250,60 +357,189 @@ const RuleBuilder: React.FC<RuleBuilderProps> = ({ rules, onRulesChange, files }
         </Button>
       )}
 
-      {/* Export Button */}
-      {rules.length > 0 && (
-        <div className="flex justify-end">
+      {/* Import / Export */}
+      <div className="flex justify-end space-x-2">
+        <Button onClick={() => fileInputRef.current?.click()} variant="outline" className="border-slate-600 text-slate-300">
+          <Upload className="h-4 w-4 mr-2" />
+          Import Rules
+        </Button>
+        {rules.length > 0 && (
           <Button onClick={exportRules} variant="outline" className="border-slate-600 text-slate-300">
             <Download className="h-4 w-4 mr-2" />
             Export Rules
           </Button>
-        </div>
+        )}
+        <input
+          ref={fileInputRef}
+          type="file"
+          accept="application/json,.json"
+          onChange={importRules}
+          className="hidden"
+        />
+      </div>
+
+      {pendingImport && (
+        <RuleImportDialog
+          pending={pendingImport}
+          currentRules={rules}
+          options={ruleOptions}
+          onMerge={() => applyImport('merge')}
+          onReplace={() => applyImport('replace')}
+          onCancel={() => setPendingImport(null)}
+        />
+      )}
+
+      {/* Conflict Analysis */}
+      {rules.some(rule => rule.enabled) && (
+        <Card className="p-6 bg-slate-800/50 border-slate-700">
+          <h3 className="text-lg font-semibold text-white mb-4 flex items-center">
+            <GitCompare className="h-5 w-5 mr-2" />
+            Conflict Analysis
+            {conflicts.length > 0 && (
+              <Badge variant="destructive" className="ml-3">{conflicts.length}</Badge>
+            )}
+          </h3>
+          {conflicts.length === 0 ? (
+            <p className="text-sm text-green-300 flex items-center">
+              <CheckCircle className="h-4 w-4 mr-2" />
+              The enabled rules are consistent with each other and the loaded data
+            </p>
+          ) : (
+            <div className="space-y-3">
+              {conflicts.map(conflict => {
+                const relaxRule = rules.find(rule => rule.id === conflict.relax.ruleId);
+
+                return (
+                  <div key={conflict.id} className="p-4 rounded-lg bg-red-500/10 border border-red-500/30">
+                    <div className="flex items-center space-x-2 mb-1">
+                      <AlertTriangle className="h-4 w-4 text-red-400" />
+                      <h4 className="text-sm font-medium text-white">{conflict.title}</h4>
+                    </div>
+                    <p className="text-sm text-slate-300 mb-2">{conflict.explanation}</p>
+                    <div className="flex flex-wrap gap-1 mb-3">
+                      {conflict.ruleIds.map(ruleId => {
+                        const rule = rules.find(r => r.id === ruleId);
+                        return rule && (
+                          <Badge key={ruleId} variant="outline" className="border-slate-600 text-slate-300">
+                            {rule.name} · P{rule.priority}
+                          </Badge>
+                        );
+                      })}
+                    </div>
+                    {relaxRule && (
+                      <div className="flex items-center justify-between">
+                        <p className="text-xs text-slate-400">
+                          Suggest relaxing <span className="text-white">{relaxRule.name}</span>: {conflict.relax.reason}
+                        </p>
+                        <div className="flex space-x-2">
+                          <Button
+                            variant="outline"
+                            size="sm"
+                            onClick={() => startEdit(relaxRule)}
+                            className="border-slate-600 text-slate-300"
+                          >
+                            Edit
+                          </Button>
+                          <Button
+                            variant="outline"
+                            size="sm"
+                            onClick={() => toggleRule(relaxRule.id)}
+                            className="border-red-500/50 text-red-300"
+                          >
+                            Disable
+                          </Button>
+                        </div>
+                      </div>
+                    )}
+                  </div>
+                );
+              })}
+            </div>
+          )}
+        </Card>
       )}
 
       {/* Rules List */}
       <div className="space-y-4">
-        {rules.map((rule) => (
-          <Card key={rule.id} className="p-6 bg-slate-800/50 border-slate-700">
-            <div className="flex items-start justify-between">
-              <div className="flex-1">
-                <div className="flex items-center space-x-3 mb-2">
-                  <h4 className="text-lg font-semibold text-white">{rule.name}</h4>
-                  <Badge variant={rule.enabled ? 'default' : 'secondary'}>
-                    {rule.type}
-                  </Badge>
-                  <Badge variant={rule.enabled ? 'default' : 'outline'}>
-                    Priority: {rule.priority}
-                  </Badge>
+        {rules.map((rule) => {
+          const problem = getBusinessRuleProblem(rule);
+          const missing = findMissingReferences(rule, ruleOptions);
+          const missingNames = [...missing.tasks, ...missing.workerGroups];
+          const violationCount = violationCounts.get(getBusinessRuleErrorId(rule)) ?? 0;
+
+          return (
+            <Card key={rule.id} className="p-6 bg-slate-800/50 border-slate-700">
+              <div className="flex items-start justify-between">
+                <div className="flex-1">
+                  <div className="flex items-center space-x-3 mb-2">
+                    <h4 className="text-lg font-semibold text-white">{rule.name}</h4>
+                    <Badge variant={rule.enabled ? 'default' : 'secondary'}>
+                      {rule.type}
+                    </Badge>
+                    <Badge variant={rule.enabled ? 'default' : 'outline'}>
+                      Priority: {rule.priority}
+                    </Badge>
+                    {missingNames.length > 0 && (
+                      <Badge variant="outline" className="border-yellow-500/50 text-yellow-300" title={missingNames.join(', ')}>
+                        Not in data: {missingNames.length}
+                      </Badge>
+                    )}
+                    {conflictedRuleIds.has(rule.id) && (
+                      <Badge variant="outline" className="border-red-500/50 text-red-300">
+                        In conflict
+                      </Badge>
+                    )}
+                    {problem ? (
+                      <Badge variant="outline" className="border-yellow-500/50 text-yellow-300" title={problem}>
+                        <AlertTriangle className="h-3 w-3 mr-1" />
+                        Incomplete
+                      </Badge>
+                    ) : rule.enabled && (
+                      <Badge variant={violationCount > 0 ? 'destructive' : 'outline'} className={violationCount > 0 ? '' : 'border-green-500/50 text-green-300'}>
+                        {violationCount > 0 ? `${violationCount} violations` : 'Satisfied'}
+                      </Badge>
+                    )}
+                  </div>
+                  <p className="text-slate-400 mb-3">{rule.description}</p>
+                  <div className="flex items-center space-x-2">
+                    <Code className="h-4 w-4 text-slate-500" />
+                    <span className="text-xs text-slate-500 font-mono">
+                      {describeBusinessRule(rule)}
+                    </span>
+                  </div>
+                  {problem && <p className="text-xs text-yellow-300 mt-2">Not enforced: {problem}</p>}
                 </div>
-                <p className="text-slate-400 mb-3">{rule.description}</p>
                 <div className="flex items-center space-x-2">
-                  <Code className="h-4 w-4 text-slate-500" />
-                  <span className="text-xs text-slate-500 font-mono">
-                    {JSON.stringify(rule.conditions, null, 0)}
-                  </span>
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={() => toggleRule(rule.id)}
+                    className={rule.enabled ? 'border-green-500 text-green-400' : 'border-slate-600 text-slate-400'}
+                  >
+                    {rule.enabled ? 'Enabled' : 'Disabled'}
+                  </Button>
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={() => startEdit(rule)}
+                    className="border-slate-600 text-slate-300"
+                    title="Edit rule"
+                  >
+                    <Edit3 className="h-4 w-4" />
+                  </Button>
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={() => removeRule(rule.id)}
+                    className="border-red-500 text-red-400 hover:bg-red-500/10"
+                  >
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
                 </div>
               </div>
-              <div className="flex items-center space-x-2">
-                <Button
-                  variant="outline"
-                  size="sm"
-                  onClick={() => toggleRule(rule.id)}
-                  className={rule.enabled ? 'border-green-500 text-green-400' : 'border-slate-600 text-slate-400'}
-                >
-                  {rule.enabled ? 'Enabled' : 'Disabled'}
-                </Button>
-                <Button
-                  variant="outline"
-                  size="sm"
-                  onClick={() => removeRule(rule.id)}
-                  className="border-red-500 text-red-400 hover:bg-red-500/10"
-                >
-                  <Trash2 className="h-4 w-4" />
-                </Button>
-              </div>
-            </div>
-          </Card>
-        ))}
+            </Card>
+          );
+        })}
       </div>
 
       {rules.length === 0 && (
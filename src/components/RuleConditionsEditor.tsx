@@ -0,0 +1,338 @@
+import React, { useMemo, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Badge } from '@/components/ui/badge';
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { ChevronDown, X } from 'lucide-react';
+import {
+  ALL_WORKERS,
+  BusinessRule,
+  CUSTOM_OPERATORS,
+  CustomOperator,
+  RuleOptions,
+  describeOperator
+} from '@/utils/businessRules';
+import { ENTITY_TYPES, EntityType } from '@/utils/validationRules';
+
+interface RuleConditionsEditorProps {
+  rule: BusinessRule;
+  options: RuleOptions;
+  onChange: (rule: BusinessRule) => void;
+}
+
+const TaskPicker: React.FC<{
+  tasks: RuleOptions['tasks'];
+  selected: string[];
+  onChange: (selected: string[]) => void;
+}> = ({ tasks, selected, onChange }) => {
+  const [search, setSearch] = useState('');
+  const filtered = useMemo(() => {
+    const term = search.trim().toLowerCase();
+    return term
+      ? tasks.filter(task => task.id.toLowerCase().includes(term) || task.name.toLowerCase().includes(term))
+      : tasks;
+  }, [tasks, search]);
+
+  const toggle = (id: string, checked: boolean) =>
+    onChange(checked ? [...selected, id] : selected.filter(taskId => taskId !== id));
+
+  return (
+    <div className="space-y-2">
+      <Popover>
+        <PopoverTrigger asChild>
+          <Button variant="outline" className="w-full justify-between bg-slate-700 border-slate-600 text-white">
+            {selected.length > 0 ? `${selected.length} tasks selected` : 'Select tasks'}
+            <ChevronDown className="h-4 w-4 opacity-60" />
+          </Button>
+        </PopoverTrigger>
+        <PopoverContent className="w-80 bg-slate-900 border-slate-700 text-white" align="start">
+          <div className="space-y-2">
+            <Input
+              placeholder="Search ID or name…"
+              value={search}
+              onChange={(e) => setSearch(e.target.value)}
+              className="h-8 bg-slate-800 border-slate-600 text-white"
+              autoFocus
+            />
+            {tasks.length === 0 && (
+              <p className="text-xs text-slate-400">Upload a tasks file to pick tasks</p>
+            )}
+            <div className="max-h-56 overflow-y-auto space-y-1">
+              {filtered.map(task => (
+                <label key={task.id} className="flex items-center space-x-2 text-sm text-slate-200 cursor-pointer">
+                  <Checkbox
+                    checked={selected.includes(task.id)}
+                    onCheckedChange={(checked) => toggle(task.id, checked === true)}
+                    className="border-slate-500"
+                  />
+                  <span className="font-mono">{task.id}</span>
+                  <span className="truncate text-slate-400">{task.name}</span>
+                </label>
+              ))}
+            </div>
+          </div>
+        </PopoverContent>
+      </Popover>
+      {selected.length > 0 && (
+        <div className="flex flex-wrap gap-1">
+          {selected.map(id => (
+            <Badge key={id} variant="secondary" className="font-mono">
+              {id}
+              <button className="ml-1" title={`Remove ${id}`} onClick={() => toggle(id, false)}>
+                <X className="h-3 w-3" />
+              </button>
+            </Badge>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+const WorkerGroupSelect: React.FC<{
+  groups: string[];
+  value: string;
+  allowAll: boolean;
+  onChange: (value: string) => void;
+}> = ({ groups, value, allowAll, onChange }) => {
+  // Keep a group that is no longer in the data selectable so it can be seen
+  const choices = value && value !== ALL_WORKERS && !groups.includes(value) ? [...groups, value] : groups;
+
+  return (
+    <Select value={value || undefined} onValueChange={onChange}>
+      <SelectTrigger className="bg-slate-700 border-slate-600 text-white">
+        <SelectValue placeholder={groups.length > 0 ? 'Select worker group' : 'Upload a workers file'} />
+      </SelectTrigger>
+      <SelectContent>
+        {allowAll && <SelectItem value={ALL_WORKERS}>All workers</SelectItem>}
+        {choices.map(group => (
+          <SelectItem key={group} value={group}>{group}</SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  );
+};
+
+const ColumnSelect: React.FC<{
+  entity: EntityType;
+  field: string;
+  options: RuleOptions;
+  onChange: (entity: EntityType, field: string) => void;
+}> = ({ entity, field, options, onChange }) => {
+  const headers = options.headers[entity] ?? [];
+
+  return (
+    <div className="grid grid-cols-2 gap-4">
+      <div>
+        <Label className="text-slate-300">Entity</Label>
+        <Select value={entity} onValueChange={(value) => onChange(value as EntityType, '')}>
+          <SelectTrigger className="bg-slate-700 border-slate-600 text-white capitalize">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {ENTITY_TYPES.map(type => (
+              <SelectItem key={type} value={type} className="capitalize">{type}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+      <div>
+        <Label className="text-slate-300">Column</Label>
+        {headers.length > 0 ? (
+          <Select value={field || undefined} onValueChange={(value) => onChange(entity, value)}>
+            <SelectTrigger className="bg-slate-700 border-slate-600 text-white">
+              <SelectValue placeholder="Select column" />
+            </SelectTrigger>
+            <SelectContent>
+              {headers.map(header => (
+                <SelectItem key={header} value={header}>{header}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        ) : (
+          <Input
+            value={field}
+            onChange={(e) => onChange(entity, e.target.value)}
+            className="bg-slate-700 border-slate-600 text-white"
+            placeholder="Column name"
+          />
+        )}
+      </div>
+    </div>
+  );
+};
+
+const RuleConditionsEditor: React.FC<RuleConditionsEditorProps> = ({ rule, options, onChange }) => {
+  switch (rule.type) {
+    case 'co-run':
+      return (
+        <div>
+          <Label className="text-slate-300">Tasks that run together</Label>
+          <TaskPicker
+            tasks={options.tasks}
+            selected={rule.conditions.taskIds}
+            onChange={(taskIds) => onChange({ ...rule, conditions: { taskIds } })}
+          />
+        </div>
+      );
+
+    case 'slot-restriction':
+      return (
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+          <div>
+            <Label className="text-slate-300">Tasks</Label>
+            <TaskPicker
+              tasks={options.tasks}
+              selected={rule.conditions.taskIds}
+              onChange={(taskIds) => onChange({ ...rule, conditions: { ...rule.conditions, taskIds } })}
+            />
+          </div>
+          <div>
+            <Label className="text-slate-300">Only assign to worker group</Label>
+            <WorkerGroupSelect
+              groups={options.workerGroups}
+              value={rule.conditions.workerGroup}
+              allowAll={false}
+              onChange={(workerGroup) => onChange({ ...rule, conditions: { ...rule.conditions, workerGroup } })}
+            />
+          </div>
+        </div>
+      );
+
+    case 'load-limit':
+      return (
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+          <div>
+            <Label className="text-slate-300">Worker group</Label>
+            <WorkerGroupSelect
+              groups={options.workerGroups}
+              value={rule.conditions.workerGroup}
+              allowAll
+              onChange={(workerGroup) => onChange({ ...rule, conditions: { ...rule.conditions, workerGroup } })}
+            />
+          </div>
+          <div>
+            <Label className="text-slate-300">Max slots per phase</Label>
+            <Input
+              type="number"
+              min="0"
+              step="1"
+              value={rule.conditions.maxSlotsPerPhase}
+              onChange={(e) => onChange({
+                ...rule,
+                conditions: { ...rule.conditions, maxSlotsPerPhase: e.target.value === '' ? 0 : Number(e.target.value) }
+              })}
+              className="bg-slate-700 border-slate-600 text-white"
+            />
+          </div>
+        </div>
+      );
+
+    case 'phase-window': {
+      const phases = Array.from({ length: options.maxPhase }, (_, index) => index + 1);
+      const togglePhase = (phase: number, checked: boolean) => {
+        const allowedPhases = checked
+          ? [...rule.conditions.allowedPhases, phase].sort((a, b) => a - b)
+          : rule.conditions.allowedPhases.filter(allowed => allowed !== phase);
+        onChange({ ...rule, conditions: { ...rule.conditions, allowedPhases } });
+      };
+
+      return (
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+          <div>
+            <Label className="text-slate-300">Tasks</Label>
+            <TaskPicker
+              tasks={options.tasks}
+              selected={rule.conditions.taskIds}
+              onChange={(taskIds) => onChange({ ...rule, conditions: { ...rule.conditions, taskIds } })}
+            />
+          </div>
+          <div>
+            <Label className="text-slate-300">Allowed phases</Label>
+            <div className="flex flex-wrap gap-3 pt-2">
+              {phases.map(phase => (
+                <label key={phase} className="flex items-center space-x-1 text-sm text-slate-200 cursor-pointer">
+                  <Checkbox
+                    checked={rule.conditions.allowedPhases.includes(phase)}
+                    onCheckedChange={(checked) => togglePhase(phase, checked === true)}
+                    className="border-slate-500"
+                  />
+                  <span>{phase}</span>
+                </label>
+              ))}
+            </div>
+          </div>
+        </div>
+      );
+    }
+
+    case 'regex':
+      return (
+        <div className="space-y-4">
+          <ColumnSelect
+            entity={rule.conditions.entity}
+            field={rule.conditions.field}
+            options={options}
+            onChange={(entity, field) => onChange({ ...rule, conditions: { ...rule.conditions, entity, field } })}
+          />
+          <div>
+            <Label className="text-slate-300">Pattern</Label>
+            <Input
+              value={rule.conditions.pattern}
+              onChange={(e) => onChange({ ...rule, conditions: { ...rule.conditions, pattern: e.target.value } })}
+              className="bg-slate-700 border-slate-600 text-white font-mono"
+              placeholder="^T\d+$"
+            />
+          </div>
+        </div>
+      );
+
+    case 'custom':
+      return (
+        <div className="space-y-4">
+          <ColumnSelect
+            entity={rule.conditions.entity}
+            field={rule.conditions.field}
+            options={options}
+            onChange={(entity, field) => onChange({ ...rule, conditions: { ...rule.conditions, entity, field } })}
+          />
+          <div className="grid grid-cols-2 gap-4">
+            <div>
+              <Label className="text-slate-300">Condition</Label>
+              <Select
+                value={rule.conditions.operator}
+                onValueChange={(operator) => onChange({
+                  ...rule,
+                  conditions: { ...rule.conditions, operator: operator as CustomOperator }
+                })}
+              >
+                <SelectTrigger className="bg-slate-700 border-slate-600 text-white">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {CUSTOM_OPERATORS.map(operator => (
+                    <SelectItem key={operator} value={operator}>{describeOperator(operator)}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            {rule.conditions.operator !== 'not-empty' && (
+              <div>
+                <Label className="text-slate-300">Value</Label>
+                <Input
+                  value={rule.conditions.value}
+                  onChange={(e) => onChange({ ...rule, conditions: { ...rule.conditions, value: e.target.value } })}
+                  className="bg-slate-700 border-slate-600 text-white"
+                />
+              </div>
+            )}
+          </div>
+        </div>
+      );
+  }
+};
+
+export default RuleConditionsEditor;
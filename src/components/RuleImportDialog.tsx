@@ -0,0 +1,119 @@
+import React, { useMemo } from 'react';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle
+} from '@/components/ui/dialog';
+import { AlertTriangle } from 'lucide-react';
+import { BusinessRule, RuleOptions, describeBusinessRule } from '@/utils/businessRules';
+import { ParsedRulesFile, diffBusinessRules, findMissingReferences } from '@/utils/rulesFile';
+
+export interface PendingRulesImport extends ParsedRulesFile {
+  fileName: string;
+}
+
+interface RuleImportDialogProps {
+  pending: PendingRulesImport;
+  currentRules: BusinessRule[];
+  options: RuleOptions;
+  onMerge: () => void;
+  onReplace: () => void;
+  onCancel: () => void;
+}
+
+const DIFF_STYLES = {
+  added: { label: 'new', className: 'border-green-500/50 text-green-300' },
+  changed: { label: 'changed', className: 'border-blue-500/50 text-blue-300' },
+  removed: { label: 'not in file', className: 'border-red-500/50 text-red-300' }
+};
+
+const RuleImportDialog: React.FC<RuleImportDialogProps> = ({
+  pending,
+  currentRules,
+  options,
+  onMerge,
+  onReplace,
+  onCancel
+}) => {
+  const diff = useMemo(() => diffBusinessRules(currentRules, pending.rules), [currentRules, pending.rules]);
+
+  const renderMissing = (rule: BusinessRule) => {
+    const missing = findMissingReferences(rule, options);
+    if (missing.tasks.length === 0 && missing.workerGroups.length === 0) return null;
+
+    return (
+      <p className="text-xs text-yellow-300 flex items-center mt-1">
+        <AlertTriangle className="h-3 w-3 mr-1 shrink-0" />
+        Not in the loaded data: {[
+          ...missing.tasks.map(id => `task ${id}`),
+          ...missing.workerGroups.map(group => `worker group ${group}`)
+        ].join(', ')}
+      </p>
+    );
+  };
+
+  const renderRule = (rule: BusinessRule, kind: keyof typeof DIFF_STYLES, fields?: string[]) => (
+    <div key={`${kind}-${rule.id}`} className="p-3 rounded-lg bg-slate-800/50 border border-slate-700">
+      <div className="flex items-center space-x-2">
+        <Badge variant="outline" className={DIFF_STYLES[kind].className}>{DIFF_STYLES[kind].label}</Badge>
+        <span className="text-sm font-medium text-white">{rule.name}</span>
+        <span className="text-xs text-slate-500">{rule.type} · P{rule.priority}</span>
+      </div>
+      <p className="text-xs text-slate-400 font-mono mt-1">{describeBusinessRule(rule)}</p>
+      {fields && <p className="text-xs text-blue-300 mt-1">Changed: {fields.join(', ')}</p>}
+      {kind !== 'removed' && renderMissing(rule)}
+    </div>
+  );
+
+  return (
+    <Dialog open onOpenChange={(open) => !open && onCancel()}>
+      <DialogContent className="bg-slate-900 border-slate-700 text-white max-w-3xl">
+        <DialogHeader>
+          <DialogTitle className="text-white">Import rules from {pending.fileName}</DialogTitle>
+          <DialogDescription className="text-slate-400">
+            Version {pending.version} · {diff.added.length} added, {diff.changed.length} changed,{' '}
+            {diff.unchanged.length} unchanged, {diff.removed.length} only in the current rules
+          </DialogDescription>
+        </DialogHeader>
+
+        {pending.disabledOnImport.length > 0 && (
+          <p className="text-sm text-yellow-300">
+            {pending.disabledOnImport.length} rules from this {pending.version} file have no usable conditions and are imported disabled.
+          </p>
+        )}
+
+        <div className="space-y-2 max-h-96 overflow-y-auto">
+          {diff.added.map(rule => renderRule(rule, 'added'))}
+          {diff.changed.map(({ after, fields }) => renderRule(after, 'changed', fields))}
+          {diff.removed.map(rule => renderRule(rule, 'removed'))}
+          {diff.added.length + diff.changed.length + diff.removed.length === 0 && (
+            <p className="text-sm text-slate-400">The file matches the current rules.</p>
+          )}
+        </div>
+
+        <p className="text-xs text-slate-500">
+          Merge keeps rules missing from the file; Replace removes them.
+        </p>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={onCancel}>
+            Cancel
+          </Button>
+          <Button variant="outline" onClick={onReplace} className="border-red-500/50 text-red-300">
+            Replace ({pending.rules.length})
+          </Button>
+          <Button onClick={onMerge} className="bg-purple-600 hover:bg-purple-700">
+            Merge
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default RuleImportDialog;
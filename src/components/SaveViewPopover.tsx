@@ -0,0 +1,57 @@
+import React, { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
+import { BookmarkPlus } from 'lucide-react';
+
+interface SaveViewPopoverProps {
+  onSave: (name: string) => void;
+  // Icon-only trigger for tight spaces such as the grid toolbar
+  compact?: boolean;
+}
+
+const SaveViewPopover: React.FC<SaveViewPopoverProps> = ({ onSave, compact = false }) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const [name, setName] = useState('');
+
+  const handleSave = () => {
+    if (!name.trim()) return;
+    onSave(name.trim());
+    setName('');
+    setIsOpen(false);
+  };
+
+  return (
+    <Popover open={isOpen} onOpenChange={setIsOpen}>
+      <PopoverTrigger asChild>
+        {compact ? (
+          <button title="Save as view" className="p-0.5 rounded-full text-purple-300 hover:text-white">
+            <BookmarkPlus className="h-3 w-3" />
+          </button>
+        ) : (
+          <Button variant="outline" className="border-slate-600 text-slate-300">
+            <BookmarkPlus className="h-4 w-4 mr-2" />
+            Save as view
+          </Button>
+        )}
+      </PopoverTrigger>
+      <PopoverContent className="w-72 bg-slate-900 border-slate-700 text-white" align="start">
+        <div className="flex space-x-2">
+          <Input
+            placeholder="View name"
+            value={name}
+            onChange={(e) => setName(e.target.value)}
+            onKeyDown={(e) => e.key === 'Enter' && handleSave()}
+            className="h-8 bg-slate-800 border-slate-600 text-white"
+            autoFocus
+          />
+          <Button size="sm" onClick={handleSave} disabled={!name.trim()} className="bg-purple-600 hover:bg-purple-700">
+            Save
+          </Button>
+        </div>
+      </PopoverContent>
+    </Popover>
+  );
+};
+
+export default SaveViewPopover;
@@ -0,0 +1,214 @@
+import React, { useRef, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger
+} from '@/components/ui/dialog';
+import { AlertTriangle, Bookmark, Download, Pin, PinOff, Settings2, Trash2, Upload } from 'lucide-react';
+import { toast } from 'sonner';
+import {
+  SavedView,
+  ViewResolution,
+  mergeSavedViews,
+  parseViewsFile,
+  serializeViewsFile
+} from '@/utils/savedViews';
+
+interface SavedViewsBarProps {
+  views: SavedView[];
+  resolutions: Map<string, ViewResolution>;
+  activeViewId: string | null;
+  onOpen: (view: SavedView) => void;
+  onViewsChange: (views: SavedView[]) => void;
+}
+
+const downloadViews = (views: SavedView[], fileName: string) => {
+  const blob = new Blob([serializeViewsFile(views)], { type: 'application/json' });
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement('a');
+  a.href = url;
+  a.download = fileName;
+  a.click();
+  URL.revokeObjectURL(url);
+};
+
+const SavedViewsBar: React.FC<SavedViewsBarProps> = ({ views, resolutions, activeViewId, onOpen, onViewsChange }) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const [pendingDeleteId, setPendingDeleteId] = useState<string | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const pinnedViews = views.filter(view => view.pinned);
+
+  const renderCount = (view: SavedView) => {
+    const resolution = resolutions.get(view.id);
+    if (!resolution || 'error' in resolution) {
+      return (
+        <span title={resolution && 'error' in resolution ? resolution.error : undefined}>
+          <AlertTriangle className="h-3 w-3 text-yellow-400" />
+        </span>
+      );
+    }
+    return <span className="text-xs text-slate-400">{resolution.rows.length}/{resolution.total}</span>;
+  };
+
+  const togglePinned = (id: string) =>
+    onViewsChange(views.map(view => (view.id === id ? { ...view, pinned: !view.pinned } : view)));
+
+  const handleDelete = (id: string) => {
+    if (pendingDeleteId !== id) {
+      setPendingDeleteId(id);
+      return;
+    }
+    onViewsChange(views.filter(view => view.id !== id));
+    setPendingDeleteId(null);
+  };
+
+  const exportView = (view: SavedView) => {
+    downloadViews([view], `${view.name.replace(/[^\w-]+/g, '-').toLowerCase() || 'view'}.view.json`);
+  };
+
+  const importViews = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (!file) return;
+
+    try {
+      const incoming = parseViewsFile(await file.text());
+      onViewsChange(mergeSavedViews(views, incoming));
+      toast.success(`Imported ${incoming.length} ${incoming.length === 1 ? 'view' : 'views'} from ${file.name}`);
+    } catch (error) {
+      toast.error(`Invalid views file: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  };
+
+  return (
+    <div className="flex items-center flex-wrap gap-2">
+      <Bookmark className="h-4 w-4 text-purple-400" />
+      <span className="text-sm text-slate-300 mr-1">Views</span>
+      {pinnedViews.map(view => (
+        <Button
+          key={view.id}
+          variant="outline"
+          size="sm"
+          onClick={() => onOpen(view)}
+          title={view.query}
+          className={view.id === activeViewId
+            ? 'border-purple-500 bg-purple-500/20 text-purple-200'
+            : 'border-slate-600 text-slate-300'}
+        >
+          <span className="mr-2">{view.name}</span>
+          {renderCount(view)}
+        </Button>
+      ))}
+      {pinnedViews.length === 0 && (
+        <span className="text-xs text-slate-500">
+          {views.length === 0 ? 'Save a query from AI Query or the grid to pin it here' : 'No pinned views'}
+        </span>
+      )}
+
+      <Dialog open={isOpen} onOpenChange={(open) => {
+        setIsOpen(open);
+        setPendingDeleteId(null);
+      }}>
+        <DialogTrigger asChild>
+          <Button variant="ghost" size="sm" className="text-slate-400 hover:text-white">
+            <Settings2 className="h-4 w-4 mr-1" />
+            Manage
+          </Button>
+        </DialogTrigger>
+        <DialogContent className="bg-slate-900 border-slate-700 text-white max-w-2xl">
+          <DialogHeader>
+            <DialogTitle className="text-white">Saved views</DialogTitle>
+            <DialogDescription className="text-slate-400">
+              A view keeps a query with the grid's sort and visible columns. Pinned views appear above the grids.
+            </DialogDescription>
+          </DialogHeader>
+
+          <div className="space-y-2 max-h-96 overflow-y-auto">
+            {views.map(view => (
+              <div key={view.id} className="p-3 rounded-lg bg-slate-800/50 border border-slate-700">
+                <div className="flex items-center justify-between">
+                  <div className="flex items-center space-x-2 min-w-0">
+                    <span className="text-sm font-medium text-white truncate">{view.name}</span>
+                    {renderCount(view)}
+                  </div>
+                  <div className="flex items-center space-x-1 flex-shrink-0">
+                    <Button
+                      size="sm"
+                      variant="ghost"
+                      onClick={() => togglePinned(view.id)}
+                      title={view.pinned ? 'Unpin' : 'Pin to the Data tab'}
+                      className="h-8 w-8 p-0 text-slate-400 hover:text-white"
+                    >
+                      {view.pinned ? <PinOff className="h-4 w-4" /> : <Pin className="h-4 w-4" />}
+                    </Button>
+                    <Button
+                      size="sm"
+                      variant="ghost"
+                      onClick={() => exportView(view)}
+                      title="Export this view"
+                      className="h-8 w-8 p-0 text-slate-400 hover:text-white"
+                    >
+                      <Download className="h-4 w-4" />
+                    </Button>
+                    <Button
+                      size="sm"
+                      variant="ghost"
+                      onClick={() => handleDelete(view.id)}
+                      title={pendingDeleteId === view.id ? 'Click again to delete' : 'Delete'}
+                      className={`h-8 p-0 ${pendingDeleteId === view.id ? 'px-2 text-red-400' : 'w-8 text-slate-400 hover:text-red-400'}`}
+                    >
+                      <Trash2 className="h-4 w-4" />
+                      {pendingDeleteId === view.id && <span className="ml-1 text-xs">Delete?</span>}
+                    </Button>
+                  </div>
+                </div>
+                <p className="text-xs font-mono text-purple-200 mt-1 break-all">{view.query}</p>
+                <div className="flex flex-wrap gap-1 mt-1">
+                  {view.sort && (
+                    <Badge variant="outline" className="border-slate-600 text-slate-400">
+                      Sorted by {view.sort.column} {view.sort.direction === 'asc' ? '↑' : '↓'}
+                    </Badge>
+                  )}
+                  {view.columns && (
+                    <Badge variant="outline" className="border-slate-600 text-slate-400">
+                      {view.columns.length} columns
+                    </Badge>
+                  )}
+                </div>
+              </div>
+            ))}
+            {views.length === 0 && <p className="text-sm text-slate-400">No saved views yet.</p>}
+          </div>
+
+          <div className="flex justify-end space-x-2">
+            <Button onClick={() => fileInputRef.current?.click()} variant="outline" className="border-slate-600 text-slate-300">
+              <Upload className="h-4 w-4 mr-2" />
+              Import
+            </Button>
+            {views.length > 0 && (
+              <Button onClick={() => downloadViews(views, 'views.json')} variant="outline" className="border-slate-600 text-slate-300">
+                <Download className="h-4 w-4 mr-2" />
+                Export all
+              </Button>
+            )}
+            <input
+              ref={fileInputRef}
+              type="file"
+              accept="application/json,.json"
+              onChange={importViews}
+              className="hidden"
+            />
+          </div>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+};
+
+export default SavedViewsBar;
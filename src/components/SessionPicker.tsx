@@ -0,0 +1,186 @@
+import React, { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Badge } from '@/components/ui/badge';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger
+} from '@/components/ui/dialog';
+import { Check, Copy, FolderOpen, Pencil, Plus, Trash2, X } from 'lucide-react';
+import { SessionSummary } from '@/utils/workspaceStore';
+
+interface SessionPickerProps {
+  sessions: SessionSummary[];
+  activeSessionId: string | null;
+  activeSessionName: string;
+  onOpen: (id: string) => void;
+  onCreate: (name: string) => void;
+  onDuplicate: (id: string) => void;
+  onRename: (id: string, name: string) => void;
+  onDelete: (id: string) => void;
+}
+
+const SessionPicker: React.FC<SessionPickerProps> = ({
+  sessions,
+  activeSessionId,
+  activeSessionName,
+  onOpen,
+  onCreate,
+  onDuplicate,
+  onRename,
+  onDelete
+}) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const [newSessionName, setNewSessionName] = useState('');
+  const [renamingId, setRenamingId] = useState<string | null>(null);
+  const [renameValue, setRenameValue] = useState('');
+  const [pendingDeleteId, setPendingDeleteId] = useState<string | null>(null);
+
+  const handleCreate = () => {
+    onCreate(newSessionName);
+    setNewSessionName('');
+    setIsOpen(false);
+  };
+
+  const handleOpen = (id: string) => {
+    onOpen(id);
+    setIsOpen(false);
+  };
+
+  const startRename = (session: SessionSummary) => {
+    setRenamingId(session.id);
+    setRenameValue(session.name);
+  };
+
+  const commitRename = () => {
+    if (renamingId) {
+      onRename(renamingId, renameValue);
+    }
+    setRenamingId(null);
+  };
+
+  const handleDelete = (id: string) => {
+    if (pendingDeleteId !== id) {
+      setPendingDeleteId(id);
+      return;
+    }
+    onDelete(id);
+    setPendingDeleteId(null);
+  };
+
+  return (
+    <Dialog open={isOpen} onOpenChange={(open) => {
+      setIsOpen(open);
+      setPendingDeleteId(null);
+      setRenamingId(null);
+    }}>
+      <DialogTrigger asChild>
+        <Button variant="outline" size="sm" className="border-slate-600 text-slate-300 max-w-[220px]">
+          <FolderOpen className="h-4 w-4 mr-2 flex-shrink-0" />
+          <span className="truncate">{activeSessionName}</span>
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="bg-slate-900 border-slate-700 text-white max-w-lg">
+        <DialogHeader>
+          <DialogTitle className="text-white">Workspaces</DialogTitle>
+          <DialogDescription className="text-slate-400">
+            Workspaces are saved automatically in this browser.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="flex space-x-2">
+          <Input
+            placeholder='New workspace name, e.g. "Q3 client intake"'
+            value={newSessionName}
+            onChange={(e) => setNewSessionName(e.target.value)}
+            onKeyDown={(e) => e.key === 'Enter' && handleCreate()}
+            className="bg-slate-800 border-slate-600 text-white"
+          />
+          <Button onClick={handleCreate} className="bg-purple-600 hover:bg-purple-700">
+            <Plus className="h-4 w-4 mr-2" />
+            New
+          </Button>
+        </div>
+
+        <div className="space-y-2 max-h-80 overflow-y-auto">
+          {sessions.map((session) => {
+            const isActive = session.id === activeSessionId;
+
+            return (
+              <div
+                key={session.id}
+                className={`flex items-center justify-between p-3 rounded-lg border ${
+                  isActive ? 'bg-purple-500/20 border-purple-500/50' : 'bg-slate-800/50 border-slate-700'
+                }`}
+              >
+                <div className="flex-1 min-w-0 mr-2">
+                  {renamingId === session.id ? (
+                    <div className="flex items-center space-x-1">
+                      <Input
+                        value={renameValue}
+                        onChange={(e) => setRenameValue(e.target.value)}
+                        onKeyDown={(e) => {
+                          if (e.key === 'Enter') commitRename();
+                          if (e.key === 'Escape') setRenamingId(null);
+                        }}
+                        className="h-8 bg-slate-700 border-slate-600 text-white"
+                        autoFocus
+                      />
+                      <Button size="sm" variant="ghost" onClick={commitRename} className="h-8 w-8 p-0 text-green-400">
+                        <Check className="h-4 w-4" />
+                      </Button>
+                      <Button size="sm" variant="ghost" onClick={() => setRenamingId(null)} className="h-8 w-8 p-0 text-slate-400">
+                        <X className="h-4 w-4" />
+                      </Button>
+                    </div>
+                  ) : (
+                    <>
+                      <div className="flex items-center space-x-2">
+                        <p className="text-sm font-medium text-white truncate">{session.name}</p>
+                        {isActive && <Badge variant="secondary" className="text-xs">Open</Badge>}
+                      </div>
+                      <p className="text-xs text-slate-400">
+                        {session.fileCount} files · saved {new Date(session.updatedAt).toLocaleString()}
+                      </p>
+                    </>
+                  )}
+                </div>
+
+                {renamingId !== session.id && (
+                  <div className="flex items-center space-x-1">
+                    {!isActive && (
+                      <Button size="sm" variant="ghost" onClick={() => handleOpen(session.id)} className="text-slate-300 hover:text-white">
+                        Open
+                      </Button>
+                    )}
+                    <Button size="sm" variant="ghost" title="Rename" onClick={() => startRename(session)} className="h-8 w-8 p-0 text-slate-400 hover:text-white">
+                      <Pencil className="h-4 w-4" />
+                    </Button>
+                    <Button size="sm" variant="ghost" title="Duplicate" onClick={() => onDuplicate(session.id)} className="h-8 w-8 p-0 text-slate-400 hover:text-white">
+                      <Copy className="h-4 w-4" />
+                    </Button>
+                    <Button
+                      size="sm"
+                      variant="ghost"
+                      title="Delete"
+                      onClick={() => handleDelete(session.id)}
+                      className={pendingDeleteId === session.id ? 'text-red-400 hover:text-red-300' : 'h-8 w-8 p-0 text-slate-400 hover:text-red-400'}
+                    >
+                      {pendingDeleteId === session.id ? 'Confirm' : <Trash2 className="h-4 w-4" />}
+                    </Button>
+                  </div>
+                )}
+              </div>
+            );
+          })}
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default SessionPicker;
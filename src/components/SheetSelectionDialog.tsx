@@ -0,0 +1,161 @@
+import React, { useMemo, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Checkbox } from '@/components/ui/checkbox';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle
+} from '@/components/ui/dialog';
+import { Table2 } from 'lucide-react';
+import { SheetPreview } from '@/utils/fileParsing';
+import { ENTITY_SCHEMAS, detectEntity } from '@/utils/schemaDetection';
+
+export interface PendingWorkbook {
+  fileName: string;
+  sheets: SheetPreview[];
+}
+
+interface SheetSelectionDialogProps {
+  workbook: PendingWorkbook;
+  onConfirm: (sheets: SheetPreview[]) => void;
+  onCancel: () => void;
+}
+
+const PREVIEW_ROWS = 5;
+
+// Rendered with a key per workbook, so initial state is derived once
+const SheetSelectionDialog: React.FC<SheetSelectionDialogProps> = ({ workbook, onConfirm, onCancel }) => {
+  const detected = useMemo(() => Object.fromEntries(
+    workbook.sheets.map(sheet => {
+      const [best] = detectEntity(sheet.headers, sheet.rows);
+      return [sheet.name, best && best.confidence >= 0.3 ? best.entity : null];
+    })
+  ), [workbook]);
+
+  // Sheets that look like a known entity are selected by default
+  const [selected, setSelected] = useState<Set<string>>(() => new Set(
+    workbook.sheets.filter(sheet => detected[sheet.name]).map(sheet => sheet.name)
+  ));
+  const [previewSheet, setPreviewSheet] = useState(workbook.sheets[0].name);
+
+  const toggleSheet = (name: string, checked: boolean) => {
+    setSelected(prev => {
+      const next = new Set(prev);
+      if (checked) {
+        next.add(name);
+      } else {
+        next.delete(name);
+      }
+      return next;
+    });
+  };
+
+  const preview = workbook.sheets.find(sheet => sheet.name === previewSheet) ?? workbook.sheets[0];
+
+  return (
+    <Dialog open onOpenChange={(open) => !open && onCancel()}>
+      <DialogContent className="bg-slate-900 border-slate-700 text-white max-w-4xl">
+        <DialogHeader>
+          <DialogTitle className="text-white">Import sheets from {workbook.fileName}</DialogTitle>
+          <DialogDescription className="text-slate-400">
+            Each selected sheet is loaded as its own file and goes through column mapping.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="grid grid-cols-3 gap-4">
+          <div className="space-y-2 max-h-96 overflow-y-auto">
+            {workbook.sheets.map(sheet => {
+              const entity = detected[sheet.name];
+
+              return (
+                <div
+                  key={sheet.name}
+                  onClick={() => setPreviewSheet(sheet.name)}
+                  className={`flex items-start space-x-3 p-3 rounded-lg border cursor-pointer ${
+                    sheet.name === preview.name
+                      ? 'bg-purple-500/20 border-purple-500/50'
+                      : 'bg-slate-800/50 border-slate-700 hover:border-slate-600'
+                  }`}
+                >
+                  <Checkbox
+                    checked={selected.has(sheet.name)}
+                    onCheckedChange={(checked) => toggleSheet(sheet.name, checked === true)}
+                    onClick={(e) => e.stopPropagation()}
+                    className="mt-0.5 border-slate-500"
+                  />
+                  <div className="min-w-0">
+                    <p className="text-sm font-medium text-white truncate">{sheet.name}</p>
+                    <p className="text-xs text-slate-400">
+                      {sheet.rows.length} rows · {sheet.headers.length} columns
+                    </p>
+                    {entity ? (
+                      <Badge variant="outline" className="mt-1 text-xs text-blue-300 border-blue-500/50">
+                        Looks like {ENTITY_SCHEMAS[entity].label.toLowerCase()}
+                      </Badge>
+                    ) : (
+                      <Badge variant="outline" className="mt-1 text-xs text-slate-400 border-slate-600">
+                        Unrecognized
+                      </Badge>
+                    )}
+                  </div>
+                </div>
+              );
+            })}
+          </div>
+
+          <div className="col-span-2 min-w-0">
+            <div className="flex items-center space-x-2 mb-2">
+              <Table2 className="h-4 w-4 text-slate-400" />
+              <span className="text-sm text-slate-300">
+                {preview.name} — first {Math.min(PREVIEW_ROWS, preview.rows.length)} of {preview.rows.length} rows
+              </span>
+            </div>
+            <div className="overflow-auto max-h-96 rounded-lg border border-slate-700">
+              <table className="w-full">
+                <thead className="bg-slate-800 sticky top-0">
+                  <tr>
+                    {preview.headers.map(header => (
+                      <th key={header} className="px-3 py-2 text-left text-xs font-medium text-slate-300 whitespace-nowrap">
+                        {header}
+                      </th>
+                    ))}
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-slate-700">
+                  {preview.rows.slice(0, PREVIEW_ROWS).map((row, index) => (
+                    <tr key={index}>
+                      {preview.headers.map(header => (
+                        <td key={header} className="px-3 py-2 text-xs text-slate-300 whitespace-nowrap max-w-[200px] truncate">
+                          {String(row[header] ?? '')}
+                        </td>
+                      ))}
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          </div>
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={onCancel}>
+            Skip Workbook
+          </Button>
+          <Button
+            onClick={() => onConfirm(workbook.sheets.filter(sheet => selected.has(sheet.name)))}
+            disabled={selected.size === 0}
+            className="bg-purple-600 hover:bg-purple-700"
+          >
+            Import {selected.size} {selected.size === 1 ? 'Sheet' : 'Sheets'}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default SheetSelectionDialog;
@@ -1,12 +1,17 @@
 
-import React, { useState } from 'react';
+import React, { useMemo, useState } from 'react';
 import { Card } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
 import { Button } from '@/components/ui/button';
 import { Progress } from '@/components/ui/progress';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
-import { AlertCircle, AlertTriangle, CheckCircle, Download, Filter, TrendingUp } from 'lucide-react';
+import { AlertCircle, AlertTriangle, ArrowRight, CheckCircle, Download, Filter, TrendingUp, X } from 'lucide-react';
 import { validationEngine } from '@/utils/validationEngine';
+import { EntityType, ValidationRule } from '@/utils/validationRules';
+import { DEFAULT_DEPENDENCY_FIELDS, DependencyFields } from '@/utils/dependencyGraph';
+import { BUSINESS_RULE_ERROR_PREFIX, BusinessRule, describeBusinessRule, getBusinessRuleErrorId } from '@/utils/businessRules';
+import ValidationRuleEditor from '@/components/ValidationRuleEditor';
+import DependencyGraphView from '@/components/DependencyGraphView';
 
 interface ValidationDashboardProps {
   files: {
@@ -14,6 +19,7 @@ interface ValidationDashboardProps {
       name: string;
       data: any[];
       headers: string[];
+      entityType?: EntityType | null;
       validationErrors: Array<{
         row: number;
         column: string;
@@ -23,6 +29,11 @@ interface ValidationDashboardProps {
       }>;
     };
   };
+  validationRules: ValidationRule[];
+  // Resolves business rule violations in the breakdown
+  businessRules?: BusinessRule[];
+  onValidationRulesChange: (rules: ValidationRule[]) => void;
+  onNavigateToIssue?: (fileName: string, row: number, column: string) => void;
 }
 
 const generateRecommendations = (errorCount: number, warningCount: number, validationScore: number) => {
@@ -43,11 +54,20 @@ const generateRecommendations = (errorCount: number, warningCount: number, valid
   return recommendations;
 };
 
-const ValidationDashboard: React.FC<ValidationDashboardProps> = ({ files }) => {
+const ValidationDashboard: React.FC<ValidationDashboardProps> = ({
+  files,
+  validationRules,
+  businessRules = [],
+  onValidationRulesChange,
+  onNavigateToIssue
+}) => {
   const [selectedFilter, setSelectedFilter] = useState<'all' | 'errors' | 'warnings'>('all');
+  const [activeView, setActiveView] = useState('overview');
+  // Set from the rules breakdown to list one rule's issues
+  const [ruleFilter, setRuleFilter] = useState<string | null>(null);
   
-  const allErrors = Object.values(files).flatMap(file => 
-    file.validationErrors.map(error => ({ ...error, fileName: file.name }))
+  const allErrors = Object.entries(files).flatMap(([fileName, file]) => 
+    file.validationErrors.map(error => ({ ...error, fileName }))
   );
 
   const errorCount = allErrors.filter(e => e.severity === 'error').length;
@@ -55,6 +75,17 @@ const ValidationDashboard: React.FC<ValidationDashboardProps> = ({ files }) => {
   const totalRows = Object.values(files).reduce((sum, file) => sum + file.data.length, 0);
   const validationScore = totalRows > 0 ? Math.max(0, 100 - ((errorCount * 10 + warningCount * 2) / totalRows * 100)) : 100;
 
+  const findRule = (ruleId: string) => {
+    if (!ruleId.startsWith(BUSINESS_RULE_ERROR_PREFIX)) return validationEngine.getRules().find(r => r.id === ruleId);
+    const rule = businessRules.find(r => getBusinessRuleErrorId(r) === ruleId);
+    return rule && {
+      name: rule.name,
+      type: rule.type,
+      severity: 'error',
+      message: rule.description || describeBusinessRule(rule)
+    };
+  };
+
   // Group errors by rule type
   const errorsByRule = allErrors.reduce((acc, error) => {
     const ruleId = error.ruleId || 'unknown';
@@ -63,12 +94,26 @@ const ValidationDashboard: React.FC<ValidationDashboardProps> = ({ files }) => {
     }
     acc[ruleId].count++;
     acc[ruleId].errors.push(error);
-    acc[ruleId].rule = validationEngine.getRules().find(r => r.id === ruleId);
+    acc[ruleId].rule = findRule(ruleId);
     return acc;
   }, {} as any);
 
-  const filteredErrors = selectedFilter === 'all' ? allErrors : 
-    allErrors.filter(e => e.severity === (selectedFilter === 'errors' ? 'error' : 'warning'));
+  const filteredErrors = (selectedFilter === 'all' ? allErrors : 
+    allErrors.filter(e => e.severity === (selectedFilter === 'errors' ? 'error' : 'warning')))
+    .filter(e => !ruleFilter || (e.ruleId || 'unknown') === ruleFilter);
+
+  const taskFiles = Object.entries(files).filter(([, file]) => validationEngine.getEntityType(file) === 'tasks');
+  const dependencyRule = validationRules.find(rule => rule.type === 'dependency-cycle');
+  const dependencyFields = useMemo<DependencyFields>(() => dependencyRule ? {
+    idField: dependencyRule.config?.idField ?? DEFAULT_DEPENDENCY_FIELDS.idField,
+    dependenciesField: dependencyRule.field,
+    phaseField: dependencyRule.config?.phaseField
+  } : DEFAULT_DEPENDENCY_FIELDS, [dependencyRule]);
+
+  const showRuleIssues = (ruleId: string) => {
+    setRuleFilter(ruleId);
+    setActiveView('details');
+  };
 
   const exportDetailedReport = () => {
     const report = {
@@ -149,11 +194,13 @@ const ValidationDashboard: React.FC<ValidationDashboardProps> = ({ files }) => {
       </div>
 
       {/* Validation Details */}
-      <Tabs defaultValue="overview" className="space-y-4">
-        <TabsList className="grid w-full grid-cols-3 bg-slate-800/50">
+      <Tabs value={activeView} onValueChange={setActiveView} className="space-y-4">
+        <TabsList className="grid w-full grid-cols-5 bg-slate-800/50">
           <TabsTrigger value="overview">Overview</TabsTrigger>
           <TabsTrigger value="rules">Rules Breakdown</TabsTrigger>
           <TabsTrigger value="details">Detailed Errors</TabsTrigger>
+          <TabsTrigger value="dependencies">Dependencies</TabsTrigger>
+          <TabsTrigger value="configure">Configure Rules</TabsTrigger>
         </TabsList>
 
         <TabsContent value="overview" className="space-y-4">
@@ -216,7 +263,11 @@ const ValidationDashboard: React.FC<ValidationDashboardProps> = ({ files }) => {
         <TabsContent value="rules" className="space-y-4">
           <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4">
             {Object.entries(errorsByRule).map(([ruleId, data]: [string, any]) => (
-              <Card key={ruleId} className="p-4 bg-slate-800/50 border-slate-700">
+              <Card
+                key={ruleId}
+                onClick={() => showRuleIssues(ruleId)}
+                className="p-4 bg-slate-800/50 border-slate-700 cursor-pointer hover:border-purple-500/50 transition-colors"
+              >
                 <div className="flex items-start justify-between mb-2">
                   <h4 className="text-sm font-medium text-white">
                     {data.rule?.name || 'Unknown Rule'}
@@ -231,6 +282,19 @@ const ValidationDashboard: React.FC<ValidationDashboardProps> = ({ files }) => {
                 <p className="text-xs text-slate-300">
                   {data.rule?.message || 'No description available'}
                 </p>
+                {onNavigateToIssue && (
+                  <button
+                    onClick={(e) => {
+                      e.stopPropagation();
+                      const [first] = data.errors;
+                      onNavigateToIssue(first.fileName, first.row, first.column);
+                    }}
+                    className="mt-3 flex items-center text-xs text-purple-300 hover:text-purple-200"
+                  >
+                    Go to first issue
+                    <ArrowRight className="h-3 w-3 ml-1" />
+                  </button>
+                )}
               </Card>
             ))}
           </div>
@@ -239,7 +303,17 @@ const ValidationDashboard: React.FC<ValidationDashboardProps> = ({ files }) => {
         <TabsContent value="details">
           <Card className="p-6 bg-slate-800/50 border-slate-700">
             <div className="flex items-center justify-between mb-4">
-              <h3 className="text-lg font-semibold text-white">Detailed Error List</h3>
+              <div className="flex items-center space-x-3">
+                <h3 className="text-lg font-semibold text-white">Detailed Error List</h3>
+                {ruleFilter && (
+                  <Badge variant="outline" className="text-purple-300 border-purple-500/50">
+                    {errorsByRule[ruleFilter]?.rule?.name || ruleFilter}
+                    <button onClick={() => setRuleFilter(null)} className="ml-1 hover:text-white" title="Show all rules">
+                      <X className="h-3 w-3" />
+                    </button>
+                  </Badge>
+                )}
+              </div>
               <div className="flex items-center space-x-2">
                 <Button
                   variant="outline"
@@ -259,12 +333,14 @@ const ValidationDashboard: React.FC<ValidationDashboardProps> = ({ files }) => {
             
             <div className="space-y-2 max-h-96 overflow-y-auto">
               {filteredErrors.slice(0, 50).map((error, index) => (
-                <div 
+                <button 
                   key={index}
-                  className={`p-3 rounded-lg border-l-4 ${
+                  onClick={() => onNavigateToIssue?.(error.fileName, error.row, error.column)}
+                  title="Show in data grid"
+                  className={`w-full text-left p-3 rounded-lg border-l-4 transition-colors ${
                     error.severity === 'error' 
-                      ? 'bg-red-500/10 border-red-500' 
-                      : 'bg-yellow-500/10 border-yellow-500'
+                      ? 'bg-red-500/10 border-red-500 hover:bg-red-500/20' 
+                      : 'bg-yellow-500/10 border-yellow-500 hover:bg-yellow-500/20'
                   }`}
                 >
                   <div className="flex items-start justify-between">
@@ -280,7 +356,7 @@ const ValidationDashboard: React.FC<ValidationDashboardProps> = ({ files }) => {
                       <AlertTriangle className="h-4 w-4 text-yellow-400 mt-0.5" />
                     )}
                   </div>
-                </div>
+                </button>
               ))}
               
               {filteredErrors.length > 50 && (
@@ -291,6 +367,26 @@ const ValidationDashboard: React.FC<ValidationDashboardProps> = ({ files }) => {
             </div>
           </Card>
         </TabsContent>
+
+        <TabsContent value="dependencies" className="space-y-4">
+          {taskFiles.length === 0 ? (
+            <Card className="p-6 bg-slate-800/50 border-slate-700 text-center text-slate-400">
+              Upload a tasks file to see its dependency graph.
+            </Card>
+          ) : taskFiles.map(([fileName, file]) => (
+            <DependencyGraphView
+              key={fileName}
+              fileName={fileName}
+              data={file.data}
+              fields={dependencyFields}
+              onNavigateToRow={onNavigateToIssue && ((row, column) => onNavigateToIssue(fileName, row, column))}
+            />
+          ))}
+        </TabsContent>
+
+        <TabsContent value="configure">
+          <ValidationRuleEditor rules={validationRules} onRulesChange={onValidationRulesChange} />
+        </TabsContent>
       </Tabs>
 
       {allErrors.length === 0 && (
@@ -0,0 +1,458 @@
+import React, { useRef, useState } from 'react';
+import { Card } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
+import { Switch } from '@/components/ui/switch';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Download, Edit3, Plus, RotateCcw, Trash2, Upload } from 'lucide-react';
+import { toast } from 'sonner';
+import {
+  DEFAULT_VALIDATION_RULES,
+  ENTITY_TYPES,
+  RULE_TYPES,
+  ValidationRule,
+  parseValidationProfile,
+  serializeValidationProfile,
+  validationRuleSchema
+} from '@/utils/validationRules';
+
+interface ValidationRuleEditorProps {
+  rules: ValidationRule[];
+  onRulesChange: (rules: ValidationRule[]) => void;
+}
+
+const ENTITY_SCOPES = ['all', ...ENTITY_TYPES] as const;
+
+const EMPTY_RULE: ValidationRule = {
+  id: '',
+  name: '',
+  type: 'required',
+  entity: 'all',
+  field: '',
+  message: '',
+  severity: 'error',
+  enabled: true
+};
+
+const ValidationRuleEditor: React.FC<ValidationRuleEditorProps> = ({ rules, onRulesChange }) => {
+  const [draft, setDraft] = useState<ValidationRule | null>(null);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  // Allowed values are edited as free text and split on save
+  const [valuesText, setValuesText] = useState('');
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const startEdit = (rule: ValidationRule) => {
+    setDraft({ ...rule, config: rule.config ? { ...rule.config } : undefined });
+    setValuesText(rule.config?.values?.join(', ') ?? '');
+    setEditingId(rule.id);
+  };
+
+  const startNew = () => {
+    setDraft({ ...EMPTY_RULE, id: `rule-${Date.now()}` });
+    setValuesText('');
+    setEditingId(null);
+  };
+
+  const updateConfig = (config: ValidationRule['config']) => {
+    if (!draft) return;
+    setDraft({ ...draft, config: { ...draft.config, ...config } });
+  };
+
+  const saveDraft = () => {
+    if (!draft) return;
+
+    const values = valuesText.split(',').map(value => value.trim()).filter(Boolean);
+    const backReference = draft.config?.backReference;
+    const result = validationRuleSchema.safeParse({
+      ...draft,
+      config: draft.config && {
+        ...draft.config,
+        values: (draft.type === 'enum' || draft.type === 'json-array') && values.length > 0 ? values : undefined,
+        // An untouched back reference pair means the check is off
+        backReference: backReference?.field || backReference?.key ? backReference : undefined
+      }
+    });
+    if (!result.success) {
+      toast.error(result.error.issues[0]?.message ?? 'Invalid rule');
+      return;
+    }
+    if (!editingId && rules.some(rule => rule.id === draft.id)) {
+      toast.error(`A rule with id "${draft.id}" already exists`);
+      return;
+    }
+
+    const saved = result.data as ValidationRule;
+    onRulesChange(editingId
+      ? rules.map(rule => rule.id === editingId ? saved : rule)
+      : [...rules, saved]
+    );
+    setDraft(null);
+    setEditingId(null);
+    toast.success(editingId ? 'Rule updated' : 'Rule added');
+  };
+
+  const toggleRule = (id: string) => {
+    onRulesChange(rules.map(rule =>
+      rule.id === id ? { ...rule, enabled: !rule.enabled } : rule
+    ));
+  };
+
+  const removeRule = (id: string) => {
+    onRulesChange(rules.filter(rule => rule.id !== id));
+    toast.success('Rule removed');
+  };
+
+  const exportProfile = () => {
+    const blob = new Blob([serializeValidationProfile(rules)], { type: 'application/json' });
+    const url = URL.createObjectURL(blob);
+    const a = document.createElement('a');
+    a.href = url;
+    a.download = 'validation-profile.json';
+    a.click();
+    URL.revokeObjectURL(url);
+    toast.success('Validation profile exported');
+  };
+
+  const importProfile = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (!file) return;
+
+    try {
+      const imported = parseValidationProfile(await file.text());
+      onRulesChange(imported);
+      toast.success(`Imported ${imported.length} validation rules`);
+    } catch (error) {
+      toast.error(`Invalid profile: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  };
+
+  const resetToDefaults = () => {
+    onRulesChange(DEFAULT_VALIDATION_RULES);
+    toast.success('Validation rules reset to defaults');
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center justify-between">
+        <div>
+          <h3 className="text-lg font-semibold text-white">Validation Profile</h3>
+          <p className="text-sm text-slate-400">
+            {rules.filter(rule => rule.enabled).length} of {rules.length} rules enabled
+          </p>
+        </div>
+        <div className="flex items-center space-x-2">
+          <Button onClick={resetToDefaults} variant="outline" size="sm" className="border-slate-600">
+            <RotateCcw className="h-4 w-4 mr-2" />
+            Reset
+          </Button>
+          <Button onClick={() => fileInputRef.current?.click()} variant="outline" size="sm" className="border-slate-600">
+            <Upload className="h-4 w-4 mr-2" />
+            Import
+          </Button>
+          <Button onClick={exportProfile} variant="outline" size="sm" className="border-slate-600">
+            <Download className="h-4 w-4 mr-2" />
+            Export
+          </Button>
+          <Button onClick={startNew} size="sm" className="bg-purple-600 hover:bg-purple-700">
+            <Plus className="h-4 w-4 mr-2" />
+            Add Rule
+          </Button>
+          <input
+            ref={fileInputRef}
+            type="file"
+            accept="application/json,.json"
+            onChange={importProfile}
+            className="hidden"
+          />
+        </div>
+      </div>
+
+      {/* Rule Form */}
+      {draft && (
+        <Card className="p-6 bg-slate-800/50 border-slate-700">
+          <h4 className="text-md font-semibold text-white mb-4">
+            {editingId ? `Edit "${draft.name}"` : 'New Validation Rule'}
+          </h4>
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+            <div>
+              <Label className="text-slate-300">Rule Name</Label>
+              <Input
+                value={draft.name}
+                onChange={(e) => setDraft({ ...draft, name: e.target.value })}
+                className="bg-slate-700 border-slate-600 text-white"
+              />
+            </div>
+            <div>
+              <Label className="text-slate-300">Applies To</Label>
+              <Select value={draft.entity} onValueChange={(value) => setDraft({ ...draft, entity: value as ValidationRule['entity'] })}>
+                <SelectTrigger className="bg-slate-700 border-slate-600 text-white">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {ENTITY_SCOPES.map(scope => (
+                    <SelectItem key={scope} value={scope}>{scope === 'all' ? 'All files' : scope}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div>
+              <Label className="text-slate-300">Column</Label>
+              <Input
+                value={draft.field}
+                onChange={(e) => setDraft({ ...draft, field: e.target.value })}
+                className="bg-slate-700 border-slate-600 text-white"
+                placeholder="e.g. Email"
+              />
+            </div>
+            <div>
+              <Label className="text-slate-300">Check</Label>
+              <Select value={draft.type} onValueChange={(value) => setDraft({ ...draft, type: value as ValidationRule['type'] })}>
+                <SelectTrigger className="bg-slate-700 border-slate-600 text-white">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {RULE_TYPES.filter(type => type !== 'custom').map(type => (
+                    <SelectItem key={type} value={type}>{type}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div>
+              <Label className="text-slate-300">Severity</Label>
+              <Select value={draft.severity} onValueChange={(value) => setDraft({ ...draft, severity: value as ValidationRule['severity'] })}>
+                <SelectTrigger className="bg-slate-700 border-slate-600 text-white">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="error">Error</SelectItem>
+                  <SelectItem value="warning">Warning</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+            <div>
+              <Label className="text-slate-300">Message</Label>
+              <Input
+                value={draft.message}
+                onChange={(e) => setDraft({ ...draft, message: e.target.value })}
+                className="bg-slate-700 border-slate-600 text-white"
+              />
+            </div>
+
+            {(draft.type === 'range' || draft.type === 'ratio') && (
+              <>
+                {draft.type === 'ratio' && (
+                  <div>
+                    <Label className="text-slate-300">Divide By Column</Label>
+                    <Input
+                      value={draft.config?.otherField ?? ''}
+                      onChange={(e) => updateConfig({ otherField: e.target.value || undefined })}
+                      className="bg-slate-700 border-slate-600 text-white"
+                      placeholder="e.g. EstimatedHours"
+                    />
+                  </div>
+                )}
+                <div>
+                  <Label className="text-slate-300">{draft.type === 'ratio' ? 'Minimum Ratio' : 'Minimum'}</Label>
+                  <Input
+                    type="number"
+                    value={draft.config?.min ?? ''}
+                    onChange={(e) => updateConfig({ min: e.target.value === '' ? undefined : Number(e.target.value) })}
+                    className="bg-slate-700 border-slate-600 text-white"
+                  />
+                </div>
+                <div>
+                  <Label className="text-slate-300">{draft.type === 'ratio' ? 'Maximum Ratio' : 'Maximum'}</Label>
+                  <Input
+                    type="number"
+                    value={draft.config?.max ?? ''}
+                    onChange={(e) => updateConfig({ max: e.target.value === '' ? undefined : Number(e.target.value) })}
+                    className="bg-slate-700 border-slate-600 text-white"
+                  />
+                </div>
+                {draft.type === 'range' && (
+                  <div>
+                    <Label className="text-slate-300">Maximum From Column</Label>
+                    <Input
+                      value={draft.config?.maxField ?? ''}
+                      onChange={(e) => updateConfig({ maxField: e.target.value || undefined })}
+                      className="bg-slate-700 border-slate-600 text-white"
+                      placeholder="e.g. MaxLoadPerPhase"
+                    />
+                  </div>
+                )}
+              </>
+            )}
+
+            {draft.type === 'dependency-cycle' && (
+              <>
+                <div>
+                  <Label className="text-slate-300">ID Column</Label>
+                  <Input
+                    value={draft.config?.idField ?? ''}
+                    onChange={(e) => updateConfig({ idField: e.target.value || undefined })}
+                    className="bg-slate-700 border-slate-600 text-white"
+                    placeholder="e.g. TaskID"
+                  />
+                </div>
+                <div>
+                  <Label className="text-slate-300">Phase Column</Label>
+                  <Input
+                    value={draft.config?.phaseField ?? ''}
+                    onChange={(e) => updateConfig({ phaseField: e.target.value || undefined })}
+                    className="bg-slate-700 border-slate-600 text-white"
+                    placeholder="Optional, e.g. PreferredPhase"
+                  />
+                </div>
+              </>
+            )}
+
+            {(draft.type === 'enum' || draft.type === 'json-array') && (
+              <div className="md:col-span-2">
+                <Label className="text-slate-300">
+                  {draft.type === 'enum' ? 'Allowed Values' : 'Known Entries (optional)'}
+                </Label>
+                <Input
+                  value={valuesText}
+                  onChange={(e) => setValuesText(e.target.value)}
+                  className="bg-slate-700 border-slate-600 text-white"
+                  placeholder="Comma separated, e.g. Low, Medium, High"
+                />
+              </div>
+            )}
+
+            {draft.type === 'regex' && (
+              <div className="md:col-span-2">
+                <Label className="text-slate-300">Pattern</Label>
+                <Input
+                  value={draft.config?.pattern ?? ''}
+                  onChange={(e) => updateConfig({ pattern: e.target.value })}
+                  className="bg-slate-700 border-slate-600 text-white font-mono"
+                  placeholder="^[A-Z]\d+$"
+                />
+              </div>
+            )}
+
+            {draft.type === 'reference' && (
+              <>
+                <div>
+                  <Label className="text-slate-300">Referenced Entity</Label>
+                  <Select
+                    value={draft.config?.target?.entity ?? ''}
+                    onValueChange={(value) => updateConfig({
+                      target: { field: draft.config?.target?.field ?? '', entity: value as typeof ENTITY_TYPES[number] }
+                    })}
+                  >
+                    <SelectTrigger className="bg-slate-700 border-slate-600 text-white">
+                      <SelectValue placeholder="Select entity" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {ENTITY_TYPES.map(entity => (
+                        <SelectItem key={entity} value={entity}>{entity}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div>
+                  <Label className="text-slate-300">Referenced Column</Label>
+                  <Input
+                    value={draft.config?.target?.field ?? ''}
+                    onChange={(e) => updateConfig({
+                      target: { entity: draft.config?.target?.entity ?? 'tasks', field: e.target.value }
+                    })}
+                    className="bg-slate-700 border-slate-600 text-white"
+                    placeholder="e.g. TaskID"
+                  />
+                </div>
+                <div>
+                  <Label className="text-slate-300">Must List Back In</Label>
+                  <Input
+                    value={draft.config?.backReference?.field ?? ''}
+                    onChange={(e) => updateConfig({
+                      backReference: { key: draft.config?.backReference?.key ?? '', field: e.target.value }
+                    })}
+                    className="bg-slate-700 border-slate-600 text-white"
+                    placeholder="Optional, e.g. TaskIDs"
+                  />
+                </div>
+                <div>
+                  <Label className="text-slate-300">This Row's ID Column</Label>
+                  <Input
+                    value={draft.config?.backReference?.key ?? ''}
+                    onChange={(e) => updateConfig({
+                      backReference: { field: draft.config?.backReference?.field ?? '', key: e.target.value }
+                    })}
+                    className="bg-slate-700 border-slate-600 text-white"
+                    placeholder="Optional, e.g. TaskID"
+                  />
+                </div>
+                <div className="flex items-center space-x-2 pt-6">
+                  <Switch
+                    checked={draft.config?.reportUnreferenced ?? false}
+                    onCheckedChange={(checked) => updateConfig({ reportUnreferenced: checked || undefined })}
+                  />
+                  <Label className="text-slate-300">Warn about unreferenced rows</Label>
+                </div>
+              </>
+            )}
+          </div>
+          <div className="flex justify-end space-x-3 mt-6">
+            <Button variant="outline" onClick={() => setDraft(null)}>
+              Cancel
+            </Button>
+            <Button onClick={saveDraft} className="bg-purple-600 hover:bg-purple-700">
+              {editingId ? 'Save Rule' : 'Add Rule'}
+            </Button>
+          </div>
+        </Card>
+      )}
+
+      {/* Rules by entity */}
+      {ENTITY_SCOPES.map(scope => {
+        const scopedRules = rules.filter(rule => rule.entity === scope);
+        if (scopedRules.length === 0) return null;
+
+        return (
+          <Card key={scope} className="p-4 bg-slate-800/50 border-slate-700">
+            <h4 className="text-sm font-medium text-slate-300 uppercase tracking-wide mb-3">
+              {scope === 'all' ? 'All files' : scope}
+            </h4>
+            <div className="space-y-2">
+              {scopedRules.map(rule => (
+                <div key={rule.id} className="flex items-center justify-between p-3 bg-slate-700/30 rounded-lg">
+                  <div className="flex items-center space-x-3 min-w-0">
+                    <Switch checked={rule.enabled} onCheckedChange={() => toggleRule(rule.id)} />
+                    <div className="min-w-0">
+                      <div className="flex items-center space-x-2">
+                        <p className={`text-sm font-medium ${rule.enabled ? 'text-white' : 'text-slate-500'}`}>{rule.name}</p>
+                        <Badge variant="outline" className="text-xs">{rule.type}</Badge>
+                        <Badge variant={rule.severity === 'error' ? 'destructive' : 'secondary'} className="text-xs">
+                          {rule.severity}
+                        </Badge>
+                      </div>
+                      <p className="text-xs text-slate-400 truncate">
+                        {rule.field}: {rule.message}
+                      </p>
+                    </div>
+                  </div>
+                  <div className="flex items-center space-x-1">
+                    <Button size="sm" variant="ghost" onClick={() => startEdit(rule)} className="h-8 w-8 p-0 text-slate-400 hover:text-white">
+                      <Edit3 className="h-4 w-4" />
+                    </Button>
+                    <Button size="sm" variant="ghost" onClick={() => removeRule(rule.id)} className="h-8 w-8 p-0 text-slate-400 hover:text-red-400">
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  </div>
+                </div>
+              ))}
+            </div>
+          </Card>
+        );
+      })}
+    </div>
+  );
+};
+
+export default ValidationRuleEditor;
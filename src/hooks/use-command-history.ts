@@ -0,0 +1,105 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { DataCommand, invertCommand } from '@/utils/dataCommands';
+
+export interface CommandHistoryState {
+  entries: DataCommand[];
+  // Number of entries currently applied; entries at or after it can be redone
+  position: number;
+}
+
+const EMPTY_HISTORY: CommandHistoryState = { entries: [], position: 0 };
+
+const isTextInput = (target: EventTarget | null) =>
+  target instanceof HTMLElement &&
+  !!target.closest('input, textarea, select, [contenteditable="true"]');
+
+/**
+ * Linear undo/redo stack over data commands. `onApply` receives every command
+ * (or its inverse) that has to be applied to bring the data in line with the
+ * new history position.
+ */
+export function useCommandHistory(onApply: (command: DataCommand) => void) {
+  const [history, setHistory] = useState<CommandHistoryState>(EMPTY_HISTORY);
+  // Mirrors `history` so rapid key repeats never replay a stale position
+  const historyRef = useRef(history);
+  const onApplyRef = useRef(onApply);
+
+  useEffect(() => {
+    onApplyRef.current = onApply;
+  }, [onApply]);
+
+  const commit = useCallback((next: CommandHistoryState) => {
+    historyRef.current = next;
+    setHistory(next);
+  }, []);
+
+  const execute = useCallback((command: DataCommand) => {
+    const { entries, position } = historyRef.current;
+    onApplyRef.current(command);
+    commit({ entries: [...entries.slice(0, position), command], position: position + 1 });
+  }, [commit]);
+
+  const jumpTo = useCallback((target: number) => {
+    const { entries, position } = historyRef.current;
+    const nextPosition = Math.max(0, Math.min(entries.length, target));
+
+    for (let i = position - 1; i >= nextPosition; i--) {
+      onApplyRef.current(invertCommand(entries[i]));
+    }
+    for (let i = position; i < nextPosition; i++) {
+      onApplyRef.current(entries[i]);
+    }
+
+    commit({ entries, position: nextPosition });
+  }, [commit]);
+
+  const undo = useCallback(() => jumpTo(historyRef.current.position - 1), [jumpTo]);
+  const redo = useCallback(() => jumpTo(historyRef.current.position + 1), [jumpTo]);
+
+  // Drop every entry for a file that was replaced or removed. Commands on
+  // different files are independent, so the remaining history stays valid.
+  const discardFile = useCallback((fileName: string) => {
+    const { entries, position } = historyRef.current;
+    commit({
+      entries: entries.filter(entry => entry.fileName !== fileName),
+      position: entries.slice(0, position).filter(entry => entry.fileName !== fileName).length
+    });
+  }, [commit]);
+
+  // Replace the whole history, e.g. when switching to a saved workspace.
+  // The caller is responsible for restoring matching data.
+  const restore = useCallback((state: CommandHistoryState = EMPTY_HISTORY) => {
+    commit(state);
+  }, [commit]);
+
+  useEffect(() => {
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (!(event.ctrlKey || event.metaKey) || isTextInput(event.target)) return;
+
+      const key = event.key.toLowerCase();
+      if (key === 'z' && !event.shiftKey) {
+        event.preventDefault();
+        undo();
+      } else if ((key === 'z' && event.shiftKey) || key === 'y') {
+        event.preventDefault();
+        redo();
+      }
+    };
+
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [undo, redo]);
+
+  return {
+    entries: history.entries,
+    position: history.position,
+    canUndo: history.position > 0,
+    canRedo: history.position < history.entries.length,
+    execute,
+    undo,
+    redo,
+    jumpTo,
+    discardFile,
+    restore
+  };
+}
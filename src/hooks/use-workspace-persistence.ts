@@ -0,0 +1,187 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { toast } from 'sonner';
+import {
+  SessionSummary,
+  WorkspaceSession,
+  WorkspaceSnapshot,
+  createEmptyWorkspace,
+  createSession,
+  deleteSession,
+  duplicateSession,
+  getActiveSessionId,
+  listSessions,
+  loadSession,
+  saveSession,
+  setActiveSessionId
+} from '@/utils/workspaceStore';
+
+const AUTOSAVE_DELAY = 800;
+const DEFAULT_SESSION_NAME = 'Untitled workspace';
+
+type ActiveSession = Omit<WorkspaceSession, 'workspace'>;
+
+// Storage can fail at any step (quota, a blocked upgrade); report it rather than reject unhandled
+const reportFailure = (action: string, error: unknown) => {
+  console.error(`Failed to ${action}:`, error);
+  toast.error(`Could not ${action}: ${error instanceof Error ? error.message : 'workspace storage failed'}`);
+};
+
+/**
+ * Keeps the current workspace autosaved to IndexedDB and exposes the named
+ * session operations used by the session picker. `onRestore` is called with
+ * the workspace to show whenever a different session is opened.
+ */
+export function useWorkspacePersistence(
+  snapshot: WorkspaceSnapshot,
+  onRestore: (workspace: WorkspaceSnapshot) => void
+) {
+  const [sessions, setSessions] = useState<SessionSummary[]>([]);
+  const [activeSession, setActiveSession] = useState<ActiveSession | null>(null);
+  const [isLoaded, setIsLoaded] = useState(false);
+
+  const snapshotRef = useRef(snapshot);
+  const activeSessionRef = useRef(activeSession);
+  const onRestoreRef = useRef(onRestore);
+
+  useEffect(() => {
+    snapshotRef.current = snapshot;
+    activeSessionRef.current = activeSession;
+    onRestoreRef.current = onRestore;
+  });
+
+  const refreshSessions = useCallback(async () => {
+    setSessions(await listSessions());
+  }, []);
+
+  const activate = useCallback((session: WorkspaceSession) => {
+    const { workspace, ...meta } = session;
+    activeSessionRef.current = meta;
+    snapshotRef.current = workspace;
+    setActiveSession(meta);
+    setActiveSessionId(meta.id);
+    onRestoreRef.current(workspace);
+  }, []);
+
+  // Write the current state immediately, before switching away from it
+  const flush = useCallback(async () => {
+    const current = activeSessionRef.current;
+    if (current) {
+      await saveSession({ ...current, workspace: snapshotRef.current });
+    }
+  }, []);
+
+  useEffect(() => {
+    const initialize = async () => {
+      try {
+        const storedId = getActiveSessionId();
+        const stored = storedId ? await loadSession(storedId) : undefined;
+        activate(stored ?? await createSession(DEFAULT_SESSION_NAME, createEmptyWorkspace()));
+        await refreshSessions();
+      } catch (error) {
+        console.error('Failed to open workspace storage:', error);
+        toast.error('Workspace storage is unavailable; changes will not be saved');
+      } finally {
+        setIsLoaded(true);
+      }
+    };
+
+    initialize();
+  }, [activate, refreshSessions]);
+
+  useEffect(() => {
+    if (!isLoaded || !activeSession) return;
+
+    const timeout = setTimeout(async () => {
+      try {
+        await saveSession({ ...activeSession, workspace: snapshot });
+        await refreshSessions();
+      } catch (error) {
+        console.error('Autosave failed:', error);
+      }
+    }, AUTOSAVE_DELAY);
+
+    return () => clearTimeout(timeout);
+  }, [snapshot, activeSession, isLoaded, refreshSessions]);
+
+  const openSession = useCallback(async (id: string) => {
+    if (id === activeSessionRef.current?.id) return;
+
+    try {
+      await flush();
+      const session = await loadSession(id);
+      if (!session) {
+        toast.error('Workspace not found');
+        return;
+      }
+      activate(session);
+      await refreshSessions();
+    } catch (error) {
+      reportFailure('open the workspace', error);
+    }
+  }, [activate, flush, refreshSessions]);
+
+  const createNewSession = useCallback(async (name: string) => {
+    try {
+      await flush();
+      activate(await createSession(name.trim() || DEFAULT_SESSION_NAME, createEmptyWorkspace()));
+      await refreshSessions();
+    } catch (error) {
+      reportFailure('create the workspace', error);
+    }
+  }, [activate, flush, refreshSessions]);
+
+  const duplicate = useCallback(async (id: string) => {
+    try {
+      await flush();
+      const source = sessions.find(session => session.id === id);
+      activate(await duplicateSession(id, `${source?.name ?? DEFAULT_SESSION_NAME} (copy)`));
+      await refreshSessions();
+    } catch (error) {
+      reportFailure('duplicate the workspace', error);
+    }
+  }, [activate, flush, refreshSessions, sessions]);
+
+  const renameSession = useCallback(async (id: string, name: string) => {
+    try {
+      const session = await loadSession(id);
+      if (!session || !name.trim()) return;
+
+      await saveSession({ ...session, name: name.trim() });
+      if (activeSessionRef.current?.id === id) {
+        const renamed = { ...activeSessionRef.current, name: name.trim() };
+        activeSessionRef.current = renamed;
+        setActiveSession(renamed);
+      }
+      await refreshSessions();
+    } catch (error) {
+      reportFailure('rename the workspace', error);
+    }
+  }, [refreshSessions]);
+
+  const removeSession = useCallback(async (id: string) => {
+    try {
+      await deleteSession(id);
+
+      if (activeSessionRef.current?.id === id) {
+        // Fall back to the most recently used remaining workspace
+        const remaining = await listSessions();
+        const next = remaining.length > 0 ? await loadSession(remaining[0].id) : undefined;
+        activate(next ?? await createSession(DEFAULT_SESSION_NAME, createEmptyWorkspace()));
+      }
+      await refreshSessions();
+    } catch (error) {
+      reportFailure('delete the workspace', error);
+    }
+  }, [activate, refreshSessions]);
+
+  return {
+    sessions,
+    activeSession,
+    isLoaded,
+    openSession,
+    createNewSession,
+    duplicate,
+    renameSession,
+    removeSession
+  };
+}
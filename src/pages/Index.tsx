@@ -1,7 +1,8 @@
 
-import React, { useState, useEffect } from 'react';
+import React, { useState, useCallback, useMemo } from 'react';
 import { Card } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
 import FileUpload from '@/components/FileUpload';
 import DataGrid from '@/components/DataGrid';
@@ -9,81 +10,302 @@ import ValidationDashboard from '@/components/ValidationDashboard';
 import AIQueryInterface from '@/components/AIQueryInterface';
 import RuleBuilder from '@/components/RuleBuilder';
 import PrioritizationEngine from '@/components/PrioritizationEngine';
-import { Brain, Database, FileCheck, Settings, Sparkles, Target } from 'lucide-react';
-import { validationEngine } from '@/utils/validationEngine';
+import HistoryPanel from '@/components/HistoryPanel';
+import SessionPicker from '@/components/SessionPicker';
+import LlmSettingsDialog from '@/components/LlmSettingsDialog';
+import SavedViewsBar from '@/components/SavedViewsBar';
+import AllocationPlanner from '@/components/AllocationPlanner';
+import { Brain, CalendarRange, Database, FileCheck, Scissors, Settings, Sparkles, Target, Wand2 } from 'lucide-react';
+import { ValidationError, validationEngine } from '@/utils/validationEngine';
+import { getCommandChange, revalidateChange } from '@/utils/incrementalValidation';
+import {
+  DataCommand,
+  applyCommand,
+  createDeleteRowsCommand,
+  createEditCommand,
+  createInsertRowsCommand
+} from '@/utils/dataCommands';
+import { findRuleFixes, findWhitespaceFixes } from '@/utils/autoFix';
+import { useCommandHistory } from '@/hooks/use-command-history';
+import { useWorkspacePersistence } from '@/hooks/use-workspace-persistence';
+import { DEFAULT_PRIORITIZATION_CONFIG, PrioritizationConfig } from '@/utils/prioritization';
+import { WorkspaceSnapshot } from '@/utils/workspaceStore';
+import { DEFAULT_VALIDATION_RULES, EntityType, ValidationRule } from '@/utils/validationRules';
+import { BusinessRule, evaluateBusinessRules, normalizeBusinessRules } from '@/utils/businessRules';
+import { LlmSettings, createLlmProvider, readLlmSettings, saveLlmSettings } from '@/utils/llmProvider';
+import { Query, QueryResult, executeQuery, formatQuery } from '@/utils/queryLanguage';
+import { SavedView, createSavedView, normalizeSavedViews, resolveSavedViews } from '@/utils/savedViews';
+import { SortState } from '@/utils/gridModel';
+import { toast } from 'sonner';
 
 interface FileData {
   name: string;
   data: any[];
   headers: string[];
   validationErrors: ValidationError[];
+  entityType?: EntityType | null;
 }
 
-interface ValidationError {
-  row: number;
-  column: string;
-  message: string;
-  severity: 'error' | 'warning';
-  ruleId?: string;
-}
+type FilesMap = { [key: string]: FileData };
+
+// Re-run validation for the given files against the rest of the workspace
+const rerunValidation = (files: FilesMap, fileNames: string[]): FilesMap => {
+  const updatedFiles = { ...files };
+
+  fileNames.forEach(fileName => {
+    const fileData = updatedFiles[fileName];
+    if (!fileData) return;
+
+    updatedFiles[fileName] = {
+      ...fileData,
+      validationErrors: validationEngine.validateData(
+        fileData.data,
+        fileData.headers,
+        fileName,
+        updatedFiles,
+        fileData.entityType
+      )
+    };
+  });
+
+  return updatedFiles;
+};
 
 const Index = () => {
-  const [files, setFiles] = useState<{ [key: string]: FileData }>({});
+  const [files, setFiles] = useState<FilesMap>({});
   const [activeTab, setActiveTab] = useState('upload');
-  const [rules, setRules] = useState<any[]>([]);
-
-  const handleFileProcessed = (fileName: string, data: FileData) => {
-    // Run comprehensive validation
-    const validationErrors = validationEngine.validateData(
-      data.data, 
-      data.headers, 
-      fileName, 
-      files
-    );
-
-    const processedData = {
-      ...data,
-      validationErrors
-    };
+  // Cell the Data tab should scroll to after navigating from an issue
+  const [focusRequest, setFocusRequest] = useState<{ fileName: string; row: number; column: string; requestId: number } | null>(null);
+  const [rules, setRules] = useState<BusinessRule[]>([]);
+
+  // Every data mutation goes through a command so it can be undone/redone
+  const applyDataCommand = useCallback((command: DataCommand) => {
+    // Only the rule/row pairs that read the changed cells are rerun
+    setFiles(prev => revalidateChange(applyCommand(prev, command), getCommandChange(command)).files);
+  }, []);
+
+  const history = useCommandHistory(applyDataCommand);
+  const [prioritization, setPrioritization] = useState<PrioritizationConfig>(DEFAULT_PRIORITIZATION_CONFIG);
+  const [queryHistory, setQueryHistory] = useState<string[]>([]);
+  const [validationRules, setValidationRules] = useState<ValidationRule[]>(DEFAULT_VALIDATION_RULES);
+  // Per browser rather than per workspace, since it may hold an API key
+  const [llmSettings, setLlmSettings] = useState<LlmSettings>(readLlmSettings);
+  const llmProvider = useMemo(() => createLlmProvider(llmSettings), [llmSettings]);
+  // Query opened in the Data tab, and the saved view it came from; re-run as the data changes
+  const [openQuery, setOpenQuery] = useState<{ query: Query; viewId: string | null } | null>(null);
+  const [savedViews, setSavedViews] = useState<SavedView[]>([]);
+  // Sort and columns of an opened view, applied once by the grid showing it
+  const [viewRequest, setViewRequest] = useState<{
+    sort: SortState | null;
+    columns: string[] | null;
+    requestId: number;
+  } | null>(null);
+
+  const workspaceSnapshot = useMemo<WorkspaceSnapshot>(() => ({
+    files,
+    history: { entries: history.entries, position: history.position },
+    rules,
+    validationRules,
+    prioritization,
+    queryHistory,
+    savedViews
+  }), [files, history.entries, history.position, rules, validationRules, prioritization, queryHistory, savedViews]);
+
+  const { restore: restoreHistory } = history;
+  const restoreWorkspace = useCallback((workspace: WorkspaceSnapshot) => {
+    const restoredRules = workspace.validationRules ?? DEFAULT_VALIDATION_RULES;
+    validationEngine.setRules(restoredRules);
+    setValidationRules(restoredRules);
+
+    // Errors are recomputed so they always match the restored validation rules
+    setFiles(rerunValidation(workspace.files, Object.keys(workspace.files)));
+    restoreHistory(workspace.history);
+    setRules(normalizeBusinessRules(workspace.rules));
+    setPrioritization(workspace.prioritization ?? DEFAULT_PRIORITIZATION_CONFIG);
+    setQueryHistory(workspace.queryHistory ?? []);
+    setSavedViews(normalizeSavedViews(workspace.savedViews));
+    setOpenQuery(null);
+  }, [restoreHistory]);
+
+  const workspace = useWorkspacePersistence(workspaceSnapshot, restoreWorkspace);
+
+  const handleFileProcessed = (fileName: string, data: FileData, isStreaming = false) => {
+    // A re-uploaded file invalidates the history recorded against the old one
+    history.discardFile(fileName);
+
+    // Streamed files are validated in the upload worker once fully parsed
+    if (isStreaming) {
+      setFiles(prev => ({ ...prev, [fileName]: { ...data, validationErrors: [] } }));
+      return;
+    }
 
-    setFiles(prev => ({ ...prev, [fileName]: processedData }));
+    setFiles(prev => {
+      const withFile = rerunValidation({ ...prev, [fileName]: { ...data, validationErrors: [] } }, [fileName]);
+      return revalidateChange(withFile, { kind: 'file', fileName, entityType: validationEngine.getEntityType(data) }).files;
+    });
   };
 
-  // Re-run validation when files change (for cross-file references)
-  useEffect(() => {
-    const revalidateFiles = () => {
-      const updatedFiles = { ...files };
-      let hasChanges = false;
+  const handleRowsReceived = (fileName: string, rows: Record<string, unknown>[]) => {
+    setFiles(prev => {
+      const fileData = prev[fileName];
+      if (!fileData) return prev;
+      return { ...prev, [fileName]: { ...fileData, data: [...fileData.data, ...rows] } };
+    });
+  };
 
-      Object.entries(files).forEach(([fileName, fileData]) => {
-        const newErrors = validationEngine.validateData(
-          fileData.data,
-          fileData.headers,
-          fileName,
-          files
-        );
+  const handleValidationComplete = (fileName: string, errors: ValidationError[]) => {
+    // Rows edited while the file was loading invalidate the worker's result
+    const editedWhileLoading = history.entries.some(command => command.fileName === fileName);
 
-        if (JSON.stringify(newErrors) !== JSON.stringify(fileData.validationErrors)) {
-          updatedFiles[fileName] = { ...fileData, validationErrors: newErrors };
-          hasChanges = true;
-        }
-      });
+    setFiles(prev => {
+      const fileData = prev[fileName];
+      if (!fileData) return prev;
 
-      if (hasChanges) {
-        setFiles(updatedFiles);
-      }
-    };
+      const updatedFiles = editedWhileLoading
+        ? rerunValidation(prev, [fileName])
+        : { ...prev, [fileName]: { ...fileData, validationErrors: errors } };
+      return revalidateChange(updatedFiles, {
+        kind: 'file',
+        fileName,
+        entityType: validationEngine.getEntityType(fileData)
+      }).files;
+    });
+  };
+
+  const handleUploadCancelled = (fileName: string) => {
+    history.discardFile(fileName);
+    setFiles(prev => {
+      const { [fileName]: cancelled, ...rest } = prev;
+      if (!cancelled) return prev;
+      // Files that referenced the cancelled upload lose those matches
+      return revalidateChange(rest, {
+        kind: 'file',
+        fileName,
+        entityType: validationEngine.getEntityType(cancelled)
+      }).files;
+    });
+  };
+
+  const handleValidationRulesChange = (nextRules: ValidationRule[]) => {
+    validationEngine.setRules(nextRules);
+    setValidationRules(nextRules);
+    setFiles(prev => rerunValidation(prev, Object.keys(prev)));
+  };
 
-    if (Object.keys(files).length > 1) {
-      revalidateFiles();
+  const handleCellEdit = (fileName: string, rowIndex: number, column: string, value: string) => {
+    const before = files[fileName]?.data[rowIndex]?.[column];
+    if (String(before ?? '') === value) return;
+
+    history.execute(createEditCommand(fileName, [{ row: rowIndex, column, before, after: value }]));
+  };
+
+  const handleRowDelete = (fileName: string, rowIndex: number) => {
+    const row = files[fileName]?.data[rowIndex];
+    if (!row) return;
+
+    history.execute(createDeleteRowsCommand(fileName, [{ index: rowIndex, row }]));
+  };
+
+  const handleRowInsert = (fileName: string, rowIndex: number) => {
+    const fileData = files[fileName];
+    if (!fileData) return;
+
+    const emptyRow = Object.fromEntries(fileData.headers.map(header => [header, '']));
+    history.execute(createInsertRowsCommand(fileName, [{ index: rowIndex, row: emptyRow }]));
+  };
+
+  const handleTrimWhitespace = (fileName: string) => {
+    const fileData = files[fileName];
+    const changes = findWhitespaceFixes(fileData.data, fileData.headers);
+    if (changes.length === 0) {
+      toast.info('No stray whitespace found');
+      return;
+    }
+
+    history.execute(createEditCommand(fileName, changes, 'bulk-fix', 'Trim whitespace'));
+    toast.success(`Trimmed ${changes.length} cells`);
+  };
+
+  const handleAutoFix = (fileName: string) => {
+    const fileData = files[fileName];
+    const changes = findRuleFixes(fileData.data, fileData.validationErrors);
+    if (changes.length === 0) return;
+
+    history.execute(createEditCommand(fileName, changes, 'rule-fix', 'Auto-fix validation issues'));
+    toast.success(`Applied ${changes.length} suggested fixes`);
+  };
+
+  const handleNavigateToIssue = (fileName: string, row: number, column: string) => {
+    setActiveTab('data');
+    setFocusRequest({ fileName, row, column, requestId: Date.now() });
+  };
+
+  const handleTabChange = (tab: string) => {
+    setActiveTab(tab);
+    setFocusRequest(null);
+  };
+
+  const handleLlmSettingsChange = (settings: LlmSettings) => {
+    saveLlmSettings(settings);
+    setLlmSettings(settings);
+  };
+
+  const handleOpenQuery = (query: Query) => {
+    setOpenQuery({ query, viewId: null });
+    setActiveTab('data');
+    setFocusRequest(null);
+  };
+
+  const queryResult = useMemo<QueryResult | null>(() => {
+    if (!openQuery) return null;
+    try {
+      return executeQuery(openQuery.query, files);
+    } catch {
+      // The queried file was removed
+      return null;
     }
-  }, [Object.keys(files).length]);
+  }, [openQuery, files]);
 
-  const totalErrors = Object.values(files).reduce((sum, file) => 
+  // Live row counts for the views bar, and the bound query each view opens
+  const viewResolutions = useMemo(() => resolveSavedViews(savedViews, files), [savedViews, files]);
+
+  const handleOpenView = (view: SavedView) => {
+    const resolution = viewResolutions.get(view.id);
+    if (!resolution || 'error' in resolution) {
+      toast.error(`Cannot open "${view.name}": ${resolution && 'error' in resolution ? resolution.error : 'unknown view'}`);
+      return;
+    }
+    setOpenQuery({ query: resolution.query, viewId: view.id });
+    setViewRequest({ sort: view.sort as SortState | null, columns: view.columns, requestId: Date.now() });
+    setActiveTab('data');
+    setFocusRequest(null);
+  };
+
+  const handleSaveView = (name: string, query: Query, layout?: { sort: SortState | null; columns: string[] | null }) => {
+    const view = createSavedView(name, formatQuery(query), layout);
+    setSavedViews(prev => [...prev, view]);
+    if (openQuery && formatQuery(openQuery.query) === view.query) {
+      setOpenQuery({ query: openQuery.query, viewId: view.id });
+    }
+    toast.success(`Saved view "${view.name}"`);
+  };
+
+  // Business rule violations are listed and highlighted with validation errors
+  const ruleViolations = useMemo(() => evaluateBusinessRules(rules, files), [rules, files]);
+  const checkedFiles = useMemo<FilesMap>(() => {
+    const merged = { ...files };
+    Object.entries(ruleViolations).forEach(([fileName, violations]) => {
+      const fileData = merged[fileName];
+      if (fileData) merged[fileName] = { ...fileData, validationErrors: [...fileData.validationErrors, ...violations] };
+    });
+    return merged;
+  }, [files, ruleViolations]);
+
+  const totalErrors = Object.values(checkedFiles).reduce((sum, file) => 
     sum + file.validationErrors.filter(e => e.severity === 'error').length, 0
   );
 
-  const totalWarnings = Object.values(files).reduce((sum, file) => 
+  const totalWarnings = Object.values(checkedFiles).reduce((sum, file) => 
     sum + file.validationErrors.filter(e => e.severity === 'warning').length, 0
   );
 
@@ -104,6 +326,26 @@ const Index = () => {
               </div>
             </div>
             <div className="flex items-center space-x-4">
+              <SessionPicker
+                sessions={workspace.sessions}
+                activeSessionId={workspace.activeSession?.id ?? null}
+                activeSessionName={workspace.activeSession?.name ?? 'Loading…'}
+                onOpen={workspace.openSession}
+                onCreate={workspace.createNewSession}
+                onDuplicate={workspace.duplicate}
+                onRename={workspace.renameSession}
+                onDelete={workspace.removeSession}
+              />
+              <LlmSettingsDialog settings={llmSettings} onSettingsChange={handleLlmSettingsChange} />
+              <HistoryPanel
+                entries={history.entries}
+                position={history.position}
+                canUndo={history.canUndo}
+                canRedo={history.canRedo}
+                onUndo={history.undo}
+                onRedo={history.redo}
+                onJumpTo={history.jumpTo}
+              />
               {totalErrors > 0 && (
                 <div className="flex items-center space-x-2 bg-red-500/20 px-3 py-1 rounded-full">
                   <div className="w-2 h-2 bg-red-400 rounded-full animate-pulse" />
@@ -123,8 +365,8 @@ const Index = () => {
 
       {/* Main Content */}
       <div className="max-w-7xl mx-auto px-6 py-8">
-        <Tabs value={activeTab} onValueChange={setActiveTab} className="space-y-6">
-          <TabsList className="grid w-full grid-cols-6 bg-slate-800/50 border border-slate-700">
+        <Tabs value={activeTab} onValueChange={handleTabChange} className="space-y-6">
+          <TabsList className="grid w-full grid-cols-7 bg-slate-800/50 border border-slate-700">
             <TabsTrigger value="upload" className="flex items-center space-x-2">
               <Database className="h-4 w-4" />
               <span>Upload</span>
@@ -141,6 +383,10 @@ const Index = () => {
               <Target className="h-4 w-4" />
               <span>Priority</span>
             </TabsTrigger>
+            <TabsTrigger value="allocation" className="flex items-center space-x-2">
+              <CalendarRange className="h-4 w-4" />
+              <span>Allocation</span>
+            </TabsTrigger>
             <TabsTrigger value="query" className="flex items-center space-x-2">
               <Brain className="h-4 w-4" />
               <span>AI Query</span>
@@ -157,24 +403,82 @@ const Index = () => {
               <p className="text-slate-400 mb-6">
                 Support for clients.csv, workers.csv, tasks.csv and Excel files
               </p>
-              <FileUpload onFileProcessed={handleFileProcessed} />
+              <FileUpload
+                files={files}
+                onFileProcessed={handleFileProcessed}
+                onRowsReceived={handleRowsReceived}
+                onValidationComplete={handleValidationComplete}
+                onUploadCancelled={handleUploadCancelled}
+              />
             </Card>
           </TabsContent>
 
           <TabsContent value="data" className="space-y-6">
-            {Object.entries(files).map(([fileName, fileData]) => (
-              <Card key={fileName} className="p-6 bg-slate-800/50 border-slate-700">
-                <div className="flex items-center justify-between mb-4">
-                  <h3 className="text-lg font-semibold text-white">{fileName}</h3>
-                  <div className="flex items-center space-x-2">
-                    <span className="text-sm text-slate-400">
-                      {fileData.data.length} rows, {fileData.headers.length} columns
-                    </span>
+            {(Object.keys(files).length > 0 || savedViews.length > 0) && (
+              <SavedViewsBar
+                views={savedViews}
+                resolutions={viewResolutions}
+                activeViewId={openQuery?.viewId ?? null}
+                onOpen={handleOpenView}
+                onViewsChange={setSavedViews}
+              />
+            )}
+            {Object.entries(checkedFiles).map(([fileName, fileData]) => {
+              const ruleFixCount = findRuleFixes(fileData.data, fileData.validationErrors).length;
+
+              return (
+                <Card key={fileName} className="p-6 bg-slate-800/50 border-slate-700">
+                  <div className="flex items-center justify-between mb-4">
+                    <div className="flex items-center space-x-3">
+                      <h3 className="text-lg font-semibold text-white">{fileName}</h3>
+                      {fileData.entityType && (
+                        <Badge variant="secondary" className="capitalize">{fileData.entityType}</Badge>
+                      )}
+                    </div>
+                    <div className="flex items-center space-x-2">
+                      <span className="text-sm text-slate-400">
+                        {fileData.data.length} rows, {fileData.headers.length} columns
+                      </span>
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        onClick={() => handleTrimWhitespace(fileName)}
+                        className="border-slate-600 text-slate-300"
+                      >
+                        <Scissors className="h-4 w-4 mr-2" />
+                        Trim Whitespace
+                      </Button>
+                      <Button
+                        size="sm"
+                        onClick={() => handleAutoFix(fileName)}
+                        disabled={ruleFixCount === 0}
+                        className="bg-purple-600 hover:bg-purple-700"
+                      >
+                        <Wand2 className="h-4 w-4 mr-2" />
+                        Auto-fix ({ruleFixCount})
+                      </Button>
+                    </div>
                   </div>
-                </div>
-                <DataGrid data={fileData.data} headers={fileData.headers} validationErrors={fileData.validationErrors} />
-              </Card>
-            ))}
+                  <DataGrid
+                    data={fileData.data}
+                    headers={fileData.headers}
+                    validationErrors={fileData.validationErrors}
+                    onCellEdit={(rowIndex, column, value) => handleCellEdit(fileName, rowIndex, column, value)}
+                    onRowDelete={(rowIndex) => handleRowDelete(fileName, rowIndex)}
+                    onRowInsert={(rowIndex) => handleRowInsert(fileName, rowIndex)}
+                    focusRequest={focusRequest?.fileName === fileName ? focusRequest : undefined}
+                    queryFilter={queryResult?.fileName === fileName ? {
+                      expression: formatQuery(openQuery!.query),
+                      viewName: savedViews.find(view => view.id === openQuery!.viewId)?.name,
+                      rows: queryResult.rows,
+                      onClear: () => setOpenQuery(null),
+                      onSaveView: (name, layout) => handleSaveView(name, openQuery!.query, layout)
+                    } : undefined}
+                    viewRequest={queryResult?.fileName === fileName ? viewRequest ?? undefined : undefined}
+                  />
+                </Card>
+              );
+            })}
             {Object.keys(files).length === 0 && (
               <Card className="p-12 bg-slate-800/50 border-slate-700 text-center">
                 <Database className="h-12 w-12 text-slate-600 mx-auto mb-4" />
@@ -185,19 +489,47 @@ const Index = () => {
           </TabsContent>
 
           <TabsContent value="validation" className="space-y-6">
-            <ValidationDashboard files={files} />
+            <ValidationDashboard
+              files={checkedFiles}
+              validationRules={validationRules}
+              businessRules={rules}
+              onValidationRulesChange={handleValidationRulesChange}
+              onNavigateToIssue={handleNavigateToIssue}
+            />
           </TabsContent>
 
           <TabsContent value="priority" className="space-y-6">
-            <PrioritizationEngine />
+            <PrioritizationEngine files={checkedFiles} config={prioritization} onConfigChange={setPrioritization} />
+          </TabsContent>
+
+          <TabsContent value="allocation" className="space-y-6">
+            <AllocationPlanner
+              files={checkedFiles}
+              rules={rules}
+              prioritization={prioritization}
+              onNavigateToTask={handleNavigateToIssue}
+            />
           </TabsContent>
 
           <TabsContent value="query" className="space-y-6">
-            <AIQueryInterface files={files} />
+            <AIQueryInterface
+              files={files}
+              queryHistory={queryHistory}
+              onQueryHistoryChange={setQueryHistory}
+              llmProvider={llmProvider}
+              onOpenQuery={handleOpenQuery}
+              onSaveView={(name, query) => handleSaveView(name, query)}
+            />
           </TabsContent>
 
           <TabsContent value="rules" className="space-y-6">
-            <RuleBuilder rules={rules} onRulesChange={setRules} files={files} />
+            <RuleBuilder
+              rules={rules}
+              onRulesChange={setRules}
+              files={files}
+              violations={ruleViolations}
+              llmProvider={llmProvider}
+            />
           </TabsContent>
         </Tabs>
       </div>
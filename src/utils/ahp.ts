@@ -0,0 +1,126 @@
+/**
+ * Analytic Hierarchy Process: criteria are compared two at a time on Saaty's
+ * 1–9 scale and the weights are the principal eigenvector of the resulting
+ * reciprocal matrix. The consistency ratio measures how far the judgments
+ * contradict each other; above 0.1 they should be revisited.
+ */
+
+// Judgments by pair key; the value is how many times more important the first
+// criterion of the key is than the second, from 1/9 to 9
+export type PairwiseJudgments = { [pairKey: string]: number };
+
+export const CONSISTENCY_THRESHOLD = 0.1;
+
+// Saaty's random consistency index by matrix size
+const RANDOM_INDEX = [0, 0, 0, 0.58, 0.9, 1.12, 1.24, 1.32, 1.41, 1.45, 1.49, 1.51, 1.48, 1.56, 1.57, 1.59];
+
+const INTENSITY_LABELS = [
+  'equally important as',
+  'equally to moderately more important than',
+  'moderately more important than',
+  'moderately to strongly more important than',
+  'strongly more important than',
+  'strongly to very strongly more important than',
+  'very strongly more important than',
+  'very strongly to extremely more important than',
+  'extremely more important than'
+];
+
+// Order-independent key, so a pair keeps its judgment when criteria are reordered
+export const getPairKey = (a: string, b: string) => (a < b ? `${a}|${b}` : `${b}|${a}`);
+
+// How many times more important `a` is than `b`; unjudged pairs are equal
+export const getJudgment = (judgments: PairwiseJudgments, a: string, b: string): number => {
+  const value = judgments[getPairKey(a, b)];
+  if (!value || !isFinite(value) || value <= 0) return 1;
+  return a < b ? value : 1 / value;
+};
+
+export const setJudgment = (judgments: PairwiseJudgments, a: string, b: string, ratio: number): PairwiseJudgments => ({
+  ...judgments,
+  [getPairKey(a, b)]: a < b ? ratio : 1 / ratio
+});
+
+// Nearest whole step of the scale, e.g. 0.34 → 1/3
+export const snapToScale = (ratio: number) => {
+  const intensity = Math.min(9, Math.max(1, Math.round(ratio >= 1 ? ratio : 1 / ratio)));
+  return ratio >= 1 ? intensity : 1 / intensity;
+};
+
+// "Error Density is moderately more important than File Size"
+export const describeJudgment = (a: string, b: string, ratio: number) => {
+  const intensity = Math.round(ratio >= 1 ? ratio : 1 / ratio);
+  const [first, second] = ratio >= 1 ? [a, b] : [b, a];
+  return `${first} is ${INTENSITY_LABELS[Math.min(9, Math.max(1, intensity)) - 1]} ${second}`;
+};
+
+export interface InconsistentJudgment {
+  a: string;
+  b: string;
+  // What the user said, as times more important a is than b
+  given: number;
+  // What the weights derived from every other judgment imply
+  implied: number;
+}
+
+export interface AhpResult {
+  // One weight per criterion, in input order, adding up to 1
+  weights: number[];
+  lambdaMax: number;
+  consistencyIndex: number;
+  // Null for fewer than three criteria, which cannot be inconsistent
+  consistencyRatio: number | null;
+  consistent: boolean;
+  // Judgments furthest from the derived weights, worst first
+  worstJudgments: InconsistentJudgment[];
+}
+
+/**
+ * Derive weights for `ids` from the pairwise judgments by power iteration on
+ * the comparison matrix, and measure how consistent the judgments are.
+ */
+export const deriveAhpWeights = (ids: string[], judgments: PairwiseJudgments): AhpResult => {
+  const n = ids.length;
+  if (n === 0) {
+    return { weights: [], lambdaMax: 0, consistencyIndex: 0, consistencyRatio: null, consistent: true, worstJudgments: [] };
+  }
+
+  const matrix = ids.map(a => ids.map(b => (a === b ? 1 : getJudgment(judgments, a, b))));
+  const multiply = (vector: number[]) => matrix.map(row => row.reduce((total, value, index) => total + value * vector[index], 0));
+
+  let weights = ids.map(() => 1 / n);
+  for (let iteration = 0; iteration < 100; iteration++) {
+    const product = multiply(weights);
+    const total = product.reduce((sum, value) => sum + value, 0);
+    const next = product.map(value => value / total);
+    const change = Math.max(...next.map((value, index) => Math.abs(value - weights[index])));
+    weights = next;
+    if (change < 1e-10) break;
+  }
+
+  const product = multiply(weights);
+  const lambdaMax = product.reduce((total, value, index) => total + value / weights[index], 0) / n;
+  const consistencyIndex = n > 1 ? Math.max(0, (lambdaMax - n) / (n - 1)) : 0;
+  const randomIndex = RANDOM_INDEX[Math.min(n, RANDOM_INDEX.length - 1)];
+  const consistencyRatio = n >= 3 && randomIndex > 0 ? consistencyIndex / randomIndex : null;
+
+  const worstJudgments: Array<InconsistentJudgment & { error: number }> = [];
+  ids.forEach((a, i) => ids.slice(i + 1).forEach((b, offset) => {
+    const j = i + 1 + offset;
+    const given = matrix[i][j];
+    const implied = weights[i] / weights[j];
+    worstJudgments.push({ a, b, given, implied, error: Math.abs(Math.log(given / implied)) });
+  }));
+
+  return {
+    weights,
+    lambdaMax,
+    consistencyIndex,
+    consistencyRatio,
+    consistent: consistencyRatio === null || consistencyRatio <= CONSISTENCY_THRESHOLD,
+    worstJudgments: worstJudgments
+      .sort((x, y) => y.error - x.error)
+      .slice(0, 3)
+      .map(({ a, b, given, implied }) => ({ a, b, given, implied }))
+  };
+};
@@ -0,0 +1,569 @@
+import {
+  BusinessRule,
+  LocatedRow,
+  getActiveBusinessRules,
+  getRuleOptions,
+  indexRuleData,
+  isInWorkerGroup,
+  toNumber
+} from '@/utils/businessRules';
+import { parseIdList } from '@/utils/dependencyGraph';
+import { PrioritizationConfig, PriorityDataFile, rankByPriority } from '@/utils/prioritization';
+
+export interface ScheduledTask {
+  taskId: string;
+  name: string;
+  fileName: string;
+  row: number;
+  workerId: string;
+  // First and last phase the task runs in
+  phase: number;
+  endPhase: number;
+  preferredPhase: number | null;
+  hours: number;
+  // The hours split evenly over the phases it runs in
+  hoursPerPhase: number;
+  // Priority score out of 100, from the prioritization weights
+  score: number;
+}
+
+export interface UnassignableTask {
+  taskId: string;
+  name: string;
+  fileName: string;
+  row: number;
+  score: number;
+  reasons: string[];
+}
+
+export type AssignmentChangeKind = 'kept' | 'assigned' | 'reassigned' | 'unassigned';
+
+// Proposed worker against the task's AssignedWorkerID
+export interface AssignmentChange {
+  taskId: string;
+  fileName: string;
+  row: number;
+  from: string;
+  to: string | null;
+  kind: AssignmentChangeKind;
+}
+
+export interface WorkerSchedule {
+  workerId: string;
+  name: string;
+  fileName: string;
+  row: number;
+  // Hours per phase from MaxLoadPerPhase; null when the column is blank
+  capacity: number | null;
+  // Tasks per phase allowed by load-limit rules; null when no rule applies
+  slotLimit: number | null;
+  // Per phase, index 0 is phase 1; CurrentLoad is booked in phase 1
+  phases: Array<{ hours: number; taskIds: string[] }>;
+}
+
+export interface AllocationResult {
+  phaseCount: number;
+  // Highest score first
+  schedule: ScheduledTask[];
+  unassignable: UnassignableTask[];
+  changes: AssignmentChange[];
+  workers: WorkerSchedule[];
+  // Completed and cancelled tasks, left as they are
+  finishedTaskIds: string[];
+}
+
+const text = (value: unknown) => String(value ?? '').trim();
+
+const plural = (count: number, singular: string, pluralForm = `${singular}s`) => (count === 1 ? singular : pluralForm);
+
+const formatList = (items: string[]) => items.join(', ');
+
+const isFinished = (task: LocatedRow) => /^(?:completed|cancelled)$/i.test(text(task.values.Status));
+
+const addTo = <K, V>(groups: Map<K, V[]>, key: K, value: V) => {
+  const group = groups.get(key);
+  if (group) group.push(value);
+  else groups.set(key, [value]);
+};
+
+/**
+ * Every node once, each after the nodes `next` leads from it; edges back into
+ * the path being walked (cycles) are skipped. Walked with an explicit stack so
+ * long dependency chains do not overflow the call stack.
+ */
+const postOrder = <T>(nodes: Iterable<T>, next: (node: T) => T[]): T[] => {
+  const order: T[] = [];
+  const seen = new Set<T>();
+  for (const root of nodes) {
+    if (seen.has(root)) continue;
+    seen.add(root);
+    const stack = [{ node: root, children: next(root), index: 0 }];
+    while (stack.length > 0) {
+      const frame = stack[stack.length - 1];
+      if (frame.index < frame.children.length) {
+        const child = frame.children[frame.index++];
+        if (!seen.has(child)) {
+          seen.add(child);
+          stack.push({ node: child, children: next(child), index: 0 });
+        }
+      } else {
+        stack.pop();
+        order.push(frame.node);
+      }
+    }
+  }
+  return order;
+};
+
+interface OpenTask {
+  id: string;
+  record: LocatedRow;
+  hours: number;
+  skills: string[];
+  // Phases allowed by the task's Phases column and phase windows
+  phases: number[];
+  // Worker groups every slot restriction on the task allows
+  groups: string[];
+  // Open tasks it waits for
+  dependsOn: string[];
+  // Last phase it can end in and still leave every task waiting on it a phase
+  latestEnd: number;
+  preferredPhase: number | null;
+  score: number;
+}
+
+interface WorkerState {
+  schedule: WorkerSchedule;
+  record: LocatedRow;
+  skills: Set<string>;
+}
+
+// Tasks that must share a phase, placed together; most are on their own
+interface TaskUnit {
+  tasks: OpenTask[];
+  dependsOn: string[];
+  // Highest score of its tasks and of every task waiting on it
+  score: number;
+  // Position in file order, which breaks ties between equal scores
+  order: number;
+}
+
+const buildWorkers = (workers: Map<string, LocatedRow>, rules: BusinessRule[], phaseCount: number) =>
+  Array.from(workers.entries()).map(([workerId, record]): WorkerState => {
+    const limits = rules
+      .filter(rule => rule.type === 'load-limit')
+      .map(rule => rule.conditions as { workerGroup: string; maxSlotsPerPhase: number })
+      .filter(conditions => isInWorkerGroup(record, conditions.workerGroup))
+      .map(conditions => conditions.maxSlotsPerPhase);
+    const currentLoad = toNumber(record.values.CurrentLoad) ?? 0;
+
+    return {
+      record,
+      skills: new Set(parseIdList(record.values.Skills).map(skill => skill.toLowerCase())),
+      schedule: {
+        workerId,
+        name: text(record.values.Name),
+        fileName: record.fileName,
+        row: record.row,
+        capacity: toNumber(record.values.MaxLoadPerPhase),
+        slotLimit: limits.length > 0 ? Math.min(...limits) : null,
+        phases: Array.from({ length: phaseCount }, (_, index) => ({ hours: index === 0 ? currentLoad : 0, taskIds: [] }))
+      }
+    };
+  });
+
+const buildOpenTasks = (
+  tasks: Map<string, LocatedRow>,
+  rules: BusinessRule[],
+  phaseCount: number,
+  scores: Map<string, number>
+) => {
+  const open = new Map<string, OpenTask>();
+  const finished: string[] = [];
+
+  tasks.forEach((record, id) => {
+    if (isFinished(record)) {
+      finished.push(id);
+      return;
+    }
+
+    const declared = toNumber(record.values.Phases);
+    const last = declared !== null && Number.isInteger(declared) && declared >= 1 ? Math.min(declared, phaseCount) : phaseCount;
+    let phases = Array.from({ length: last }, (_, index) => index + 1);
+    const groups: string[] = [];
+    rules.forEach(rule => {
+      const conditions = rule.conditions as { taskIds?: string[]; allowedPhases?: number[]; workerGroup?: string };
+      if (!conditions.taskIds?.includes(id)) return;
+      if (rule.type === 'phase-window') phases = phases.filter(phase => conditions.allowedPhases!.includes(phase));
+      if (rule.type === 'slot-restriction') groups.push(conditions.workerGroup!);
+    });
+
+    open.set(id, {
+      id,
+      record,
+      hours: toNumber(record.values.EstimatedHours) ?? 0,
+      skills: parseIdList(record.values.Skills),
+      phases,
+      groups,
+      dependsOn: [],
+      latestEnd: Math.max(0, ...phases),
+      preferredPhase: toNumber(record.values.PreferredPhase),
+      score: scores.get(id) ?? 0
+    });
+  });
+
+  // Finished and unknown dependencies do not hold a task back
+  open.forEach(task => {
+    task.dependsOn = Array.from(new Set(parseIdList(task.record.values.Dependencies)))
+      .filter(id => id !== task.id && open.has(id));
+  });
+
+  // Tasks waiting on a task are settled before it
+  const dependents = new Map<string, OpenTask[]>();
+  open.forEach(task => task.dependsOn.forEach(id => addTo(dependents, id, task)));
+  postOrder(open.values(), task => dependents.get(task.id) ?? []).forEach(task => {
+    (dependents.get(task.id) ?? []).forEach(dependent => {
+      task.latestEnd = Math.min(task.latestEnd, dependent.latestEnd - 1);
+    });
+  });
+
+  return { open, finished };
+};
+
+const buildUnits = (open: Map<string, OpenTask>, rules: BusinessRule[]): TaskUnit[] => {
+  // Co-run groups that share a task are merged
+  const parent = new Map(Array.from(open.keys()).map(id => [id, id]));
+  const find = (id: string): string => {
+    let root = id;
+    while (parent.get(root) !== root) root = parent.get(root)!;
+    // Point the walked path straight at the root
+    for (let node = id; node !== root;) {
+      const next = parent.get(node)!;
+      parent.set(node, root);
+      node = next;
+    }
+    return root;
+  };
+  rules.filter(rule => rule.type === 'co-run').forEach(rule => {
+    const members = (rule.conditions as { taskIds: string[] }).taskIds.filter(id => open.has(id));
+    members.slice(1).forEach(id => parent.set(find(id), find(members[0])));
+  });
+
+  const groups = new Map<string, OpenTask[]>();
+  open.forEach((task, id) => addTo(groups, find(id), task));
+
+  return Array.from(groups.values()).map((tasks, order) => {
+    const ids = new Set(tasks.map(task => task.id));
+    return {
+      tasks: tasks.sort((a, b) => b.score - a.score),
+      dependsOn: Array.from(new Set(tasks.flatMap(task => task.dependsOn))).filter(id => !ids.has(id)),
+      score: tasks.reduce((best, task) => Math.max(best, task.score), -Infinity),
+      order
+    };
+  });
+};
+
+// A unit waited on by a higher-ranked unit takes that unit's score
+const inheritScores = (units: TaskUnit[], unitOf: Map<string, TaskUnit>) => {
+  const dependents = new Map<TaskUnit, TaskUnit[]>();
+  units.forEach(unit => unit.dependsOn.forEach(id => addTo(dependents, unitOf.get(id)!, unit)));
+
+  // Units waiting on a unit have their final score before it takes theirs
+  postOrder(units, unit => dependents.get(unit) ?? []).forEach(unit => {
+    (dependents.get(unit) ?? []).forEach(dependent => {
+      unit.score = Math.max(unit.score, dependent.score);
+    });
+  });
+};
+
+// Binary max-heap of units ready to place: highest score first, then file order
+const createReadyQueue = () => {
+  const heap: TaskUnit[] = [];
+  const before = (a: TaskUnit, b: TaskUnit) => a.score > b.score || (a.score === b.score && a.order < b.order);
+  const swap = (i: number, j: number) => {
+    [heap[i], heap[j]] = [heap[j], heap[i]];
+  };
+
+  const push = (unit: TaskUnit) => {
+    heap.push(unit);
+    for (let i = heap.length - 1; i > 0;) {
+      const parent = (i - 1) >> 1;
+      if (!before(heap[i], heap[parent])) break;
+      swap(i, parent);
+      i = parent;
+    }
+  };
+
+  const pop = (): TaskUnit | undefined => {
+    const top = heap[0];
+    const last = heap.pop();
+    if (heap.length > 0 && last) {
+      heap[0] = last;
+      for (let i = 0; ;) {
+        const left = 2 * i + 1;
+        const right = left + 1;
+        let best = i;
+        if (left < heap.length && before(heap[left], heap[best])) best = left;
+        if (right < heap.length && before(heap[right], heap[best])) best = right;
+        if (best === i) break;
+        swap(i, best);
+        i = best;
+      }
+    }
+    return top;
+  };
+
+  return { push, pop };
+};
+
+// Hours and slots held for co-run tasks placed earlier in the same attempt
+type PendingLoad = Map<WorkerState, Map<number, { hours: number; slots: number }>>;
+
+/**
+ * Fewest consecutive phases from `start` over which the worker can take the
+ * task's hours in even shares, or null when no span fits. Every phase of the
+ * span must be allowed for the task, end by `lastPhase` and keep the worker
+ * within MaxLoadPerPhase and any load limit.
+ */
+const findSpan = (
+  worker: WorkerState,
+  task: OpenTask,
+  start: number,
+  pending: PendingLoad,
+  lastPhase: number
+): number | null => {
+  const { capacity, slotLimit, phases } = worker.schedule;
+  const held = (phase: number) => pending.get(worker)?.get(phase) ?? { hours: 0, slots: 0 };
+
+  for (let length = 1; start + length - 1 <= lastPhase && task.phases.includes(start + length - 1); length++) {
+    const share = task.hours / length;
+    const span = Array.from({ length }, (_, index) => start + index);
+    const fits = span.every(phase => {
+      const load = phases[phase - 1];
+      return (capacity === null || load.hours + held(phase).hours + share <= capacity)
+        && (slotLimit === null || load.taskIds.length + held(phase).slots < slotLimit);
+    });
+    if (fits) return length;
+    // A slot that is full at the start stays full however long the span
+    if (slotLimit !== null && phases[start - 1].taskIds.length + held(start).slots >= slotLimit) return null;
+  }
+  return null;
+};
+
+const isEligible = (worker: WorkerState, task: OpenTask) =>
+  task.skills.every(skill => worker.skills.has(skill.toLowerCase()))
+  && task.groups.every(group => isInWorkerGroup(worker.record, group));
+
+// Why a task fits no worker in any phase it may use
+const explainUnplaceable = (task: OpenTask, workers: WorkerState[], phases: number[]): string => {
+  const skilled = workers.filter(worker => task.skills.every(skill => worker.skills.has(skill.toLowerCase())));
+  const skillText = task.skills.length > 0 ? formatList(task.skills) : 'no particular skills';
+  if (skilled.length === 0) return `No worker has ${skillText}`;
+
+  const eligible = skilled.filter(worker => isEligible(worker, task));
+  if (eligible.length === 0) return `No ${formatList(task.groups)} worker has ${skillText}`;
+
+  const most = Math.max(...eligible.map(worker => worker.schedule.capacity ?? Infinity)) * task.phases.length;
+  if (most < task.hours) {
+    return `Needs ${task.hours}h; eligible workers take at most ${most}h over the ${
+      task.phases.length} ${plural(task.phases.length, 'phase')} it may use`;
+  }
+  if (eligible.every(worker => worker.schedule.slotLimit === 0)) {
+    return `Load limits allow ${formatList(eligible.map(worker => worker.schedule.workerId))} no tasks per phase`;
+  }
+  return `${formatList(eligible.map(worker => worker.schedule.workerId))} ${plural(eligible.length, 'is', 'are')} fully booked in ${
+    plural(phases.length, 'phase')} ${formatList(phases.map(String))}`;
+};
+
+/**
+ * Propose a worker and phases for every open task. Tasks are placed one at a
+ * time, highest priority score first, starting after the tasks they depend on
+ * end. A task goes to a worker with all its skills, in the groups its slot
+ * restrictions allow, and runs over as few phases as it needs to keep the
+ * worker under MaxLoadPerPhase and any load limit; co-run groups start in the
+ * same phase. Each task keeps its current worker and preferred phase when they
+ * fit. Tasks that cannot be placed are listed with the reasons.
+ */
+export const solveAllocation = (
+  files: { [fileName: string]: PriorityDataFile },
+  rules: BusinessRule[],
+  config: PrioritizationConfig
+): AllocationResult => {
+  const { tasks, workers: workerRows } = indexRuleData(files);
+  const { maxPhase: phaseCount } = getRuleOptions(files);
+  const active = getActiveBusinessRules(rules);
+  const scores = new Map(rankByPriority(config, files).tasks.map(item => [item.id, item.score]));
+
+  const workers = buildWorkers(workerRows, active, phaseCount);
+  const { open, finished } = buildOpenTasks(tasks, active, phaseCount, scores);
+  const units = buildUnits(open, active);
+  const unitOf = new Map(units.flatMap(unit => unit.tasks.map(task => [task.id, unit] as const)));
+  inheritScores(units, unitOf);
+
+  const placed = new Map<string, ScheduledTask>();
+  const failed = new Map<string, string[]>();
+
+  const fail = (unit: TaskUnit, reasons: (task: OpenTask) => string[]) =>
+    unit.tasks.forEach(task => failed.set(task.id, reasons(task)));
+
+  const placeUnit = (unit: TaskUnit) => {
+    const blocked = unit.dependsOn.filter(id => failed.has(id));
+    if (blocked.length > 0) {
+      fail(unit, () => [`Depends on ${formatList(blocked)}, which could not be scheduled`]);
+      return;
+    }
+
+    const earliest = Math.max(0, ...unit.dependsOn.map(id => placed.get(id)!.endPhase)) + 1;
+    const ids = new Set(unit.tasks.map(task => task.id));
+    const inner = unit.tasks.filter(task => task.dependsOn.some(id => ids.has(id)));
+    if (inner.length > 0) {
+      fail(unit, () => [`Co-run tasks ${formatList(Array.from(ids))} cannot share a phase: ${
+        formatList(inner.map(task => task.id))} depends on another of them`]);
+      return;
+    }
+
+    const shared = unit.tasks.reduce(
+      (phases, task) => phases.filter(phase => task.phases.includes(phase)),
+      Array.from({ length: phaseCount }, (_, index) => index + 1)
+    );
+    const candidates = shared.filter(phase => phase >= earliest);
+    if (candidates.length === 0) {
+      fail(unit, task => {
+        if (task.phases.length === 0) return ['Its Phases column and phase windows leave no phase'];
+        if (shared.length === 0) return [`Co-run tasks ${formatList(Array.from(ids))} have no phase in common`];
+        const others = unit.tasks.filter(other => other !== task).map(other => other.id);
+        return [`${others.length > 0 ? `Co-run with ${formatList(others)}: dependencies` : 'Its dependencies'} end in phase ${
+          earliest - 1}, and phase ${Math.max(...shared)} is the last it may use`];
+      });
+      return;
+    }
+
+    // Closest to the preferred phases first, then earliest
+    const distance = (phase: number) => unit.tasks.reduce(
+      (total, task) => total + (task.preferredPhase === null ? 0 : Math.abs(phase - task.preferredPhase)),
+      0
+    );
+    const ordered = [...candidates].sort((a, b) => distance(a) - distance(b) || a - b);
+
+    // Workers and span lengths for every task of the unit starting in `phase`, or null
+    const tryPhase = (phase: number, deadline: boolean) => {
+      const pending: PendingLoad = new Map();
+      const picks: Array<{ task: OpenTask; worker: WorkerState; length: number }> = [];
+
+      for (const task of unit.tasks) {
+        const lastPhase = deadline ? task.latestEnd : phaseCount;
+        const fits = workers
+          .filter(worker => isEligible(worker, task))
+          .map(worker => ({ worker, length: findSpan(worker, task, phase, pending, lastPhase) }))
+          .filter((fit): fit is { worker: WorkerState; length: number } => fit.length !== null);
+        if (fits.length === 0) return null;
+
+        // The current worker when it fits, otherwise the one finishing soonest
+        const current = text(task.record.values.AssignedWorkerID);
+        const pick = fits.find(fit => fit.worker.schedule.workerId === current)
+          ?? [...fits].sort((a, b) => a.length - b.length || a.worker.record.row - b.worker.record.row)[0];
+
+        const held = pending.get(pick.worker) ?? new Map();
+        for (let offset = 0; offset < pick.length; offset++) {
+          const previous = held.get(phase + offset) ?? { hours: 0, slots: 0 };
+          held.set(phase + offset, { hours: previous.hours + task.hours / pick.length, slots: previous.slots + 1 });
+        }
+        pending.set(pick.worker, held);
+        picks.push({ task, ...pick });
+      }
+      return { phase, picks, end: Math.max(...picks.map(pick => phase + pick.length - 1)) };
+    };
+
+    // Ending in time for the tasks waiting on it comes first. When that is
+    // impossible the unit ends as early as it can, and the tasks it still
+    // delays report why they fail.
+    const placement = ordered.map(phase => tryPhase(phase, true)).find(attempt => attempt !== null)
+      ?? ordered
+        .map(phase => tryPhase(phase, false))
+        .filter(attempt => attempt !== null)
+        .sort((a, b) => a!.end - b!.end)[0];
+
+    if (placement) {
+      const { phase, picks } = placement;
+      picks.forEach(({ task, worker, length }) => {
+        for (let offset = 0; offset < length; offset++) {
+          const load = worker.schedule.phases[phase + offset - 1];
+          load.hours += task.hours / length;
+          load.taskIds.push(task.id);
+        }
+        placed.set(task.id, {
+          taskId: task.id,
+          name: text(task.record.values.Name),
+          fileName: task.record.fileName,
+          row: task.record.row,
+          workerId: worker.schedule.workerId,
+          phase,
+          endPhase: phase + length - 1,
+          preferredPhase: task.preferredPhase,
+          hours: task.hours,
+          hoursPerPhase: task.hours / length,
+          score: task.score
+        });
+      });
+      return;
+    }
+
+    fail(unit, task => {
+      const reason = explainUnplaceable(task, workers, candidates);
+      return unit.tasks.length === 1
+        ? [reason]
+        : [`Co-run with ${formatList(unit.tasks.filter(other => other !== task).map(other => other.id))}: no phase gives every task a worker`, reason];
+    });
+  };
+
+  // A unit is ready once every task it waits on is placed or has failed
+  const waitingOn = new Map(units.map(unit => [unit, unit.dependsOn.length]));
+  const waiters = new Map<string, TaskUnit[]>();
+  units.forEach(unit => unit.dependsOn.forEach(id => addTo(waiters, id, unit)));
+
+  const ready = createReadyQueue();
+  units.filter(unit => unit.dependsOn.length === 0).forEach(ready.push);
+
+  // Ready units by score; units left over wait on each other in a cycle
+  const remaining = new Set(units);
+  for (let next = ready.pop(); next; next = ready.pop()) {
+    remaining.delete(next);
+    placeUnit(next);
+    next.tasks.forEach(task => (waiters.get(task.id) ?? []).forEach(unit => {
+      const count = waitingOn.get(unit)! - 1;
+      waitingOn.set(unit, count);
+      if (count === 0) ready.push(unit);
+    }));
+  }
+  remaining.forEach(unit => fail(unit, () => [`Circular dependency through ${
+    formatList(unit.dependsOn.filter(id => remaining.has(unitOf.get(id)!)))}`]));
+
+  const openTasks = Array.from(open.values());
+  const changes = openTasks.map((task): AssignmentChange => {
+    const from = text(task.record.values.AssignedWorkerID);
+    const to = placed.get(task.id)?.workerId ?? null;
+    const kind: AssignmentChangeKind = to === null
+      ? 'unassigned'
+      : from === '' ? 'assigned' : from === to ? 'kept' : 'reassigned';
+    return { taskId: task.id, fileName: task.record.fileName, row: task.record.row, from, to, kind };
+  });
+
+  return {
+    phaseCount,
+    schedule: Array.from(placed.values()).sort((a, b) => b.score - a.score || a.row - b.row),
+    unassignable: openTasks
+      .filter(task => failed.has(task.id))
+      .map(task => ({
+        taskId: task.id,
+        name: text(task.record.values.Name),
+        fileName: task.record.fileName,
+        row: task.record.row,
+        score: task.score,
+        reasons: failed.get(task.id)!
+      }))
+      .sort((a, b) => b.score - a.score || a.row - b.row),
+    changes,
+    workers: workers.map(worker => worker.schedule),
+    finishedTaskIds: finished
+  };
+};
@@ -0,0 +1,46 @@
+import { CellChange } from '@/utils/dataCommands';
+import { validationEngine } from '@/utils/validationEngine';
+
+/**
+ * Bulk fix: strip leading/trailing whitespace from every text cell.
+ */
+export const findWhitespaceFixes = (data: Record<string, unknown>[], headers: string[]): CellChange[] => {
+  const changes: CellChange[] = [];
+
+  data.forEach((row, rowIndex) => {
+    headers.forEach(column => {
+      const value = row[column];
+      if (typeof value === 'string' && value !== value.trim()) {
+        changes.push({ row: rowIndex, column, before: value, after: value.trim() });
+      }
+    });
+  });
+
+  return changes;
+};
+
+/**
+ * Rule-driven corrections: the fixes the validation engine can suggest for
+ * the errors currently reported on a file.
+ */
+export const findRuleFixes = (
+  data: Record<string, unknown>[],
+  validationErrors: Array<{ row: number; column: string; ruleId?: string }>
+): CellChange[] => {
+  const changes: CellChange[] = [];
+  const seen = new Set<string>();
+
+  validationErrors.forEach(error => {
+    const key = `${error.row}:${error.column}`;
+    if (!error.ruleId || seen.has(key) || !data[error.row]) return;
+
+    const before = data[error.row][error.column];
+    const after = validationEngine.suggestFix(error.ruleId, before);
+    if (after !== null) {
+      seen.add(key);
+      changes.push({ row: error.row, column: error.column, before, after });
+    }
+  });
+
+  return changes;
+};
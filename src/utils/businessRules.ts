@@ -0,0 +1,407 @@
+import { z } from 'zod';
+import { ENTITY_TYPES, EntityType, isValidPattern } from '@/utils/validationRules';
+import { ValidationError, validationEngine } from '@/utils/validationEngine';
+import { parseIdList } from '@/utils/dependencyGraph';
+
+export const BUSINESS_RULE_TYPES = ['co-run', 'slot-restriction', 'load-limit', 'phase-window', 'regex', 'custom'] as const;
+export type BusinessRuleType = typeof BUSINESS_RULE_TYPES[number];
+
+export const CUSTOM_OPERATORS = ['equals', 'not-equals', 'greater-than', 'less-than', 'contains', 'not-empty'] as const;
+export type CustomOperator = typeof CUSTOM_OPERATORS[number];
+
+// Worker group value meaning every worker
+export const ALL_WORKERS = '*';
+
+const idListSchema = z.array(z.string().min(1));
+
+export const ruleConditionSchemas = {
+  // Tasks that must be scheduled in the same phase
+  'co-run': z.object({
+    taskIds: idListSchema.min(2, 'Pick at least two tasks to run together')
+  }).strict(),
+  // Tasks that may only be assigned to workers of one department
+  'slot-restriction': z.object({
+    taskIds: idListSchema.min(1, 'Pick at least one task'),
+    workerGroup: z.string().min(1, 'Pick a worker group')
+  }).strict(),
+  // Tasks per phase a worker of the group may take on
+  'load-limit': z.object({
+    workerGroup: z.string().min(1, 'Pick a worker group'),
+    maxSlotsPerPhase: z.number().int().min(0, 'Max slots per phase cannot be negative')
+  }).strict(),
+  // Phases the tasks may be scheduled in
+  'phase-window': z.object({
+    taskIds: idListSchema.min(1, 'Pick at least one task'),
+    allowedPhases: z.array(z.number().int().positive()).min(1, 'Pick at least one phase')
+  }).strict(),
+  // Values of one column must match a pattern
+  regex: z.object({
+    entity: z.enum(ENTITY_TYPES),
+    field: z.string().min(1, 'Pick a column'),
+    pattern: z.string().min(1, 'Enter a pattern').refine(isValidPattern, 'Invalid regular expression')
+  }).strict(),
+  // Every row of an entity must satisfy one comparison
+  custom: z.object({
+    entity: z.enum(ENTITY_TYPES),
+    field: z.string().min(1, 'Pick a column'),
+    operator: z.enum(CUSTOM_OPERATORS),
+    value: z.string()
+  }).strict()
+};
+
+const baseRuleShape = {
+  id: z.string().min(1),
+  name: z.string().min(1, 'Rule name is required'),
+  description: z.string(),
+  priority: z.number().int().min(1).max(10),
+  enabled: z.boolean()
+};
+
+export const businessRuleSchema = z.discriminatedUnion('type', [
+  z.object({ ...baseRuleShape, type: z.literal('co-run'), conditions: ruleConditionSchemas['co-run'] }),
+  z.object({ ...baseRuleShape, type: z.literal('slot-restriction'), conditions: ruleConditionSchemas['slot-restriction'] }),
+  z.object({ ...baseRuleShape, type: z.literal('load-limit'), conditions: ruleConditionSchemas['load-limit'] }),
+  z.object({ ...baseRuleShape, type: z.literal('phase-window'), conditions: ruleConditionSchemas['phase-window'] }),
+  z.object({ ...baseRuleShape, type: z.literal('regex'), conditions: ruleConditionSchemas.regex }),
+  z.object({ ...baseRuleShape, type: z.literal('custom'), conditions: ruleConditionSchemas.custom })
+]);
+
+export type BusinessRule = z.infer<typeof businessRuleSchema>;
+export type RuleConditions<T extends BusinessRuleType = BusinessRuleType> = z.infer<typeof ruleConditionSchemas[T]>;
+export type BusinessRuleOf<T extends BusinessRuleType> = Omit<BusinessRule, 'type' | 'conditions'> & {
+  type: T;
+  conditions: RuleConditions<T>;
+};
+
+export const createDefaultConditions = <T extends BusinessRuleType>(type: T): RuleConditions<T> => {
+  const defaults: { [K in BusinessRuleType]: RuleConditions<K> } = {
+    'co-run': { taskIds: [] },
+    'slot-restriction': { taskIds: [], workerGroup: '' },
+    'load-limit': { workerGroup: ALL_WORKERS, maxSlotsPerPhase: 1 },
+    'phase-window': { taskIds: [], allowedPhases: [] },
+    regex: { entity: 'tasks', field: '', pattern: '' },
+    custom: { entity: 'tasks', field: '', operator: 'not-empty', value: '' }
+  };
+  return defaults[type];
+};
+
+/**
+ * The first problem that keeps a rule from being enforced, or null when the
+ * rule is complete.
+ */
+export const getBusinessRuleProblem = (rule: BusinessRule): string | null => {
+  const result = businessRuleSchema.safeParse(rule);
+  return result.success ? null : result.error.issues[0]?.message ?? 'Invalid rule';
+};
+
+/**
+ * Bring rules saved by older versions, which stored free-form `conditions`,
+ * into the current shape. Unknown keys are dropped and missing ones take the
+ * type's defaults; such rules come back disabled so nothing the user never
+ * set is enforced until they review it.
+ */
+export const normalizeBusinessRules = (rules: unknown[]): BusinessRule[] =>
+  rules.flatMap((raw): BusinessRule[] => {
+    if (!raw || typeof raw !== 'object') return [];
+    const rule = raw as Partial<BusinessRule> & { conditions?: unknown };
+    if (!rule.type || !BUSINESS_RULE_TYPES.includes(rule.type)) return [];
+
+    const stored = (rule.conditions && typeof rule.conditions === 'object' ? rule.conditions : {}) as Record<string, unknown>;
+    const defaults = createDefaultConditions(rule.type) as Record<string, unknown>;
+    const conditions = Object.fromEntries(Object.keys(defaults).map(key => [key, key in stored ? stored[key] : defaults[key]]));
+    const complete = Object.keys(defaults).every(key => key in stored);
+
+    return [{
+      id: String(rule.id ?? Date.now()),
+      name: String(rule.name ?? 'Untitled rule'),
+      description: String(rule.description ?? ''),
+      priority: Number(rule.priority) || 1,
+      enabled: complete && rule.enabled !== false,
+      type: rule.type,
+      conditions
+    } as BusinessRule];
+  });
+
+const OPERATOR_LABELS: { [K in CustomOperator]: string } = {
+  equals: 'equals',
+  'not-equals': 'does not equal',
+  'greater-than': 'is greater than',
+  'less-than': 'is less than',
+  contains: 'contains',
+  'not-empty': 'is not empty'
+};
+
+export const describeOperator = (operator: CustomOperator) => OPERATOR_LABELS[operator];
+
+// One-line summary of what a rule enforces, for rule lists
+export const describeBusinessRule = (rule: BusinessRule): string => {
+  const group = (value: string) => (value === ALL_WORKERS ? 'all workers' : `${value} workers`);
+
+  switch (rule.type) {
+    case 'co-run':
+      return `Run ${rule.conditions.taskIds.join(', ') || '(no tasks)'} in the same phase`;
+    case 'slot-restriction':
+      return `Assign ${rule.conditions.taskIds.join(', ') || '(no tasks)'} only to ${group(rule.conditions.workerGroup || '?')}`;
+    case 'load-limit':
+      return `At most ${rule.conditions.maxSlotsPerPhase} tasks per phase for ${group(rule.conditions.workerGroup)}`;
+    case 'phase-window':
+      return `Schedule ${rule.conditions.taskIds.join(', ') || '(no tasks)'} in phase ${rule.conditions.allowedPhases.join(', ') || '?'}`;
+    case 'regex':
+      return `${rule.conditions.entity}.${rule.conditions.field || '?'} matches /${rule.conditions.pattern}/`;
+    case 'custom':
+      return `${rule.conditions.entity}.${rule.conditions.field || '?'} ${describeOperator(rule.conditions.operator)}${
+        rule.conditions.operator === 'not-empty' ? '' : ` ${rule.conditions.value}`
+      }`;
+  }
+};
+
+// Violations carry this prefix in `ruleId` to tell them from validation rules
+export const BUSINESS_RULE_ERROR_PREFIX = 'business:';
+
+export const getBusinessRuleErrorId = (rule: BusinessRule) => `${BUSINESS_RULE_ERROR_PREFIX}${rule.id}`;
+
+export interface RuleDataFile {
+  name: string;
+  headers: string[];
+  entityType?: EntityType | null;
+  data: Record<string, unknown>[];
+}
+
+type Row = Record<string, unknown>;
+
+export interface LocatedRow {
+  fileName: string;
+  row: number;
+  values: Row;
+}
+
+const text = (value: unknown) => String(value ?? '').trim();
+
+// Numeric cell value, or null for blank and non-numeric cells
+export const toNumber = (value: unknown): number | null => {
+  if (text(value) === '') return null;
+  const number = Number(value);
+  return isNaN(number) ? null : number;
+};
+
+const findFileByEntity = (files: { [fileName: string]: RuleDataFile }) => {
+  const fileByEntity = new Map<EntityType, string>();
+  Object.entries(files).forEach(([fileName, file]) => {
+    const entity = validationEngine.getEntityType(file);
+    if (entity && !fileByEntity.has(entity)) fileByEntity.set(entity, fileName);
+  });
+  return fileByEntity;
+};
+
+export interface RuleOptions {
+  tasks: Array<{ id: string; name: string; skills: string[] }>;
+  // Worker departments, sorted
+  workerGroups: string[];
+  // Skills named by tasks or workers, sorted
+  skills: string[];
+  // Highest phase any task can be placed in, at least 1
+  maxPhase: number;
+  headers: { [K in EntityType]?: string[] };
+}
+
+// Values the rule editors offer, taken from the loaded data
+export const getRuleOptions = (files: { [fileName: string]: RuleDataFile }): RuleOptions => {
+  const fileByEntity = findFileByEntity(files);
+  const rowsOf = (entity: EntityType) => (fileByEntity.has(entity) ? files[fileByEntity.get(entity)!].data : []);
+
+  const seen = new Set<string>();
+  const tasks: RuleOptions['tasks'] = [];
+  let maxPhase = 1;
+  rowsOf('tasks').forEach(row => {
+    const id = text(row.TaskID);
+    [toNumber(row.Phases), toNumber(row.PreferredPhase)].forEach(phase => {
+      if (phase !== null && Number.isInteger(phase)) maxPhase = Math.max(maxPhase, phase);
+    });
+    if (!id || seen.has(id)) return;
+    seen.add(id);
+    tasks.push({ id, name: text(row.Name), skills: parseIdList(row.Skills) });
+  });
+
+  const workerGroups = Array.from(new Set(rowsOf('workers').map(row => text(row.Department)).filter(Boolean))).sort();
+  const skills = Array.from(new Set([
+    ...tasks.flatMap(task => task.skills),
+    ...rowsOf('workers').flatMap(row => parseIdList(row.Skills))
+  ])).sort();
+
+  const headers: RuleOptions['headers'] = {};
+  fileByEntity.forEach((fileName, entity) => {
+    headers[entity] = files[fileName].headers;
+  });
+
+  return { tasks, workerGroups, skills, maxPhase, headers };
+};
+
+export interface RuleData {
+  fileByEntity: Map<EntityType, string>;
+  // First row per ID
+  tasks: Map<string, LocatedRow>;
+  workers: Map<string, LocatedRow>;
+}
+
+export const indexRuleData = (files: { [fileName: string]: RuleDataFile }): RuleData => {
+  const fileByEntity = findFileByEntity(files);
+
+  const indexById = (entity: EntityType, idField: string) => {
+    const index = new Map<string, LocatedRow>();
+    const fileName = fileByEntity.get(entity);
+    if (!fileName) return index;
+    files[fileName].data.forEach((values, row) => {
+      const id = text(values[idField]);
+      if (id && !index.has(id)) index.set(id, { fileName, row, values });
+    });
+    return index;
+  };
+
+  return { fileByEntity, tasks: indexById('tasks', 'TaskID'), workers: indexById('workers', 'WorkerID') };
+};
+
+export const isInWorkerGroup = (worker: LocatedRow, group: string) =>
+  group === ALL_WORKERS || text(worker.values.Department).toLowerCase() === group.toLowerCase();
+
+// Rules that are switched on and complete enough to enforce
+export const getActiveBusinessRules = (rules: BusinessRule[]) =>
+  rules.filter(rule => rule.enabled && getBusinessRuleProblem(rule) === null);
+
+const matchesCondition = (value: unknown, operator: CustomOperator, expected: string): boolean => {
+  const actual = text(value);
+  switch (operator) {
+    case 'equals':
+      return actual.toLowerCase() === expected.trim().toLowerCase();
+    case 'not-equals':
+      return actual.toLowerCase() !== expected.trim().toLowerCase();
+    case 'greater-than':
+    case 'less-than': {
+      const number = toNumber(actual);
+      const bound = toNumber(expected);
+      if (number === null || bound === null) return false;
+      return operator === 'greater-than' ? number > bound : number < bound;
+    }
+    case 'contains':
+      return actual.toLowerCase().includes(expected.trim().toLowerCase());
+    case 'not-empty':
+      return actual !== '';
+  }
+};
+
+/**
+ * Check the loaded clients, workers and tasks against every enabled, complete
+ * business rule. Violations are returned per file in the same shape as
+ * validation errors so they can be listed and highlighted with them.
+ */
+export const evaluateBusinessRules = (
+  rules: BusinessRule[],
+  files: { [fileName: string]: RuleDataFile }
+): { [fileName: string]: ValidationError[] } => {
+  const violations: { [fileName: string]: ValidationError[] } = {};
+  const activeRules = getActiveBusinessRules(rules);
+  if (activeRules.length === 0) return violations;
+
+  const { fileByEntity, tasks, workers } = indexRuleData(files);
+
+  const report = (rule: BusinessRule, location: { fileName: string; row: number }, column: string, message: string) => {
+    if (!violations[location.fileName]) violations[location.fileName] = [];
+    violations[location.fileName].push({
+      row: location.row,
+      column,
+      message: `${rule.name}: ${message}`,
+      severity: 'error',
+      ruleId: getBusinessRuleErrorId(rule)
+    });
+  };
+
+  activeRules.forEach(rule => {
+    switch (rule.type) {
+      case 'co-run': {
+        const members = rule.conditions.taskIds
+          .map(id => ({ id, task: tasks.get(id) }))
+          .filter((member): member is { id: string; task: LocatedRow } => !!member.task && toNumber(member.task.values.PreferredPhase) !== null);
+        const phases = new Set(members.map(member => toNumber(member.task.values.PreferredPhase)));
+        if (phases.size > 1) {
+          const placement = members.map(member => `${member.id} phase ${toNumber(member.task.values.PreferredPhase)}`).join(', ');
+          members.forEach(member => report(rule, member.task, 'PreferredPhase', `co-run tasks must share a phase (${placement})`));
+        }
+        break;
+      }
+
+      case 'slot-restriction':
+        rule.conditions.taskIds.forEach(id => {
+          const task = tasks.get(id);
+          const workerId = task ? text(task.values.AssignedWorkerID) : '';
+          const worker = workers.get(workerId);
+          if (!task || !worker || isInWorkerGroup(worker, rule.conditions.workerGroup)) return;
+          report(rule, task, 'AssignedWorkerID',
+            `${id} may only go to ${rule.conditions.workerGroup} workers, but ${workerId} is in ${text(worker.values.Department) || 'no department'}`);
+        });
+        break;
+
+      case 'load-limit': {
+        // Assigned tasks per worker and phase
+        const load = new Map<string, Map<number, number>>();
+        tasks.forEach(task => {
+          const workerId = text(task.values.AssignedWorkerID);
+          const phase = toNumber(task.values.PreferredPhase);
+          if (!workerId || phase === null) return;
+          if (!load.has(workerId)) load.set(workerId, new Map());
+          const phases = load.get(workerId)!;
+          phases.set(phase, (phases.get(phase) ?? 0) + 1);
+        });
+
+        workers.forEach((worker, workerId) => {
+          if (!isInWorkerGroup(worker, rule.conditions.workerGroup)) return;
+          const overloaded = Array.from(load.get(workerId) ?? [])
+            .filter(([, count]) => count > rule.conditions.maxSlotsPerPhase)
+            .sort(([a], [b]) => a - b);
+          if (overloaded.length > 0) {
+            report(rule, worker, 'WorkerID', `${workerId} has ${
+              overloaded.map(([phase, count]) => `${count} tasks in phase ${phase}`).join(', ')
+            } (limit ${rule.conditions.maxSlotsPerPhase} per phase)`);
+          }
+        });
+        break;
+      }
+
+      case 'phase-window':
+        rule.conditions.taskIds.forEach(id => {
+          const task = tasks.get(id);
+          const phase = task ? toNumber(task.values.PreferredPhase) : null;
+          if (!task || phase === null || rule.conditions.allowedPhases.includes(phase)) return;
+          report(rule, task, 'PreferredPhase',
+            `${id} is in phase ${phase}, allowed phases are ${rule.conditions.allowedPhases.join(', ')}`);
+        });
+        break;
+
+      case 'regex': {
+        const fileName = fileByEntity.get(rule.conditions.entity);
+        if (!fileName) break;
+        const { field, pattern } = rule.conditions;
+        const regex = new RegExp(pattern);
+        files[fileName].data.forEach((values, row) => {
+          const value = text(values[field]);
+          if (value && !regex.test(value)) {
+            report(rule, { fileName, row }, field, `"${value}" does not match /${pattern}/`);
+          }
+        });
+        break;
+      }
+
+      case 'custom': {
+        const fileName = fileByEntity.get(rule.conditions.entity);
+        if (!fileName) break;
+        const { field, operator, value: expected } = rule.conditions;
+        files[fileName].data.forEach((values, row) => {
+          if (matchesCondition(values[field], operator, expected)) return;
+          const requirement = operator === 'not-empty' ? describeOperator(operator) : `${describeOperator(operator)} ${expected}`;
+          report(rule, { fileName, row }, field, `expected ${field} that ${requirement}, got "${text(values[field])}"`);
+        });
+        break;
+      }
+    }
+  });
+
+  return violations;
+};
@@ -0,0 +1,79 @@
+import { ParsedRow } from '@/utils/fileParsing';
+import type { ValidationError } from '@/utils/validationEngine';
+import { CsvValidateRequest, CsvWorkerRequest, CsvWorkerResponse } from '@/workers/csvProtocol';
+
+export interface CsvStreamHandlers {
+  // Called once per parsed chunk, in file order
+  onRows: (rows: ParsedRow[], headers: string[]) => void;
+  onProgress: (bytesRead: number, totalBytes: number) => void;
+  onComplete: (rowCount: number, malformedRows: number) => void;
+  onError: (message: string) => void;
+}
+
+export interface CsvStream {
+  /**
+   * Run the first validation pass over every parsed row inside the worker.
+   * Resolves after the parse has completed; the worker is released afterwards.
+   */
+  validate: (request: CsvValidateRequest) => Promise<ValidationError[]>;
+  // Stop parsing immediately and release the worker
+  cancel: () => void;
+}
+
+/**
+ * Parse a CSV file in a Web Worker, streaming rows back in batches so the
+ * page stays responsive and can render the first rows before parsing ends.
+ */
+export const streamCsv = (file: File, handlers: CsvStreamHandlers): CsvStream => {
+  const worker = new Worker(new URL('../workers/csvParser.worker.ts', import.meta.url), { type: 'module' });
+  let pendingValidation: { resolve: (errors: ValidationError[]) => void; reject: (error: Error) => void } | null = null;
+
+  const post = (request: CsvWorkerRequest) => worker.postMessage(request);
+
+  worker.onmessage = (event: MessageEvent<CsvWorkerResponse>) => {
+    const message = event.data;
+
+    switch (message.type) {
+      case 'rows':
+        handlers.onRows(message.rows, message.headers);
+        handlers.onProgress(message.bytesRead, message.totalBytes);
+        break;
+      case 'complete':
+        handlers.onComplete(message.rowCount, message.malformedRows);
+        break;
+      case 'validated':
+        pendingValidation?.resolve(message.errors);
+        pendingValidation = null;
+        worker.terminate();
+        break;
+      case 'error':
+        if (pendingValidation) {
+          pendingValidation.reject(new Error(message.message));
+          pendingValidation = null;
+        } else {
+          handlers.onError(message.message);
+        }
+        worker.terminate();
+        break;
+    }
+  };
+
+  worker.onerror = (event) => {
+    handlers.onError(event.message || 'CSV worker failed');
+    worker.terminate();
+  };
+
+  post({ type: 'parse', file });
+
+  return {
+    validate: (request) => new Promise((resolve, reject) => {
+      pendingValidation = { resolve, reject };
+      post({ type: 'validate', ...request });
+    }),
+    cancel: () => {
+      pendingValidation?.reject(new Error('Cancelled'));
+      pendingValidation = null;
+      worker.terminate();
+    }
+  };
+};
@@ -0,0 +1,173 @@
+
+export interface CellChange {
+  row: number;
+  column: string;
+  before: unknown;
+  after: unknown;
+}
+
+export type CellEditSource = 'edit' | 'bulk-fix' | 'rule-fix';
+
+interface BaseCommand {
+  id: string;
+  label: string;
+  fileName: string;
+  timestamp: string;
+}
+
+export interface EditCellsCommand extends BaseCommand {
+  kind: 'edit-cells';
+  source: CellEditSource;
+  changes: CellChange[];
+}
+
+export interface InsertRowsCommand extends BaseCommand {
+  kind: 'insert-rows';
+  rows: Array<{ index: number; row: Record<string, unknown> }>;
+}
+
+export interface DeleteRowsCommand extends BaseCommand {
+  kind: 'delete-rows';
+  rows: Array<{ index: number; row: Record<string, unknown> }>;
+}
+
+/**
+ * A reversible mutation of one file's rows. Commands are plain data so they
+ * can be replayed, inverted and listed in the history panel.
+ */
+export type DataCommand = EditCellsCommand | InsertRowsCommand | DeleteRowsCommand;
+
+type FileWithRows = { data: Record<string, unknown>[] };
+
+const createCommandId = () => `${Date.now()}-${Math.random().toString(36).slice(2, 8)}`;
+
+export const createEditCommand = (
+  fileName: string,
+  changes: CellChange[],
+  source: CellEditSource = 'edit',
+  label = 'Edit cell'
+): EditCellsCommand => ({
+  id: createCommandId(),
+  kind: 'edit-cells',
+  source,
+  label,
+  fileName,
+  changes,
+  timestamp: new Date().toISOString()
+});
+
+export const createInsertRowsCommand = (
+  fileName: string,
+  rows: InsertRowsCommand['rows'],
+  label = 'Insert row'
+): InsertRowsCommand => ({
+  id: createCommandId(),
+  kind: 'insert-rows',
+  label,
+  fileName,
+  rows,
+  timestamp: new Date().toISOString()
+});
+
+export const createDeleteRowsCommand = (
+  fileName: string,
+  rows: DeleteRowsCommand['rows'],
+  label = 'Delete row'
+): DeleteRowsCommand => ({
+  id: createCommandId(),
+  kind: 'delete-rows',
+  label,
+  fileName,
+  rows,
+  timestamp: new Date().toISOString()
+});
+
+export const invertCommand = (command: DataCommand): DataCommand => {
+  switch (command.kind) {
+    case 'edit-cells':
+      return {
+        ...command,
+        changes: command.changes.map(change => ({ ...change, before: change.after, after: change.before }))
+      };
+    case 'insert-rows':
+      return { ...command, kind: 'delete-rows' };
+    case 'delete-rows':
+      return { ...command, kind: 'insert-rows' };
+  }
+};
+
+/**
+ * Apply a command to the file it targets and return the updated file map.
+ * Row indexes in insert/delete commands refer to positions in the final and
+ * original data respectively, so rows are inserted ascending and deleted
+ * descending.
+ */
+export const applyCommand = <T extends FileWithRows>(
+  files: { [key: string]: T },
+  command: DataCommand
+): { [key: string]: T } => {
+  const file = files[command.fileName];
+  if (!file) return files;
+
+  let data = file.data;
+
+  switch (command.kind) {
+    case 'edit-cells': {
+      const changesByRow = new Map<number, CellChange[]>();
+      command.changes.forEach(change => {
+        if (!changesByRow.has(change.row)) {
+          changesByRow.set(change.row, []);
+        }
+        changesByRow.get(change.row)!.push(change);
+      });
+
+      data = data.map((row, index) => {
+        const rowChanges = changesByRow.get(index);
+        if (!rowChanges) return row;
+
+        const updatedRow = { ...row };
+        rowChanges.forEach(change => {
+          updatedRow[change.column] = change.after;
+        });
+        return updatedRow;
+      });
+      break;
+    }
+
+    case 'insert-rows': {
+      data = [...data];
+      [...command.rows]
+        .sort((a, b) => a.index - b.index)
+        .forEach(({ index, row }) => data.splice(index, 0, row));
+      break;
+    }
+
+    case 'delete-rows': {
+      data = [...data];
+      [...command.rows]
+        .sort((a, b) => b.index - a.index)
+        .forEach(({ index }) => data.splice(index, 1));
+      break;
+    }
+  }
+
+  return { ...files, [command.fileName]: { ...file, data } };
+};
+
+/**
+ * Human readable location of a command, e.g. `Row 4, "Email"` or `12 cells`.
+ */
+export const describeCommandTarget = (command: DataCommand): string => {
+  if (command.kind === 'edit-cells') {
+    if (command.changes.length === 1) {
+      const [change] = command.changes;
+      return `Row ${change.row + 1}, "${change.column}"`;
+    }
+    return `${command.changes.length} cells`;
+  }
+
+  if (command.rows.length === 1) {
+    return `Row ${command.rows[0].index + 1}`;
+  }
+  return `${command.rows.length} rows`;
+};
@@ -0,0 +1,268 @@
+type Row = Record<string, unknown>;
+
+export interface DependencyFields {
+  idField: string;
+  dependenciesField: string;
+  // Optional: enables the phase ordering check
+  phaseField?: string;
+}
+
+export const DEFAULT_DEPENDENCY_FIELDS: DependencyFields = {
+  idField: 'TaskID',
+  dependenciesField: 'Dependencies',
+  phaseField: 'PreferredPhase'
+};
+
+export interface DependencyNode {
+  id: string;
+  row: number;
+  phase: number | null;
+  // Known task IDs only; unknown IDs are the reference rules' concern
+  dependsOn: string[];
+  dependsOnSelf: boolean;
+}
+
+export interface DependencyGraph {
+  // In file order
+  nodes: Map<string, DependencyNode>;
+}
+
+export interface DependencyCycle {
+  // Every task in the strongly connected group, in file order
+  tasks: string[];
+  // One closed walk through the group, first task repeated at the end
+  path: string[];
+}
+
+export interface PhaseInversion {
+  task: string;
+  taskPhase: number;
+  dependency: string;
+  dependencyPhase: number;
+}
+
+/**
+ * IDs held by a reference cell: a JSON array of IDs or a single ID.
+ * Malformed arrays yield no IDs; format rules report them.
+ */
+export const parseIdList = (value: unknown): string[] => {
+  if (value === undefined || value === null) return [];
+  const text = String(value).trim();
+  if (text === '') return [];
+
+  let ids: unknown[] = [text];
+  if (text.startsWith('[')) {
+    try {
+      const parsed = JSON.parse(text);
+      ids = Array.isArray(parsed) ? parsed : [];
+    } catch {
+      ids = [];
+    }
+  }
+  return ids
+    .filter(id => id !== null && id !== undefined && String(id).trim() !== '')
+    .map(id => String(id).trim());
+};
+
+/**
+ * Row index of each ID in a column. Duplicate IDs are reported by their own
+ * rule; the first row wins here.
+ */
+export const indexRowsById = (rows: Row[], idField: string): Map<string, number> => {
+  const rowsById = new Map<string, number>();
+  rows.forEach((row, rowIndex) => {
+    const id = String(row[idField] ?? '').trim();
+    if (id !== '' && !rowsById.has(id)) rowsById.set(id, rowIndex);
+  });
+  return rowsById;
+};
+
+export const buildDependencyGraph = (rows: Row[], fields: DependencyFields): DependencyGraph => {
+  const nodes = new Map<string, DependencyNode>();
+
+  indexRowsById(rows, fields.idField).forEach((rowIndex, id) => {
+    const row = rows[rowIndex];
+    const phase = fields.phaseField ? parseFloat(String(row[fields.phaseField] ?? '')) : NaN;
+    nodes.set(id, {
+      id,
+      row: rowIndex,
+      phase: isNaN(phase) ? null : phase,
+      dependsOn: [],
+      dependsOnSelf: false
+    });
+  });
+
+  rows.forEach((row, rowIndex) => {
+    const node = nodes.get(String(row[fields.idField] ?? '').trim());
+    if (!node || node.row !== rowIndex) return;
+
+    Array.from(new Set(parseIdList(row[fields.dependenciesField]))).forEach(dependency => {
+      if (dependency === node.id) {
+        node.dependsOnSelf = true;
+      } else if (nodes.has(dependency)) {
+        node.dependsOn.push(dependency);
+      }
+    });
+  });
+
+  return { nodes };
+};
+
+/**
+ * Strongly connected groups (Tarjan), dependencies before their dependents.
+ * Iterative so long dependency chains cannot overflow the call stack.
+ */
+export const findStronglyConnected = (graph: DependencyGraph): string[][] => {
+  const index = new Map<string, number>();
+  const low = new Map<string, number>();
+  const stack: string[] = [];
+  const onStack = new Set<string>();
+  const groups: string[][] = [];
+  let counter = 0;
+
+  const visit = (id: string) => {
+    index.set(id, counter);
+    low.set(id, counter);
+    counter++;
+    stack.push(id);
+    onStack.add(id);
+  };
+
+  graph.nodes.forEach((_node, start) => {
+    if (index.has(start)) return;
+
+    visit(start);
+    const work: Array<{ id: string; next: number }> = [{ id: start, next: 0 }];
+    while (work.length > 0) {
+      const frame = work[work.length - 1];
+      const dependsOn = graph.nodes.get(frame.id)!.dependsOn;
+
+      if (frame.next < dependsOn.length) {
+        const dependency = dependsOn[frame.next++];
+        if (!index.has(dependency)) {
+          visit(dependency);
+          work.push({ id: dependency, next: 0 });
+        } else if (onStack.has(dependency)) {
+          low.set(frame.id, Math.min(low.get(frame.id)!, index.get(dependency)!));
+        }
+        continue;
+      }
+
+      work.pop();
+      if (work.length > 0) {
+        const parent = work[work.length - 1].id;
+        low.set(parent, Math.min(low.get(parent)!, low.get(frame.id)!));
+      }
+      if (low.get(frame.id) === index.get(frame.id)) {
+        const group: string[] = [];
+        let member: string;
+        do {
+          member = stack.pop()!;
+          onStack.delete(member);
+          group.push(member);
+        } while (member !== frame.id);
+        groups.push(group);
+      }
+    }
+  });
+
+  return groups;
+};
+
+// Shortest dependency walk from `start` back to itself inside `members`
+const shortestCycleThrough = (graph: DependencyGraph, start: string, members: Set<string>): string[] => {
+  const previous = new Map<string, string>();
+  const queue = [start];
+
+  for (let i = 0; i < queue.length; i++) {
+    const current = queue[i];
+    for (const dependency of graph.nodes.get(current)!.dependsOn) {
+      if (!members.has(dependency)) continue;
+      if (dependency === start) {
+        const path = [current];
+        while (path[0] !== start) path.unshift(previous.get(path[0])!);
+        return [...path, start];
+      }
+      if (!previous.has(dependency)) {
+        previous.set(dependency, current);
+        queue.push(dependency);
+      }
+    }
+  }
+
+  return [start, start];
+};
+
+/**
+ * Circular dependencies of two or more tasks. Self dependencies are flagged
+ * on the node instead.
+ */
+export const findDependencyCycles = (graph: DependencyGraph): DependencyCycle[] => {
+  const rowOf = (id: string) => graph.nodes.get(id)!.row;
+
+  return findStronglyConnected(graph)
+    .filter(group => group.length > 1)
+    .map(group => {
+      const tasks = [...group].sort((a, b) => rowOf(a) - rowOf(b));
+      return { tasks, path: shortestCycleThrough(graph, tasks[0], new Set(group)) };
+    })
+    .sort((a, b) => rowOf(a.tasks[0]) - rowOf(b.tasks[0]));
+};
+
+// Larger groups share their representative path instead of one search per task
+const MAX_CYCLE_SEARCH_GROUP = 50;
+
+/**
+ * The shortest cycle through one task of a group, for messages that should
+ * show the loop that task itself is on. Null for groups too large to search
+ * per task.
+ */
+export const getCycleThrough = (graph: DependencyGraph, cycle: DependencyCycle, task: string): string[] | null => {
+  if (cycle.tasks.length > MAX_CYCLE_SEARCH_GROUP) return null;
+  return cycle.path.includes(task) ? cycle.path : shortestCycleThrough(graph, task, new Set(cycle.tasks));
+};
+
+// Long paths keep their ends so messages stay readable
+export const formatDependencyPath = (path: string[]): string =>
+  path.length <= 8
+    ? path.join(' → ')
+    : `${[...path.slice(0, 4), '…', ...path.slice(-3)].join(' → ')} (${path.length - 1} tasks)`;
+
+// Tasks that depend on a task scheduled for a later phase than their own
+export const findPhaseInversions = (graph: DependencyGraph): PhaseInversion[] => {
+  const inversions: PhaseInversion[] = [];
+
+  graph.nodes.forEach(node => {
+    if (node.phase === null) return;
+    node.dependsOn.forEach(dependency => {
+      const dependencyPhase = graph.nodes.get(dependency)!.phase;
+      if (dependencyPhase !== null && dependencyPhase > node.phase!) {
+        inversions.push({ task: node.id, taskPhase: node.phase!, dependency, dependencyPhase });
+      }
+    });
+  });
+
+  return inversions;
+};
+
+/**
+ * Column per task for drawing: tasks sit to the right of everything they
+ * depend on. Tasks in one cycle share a column.
+ */
+export const computeDependencyLayers = (graph: DependencyGraph): Map<string, number> => {
+  const layers = new Map<string, number>();
+
+  // Groups come out dependencies first, so their layers are already known
+  findStronglyConnected(graph).forEach(group => {
+    const members = new Set(group);
+    let layer = 0;
+    group.forEach(id => {
+      graph.nodes.get(id)!.dependsOn.forEach(dependency => {
+        if (!members.has(dependency)) layer = Math.max(layer, layers.get(dependency)! + 1);
+      });
+    });
+    group.forEach(id => layers.set(id, layer));
+  });
+
+  return layers;
+};
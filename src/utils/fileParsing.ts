@@ -0,0 +1,48 @@
+import * as XLSX from 'xlsx';
+
+export type ParsedRow = Record<string, unknown>;
+
+export interface ParsedTable {
+  headers: string[];
+  rows: ParsedRow[];
+}
+
+export interface SheetPreview extends ParsedTable {
+  name: string;
+}
+
+export const isExcelFile = (fileName: string) => /\.xlsx?$/i.test(fileName);
+
+/**
+ * Name used for a sheet loaded from a workbook, so every chosen sheet becomes
+ * its own file in the workspace.
+ */
+export const getSheetFileName = (workbookName: string, sheetName: string) => `${workbookName} › ${sheetName}`;
+
+const sheetToTable = (worksheet: XLSX.WorkSheet): ParsedTable => {
+  const jsonData = XLSX.utils.sheet_to_json<unknown[]>(worksheet, { header: 1, blankrows: false });
+  if (jsonData.length === 0) return { headers: [], rows: [] };
+
+  // Blank header cells still need a name so their values are not dropped
+  const headers = jsonData[0].map((header, index) => String(header ?? '').trim() || `Column ${index + 1}`);
+  const rows = jsonData.slice(1).map(row => {
+    const obj: ParsedRow = {};
+    headers.forEach((header, index) => {
+      obj[header] = row[index] ?? '';
+    });
+    return obj;
+  });
+
+  return { headers, rows };
+};
+
+/**
+ * Parse every sheet of a workbook. Sheets without a header row are skipped.
+ */
+export const readWorkbook = (buffer: ArrayBuffer): SheetPreview[] => {
+  const workbook = XLSX.read(buffer, { type: 'array' });
+
+  return workbook.SheetNames
+    .map(name => ({ name, ...sheetToTable(workbook.Sheets[name]) }))
+    .filter(sheet => sheet.headers.length > 0);
+};
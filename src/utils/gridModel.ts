@@ -0,0 +1,235 @@
+export interface CellIssue {
+  severity: 'error' | 'warning';
+  messages: string[];
+}
+
+/**
+ * Issues per row, then per column. Built once per validation result so the
+ * grid can look up a cell in constant time.
+ */
+export type ErrorIndex = Map<number, Map<string, CellIssue>>;
+
+export const buildErrorIndex = (
+  errors: Array<{ row: number; column: string; message: string; severity: 'error' | 'warning' }>
+): ErrorIndex => {
+  const index: ErrorIndex = new Map();
+
+  errors.forEach(error => {
+    if (!index.has(error.row)) {
+      index.set(error.row, new Map());
+    }
+    const rowIssues = index.get(error.row)!;
+    const issue = rowIssues.get(error.column);
+
+    if (issue) {
+      issue.messages.push(error.message);
+      // Errors outrank warnings on the same cell
+      if (error.severity === 'error') issue.severity = 'error';
+    } else {
+      rowIssues.set(error.column, { severity: error.severity, messages: [error.message] });
+    }
+  });
+
+  return index;
+};
+
+export type ColumnKind = 'text' | 'number' | 'enum';
+
+export type ColumnFilter =
+  | { kind: 'text'; contains: string }
+  | { kind: 'number'; min?: number; max?: number }
+  | { kind: 'enum'; values: string[] };
+
+export interface SortState {
+  column: string;
+  direction: 'asc' | 'desc';
+}
+
+// Enum columns have few distinct values that repeat
+const MAX_ENUM_VALUES = 12;
+const KIND_SAMPLE_SIZE = 500;
+
+const isBlank = (value: unknown) => value === undefined || value === null || String(value).trim() === '';
+
+const toNumber = (value: unknown): number | null => {
+  if (isBlank(value)) return null;
+  const number = Number(value);
+  return isNaN(number) ? null : number;
+};
+
+/**
+ * Guess how a column should be filtered from a sample of its values.
+ */
+export const inferColumnKind = (data: Record<string, unknown>[], column: string): ColumnKind => {
+  const values = data
+    .slice(0, KIND_SAMPLE_SIZE)
+    .map(row => row[column])
+    .filter(value => !isBlank(value));
+
+  if (values.length === 0) return 'text';
+  if (values.every(value => toNumber(value) !== null)) return 'number';
+
+  const distinct = new Set(values.map(String));
+  return distinct.size <= MAX_ENUM_VALUES && distinct.size < values.length ? 'enum' : 'text';
+};
+
+export const getDistinctValues = (data: Record<string, unknown>[], column: string): string[] =>
+  Array.from(new Set(data.map(row => String(row[column] ?? '')))).sort();
+
+export const matchesFilter = (value: unknown, filter: ColumnFilter): boolean => {
+  switch (filter.kind) {
+    case 'text':
+      return String(value ?? '').toLowerCase().includes(filter.contains.toLowerCase());
+    case 'number': {
+      const number = toNumber(value);
+      if (number === null) return filter.min === undefined && filter.max === undefined;
+      return (filter.min === undefined || number >= filter.min) && (filter.max === undefined || number <= filter.max);
+    }
+    case 'enum':
+      return filter.values.includes(String(value ?? ''));
+  }
+};
+
+export const isFilterActive = (filter: ColumnFilter | undefined): boolean => {
+  if (!filter) return false;
+  switch (filter.kind) {
+    case 'text':
+      return filter.contains !== '';
+    case 'number':
+      return filter.min !== undefined || filter.max !== undefined;
+    case 'enum':
+      return true;
+  }
+};
+
+const collator = new Intl.Collator(undefined, { numeric: true, sensitivity: 'base' });
+
+const compareValues = (a: unknown, b: unknown): number => {
+  // Blank cells always sort last
+  if (isBlank(a) || isBlank(b)) return Number(isBlank(a)) - Number(isBlank(b));
+
+  const numberA = toNumber(a);
+  const numberB = toNumber(b);
+  if (numberA !== null && numberB !== null) return numberA - numberB;
+  return collator.compare(String(a), String(b));
+};
+
+/**
+ * Indexes of the rows to display, in display order. Row indexes always refer
+ * to the underlying data so edits and errors line up after sorting.
+ */
+export const computeRowOrder = (
+  data: Record<string, unknown>[],
+  filters: { [column: string]: ColumnFilter },
+  sort: SortState | null,
+  rowFilter?: (rowIndex: number) => boolean
+): number[] => {
+  const activeFilters = Object.entries(filters).filter(([, filter]) => isFilterActive(filter));
+
+  const order: number[] = [];
+  data.forEach((row, rowIndex) => {
+    if (rowFilter && !rowFilter(rowIndex)) return;
+    if (activeFilters.every(([column, filter]) => matchesFilter(row[column], filter))) {
+      order.push(rowIndex);
+    }
+  });
+
+  if (sort) {
+    const direction = sort.direction === 'asc' ? 1 : -1;
+    order.sort((a, b) => {
+      const valueA = data[a][sort.column];
+      const valueB = data[b][sort.column];
+      // Keep blanks last in both directions
+      if (isBlank(valueA) || isBlank(valueB)) return compareValues(valueA, valueB);
+      return compareValues(valueA, valueB) * direction || a - b;
+    });
+  }
+
+  return order;
+};
+
+export interface ColumnLayout {
+  order: string[];
+  widths: { [column: string]: number };
+  pinned: string[];
+  hidden: string[];
+}
+
+export const DEFAULT_COLUMN_WIDTH = 160;
+export const MIN_COLUMN_WIDTH = 60;
+
+/**
+ * Reconcile a saved layout with the file's current headers: new columns are
+ * appended, removed ones dropped.
+ */
+export const normalizeLayout = (layout: ColumnLayout | null, headers: string[]): ColumnLayout => {
+  const known = new Set(headers);
+  const order = (layout?.order ?? []).filter(column => known.has(column));
+  headers.forEach(header => {
+    if (!order.includes(header)) order.push(header);
+  });
+
+  return {
+    order,
+    widths: layout?.widths ?? {},
+    pinned: (layout?.pinned ?? []).filter(column => known.has(column)),
+    hidden: (layout?.hidden ?? []).filter(column => known.has(column))
+  };
+};
+
+/**
+ * Visible columns in display order, pinned columns first.
+ */
+export const getVisibleColumns = (layout: ColumnLayout): string[] => {
+  const visible = layout.order.filter(column => !layout.hidden.includes(column));
+  return [
+    ...visible.filter(column => layout.pinned.includes(column)),
+    ...visible.filter(column => !layout.pinned.includes(column))
+  ];
+};
+
+export const moveColumn = (order: string[], column: string, before: string): string[] => {
+  if (column === before) return order;
+  const without = order.filter(c => c !== column);
+  const index = without.indexOf(before);
+  return [...without.slice(0, index), column, ...without.slice(index)];
+};
+
+export interface CellPosition {
+  row: number;
+  column: string;
+}
+
+/**
+ * The next (or previous) cell with an issue in display order, wrapping
+ * around at either end. Starts from the top when there is no current cell.
+ */
+export const findIssueCell = (
+  rowOrder: number[],
+  columns: string[],
+  errorIndex: ErrorIndex,
+  from: CellPosition | null,
+  direction: 1 | -1
+): CellPosition | null => {
+  const cells: CellPosition[] = [];
+  rowOrder.forEach(row => {
+    const rowIssues = errorIndex.get(row);
+    if (!rowIssues) return;
+    columns.forEach(column => {
+      if (rowIssues.has(column)) cells.push({ row, column });
+    });
+  });
+  if (cells.length === 0) return null;
+
+  const viewPosition = new Map(rowOrder.map((row, index) => [row, index]));
+  const compare = (a: CellPosition, b: CellPosition) =>
+    (viewPosition.get(a.row) ?? -1) - (viewPosition.get(b.row) ?? -1) || columns.indexOf(a.column) - columns.indexOf(b.column);
+
+  if (!from || !viewPosition.has(from.row)) {
+    return direction === 1 ? cells[0] : cells[cells.length - 1];
+  }
+  if (direction === 1) {
+    return cells.find(cell => compare(cell, from) > 0) ?? cells[0];
+  }
+  return [...cells].reverse().find(cell => compare(cell, from) < 0) ?? cells[cells.length - 1];
+};
@@ -0,0 +1,222 @@
+import { ValidationCheck, ValidationEngine, ValidationError, validationEngine } from '@/utils/validationEngine';
+import { EntityType } from '@/utils/validationRules';
+import { DataCommand } from '@/utils/dataCommands';
+
+/**
+ * What changed in the workspace, as far as validation is concerned. Row
+ * indexes refer to the data after the change.
+ */
+export type DataChange =
+  | { kind: 'cells'; fileName: string; cells: Array<{ row: number; column: string }> }
+  | { kind: 'rows-inserted'; fileName: string; rows: number[] }
+  // Indexes of the removed rows in the data before the change
+  | { kind: 'rows-deleted'; fileName: string; rows: number[] }
+  // A file was added, replaced or removed. Its own errors are set by whoever
+  // loaded it; only the files reading from it are revalidated.
+  | { kind: 'file'; fileName: string; entityType: EntityType | null };
+
+export interface ValidationDiff {
+  added: ValidationError[];
+  removed: ValidationError[];
+}
+
+interface ValidatedFile {
+  name: string;
+  headers: string[];
+  entityType?: EntityType | null;
+  data: Record<string, unknown>[];
+  validationErrors: ValidationError[];
+}
+
+// Every column of a row, for row inserts and deletes
+const ALL_COLUMNS = '*';
+type ColumnSet = Set<string> | typeof ALL_COLUMNS;
+
+interface CheckInputs {
+  // Columns read on the validated file's own rows
+  columns: string[];
+  // Columns read on another entity's rows (or the same entity, for self references)
+  references: Array<{ entity: EntityType; columns: string[] }>;
+}
+
+const compact = (columns: Array<string | undefined>) => columns.filter((column): column is string => !!column);
+
+/**
+ * The columns and entities a check reads, which decides whether a change can
+ * alter its result.
+ */
+export const getCheckInputs = ({ kind, rule }: ValidationCheck): CheckInputs => {
+  const config = rule.config ?? {};
+
+  if (kind === 'unreferenced') {
+    return {
+      columns: compact([config.target?.field]),
+      references: rule.entity === 'all' ? [] : [{ entity: rule.entity, columns: [rule.field] }]
+    };
+  }
+  if (kind === 'file') {
+    return { columns: compact([rule.field, config.idField, config.phaseField]), references: [] };
+  }
+  return {
+    columns: compact([rule.field, config.maxField, config.otherField, config.backReference?.key]),
+    references: rule.type === 'reference' && config.target
+      ? [{ entity: config.target.entity, columns: compact([config.target.field, config.backReference?.field]) }]
+      : []
+  };
+};
+
+const touches = (columns: string[], changed: ColumnSet) =>
+  changed === ALL_COLUMNS ? columns.length > 0 : columns.some(column => changed.has(column));
+
+const readsEntity = (inputs: CheckInputs, entity: EntityType | null, changed: ColumnSet) =>
+  entity !== null && inputs.references.some(reference => reference.entity === entity && touches(reference.columns, changed));
+
+export const getCommandChange = (command: DataCommand): DataChange => {
+  switch (command.kind) {
+    case 'edit-cells':
+      return { kind: 'cells', fileName: command.fileName, cells: command.changes };
+    case 'insert-rows':
+      return { kind: 'rows-inserted', fileName: command.fileName, rows: command.rows.map(row => row.index) };
+    case 'delete-rows':
+      return { kind: 'rows-deleted', fileName: command.fileName, rows: command.rows.map(row => row.index) };
+  }
+};
+
+/**
+ * The checks to rerun per file after `change`, narrowed to the changed rows
+ * where a check only reads the row it reports on.
+ */
+export const planRevalidation = (
+  files: { [key: string]: ValidatedFile },
+  change: DataChange,
+  engine: ValidationEngine = validationEngine
+): Map<string, ValidationCheck[]> => {
+  const plan = new Map<string, ValidationCheck[]>();
+  const changedFile = files[change.fileName];
+  const changedEntity = change.kind === 'file' ? change.entityType : changedFile ? engine.getEntityType(changedFile) : null;
+
+  let changedColumns: ColumnSet = ALL_COLUMNS;
+  let changedRows: number[] = [];
+  if (change.kind === 'cells') {
+    changedColumns = new Set(change.cells.map(cell => cell.column));
+    changedRows = Array.from(new Set(change.cells.map(cell => cell.row)));
+  } else if (change.kind === 'rows-inserted') {
+    changedRows = change.rows;
+  }
+
+  if (changedFile && change.kind !== 'file') {
+    const checks: ValidationCheck[] = [];
+    engine.getChecks(changedFile).forEach(check => {
+      const inputs = getCheckInputs(check);
+      // Self references: a changed ID can affect any row pointing at it
+      const readsOwnRows = readsEntity(inputs, changedEntity, changedColumns);
+
+      if (check.kind !== 'row') {
+        if (readsOwnRows || touches(inputs.columns, changedColumns)) checks.push(check);
+      } else if (readsOwnRows) {
+        checks.push(check);
+      } else if (changedRows.length > 0 && touches(inputs.columns, changedColumns)) {
+        checks.push({ ...check, rows: changedRows });
+      }
+    });
+    plan.set(change.fileName, checks);
+  }
+
+  Object.entries(files).forEach(([fileName, file]) => {
+    if (fileName === change.fileName) return;
+    const checks = engine.getChecks(file).filter(check => readsEntity(getCheckInputs(check), changedEntity, changedColumns));
+    if (checks.length > 0) plan.set(fileName, checks);
+  });
+
+  return plan;
+};
+
+const ownsError = (check: ValidationCheck, error: ValidationError, rows: Set<number> | null) => {
+  if (error.ruleId !== check.rule.id) return false;
+  if (check.kind === 'unreferenced') return error.column === check.rule.config?.target?.field;
+  return error.column === check.rule.field && (!rows || rows.has(error.row));
+};
+
+const errorKey = (error: ValidationError) =>
+  `${error.row}\u0000${error.column}\u0000${error.ruleId}\u0000${error.severity}\u0000${error.message}`;
+
+// Move errors to the row indexes they have after rows were inserted or deleted
+const shiftErrorRows = (errors: ValidationError[], change: DataChange): { kept: ValidationError[]; dropped: ValidationError[] } => {
+  if (change.kind === 'rows-inserted') {
+    const inserted = [...change.rows].sort((a, b) => a - b);
+    return {
+      kept: errors.map(error => {
+        let row = error.row;
+        inserted.forEach(index => {
+          if (index <= row) row++;
+        });
+        return row === error.row ? error : { ...error, row };
+      }),
+      dropped: []
+    };
+  }
+
+  if (change.kind === 'rows-deleted') {
+    const deleted = new Set(change.rows);
+    const sorted = [...change.rows].sort((a, b) => a - b);
+    const kept: ValidationError[] = [];
+    const dropped: ValidationError[] = [];
+    errors.forEach(error => {
+      if (deleted.has(error.row)) {
+        dropped.push(error);
+        return;
+      }
+      const shift = sorted.filter(index => index < error.row).length;
+      kept.push(shift === 0 ? error : { ...error, row: error.row - shift });
+    });
+    return { kept, dropped };
+  }
+
+  return { kept: errors, dropped: [] };
+};
+
+/**
+ * Bring validation errors up to date after `change` by rerunning only the
+ * affected rule/row pairs. Files whose errors did not change keep their
+ * `validationErrors` array, so memoized views need not rebuild.
+ */
+export const revalidateChange = <T extends ValidatedFile>(
+  files: { [key: string]: T },
+  change: DataChange,
+  engine: ValidationEngine = validationEngine
+): { files: { [key: string]: T }; diffs: { [fileName: string]: ValidationDiff } } => {
+  const plan = planRevalidation(files, change, engine);
+  const updatedFiles = { ...files };
+  const diffs: { [fileName: string]: ValidationDiff } = {};
+
+  plan.forEach((checks, fileName) => {
+    const file = files[fileName];
+    const shifted = fileName === change.fileName
+      ? shiftErrorRows(file.validationErrors, change)
+      : { kept: file.validationErrors, dropped: [] };
+
+    const rowSets = checks.map(check => (check.kind === 'row' && check.rows ? new Set(check.rows) : null));
+    const kept: ValidationError[] = [];
+    const replaced: ValidationError[] = [];
+    shifted.kept.forEach(error => {
+      const owned = checks.some((check, index) => ownsError(check, error, rowSets[index]));
+      (owned ? replaced : kept).push(error);
+    });
+
+    const fresh = engine.runChecks(checks, file.data, file.headers, files, file.entityType);
+    const freshKeys = new Set(fresh.map(errorKey));
+    const replacedKeys = new Set(replaced.map(errorKey));
+    const diff: ValidationDiff = {
+      added: fresh.filter(error => !replacedKeys.has(errorKey(error))),
+      removed: [...shifted.dropped, ...replaced.filter(error => !freshKeys.has(errorKey(error)))]
+    };
+
+    const rowsMoved = shifted.kept.some((error, index) => error !== file.validationErrors[index]);
+    if (diff.added.length === 0 && diff.removed.length === 0 && !rowsMoved) return;
+
+    updatedFiles[fileName] = { ...file, validationErrors: [...kept, ...fresh] };
+    diffs[fileName] = diff;
+  });
+
+  return { files: updatedFiles, diffs };
+};
@@ -0,0 +1,43 @@
+import { z } from 'zod';
+
+// Each exported file format has a *_FILE_VERSION constant: the version its
+// exports write, which its schema checks on import.
+
+// Schema problems listed in an import error; the rest are left out
+const MAX_LISTED_ISSUES = 5;
+
+export const readJsonFile = (text: string): unknown => {
+  try {
+    return JSON.parse(text);
+  } catch {
+    throw new Error('File is not valid JSON');
+  }
+};
+
+/**
+ * Check parsed JSON against a file schema. Throws with a readable list of
+ * problems, each prefixed with its path or `root` for the file as a whole.
+ */
+export const validateJsonFile = <T extends z.ZodTypeAny>(json: unknown, schema: T, root = 'file'): z.infer<T> => {
+  const result = schema.safeParse(json);
+  if (!result.success) {
+    const problems = result.error.issues
+      .slice(0, MAX_LISTED_ISSUES)
+      .map(issue => `${issue.path.join('.') || root}: ${issue.message}`);
+    throw new Error(problems.join('; '));
+  }
+  return result.data;
+};
+
+export const parseJsonFile = <T extends z.ZodTypeAny>(text: string, schema: T, root = 'file'): z.infer<T> =>
+  validateJsonFile(readJsonFile(text), schema, root);
+
+// Imported items replace current items with the same id; the rest are kept
+export const mergeById = <T extends { id?: string }>(current: T[], incoming: T[]): T[] => {
+  const incomingById = new Map(incoming.map(item => [item.id, item]));
+  const currentIds = new Set(current.map(item => item.id));
+  return [
+    ...current.map(item => incomingById.get(item.id) ?? item),
+    ...incoming.filter(item => !currentIds.has(item.id))
+  ];
+};
@@ -0,0 +1,304 @@
+import { z } from 'zod';
+import {
+  BUSINESS_RULE_TYPES,
+  BusinessRule,
+  CUSTOM_OPERATORS,
+  RuleOptions,
+  businessRuleSchema
+} from '@/utils/businessRules';
+import { parseRuleSentence } from '@/utils/ruleParser';
+import { QUERY_RELATIONS, Query, QueryError, bindQuery, formatQuery, parseQuery } from '@/utils/queryLanguage';
+import { compileNaturalQuery } from '@/utils/queryCompiler';
+import { findMissingReferences } from '@/utils/rulesFile';
+import { ENTITY_TYPES, EntityType } from '@/utils/validationRules';
+
+/**
+ * Everything the app asks of a language model goes through an LlmProvider.
+ * A provider turns one request into the text of a single JSON object; the
+ * functions below parse that object and check it against the query language
+ * or the business rule schema, and against the loaded columns, tasks and
+ * worker groups, before any of it is applied to the data.
+ */
+
+export type LlmTask = 'query' | 'business-rule';
+
+export interface LlmRequest {
+  task: LlmTask;
+  // The user's sentence
+  input: string;
+  // Columns, tasks and worker groups of the loaded data
+  context: RuleOptions;
+}
+
+export interface LlmProvider {
+  id: string;
+  label: string;
+  // Whether requests leave the browser
+  remote: boolean;
+  complete: (request: LlmRequest, signal?: AbortSignal) => Promise<string>;
+}
+
+// The model returned something that cannot be used; `issues` says why
+export class LlmOutputError extends Error {
+  issues: string[];
+
+  constructor(message: string, issues: string[] = []) {
+    super(issues.length > 0 ? `${message}: ${issues.join('; ')}` : message);
+    this.name = 'LlmOutputError';
+    this.issues = issues;
+  }
+}
+
+// A question compiled into the query language of queryLanguage.ts
+const queryOutputSchema = z.object({
+  query: z.string().min(1, 'Query is empty')
+}).strict();
+
+// A rule as the model writes it; id and enabled are filled in here
+const generatedRuleSchema = z.object({
+  name: z.string().min(1, 'Rule has no name'),
+  description: z.string().optional(),
+  priority: z.number().int().min(1).max(10).optional(),
+  type: z.enum(BUSINESS_RULE_TYPES),
+  conditions: z.record(z.unknown())
+}).strict();
+
+// Either shape may be replaced by {"error": "..."} when the request cannot be met
+const refusalSchema = z.object({ error: z.string().min(1) });
+
+const CONDITION_SHAPES = [
+  '"co-run": {"taskIds": string[] (at least 2)}',
+  '"slot-restriction": {"taskIds": string[], "workerGroup": string}',
+  '"load-limit": {"workerGroup": string ("*" for every worker), "maxSlotsPerPhase": integer}',
+  '"phase-window": {"taskIds": string[], "allowedPhases": integer[]}',
+  '"regex": {"entity": "clients" | "workers" | "tasks", "field": column, "pattern": JavaScript regular expression}',
+  `"custom": {"entity": "clients" | "workers" | "tasks", "field": column, "operator": ${CUSTOM_OPERATORS.map(op => `"${op}"`).join(' | ')}, "value": string}`
+];
+
+const describeContext = (context: RuleOptions) => {
+  const lines = ENTITY_TYPES
+    .filter(entity => context.headers[entity])
+    .map(entity => `Columns of ${entity}: ${context.headers[entity]!.join(', ')}`);
+  if (context.tasks.length > 0) {
+    lines.push(`Tasks (ID: name): ${context.tasks.slice(0, 200).map(task => `${task.id}: ${task.name}`).join('; ')}`);
+  }
+  if (context.workerGroups.length > 0) lines.push(`Worker groups: ${context.workerGroups.join(', ')}`);
+  if (context.skills.length > 0) lines.push(`Skills: ${context.skills.join(', ')}`);
+  lines.push(`Phases: 1 to ${context.maxPhase}`);
+  return lines.join('\n');
+};
+
+// System and user messages for a request, shared by every chat-style provider
+export const buildLlmMessages = (request: LlmRequest) => {
+  const contract = request.task === 'query'
+    ? [
+        'Turn the question into a query. Reply with exactly this JSON shape: {"query": string}',
+        'Query syntax: <clients|workers|tasks> where <condition>',
+        'Conditions: Field = value, !=, >, >=, <, <=, Field in ("a", "b"), Field contains "text",',
+        'Field has "item" (for JSON array columns such as Skills and TaskIDs), Field is empty, Field is not empty,',
+        'combined with and, or, not and parentheses. Quote text values with double quotes.',
+        `Related fields: ${ENTITY_TYPES.map(entity => `${entity} → ${Object.entries(QUERY_RELATIONS[entity])
+          .map(([relation, { entity: target }]) => `${relation}.<${target} field>`).join(', ')}`).join('; ')}`,
+        'Example: tasks where worker.CurrentLoad > 30 and Skills has "Python"',
+        'Only use columns listed below.'
+      ]
+    : [
+        'Turn the sentence into one scheduling rule. Reply with exactly this JSON shape:',
+        '{"name": string, "description": string, "priority": integer 1-10, "type": rule type, "conditions": object}',
+        `where type and conditions are one of:\n${CONDITION_SHAPES.join('\n')}`,
+        'Only use task IDs, worker groups and columns listed below.'
+      ];
+
+  return [
+    {
+      role: 'system' as const,
+      content: [
+        'You convert requests about a spreadsheet of clients, workers and tasks into JSON.',
+        'Reply with a single JSON object and nothing else.',
+        ...contract,
+        'If the request cannot be expressed this way, reply {"error": "<short reason>"}.',
+        '',
+        describeContext(request.context)
+      ].join('\n')
+    },
+    { role: 'user' as const, content: request.input }
+  ];
+};
+
+export interface LlmSettings {
+  provider: 'offline' | 'openai-compatible';
+  // Base URL of an OpenAI-compatible API, e.g. a local server
+  baseUrl: string;
+  model: string;
+  apiKey: string;
+}
+
+export const DEFAULT_LLM_SETTINGS: LlmSettings = {
+  provider: 'offline',
+  baseUrl: 'http://localhost:11434/v1',
+  model: 'llama3.1',
+  apiKey: ''
+};
+
+const LLM_SETTINGS_STORAGE_KEY = 'data-alchemist:llm-settings';
+
+export const readLlmSettings = (): LlmSettings => {
+  try {
+    return { ...DEFAULT_LLM_SETTINGS, ...JSON.parse(localStorage.getItem(LLM_SETTINGS_STORAGE_KEY) || '{}') };
+  } catch {
+    return DEFAULT_LLM_SETTINGS;
+  }
+};
+
+export const saveLlmSettings = (settings: LlmSettings) =>
+  localStorage.setItem(LLM_SETTINGS_STORAGE_KEY, JSON.stringify(settings));
+
+/**
+ * Chat completions against any server that speaks the OpenAI API, such as
+ * Ollama, LM Studio, vLLM or OpenAI itself. The client is loaded on first use.
+ */
+export const createOpenAICompatibleProvider = (settings: LlmSettings): LlmProvider => ({
+  id: 'openai-compatible',
+  label: settings.model,
+  remote: true,
+  complete: async (request, signal) => {
+    const { default: OpenAI } = await import('openai');
+    const client = new OpenAI({
+      baseURL: settings.baseUrl,
+      // Local servers usually ignore the key but the client requires one
+      apiKey: settings.apiKey || 'not-needed',
+      dangerouslyAllowBrowser: true
+    });
+    const completion = await client.chat.completions.create({
+      model: settings.model,
+      messages: buildLlmMessages(request),
+      temperature: 0,
+      response_format: { type: 'json_object' }
+    }, { signal });
+    return completion.choices[0]?.message?.content ?? '';
+  }
+});
+
+const deriveQuery = (input: string, context: RuleOptions) => {
+  const query = compileNaturalQuery(input, context);
+  return query ? { query: formatQuery(query) } : { error: 'No column or keyword recognised' };
+};
+
+const deriveBusinessRule = (input: string, context: RuleOptions) => {
+  const parsed = parseRuleSentence(input, context);
+  if (!parsed) return { error: 'No rule type recognised' };
+  const { name, description, priority, type, conditions } = parsed.rule;
+  return { name, description, priority, type, conditions };
+};
+
+/**
+ * Deterministic provider that never leaves the browser. Answers come from
+ * `fixtures` keyed by the exact input when given, and otherwise from the
+ * offline query compiler and sentence parser. Used when no model is configured.
+ */
+export const createMockProvider = (fixtures: { [input: string]: unknown } = {}): LlmProvider => ({
+  id: 'offline',
+  label: 'Offline parser',
+  remote: false,
+  complete: async ({ task, input, context }) => {
+    const answer = input in fixtures
+      ? fixtures[input]
+      : task === 'query' ? deriveQuery(input, context) : deriveBusinessRule(input, context);
+    return typeof answer === 'string' ? answer : JSON.stringify(answer);
+  }
+});
+
+export const createLlmProvider = (settings: LlmSettings): LlmProvider =>
+  settings.provider === 'openai-compatible' ? createOpenAICompatibleProvider(settings) : createMockProvider();
+
+const describeIssues = (issues: z.ZodIssue[]) =>
+  issues.slice(0, 5).map(issue => `${issue.path.join('.') || 'output'}: ${issue.message}`);
+
+// Parse the single JSON object a provider returned, allowing a ```json fence
+const parseJsonOutput = (output: string): unknown => {
+  const body = output.trim().replace(/^```(?:json)?\s*|\s*```$/g, '');
+  let json: unknown;
+  try {
+    json = JSON.parse(body);
+  } catch {
+    throw new LlmOutputError('The model did not return JSON');
+  }
+  const refusal = refusalSchema.safeParse(json);
+  if (refusal.success) throw new LlmOutputError(`The model could not answer: ${refusal.data.error}`);
+  return json;
+};
+
+/**
+ * Ask the provider to compile `question` into the query language. The answer
+ * must parse and name only entities, relations and columns that are loaded.
+ */
+export const generateQuery = async (
+  provider: LlmProvider,
+  question: string,
+  context: RuleOptions,
+  signal?: AbortSignal
+): Promise<Query> => {
+  const output = await provider.complete({ task: 'query', input: question, context }, signal);
+  const result = queryOutputSchema.safeParse(parseJsonOutput(output));
+  if (!result.success) throw new LlmOutputError('The model returned an invalid query', describeIssues(result.error.issues));
+
+  try {
+    return bindQuery(parseQuery(result.data.query), context.headers);
+  } catch (error) {
+    if (!(error instanceof QueryError)) throw error;
+    throw new LlmOutputError(
+      `The model returned an invalid query "${result.data.query}"`,
+      error.issues.length > 0 ? error.issues : [error.message]
+    );
+  }
+};
+
+// Columns, task IDs and worker groups the rule names that the loaded data lacks
+const findUnknownReferences = (rule: BusinessRule, context: RuleOptions): string[] => {
+  const issues: string[] = [];
+  if (rule.type === 'regex' || rule.type === 'custom') {
+    const { entity, field } = rule.conditions as { entity: EntityType; field: string };
+    const headers = context.headers[entity];
+    if (headers && !headers.includes(field)) issues.push(`conditions.field: the ${entity} file has no ${field} column`);
+  }
+  const missing = findMissingReferences(rule, context);
+  if (missing.tasks.length > 0) issues.push(`conditions.taskIds: ${missing.tasks.join(', ')} not in the loaded tasks`);
+  if (missing.workerGroups.length > 0) issues.push(`conditions.workerGroup: no ${missing.workerGroups.join(', ')} workers are loaded`);
+  return issues;
+};
+
+/**
+ * Ask the provider for a business rule described by `sentence`. The answer
+ * must fit businessRuleSchema and name only columns, tasks and worker groups
+ * of the loaded files; entities that are not loaded are not checked. The rule
+ * comes back enabled with an empty id, ready to be reviewed and saved.
+ */
+export const generateBusinessRule = async (
+  provider: LlmProvider,
+  sentence: string,
+  context: RuleOptions,
+  signal?: AbortSignal
+): Promise<BusinessRule> => {
+  const output = await provider.complete({ task: 'business-rule', input: sentence, context }, signal);
+  const generated = generatedRuleSchema.safeParse(parseJsonOutput(output));
+  if (!generated.success) {
+    throw new LlmOutputError('The model returned an invalid rule', describeIssues(generated.error.issues));
+  }
+
+  const { name, description, priority, type, conditions } = generated.data;
+  const result = businessRuleSchema.safeParse({
+    id: 'generated',
+    name,
+    description: description ?? `Generated from: "${sentence.trim()}"`,
+    priority: priority ?? 5,
+    enabled: true,
+    type,
+    conditions
+  });
+  if (!result.success) throw new LlmOutputError('The model returned an invalid rule', describeIssues(result.error.issues));
+
+  const rule = { ...result.data, id: '' } as BusinessRule;
+  const unknown = findUnknownReferences(rule, context);
+  if (unknown.length > 0) throw new LlmOutputError('The model named data that is not loaded', unknown);
+  return rule;
+};
@@ -0,0 +1,515 @@
+import { LocatedRow, RuleDataFile, indexRuleData, toNumber } from '@/utils/businessRules';
+import { parseIdList } from '@/utils/dependencyGraph';
+import { ValidationError } from '@/utils/validationEngine';
+import { PairwiseJudgments } from '@/utils/ahp';
+
+export const PRIORITY_METRIC_IDS = [
+  'completeness',
+  'issues',
+  'priority',
+  'effort',
+  'dependencies',
+  'recency',
+  'revenue',
+  'demand',
+  'urgency'
+] as const;
+export type PriorityMetricId = typeof PRIORITY_METRIC_IDS[number];
+
+export interface PrioritizationRule {
+  id: string;
+  name: string;
+  weight: number;
+  type: 'business' | 'technical' | 'temporal';
+  description: string;
+  // What the rule measures; rules saved before metrics existed are matched by name
+  metric?: PriorityMetricId;
+  // A numeric or priority-level column of the clients or tasks file, used instead of a metric
+  column?: string;
+  // Direction for a column; metrics know their own
+  higherIsBetter?: boolean;
+}
+
+export type RuleBinding =
+  | { kind: 'metric'; metric: PriorityMetricId }
+  | { kind: 'column'; column: string; higherIsBetter: boolean };
+
+// Ways to turn a ranking of the rules into weights
+export const RANK_WEIGHT_METHODS = ['rank-sum', 'reciprocal', 'roc'] as const;
+export type RankWeightMethod = typeof RANK_WEIGHT_METHODS[number];
+
+// What produced the current weights
+export type WeightMethod = 'manual' | 'template' | 'ahp' | RankWeightMethod;
+
+export const isRankWeightMethod = (method: WeightMethod | undefined): method is RankWeightMethod =>
+  (RANK_WEIGHT_METHODS as readonly string[]).includes(method ?? '');
+
+export interface PrioritizationConfig {
+  template: string;
+  rules: PrioritizationRule[];
+  // Pairwise comparisons of the rules, by rule id pair
+  pairwise?: PairwiseJudgments;
+  weightMethod?: WeightMethod;
+}
+
+export const DEFAULT_PRIORITIZATION_RULES: PrioritizationRule[] = [
+  {
+    id: '1',
+    name: 'Data Completeness',
+    weight: 80,
+    type: 'technical',
+    description: 'Prioritize files with fewer missing values',
+    metric: 'completeness'
+  },
+  {
+    id: '2',
+    name: 'Business Criticality',
+    weight: 90,
+    type: 'business',
+    description: 'Files marked as business-critical get higher priority',
+    metric: 'priority'
+  },
+  {
+    id: '3',
+    name: 'File Size',
+    weight: 60,
+    type: 'technical',
+    description: 'Smaller files processed first for quick wins',
+    metric: 'effort'
+  },
+  {
+    id: '4',
+    name: 'Upload Timestamp',
+    weight: 40,
+    type: 'temporal',
+    description: 'Recently uploaded files get priority',
+    metric: 'recency'
+  },
+  {
+    id: '5',
+    name: 'Error Density',
+    weight: 85,
+    type: 'technical',
+    description: 'Files with fewer errors processed first',
+    metric: 'issues'
+  }
+];
+
+export const DEFAULT_PRIORITIZATION_CONFIG: PrioritizationConfig = {
+  template: 'custom',
+  rules: DEFAULT_PRIORITIZATION_RULES,
+  weightMethod: 'manual'
+};
+
+export const RANK_WEIGHT_METHOD_LABELS: { [K in RankWeightMethod]: { label: string; description: string } } = {
+  'rank-sum': {
+    label: 'Rank sum',
+    description: 'Weights fall in equal steps down the list'
+  },
+  reciprocal: {
+    label: 'Reciprocal rank',
+    description: 'Weights follow 1, 1/2, 1/3…, so the top rule stands out'
+  },
+  roc: {
+    label: 'Rank-order centroid',
+    description: 'The average of every weighting consistent with the order; steepest at the top'
+  }
+};
+
+/**
+ * Weights out of 100 for `count` rules ranked first to last, adding up to
+ * about 100. Rank sum gives rank i a share of n − i + 1, reciprocal 1 / i,
+ * and rank-order centroid (1/n) Σ_{k=i..n} 1/k.
+ */
+export const rankToWeights = (count: number, method: RankWeightMethod): number[] => {
+  const ranks = Array.from({ length: count }, (_, index) => index + 1);
+  const raw = ranks.map(rank => {
+    switch (method) {
+      case 'rank-sum':
+        return count - rank + 1;
+      case 'reciprocal':
+        return 1 / rank;
+      case 'roc':
+        return ranks.filter(k => k >= rank).reduce((total, k) => total + 1 / k, 0) / count;
+    }
+  });
+  const total = raw.reduce((sum, value) => sum + value, 0);
+  return raw.map(value => Math.round((value / total) * 100));
+};
+
+// Rules by weight, highest first; equal weights keep their list order
+export const sortRulesByWeight = (rules: PrioritizationRule[]) =>
+  rules
+    .map((rule, index) => ({ rule, index }))
+    .sort((a, b) => b.rule.weight - a.rule.weight || a.index - b.index)
+    .map(({ rule }) => rule);
+
+export type PriorityEntity = 'clients' | 'tasks';
+
+export const PRIORITY_ENTITIES: PriorityEntity[] = ['clients', 'tasks'];
+
+export interface PriorityDataFile extends RuleDataFile {
+  validationErrors: ValidationError[];
+}
+
+const text = (value: unknown) => String(value ?? '').trim();
+
+// Loaded rows the metrics look up across files
+interface MetricContext {
+  tasks: Map<string, LocatedRow>;
+  workers: Map<string, LocatedRow>;
+  // Task rows per client, by the task's ClientID
+  tasksByClient: Map<string, LocatedRow[]>;
+  // Client rows by ClientID
+  clients: Map<string, LocatedRow>;
+  // Validation issues per row, by file
+  issueCounts: { [fileName: string]: Map<number, number> };
+}
+
+interface MetricDefinition {
+  label: string;
+  // How the raw value is read, shown next to each criterion
+  description: string;
+  higherIsBetter: boolean;
+  format: (value: number) => string;
+  // Raw value for one row; null when the row has nothing to measure
+  measure: (entity: PriorityEntity, record: LocatedRow, context: MetricContext) => number | null;
+}
+
+const PRIORITY_LEVELS: { [level: string]: number } = { low: 1, medium: 2, high: 3, critical: 4 };
+
+const readPriority = (value: unknown) => PRIORITY_LEVELS[text(value).toLowerCase()] ?? toNumber(value);
+
+// Reduced rather than spread into Math.min/max, which overflows the stack on large files
+const lowest = (values: number[]) => (values.length > 0 ? values.reduce((a, b) => (b < a ? b : a)) : null);
+const highest = (values: number[]) => (values.length > 0 ? values.reduce((a, b) => (b > a ? b : a)) : null);
+
+const sum = (values: Array<number | null>) => {
+  const known = values.filter((value): value is number => value !== null);
+  return known.length > 0 ? known.reduce((total, value) => total + value, 0) : null;
+};
+
+const tasksOf = (record: LocatedRow, context: MetricContext) =>
+  context.tasksByClient.get(text(record.values.ClientID)) ?? [];
+
+const clientOf = (record: LocatedRow, context: MetricContext) => context.clients.get(text(record.values.ClientID));
+
+const taskRevenue = (task: LocatedRow, context: MetricContext) => {
+  const hours = toNumber(task.values.EstimatedHours);
+  const rate = toNumber(context.workers.get(text(task.values.AssignedWorkerID))?.values.HourlyRate);
+  return hours === null || rate === null ? null : hours * rate;
+};
+
+const isFinished = (task: LocatedRow) => /^(?:completed|cancelled)$/i.test(text(task.values.Status));
+
+export const PRIORITY_METRICS: { [K in PriorityMetricId]: MetricDefinition } = {
+  completeness: {
+    label: 'Filled-in cells',
+    description: 'Share of the row\'s cells that have a value; fuller rows rank higher',
+    higherIsBetter: true,
+    format: value => `${Math.round(value * 100)}% filled`,
+    measure: (_, record) => {
+      const values = Object.values(record.values);
+      return values.length > 0 ? values.filter(value => text(value) !== '').length / values.length : null;
+    }
+  },
+  issues: {
+    label: 'Validation issues',
+    description: 'Errors and rule violations on the row; cleaner rows rank higher',
+    higherIsBetter: false,
+    format: value => `${value} ${value === 1 ? 'issue' : 'issues'}`,
+    measure: (_, record, context) => context.issueCounts[record.fileName]?.get(record.row) ?? 0
+  },
+  priority: {
+    label: 'Priority',
+    description: 'Task Priority (Low to Critical); a client takes its PriorityLevel or its most urgent task',
+    higherIsBetter: true,
+    format: value => `level ${value}`,
+    measure: (entity, record, context) => {
+      if (entity === 'tasks') return readPriority(record.values.Priority);
+      const own = toNumber(record.values.PriorityLevel);
+      if (own !== null) return own;
+      return highest(tasksOf(record, context)
+        .map(task => readPriority(task.values.Priority))
+        .filter((level): level is number => level !== null));
+    }
+  },
+  effort: {
+    label: 'Estimated hours',
+    description: 'EstimatedHours of the task, or of all the client\'s tasks; smaller work ranks higher',
+    higherIsBetter: false,
+    format: value => `${value}h`,
+    measure: (entity, record, context) => entity === 'tasks'
+      ? toNumber(record.values.EstimatedHours)
+      : sum(tasksOf(record, context).map(task => toNumber(task.values.EstimatedHours)))
+  },
+  dependencies: {
+    label: 'Dependencies',
+    description: 'Tasks the task depends on, or tasks the client has; simpler items rank higher',
+    higherIsBetter: false,
+    format: value => `${value} ${value === 1 ? 'item' : 'items'}`,
+    measure: (entity, record, context) => entity === 'tasks'
+      ? parseIdList(record.values.Dependencies).length
+      : tasksOf(record, context).length
+  },
+  recency: {
+    label: 'Row position',
+    description: 'Rows further down their file were added later and rank higher',
+    higherIsBetter: true,
+    format: value => `row ${value}`,
+    measure: (_, record) => record.row + 1
+  },
+  revenue: {
+    label: 'Billable value',
+    description: 'EstimatedHours times the assigned worker\'s HourlyRate, summed over a client\'s tasks',
+    higherIsBetter: true,
+    format: value => `$${Math.round(value).toLocaleString()}`,
+    measure: (entity, record, context) => entity === 'tasks'
+      ? taskRevenue(record, context)
+      : sum(tasksOf(record, context).map(task => taskRevenue(task, context)))
+  },
+  demand: {
+    label: 'Requested tasks',
+    description: 'Tasks listed in the client\'s TaskIDs, or in the task\'s client; bigger accounts rank higher',
+    higherIsBetter: true,
+    format: value => `${value} requested`,
+    measure: (entity, record, context) => {
+      const client = entity === 'clients' ? record : clientOf(record, context);
+      return client ? parseIdList(client.values.TaskIDs).length : null;
+    }
+  },
+  urgency: {
+    label: 'Preferred phase',
+    description: 'PreferredPhase of the task, or of the client\'s earliest unfinished task; earlier ranks higher',
+    higherIsBetter: false,
+    format: value => `phase ${value}`,
+    measure: (entity, record, context) => {
+      if (entity === 'tasks') return toNumber(record.values.PreferredPhase);
+      return lowest(tasksOf(record, context)
+        .filter(task => !isFinished(task))
+        .map(task => toNumber(task.values.PreferredPhase))
+        .filter((phase): phase is number => phase !== null));
+    }
+  }
+};
+
+// Names of the built-in criteria, for rules saved without a metric
+const METRIC_BY_NAME: { [name: string]: PriorityMetricId } = {
+  'data completeness': 'completeness',
+  'error density': 'issues',
+  'low error count': 'issues',
+  'business criticality': 'priority',
+  'file size': 'effort',
+  'simple structure': 'dependencies',
+  'upload timestamp': 'recency',
+  'recent upload': 'recency',
+  'revenue impact': 'revenue',
+  'stakeholder priority': 'demand',
+  'deadline proximity': 'urgency'
+};
+
+export const getRuleBinding = (
+  rule: Pick<PrioritizationRule, 'name' | 'metric' | 'column' | 'higherIsBetter'>
+): RuleBinding | null => {
+  if (rule.column) return { kind: 'column', column: rule.column, higherIsBetter: rule.higherIsBetter ?? true };
+  const metric = rule.metric ?? METRIC_BY_NAME[rule.name.trim().toLowerCase()];
+  return metric ? { kind: 'metric', metric } : null;
+};
+
+export const describeRuleBinding = (binding: RuleBinding) => binding.kind === 'metric'
+  ? { label: PRIORITY_METRICS[binding.metric].label, description: PRIORITY_METRICS[binding.metric].description }
+  : {
+      label: `${binding.column} column`,
+      description: `Values of the ${binding.column} column; ${binding.higherIsBetter ? 'higher' : 'lower'} values rank higher`
+    };
+
+// Measured value as shown in a score breakdown
+export const formatBindingValue = (binding: RuleBinding, value: number) =>
+  binding.kind === 'metric' ? PRIORITY_METRICS[binding.metric].format(value) : String(Math.round(value * 100) / 100);
+
+export interface CriterionContribution {
+  ruleId: string;
+  name: string;
+  binding: RuleBinding;
+  // Measured value, or null when the row has nothing to measure
+  raw: number | null;
+  // 0 (worst loaded row) to 1 (best); missing values count as worst
+  normalized: number;
+  // The rule's weight as a share of all bound weights
+  share: number;
+  // normalized × share × 100; the contributions add up to the score
+  points: number;
+}
+
+export interface RankedItem {
+  id: string;
+  name: string;
+  fileName: string;
+  row: number;
+  // 0 to 100
+  score: number;
+  // 1-based; equal scores share a rank
+  rank: number;
+  contributions: CriterionContribution[];
+}
+
+export interface PriorityRanking {
+  clients: RankedItem[];
+  tasks: RankedItem[];
+  // Rules left out of the scores, with the reason; `entity` is set when only
+  // that entity's ranking leaves the rule out
+  unbound: Array<{ ruleId: string; reason: string; entity?: PriorityEntity }>;
+}
+
+const ID_FIELDS: { [K in PriorityEntity]: string } = { clients: 'ClientID', tasks: 'TaskID' };
+
+// Headers of the loaded clients and tasks files, which rules can bind to
+export const getBindableColumns = (files: { [fileName: string]: RuleDataFile }): string[] => {
+  const { fileByEntity } = indexRuleData(files);
+  return Array.from(new Set(PRIORITY_ENTITIES.flatMap(entity => {
+    const fileName = fileByEntity.get(entity);
+    return fileName ? files[fileName].headers : [];
+  })));
+};
+
+const buildMetricContext = (files: { [fileName: string]: PriorityDataFile }) => {
+  const { fileByEntity, tasks, workers } = indexRuleData(files);
+
+  const tasksByClient = new Map<string, LocatedRow[]>();
+  tasks.forEach(task => {
+    const clientId = text(task.values.ClientID);
+    if (!clientId) return;
+    const list = tasksByClient.get(clientId);
+    if (list) list.push(task);
+    else tasksByClient.set(clientId, [task]);
+  });
+
+  const clients = new Map<string, LocatedRow>();
+  const clientFile = fileByEntity.get('clients');
+  if (clientFile) {
+    files[clientFile].data.forEach((values, row) => {
+      const id = text(values.ClientID);
+      if (id && !clients.has(id)) clients.set(id, { fileName: clientFile, row, values });
+    });
+  }
+
+  const issueCounts: MetricContext['issueCounts'] = {};
+  Object.entries(files).forEach(([fileName, file]) => {
+    const counts = new Map<number, number>();
+    (file.validationErrors ?? []).forEach(error => counts.set(error.row, (counts.get(error.row) ?? 0) + 1));
+    issueCounts[fileName] = counts;
+  });
+
+  const context: MetricContext = { tasks, workers, tasksByClient, clients, issueCounts };
+  return { context, fileByEntity };
+};
+
+const rankEntity = (
+  entity: PriorityEntity,
+  rows: LocatedRow[],
+  rules: Array<{ rule: PrioritizationRule; binding: RuleBinding }>,
+  context: MetricContext
+): RankedItem[] => {
+  const totalWeight = rules.reduce((total, { rule }) => total + Math.max(rule.weight, 0), 0);
+
+  // Each metric is scaled between the worst and best loaded row
+  const columns = rules.map(({ rule, binding }) => {
+    const higherIsBetter = binding.kind === 'metric' ? PRIORITY_METRICS[binding.metric].higherIsBetter : binding.higherIsBetter;
+    const raws = rows.map(record => binding.kind === 'metric'
+      ? PRIORITY_METRICS[binding.metric].measure(entity, record, context)
+      : readPriority(record.values[binding.column]));
+    const known = raws.filter((value): value is number => value !== null);
+    const min = lowest(known);
+    const max = highest(known);
+    const normalized = raws.map(raw => {
+      if (raw === null) return 0;
+      if (max === min) return 1;
+      const position = (raw - min) / (max - min);
+      return higherIsBetter ? position : 1 - position;
+    });
+    return { rule, binding, raws, normalized, share: totalWeight > 0 ? Math.max(rule.weight, 0) / totalWeight : 0 };
+  });
+
+  const items = rows.map((record, index) => {
+    const contributions = columns.map(({ rule, binding, raws, normalized, share }) => ({
+      ruleId: rule.id,
+      name: rule.name,
+      binding,
+      raw: raws[index],
+      normalized: normalized[index],
+      share,
+      points: normalized[index] * share * 100
+    }));
+    return {
+      id: text(record.values[ID_FIELDS[entity]]),
+      name: text(record.values.Name),
+      fileName: record.fileName,
+      row: record.row,
+      score: contributions.reduce((total, contribution) => total + contribution.points, 0),
+      rank: 0,
+      contributions
+    };
+  });
+
+  items.sort((a, b) => b.score - a.score || a.row - b.row);
+  items.forEach((item, index) => {
+    const previous = items[index - 1];
+    item.rank = previous && Math.abs(previous.score - item.score) < 1e-9 ? previous.rank : index + 1;
+  });
+  return items;
+};
+
+/**
+ * Score every loaded client and task against the configured rules. Each rule
+ * measures one metric or column, scaled so the best loaded row gets 1 and the
+ * worst 0, and counts in proportion to its weight; the per-rule points add up
+ * to a score out of 100. Rules bound to nothing, or to a column that is not
+ * loaded, are reported and left out. A column only one entity's file has is
+ * left out of the other entity's ranking, whose remaining rules share its weight.
+ */
+export const rankByPriority = (
+  config: PrioritizationConfig,
+  files: { [fileName: string]: PriorityDataFile }
+): PriorityRanking => {
+  const { context, fileByEntity } = buildMetricContext(files);
+  const loaded = PRIORITY_ENTITIES.filter(entity => fileByEntity.has(entity));
+
+  const bound: { [K in PriorityEntity]: Array<{ rule: PrioritizationRule; binding: RuleBinding }> } = { clients: [], tasks: [] };
+  const unbound: PriorityRanking['unbound'] = [];
+  config.rules.forEach(rule => {
+    const binding = getRuleBinding(rule);
+    if (!binding) {
+      unbound.push({ ruleId: rule.id, reason: 'Not bound to a metric or column' });
+      return;
+    }
+
+    const column = binding.kind === 'column' ? binding.column : null;
+    const missing = column === null
+      ? []
+      : loaded.filter(entity => !files[fileByEntity.get(entity)!].headers.includes(column));
+    if (missing.length > 0 && missing.length === loaded.length) {
+      unbound.push({ ruleId: rule.id, reason: `No loaded clients or tasks file has a ${column} column` });
+      return;
+    }
+    missing.forEach(entity => {
+      unbound.push({ ruleId: rule.id, entity, reason: `The ${entity} file has no ${column} column` });
+    });
+    PRIORITY_ENTITIES
+      .filter(entity => !missing.includes(entity))
+      .forEach(entity => bound[entity].push({ rule, binding }));
+  });
+
+  const rowsOf = (entity: PriorityEntity): LocatedRow[] => {
+    const fileName = fileByEntity.get(entity);
+    if (!fileName) return [];
+    return files[fileName].data
+      .map((values, row) => ({ fileName, row, values }))
+      .filter(record => text(record.values[ID_FIELDS[entity]]) !== '');
+  };
+
+  return {
+    clients: rankEntity('clients', rowsOf('clients'), bound.clients, context),
+    tasks: rankEntity('tasks', rowsOf('tasks'), bound.tasks, context),
+    unbound
+  };
+};
@@ -0,0 +1,162 @@
+import { z } from 'zod';
+import { PairwiseJudgments } from '@/utils/ahp';
+import { mergeById, parseJsonFile } from '@/utils/jsonFile';
+import { PRIORITY_METRIC_IDS, PrioritizationRule, getRuleBinding } from '@/utils/prioritization';
+
+export const TEMPLATES_FILE_VERSION = '1.0';
+
+const STORAGE_KEY = 'data-alchemist:prioritization-templates';
+
+const templateRuleSchema = z.object({
+  id: z.string().min(1).optional(),
+  name: z.string().min(1, 'Criterion name is required'),
+  weight: z.number().min(0).max(100),
+  type: z.enum(['business', 'technical', 'temporal']),
+  description: z.string().default(''),
+  metric: z.enum(PRIORITY_METRIC_IDS).optional(),
+  column: z.string().min(1).optional(),
+  higherIsBetter: z.boolean().optional()
+});
+
+export const prioritizationTemplateSchema = z.object({
+  id: z.string().min(1),
+  name: z.string().min(1, 'Template name is required'),
+  description: z.string().default(''),
+  rules: z.array(templateRuleSchema).min(1, 'Template has no criteria'),
+  pairwise: z.record(z.number().positive()).optional()
+}).superRefine((template, ctx) => {
+  const seen = new Set<string>();
+  template.rules.forEach((rule, index) => {
+    if (rule.id === undefined) return;
+    if (seen.has(rule.id)) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['rules', index, 'id'], message: `Duplicate criterion id "${rule.id}"` });
+    }
+    seen.add(rule.id);
+  });
+}).transform(template => ({
+  ...template,
+  // Templates saved before criteria kept their ids get positional ones
+  rules: template.rules.map((rule, index) => ({ ...rule, id: rule.id ?? `template-${index}` }))
+}));
+
+export interface PrioritizationTemplate {
+  id: string;
+  name: string;
+  description: string;
+  rules: PrioritizationRule[];
+  // Keyed by the ids of the rules above
+  pairwise?: PairwiseJudgments;
+}
+
+const templatesFileSchema = z.object({
+  version: z.literal(TEMPLATES_FILE_VERSION),
+  timestamp: z.string().optional(),
+  templates: z.array(prioritizationTemplateSchema)
+}).superRefine((file, ctx) => {
+  const seen = new Set<string>();
+  file.templates.forEach((template, index) => {
+    if (seen.has(template.id)) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['templates', index, 'id'], message: `Duplicate template id "${template.id}"` });
+    }
+    seen.add(template.id);
+  });
+});
+
+export const BUILT_IN_TEMPLATES: PrioritizationTemplate[] = [
+  {
+    id: 'quality-first',
+    name: 'Quality First',
+    description: 'Prioritize data quality and completeness over speed',
+    rules: [
+      { id: 'completeness', name: 'Data Completeness', weight: 95, type: 'technical', description: 'Prioritize complete datasets', metric: 'completeness' },
+      { id: 'issues', name: 'Error Density', weight: 90, type: 'technical', description: 'Low error rate priority', metric: 'issues' },
+      { id: 'priority', name: 'Business Criticality', weight: 70, type: 'business', description: 'Business importance', metric: 'priority' },
+      { id: 'effort', name: 'File Size', weight: 30, type: 'technical', description: 'Size consideration', metric: 'effort' }
+    ]
+  },
+  {
+    id: 'speed-optimized',
+    name: 'Speed Optimized',
+    description: 'Process files quickly for immediate results',
+    rules: [
+      { id: 'effort', name: 'File Size', weight: 95, type: 'technical', description: 'Small files first', metric: 'effort' },
+      { id: 'dependencies', name: 'Simple Structure', weight: 85, type: 'technical', description: 'Simple schemas first', metric: 'dependencies' },
+      { id: 'issues', name: 'Low Error Count', weight: 80, type: 'technical', description: 'Clean data priority', metric: 'issues' },
+      { id: 'recency', name: 'Recent Upload', weight: 60, type: 'temporal', description: 'Recent files', metric: 'recency' }
+    ]
+  },
+  {
+    id: 'business-critical',
+    name: 'Business Critical',
+    description: 'Business value and impact driven prioritization',
+    rules: [
+      { id: 'priority', name: 'Business Criticality', weight: 100, type: 'business', description: 'Maximum business priority', metric: 'priority' },
+      { id: 'revenue', name: 'Revenue Impact', weight: 90, type: 'business', description: 'High revenue impact', metric: 'revenue' },
+      { id: 'demand', name: 'Stakeholder Priority', weight: 85, type: 'business', description: 'Key stakeholder requests', metric: 'demand' },
+      { id: 'urgency', name: 'Deadline Proximity', weight: 75, type: 'temporal', description: 'Urgent deadlines', metric: 'urgency' }
+    ]
+  }
+];
+
+export const isBuiltInTemplate = (templateId: string) =>
+  BUILT_IN_TEMPLATES.some(template => template.id === templateId);
+
+// Names of the criteria that measure nothing and so would not affect the ranking
+export const getUnboundCriteria = (rules: Omit<PrioritizationRule, 'id'>[]) =>
+  rules.filter(rule => !getRuleBinding(rule)).map(rule => rule.name);
+
+export const createTemplateFromRules = (
+  name: string,
+  description: string,
+  rules: PrioritizationRule[],
+  pairwise?: PairwiseJudgments
+): PrioritizationTemplate => ({
+  id: `custom-${Date.now()}`,
+  name: name.trim(),
+  description: description.trim(),
+  rules,
+  pairwise
+});
+
+// Templates that no longer fit the schema are dropped
+const normalizeTemplates = (templates: unknown[]): PrioritizationTemplate[] =>
+  templates.flatMap(template => {
+    const result = prioritizationTemplateSchema.safeParse(template);
+    return result.success ? [result.data as PrioritizationTemplate] : [];
+  });
+
+export const readUserTemplates = (): PrioritizationTemplate[] => {
+  try {
+    const stored = JSON.parse(localStorage.getItem(STORAGE_KEY) ?? '[]');
+    return Array.isArray(stored) ? normalizeTemplates(stored) : [];
+  } catch {
+    return [];
+  }
+};
+
+export const saveUserTemplates = (templates: PrioritizationTemplate[]) => {
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(templates));
+};
+
+export const serializeTemplatesFile = (templates: PrioritizationTemplate[]): string =>
+  JSON.stringify({ version: TEMPLATES_FILE_VERSION, timestamp: new Date().toISOString(), templates }, null, 2);
+
+/**
+ * Parse and validate an exported templates file. Criteria bound to a column
+ * are accepted whatever the column; whether it exists depends on the loaded data.
+ */
+export const parseTemplatesFile = (text: string): PrioritizationTemplate[] =>
+  parseJsonFile(text, templatesFileSchema).templates as PrioritizationTemplate[];
+
+/**
+ * Imported templates replace saved templates with the same id; the rest are
+ * kept. Built-in templates cannot be replaced, so imports using their ids are
+ * saved as copies.
+ */
+export const mergeTemplates = (
+  current: PrioritizationTemplate[],
+  incoming: PrioritizationTemplate[]
+): PrioritizationTemplate[] =>
+  mergeById(current, incoming.map(template => isBuiltInTemplate(template.id)
+    ? { ...template, id: `${template.id}-copy` }
+    : template));
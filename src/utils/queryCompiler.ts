@@ -0,0 +1,172 @@
+import { RuleOptions } from '@/utils/businessRules';
+import { ComparisonOperator, FieldRef, QUERY_RELATIONS, Query, QueryExpression } from '@/utils/queryLanguage';
+import { containsWord, normalize, wordGrams } from '@/utils/ruleParser';
+import { ENTITY_TYPES, EntityType } from '@/utils/validationRules';
+
+// Words that name a relation in a question, e.g. "tasks whose worker's CurrentLoad > 30"
+const RELATION_WORDS: { [relation: string]: RegExp } = {
+  worker: /\b(?:worker|assignee|assigned worker)'?s?\b/i,
+  client: /\bclient'?s?\b/i,
+  dependencies: /\bdependenc(?:y|ies)\b/i,
+  tasks: /\btasks?\b/i
+};
+
+const OPERATOR_PHRASES: Array<{ pattern: RegExp; operator: ComparisonOperator }> = [
+  { pattern: />=|\bat least\b|\bno (?:less|fewer) than\b/i, operator: '>=' },
+  { pattern: /<=|\bat most\b|\bno more than\b|\bup to\b/i, operator: '<=' },
+  { pattern: /!=|<>|\bis not\b|\bisn't\b|\bnot equal(?:s| to)?\b|\bother than\b/i, operator: '!=' },
+  { pattern: />|\b(?:more|greater|higher|larger) than\b|\babove\b|\bover\b|\bexceeds?\b/i, operator: '>' },
+  { pattern: /<|\b(?:less|fewer|lower|smaller) than\b|\bbelow\b|\bunder\b/i, operator: '<' },
+  { pattern: /\b(?:is )?(?:one of|any of)\b|\bin\b(?=\s*\(|\s+\S+\s*,)/i, operator: 'in' },
+  { pattern: /\b(?:contains?|includes?|mentions?|like)\b/i, operator: 'contains' },
+  { pattern: /\b(?:missing|empty|blank|without)\b|\bno\b(?=\s+\w)/i, operator: 'empty' },
+  { pattern: /==?|\b(?:is|equals?|of|set to)\b/i, operator: '=' }
+];
+
+const FILLER_WORDS = /^(?:show|find|list|get|give|display|me|all|any|the|which|what|that|who|whose|with|having|has|have|where|are|is|and|a|an|of|to|by|in|named|called)$/i;
+
+const cleanValue = (value: string) => value.trim().replace(/^["'`]|["'`.?!,]+$/g, '').trim();
+
+// The header named in the clause, longest first; "1 phase" also names Phases
+const findHeader = (clause: string, headers: string[]) => {
+  const grams = wordGrams(clause).map(normalize);
+  return headers
+    .filter(header => grams.some(gram => gram === normalize(header) || `${gram}s` === normalize(header)))
+    .sort((a, b) => b.length - a.length)[0];
+};
+
+interface CompileContext {
+  entity: EntityType;
+  options: RuleOptions;
+}
+
+// One condition such as "more than 2 phases" or "worker's CurrentLoad > 30"
+const compileClause = (clause: string, { entity, options }: CompileContext): QueryExpression | null => {
+  const relations = QUERY_RELATIONS[entity];
+  const candidates: Array<{ relation?: string; entity: EntityType }> = [{ entity }];
+  Object.entries(relations).forEach(([relation, { entity: target }]) => {
+    if (relation !== 'tasks' || entity !== 'tasks') candidates.push({ relation, entity: target });
+  });
+
+  // A named relation is tried first, so "worker's Name" is not read as the task's Name
+  const named = candidates.filter(candidate => candidate.relation && RELATION_WORDS[candidate.relation]?.test(clause));
+  const ordered = [...named, ...candidates.filter(candidate => !named.includes(candidate))];
+
+  let field: FieldRef | null = null;
+  for (const candidate of ordered) {
+    const header = findHeader(clause, options.headers[candidate.entity] ?? []);
+    if (header) {
+      field = candidate.relation ? { relation: candidate.relation, field: header } : { field: header };
+      break;
+    }
+  }
+
+  const skill = options.skills.find(name => containsWord(clause.toLowerCase(), name));
+  const negated = /\b(?:not|no longer|never|doesn't|don't|without)\b/i.test(clause);
+
+  // "with Python skills", "whose worker knows React"
+  if (skill && (!field || field.field.toLowerCase() === 'skills')) {
+    const owner = ordered.find(candidate => (options.headers[candidate.entity] ?? []).includes('Skills'));
+    if (!owner) return null;
+    const expression: QueryExpression = {
+      kind: 'compare',
+      field: owner.relation ? { relation: owner.relation, field: 'Skills' } : { field: 'Skills' },
+      operator: 'has',
+      values: [skill]
+    };
+    return negated ? { kind: 'not', operand: expression } : expression;
+  }
+  if (!field) return null;
+
+  const phrase = OPERATOR_PHRASES
+    .map(({ pattern, operator }) => ({ match: clause.match(pattern), operator }))
+    .find(({ match }) => match);
+  const headerWords = new RegExp(`\\b${field.field.replace(/([a-z])([A-Z])/g, '$1\\s*$2')}\\b`, 'i');
+  const relationWords = field.relation ? RELATION_WORDS[field.relation] : null;
+  const leftover = (value: string) => cleanValue(value.replace(headerWords, ' ').replace(relationWords ?? /$^/, ' '))
+    .split(/\s+/)
+    .filter(word => word && !FILLER_WORDS.test(word))
+    .join(' ');
+
+  if (phrase?.operator === 'empty') {
+    // "missing contact person", "without Dependencies"; "not missing" flips it
+    const empty: QueryExpression = { kind: 'compare', field, operator: 'empty', values: [] };
+    return /\bnot\b/i.test(clause) ? { kind: 'not', operand: empty } : empty;
+  }
+  if (!phrase) {
+    // "with Status Completed" compares; "with a ContactPerson" only asks for a value
+    const value = leftover(clause);
+    if (value) return { kind: 'compare', field, operator: field.field.match(/^(?:skills|taskids|dependencies)$/i) ? 'has' : '=', values: [value] };
+    if (!/\bwith\b|\bhav(?:e|ing)\b|\bhas\b/i.test(clause)) return null;
+    return { kind: 'not', operand: { kind: 'compare', field, operator: 'empty', values: [] } };
+  }
+
+  // The value follows the operator; the field name may come before or after it
+  const after = clause.slice(phrase.match!.index! + phrase.match![0].length);
+  const quoted = after.match(/["'`]([^"'`]+)["'`]/);
+  const number = after.match(/-?\d+(?:\.\d+)?/);
+
+  let values: string[];
+  if (phrase.operator === 'in') {
+    values = after.replace(/[()]/g, '').split(/\s*,\s*|\s+or\s+/).map(cleanValue).filter(Boolean);
+  } else if (quoted) {
+    values = [quoted[1]];
+  } else if (number && ['>', '>=', '<', '<='].includes(phrase.operator)) {
+    values = [number[0]];
+  } else {
+    const value = leftover(after);
+    values = value ? [value] : [];
+  }
+  if (values.length === 0) return null;
+
+  // Values of list columns such as Skills or TaskIDs are matched as items
+  const operator = phrase.operator === '=' && /^(?:skills|taskids|dependencies)$/i.test(field.field) ? 'has' : phrase.operator;
+  const expression: QueryExpression = { kind: 'compare', field, operator, values };
+  return negated && operator !== '!=' ? { kind: 'not', operand: expression } : expression;
+};
+
+const QUESTION_STOP_WORDS = new Set([
+  'show', 'find', 'list', 'get', 'all', 'the', 'with', 'who', 'that', 'have', 'has', 'are', 'and', 'for', 'from',
+  'which', 'where', 'any', 'every', 'me', 'named', 'called', 'task', 'tasks', 'worker', 'workers', 'client', 'clients'
+]);
+
+/**
+ * Compile a plain English question into a query, for example "tasks whose
+ * worker's CurrentLoad is over 30 and with Python skills". Clauses joined by
+ * "and"/"or" become comparisons; when none can be read, every column of the
+ * entity is searched for the first keyword. Returns null when the question
+ * names nothing that can be searched.
+ */
+export const compileNaturalQuery = (question: string, options: RuleOptions): Query | null => {
+  const text = question.trim();
+  const hinted = text.toLowerCase().match(/\b(client|worker|task)s?\b/);
+  const entity = hinted ? `${hinted[1]}s` as EntityType : ENTITY_TYPES.find(type => options.headers[type]);
+  if (!entity || !options.headers[entity]) return null;
+
+  // Everything after the entity word holds the conditions
+  const body = hinted ? text.slice(hinted.index! + hinted[0].length) : text;
+  const parts = body.split(/\s+(and|or)\s+/i);
+  const groups: QueryExpression[][] = [[]];
+  for (let index = 0; index < parts.length; index += 2) {
+    const expression = compileClause(parts[index], { entity, options });
+    if (expression) groups[groups.length - 1].push(expression);
+    if (parts[index + 1]?.toLowerCase() === 'or' && groups[groups.length - 1].length > 0) groups.push([]);
+  }
+
+  const ands = groups
+    .filter(group => group.length > 0)
+    .map(group => (group.length === 1 ? group[0] : { kind: 'and' as const, operands: group }));
+  if (ands.length > 0) {
+    return { entity, where: ands.length === 1 ? ands[0] : { kind: 'or', operands: ands } };
+  }
+
+  const keyword = text.split(/[^A-Za-z0-9_-]+/).find(word => word.length > 2 && !QUESTION_STOP_WORDS.has(word.toLowerCase()));
+  if (!keyword) return { entity, where: null };
+  return {
+    entity,
+    where: {
+      kind: 'or',
+      operands: options.headers[entity]!.map(field => ({ kind: 'compare' as const, field: { field }, operator: 'contains' as const, values: [keyword] }))
+    }
+  };
+};
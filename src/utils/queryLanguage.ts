@@ -0,0 +1,518 @@
+import { RuleDataFile, indexRuleData, toNumber } from '@/utils/businessRules';
+import { indexRowsById, parseIdList } from '@/utils/dependencyGraph';
+import { ENTITY_TYPES, EntityType } from '@/utils/validationRules';
+
+/**
+ * A small filter language over the loaded files, for example
+ *
+ *   tasks where Phases > 2 and Skills has "Python"
+ *   tasks where worker.CurrentLoad > 30 and not Status in ("Completed", "Cancelled")
+ *   clients where tasks.Status = "Pending" or ContactPerson is empty
+ *
+ * A query selects rows of one entity. Fields of related entities are reached
+ * through the relations below; for one-to-many relations a comparison holds
+ * when any related row satisfies it.
+ */
+
+export type ComparisonOperator = '=' | '!=' | '>' | '>=' | '<' | '<=' | 'contains' | 'in' | 'has' | 'empty';
+
+export interface FieldRef {
+  // Relation of the query's entity, e.g. "worker" for tasks
+  relation?: string;
+  field: string;
+}
+
+export type QueryExpression =
+  | { kind: 'and' | 'or'; operands: QueryExpression[] }
+  | { kind: 'not'; operand: QueryExpression }
+  | { kind: 'compare'; field: FieldRef; operator: ComparisonOperator; values: string[] };
+
+export interface Query {
+  entity: EntityType;
+  // Null selects every row
+  where: QueryExpression | null;
+}
+
+export class QueryError extends Error {
+  // Offset in the query text, for syntax errors
+  position?: number;
+  issues: string[];
+
+  constructor(message: string, options: { position?: number; issues?: string[] } = {}) {
+    super(options.issues?.length ? `${message}: ${options.issues.join('; ')}` : message);
+    this.name = 'QueryError';
+    this.position = options.position;
+    this.issues = options.issues ?? [];
+  }
+}
+
+interface Relation {
+  entity: EntityType;
+  // Several related rows per row
+  many: boolean;
+}
+
+export const QUERY_RELATIONS: { [K in EntityType]: { [name: string]: Relation } } = {
+  // Through AssignedWorkerID, ClientID and Dependencies
+  tasks: {
+    worker: { entity: 'workers', many: false },
+    client: { entity: 'clients', many: false },
+    dependencies: { entity: 'tasks', many: true }
+  },
+  // Tasks whose AssignedWorkerID is the worker
+  workers: {
+    tasks: { entity: 'tasks', many: true }
+  },
+  // Tasks listed in TaskIDs or naming the client in ClientID
+  clients: {
+    tasks: { entity: 'tasks', many: true }
+  }
+};
+
+// Tokenizer
+
+type TokenType = 'word' | 'string' | 'number' | 'operator' | '(' | ')' | ',' | '.' | 'end';
+
+interface Token {
+  type: TokenType;
+  value: string;
+  position: number;
+  // Backticked words are always field names, never keywords
+  quoted?: boolean;
+}
+
+const tokenize = (text: string): Token[] => {
+  const tokens: Token[] = [];
+  let index = 0;
+
+  while (index < text.length) {
+    const char = text[index];
+    if (/\s/.test(char)) {
+      index++;
+      continue;
+    }
+
+    const start = index;
+    if (char === '"' || char === "'" || char === '`') {
+      let value = '';
+      index++;
+      while (index < text.length && text[index] !== char) {
+        if (text[index] === '\\' && index + 1 < text.length) index++;
+        value += text[index++];
+      }
+      if (index >= text.length) throw new QueryError('Unclosed quote', { position: start });
+      index++;
+      tokens.push(char === '`'
+        ? { type: 'word', value, position: start, quoted: true }
+        : { type: 'string', value, position: start });
+      continue;
+    }
+
+    const number = text.slice(index).match(/^-?\d+(?:\.\d+)?(?![\w])/);
+    if (number) {
+      tokens.push({ type: 'number', value: number[0], position: start });
+      index += number[0].length;
+      continue;
+    }
+
+    const word = text.slice(index).match(/^[A-Za-z_][\w-]*/);
+    if (word) {
+      tokens.push({ type: 'word', value: word[0], position: start });
+      index += word[0].length;
+      continue;
+    }
+
+    const operator = text.slice(index).match(/^(?:==|!=|<>|>=|<=|=|>|<)/);
+    if (operator) {
+      const value = operator[0] === '==' ? '=' : operator[0] === '<>' ? '!=' : operator[0];
+      tokens.push({ type: 'operator', value, position: start });
+      index += operator[0].length;
+      continue;
+    }
+
+    if ('(),.'.includes(char)) {
+      tokens.push({ type: char as TokenType, value: char, position: start });
+      index++;
+      continue;
+    }
+
+    throw new QueryError(`Unexpected "${char}"`, { position: start });
+  }
+
+  tokens.push({ type: 'end', value: '', position: text.length });
+  return tokens;
+};
+
+// Parser
+
+const SINGULAR_ENTITIES: { [word: string]: EntityType } = { client: 'clients', worker: 'workers', task: 'tasks' };
+
+const parseEntity = (word: string): EntityType | null => {
+  const lower = word.toLowerCase();
+  return (ENTITY_TYPES as readonly string[]).includes(lower) ? lower as EntityType : SINGULAR_ENTITIES[lower] ?? null;
+};
+
+/**
+ * Parse query text into a Query. Throws a QueryError with the offset of the
+ * first problem. Field names are not checked here; see bindQuery.
+ */
+export const parseQuery = (text: string): Query => {
+  const tokens = tokenize(text);
+  let current = 0;
+
+  const peek = () => tokens[current];
+  const next = () => tokens[current++];
+  const isKeyword = (token: Token, keyword: string) =>
+    token.type === 'word' && !token.quoted && token.value.toLowerCase() === keyword;
+  const acceptKeyword = (keyword: string) => {
+    if (!isKeyword(peek(), keyword)) return false;
+    current++;
+    return true;
+  };
+  const fail = (expected: string): never => {
+    const token = peek();
+    throw new QueryError(
+      `Expected ${expected} but found ${token.type === 'end' ? 'the end of the query' : `"${token.value}"`}`,
+      { position: token.position }
+    );
+  };
+  const expect = (type: TokenType, expected: string) => (peek().type === type ? next() : fail(expected));
+
+  const parseValue = (): string => {
+    const token = peek();
+    if (token.type === 'string' || token.type === 'number' || (token.type === 'word' && !token.quoted)) {
+      current++;
+      return token.value;
+    }
+    return fail('a value');
+  };
+
+  const parseList = (): string[] => {
+    expect('(', '"(" to start a list');
+    const values = [parseValue()];
+    while (peek().type === ',') {
+      current++;
+      values.push(parseValue());
+    }
+    expect(')', '"," or ")"');
+    return values;
+  };
+
+  const parseField = (): FieldRef => {
+    const first = expect('word', 'a field name');
+    if (peek().type !== '.') return { field: first.value };
+    current++;
+    return { relation: first.value, field: expect('word', 'a field name after "."').value };
+  };
+
+  const parseComparison = (): QueryExpression => {
+    const field = parseField();
+    const compare = (operator: ComparisonOperator, values: string[]): QueryExpression =>
+      ({ kind: 'compare', field, operator, values });
+
+    const token = peek();
+    if (token.type === 'operator') {
+      current++;
+      return compare(token.value as ComparisonOperator, [parseValue()]);
+    }
+    if (acceptKeyword('is')) {
+      const negated = acceptKeyword('not');
+      if (!acceptKeyword('empty')) fail('"empty"');
+      return negated ? { kind: 'not', operand: compare('empty', []) } : compare('empty', []);
+    }
+
+    const negated = acceptKeyword('not');
+    let expression: QueryExpression;
+    if (acceptKeyword('in')) {
+      expression = compare('in', parseList());
+    } else if (acceptKeyword('contains')) {
+      expression = compare('contains', [parseValue()]);
+    } else if (acceptKeyword('has')) {
+      expression = compare('has', [parseValue()]);
+    } else {
+      return fail(negated ? '"in", "contains" or "has"' : 'a comparison such as =, >, in, contains, has or is empty');
+    }
+    return negated ? { kind: 'not', operand: expression } : expression;
+  };
+
+  const parseExpression = (): QueryExpression => {
+    const parseUnary = (): QueryExpression => {
+      if (acceptKeyword('not')) return { kind: 'not', operand: parseUnary() };
+      if (peek().type === '(') {
+        current++;
+        const inner = parseExpression();
+        expect(')', '")"');
+        return inner;
+      }
+      return parseComparison();
+    };
+    const parseChain = (keyword: 'and' | 'or', parseOperand: () => QueryExpression): QueryExpression => {
+      const operands = [parseOperand()];
+      while (acceptKeyword(keyword)) operands.push(parseOperand());
+      return operands.length === 1 ? operands[0] : { kind: keyword, operands };
+    };
+    return parseChain('or', () => parseChain('and', parseUnary));
+  };
+
+  const entityToken = expect('word', 'clients, workers or tasks');
+  const entity = parseEntity(entityToken.value);
+  if (!entity) throw new QueryError(`Unknown entity "${entityToken.value}"; expected clients, workers or tasks`, { position: 0 });
+
+  let where: QueryExpression | null = null;
+  if (acceptKeyword('where')) {
+    where = parseExpression();
+  }
+  if (peek().type !== 'end') fail(where ? '"and", "or" or the end of the query' : '"where"');
+
+  return { entity, where };
+};
+
+// Formatter
+
+const formatValue = (value: string) =>
+  /^-?\d+(?:\.\d+)?$/.test(value) ? value : `"${value.replace(/["\\]/g, '\\$&')}"`;
+
+const formatField = ({ relation, field }: FieldRef) => {
+  const name = /^[A-Za-z_][\w-]*$/.test(field) ? field : `\`${field}\``;
+  return relation ? `${relation}.${name}` : name;
+};
+
+const formatComparison = (
+  expression: Extract<QueryExpression, { kind: 'compare' }>,
+  negated: boolean
+) => {
+  const field = formatField(expression.field);
+  const not = negated ? 'not ' : '';
+  switch (expression.operator) {
+    case 'empty':
+      return `${field} is ${not}empty`;
+    case 'in':
+      return `${field} ${not}in (${expression.values.map(formatValue).join(', ')})`;
+    case 'contains':
+    case 'has':
+      return `${field} ${not}${expression.operator} ${formatValue(expression.values[0])}`;
+    default:
+      return `${negated ? 'not ' : ''}${field} ${expression.operator} ${formatValue(expression.values[0])}`;
+  }
+};
+
+const formatExpression = (expression: QueryExpression, parent: 'and' | 'or' | 'not' | null): string => {
+  switch (expression.kind) {
+    case 'compare':
+      return formatComparison(expression, false);
+    case 'not':
+      if (expression.operand.kind === 'compare') return formatComparison(expression.operand, true);
+      return `not ${formatExpression(expression.operand, 'not')}`;
+    default: {
+      const text = expression.operands.map(operand => formatExpression(operand, expression.kind)).join(` ${expression.kind} `);
+      // "and" binds tighter than "or", so only these need parentheses
+      return parent === 'not' || (parent === 'and' && expression.kind === 'or') ? `(${text})` : text;
+    }
+  }
+};
+
+// Canonical text of a query; parseQuery(formatQuery(q)) gives q back
+export const formatQuery = (query: Query) =>
+  query.where ? `${query.entity} where ${formatExpression(query.where, null)}` : query.entity;
+
+// Binding to the loaded data
+
+const visitComparisons = (
+  expression: QueryExpression,
+  visit: (comparison: Extract<QueryExpression, { kind: 'compare' }>) => QueryExpression
+): QueryExpression => {
+  switch (expression.kind) {
+    case 'compare':
+      return visit(expression);
+    case 'not':
+      return { kind: 'not', operand: visitComparisons(expression.operand, visit) };
+    default:
+      return { kind: expression.kind, operands: expression.operands.map(operand => visitComparisons(operand, visit)) };
+  }
+};
+
+/**
+ * Check a parsed query against the loaded headers and return it with field
+ * and relation names spelled as in the data. Throws a QueryError listing
+ * every unknown entity, relation and field.
+ */
+export const bindQuery = (query: Query, headers: { [K in EntityType]?: string[] }): Query => {
+  const issues: string[] = [];
+  if (!headers[query.entity]) {
+    throw new QueryError(`No ${query.entity} file is loaded`);
+  }
+
+  const relations = QUERY_RELATIONS[query.entity];
+  const where = query.where && visitComparisons(query.where, comparison => {
+    let entity = query.entity;
+    let relation: string | undefined;
+    if (comparison.field.relation) {
+      relation = Object.keys(relations).find(name => name.toLowerCase() === comparison.field.relation!.toLowerCase());
+      if (!relation) {
+        issues.push(`${query.entity} have no relation "${comparison.field.relation}"; use ${Object.keys(relations).join(', ')}`);
+        return comparison;
+      }
+      entity = relations[relation].entity;
+      if (!headers[entity]) {
+        issues.push(`${relation}.${comparison.field.field} needs a ${entity} file`);
+        return comparison;
+      }
+    }
+
+    const field = headers[entity]!.find(header => header.toLowerCase() === comparison.field.field.toLowerCase());
+    if (!field) {
+      issues.push(`Unknown ${entity} field "${comparison.field.field}"`);
+      return comparison;
+    }
+    return { ...comparison, field: relation ? { relation, field } : { field } };
+  });
+
+  if (issues.length > 0) throw new QueryError('The query does not match the loaded data', { issues });
+  return { entity: query.entity, where };
+};
+
+// Executor
+
+type Row = Record<string, unknown>;
+
+const text = (value: unknown) => String(value ?? '').trim();
+
+const addTo = <T>(groups: Map<string, T[]>, key: string, value: T) => {
+  const group = groups.get(key);
+  if (group) group.push(value);
+  else groups.set(key, [value]);
+};
+
+// Items of a JSON array cell, or of a comma separated list
+const listItems = (value: unknown): string[] => {
+  const items = parseIdList(value);
+  return items.length === 1 && !text(value).startsWith('[') ? items[0].split(/\s*[,;]\s*/).filter(Boolean) : items;
+};
+
+const equalValues = (actual: unknown, expected: string) => {
+  const number = toNumber(actual);
+  const bound = toNumber(expected);
+  if (number !== null && bound !== null) return number === bound;
+  return text(actual).toLowerCase() === expected.trim().toLowerCase();
+};
+
+const compareValue = (actual: unknown, operator: ComparisonOperator, values: string[]): boolean => {
+  switch (operator) {
+    case '=':
+      return equalValues(actual, values[0]);
+    case '!=':
+      return !equalValues(actual, values[0]);
+    case '>':
+    case '>=':
+    case '<':
+    case '<=': {
+      const number = toNumber(actual);
+      const bound = toNumber(values[0]);
+      if (number === null || bound === null) return false;
+      return operator === '>' ? number > bound
+        : operator === '>=' ? number >= bound
+        : operator === '<' ? number < bound
+        : number <= bound;
+    }
+    case 'contains':
+      return text(actual).toLowerCase().includes(values[0].trim().toLowerCase());
+    case 'in':
+      return values.some(value => equalValues(actual, value));
+    case 'has': {
+      const wanted = values[0].trim().toLowerCase();
+      return listItems(actual).some(item => item.toLowerCase() === wanted);
+    }
+    case 'empty':
+      return listItems(actual).length === 0;
+  }
+};
+
+export interface QueryResult {
+  entity: EntityType;
+  fileName: string;
+  // Indexes of the matching rows, in file order
+  rows: number[];
+}
+
+/**
+ * Run a bound query over the loaded files. Rows are matched against the
+ * current data, so results follow edits when the query is run again.
+ */
+export const executeQuery = (query: Query, files: { [fileName: string]: RuleDataFile }): QueryResult => {
+  const data = indexRuleData(files);
+  const fileName = data.fileByEntity.get(query.entity);
+  if (!fileName) throw new QueryError(`No ${query.entity} file is loaded`);
+
+  const rowsOf = (entity: EntityType): Row[] => {
+    const name = data.fileByEntity.get(entity);
+    return name ? files[name].data : [];
+  };
+  const tasksByWorker = new Map<string, Row[]>();
+  const tasksByClient = new Map<string, Row[]>();
+  rowsOf('tasks').forEach(task => {
+    const worker = text(task.AssignedWorkerID);
+    const client = text(task.ClientID);
+    if (worker) addTo(tasksByWorker, worker, task);
+    if (client) addTo(tasksByClient, client, task);
+  });
+  // The first row with an id wins, as with tasks and workers
+  const clients = rowsOf('clients');
+  const clientsById = indexRowsById(clients, 'ClientID');
+  const taskRows = (ids: string[]) => ids.map(id => data.tasks.get(id)?.values).filter((row): row is Row => !!row);
+
+  const related = (row: Row, relation: string): Row[] => {
+    switch (`${query.entity}.${relation}`) {
+      case 'tasks.worker': {
+        const worker = data.workers.get(text(row.AssignedWorkerID));
+        return worker ? [worker.values] : [];
+      }
+      case 'tasks.client': {
+        const clientRow = clientsById.get(text(row.ClientID));
+        return clientRow === undefined ? [] : [clients[clientRow]];
+      }
+      case 'tasks.dependencies':
+        return taskRows(listItems(row.Dependencies));
+      case 'workers.tasks':
+        return tasksByWorker.get(text(row.WorkerID)) ?? [];
+      case 'clients.tasks': {
+        const listed = taskRows(listItems(row.TaskIDs));
+        const named = (tasksByClient.get(text(row.ClientID)) ?? []).filter(task => !listed.includes(task));
+        return [...listed, ...named];
+      }
+      default:
+        return [];
+    }
+  };
+
+  const matches = (row: Row, expression: QueryExpression): boolean => {
+    switch (expression.kind) {
+      case 'and':
+        return expression.operands.every(operand => matches(row, operand));
+      case 'or':
+        return expression.operands.some(operand => matches(row, operand));
+      case 'not':
+        return !matches(row, expression.operand);
+      case 'compare': {
+        const { field, operator, values } = expression;
+        if (!field.relation) return compareValue(row[field.field], operator, values);
+        return related(row, field.relation).some(other => compareValue(other[field.field], operator, values));
+      }
+    }
+  };
+
+  const rows: number[] = [];
+  files[fileName].data.forEach((row, index) => {
+    if (!query.where || matches(row, query.where)) rows.push(index);
+  });
+  return { entity: query.entity, fileName, rows };
+};
+
+// Whether text looks like a query rather than a question
+export const isQueryText = (value: string) => {
+  try {
+    parseQuery(value);
+    return true;
+  } catch {
+    return false;
+  }
+};
@@ -0,0 +1,284 @@
+import {
+  BusinessRule,
+  BusinessRuleOf,
+  LocatedRow,
+  RuleDataFile,
+  getActiveBusinessRules,
+  indexRuleData,
+  isInWorkerGroup,
+  toNumber
+} from '@/utils/businessRules';
+
+export type RuleConflictKind =
+  // Phase windows on one task that leave it no phase
+  | 'phase-window'
+  // A co-run group whose tasks have no phase in common
+  | 'co-run-phase'
+  // A co-run group needing more slots in one phase than its workers have
+  | 'co-run-load'
+  // Slot restrictions no worker can satisfy
+  | 'slot-restriction';
+
+export interface RuleConflict {
+  // Stable across reruns, for React keys
+  id: string;
+  kind: RuleConflictKind;
+  // Rules involved, in rule list order
+  ruleIds: string[];
+  tasks: string[];
+  title: string;
+  explanation: string;
+  // The rule to relax first: the lowest priority of those involved
+  relax: { ruleId: string; reason: string };
+}
+
+const formatPhases = (phases: number[]) =>
+  phases.length === 0 ? 'no phase' : `${phases.length === 1 ? 'phase' : 'phases'} ${phases.join(', ')}`;
+
+const plural = (count: number, singular: string, pluralForm = `${singular}s`) => (count === 1 ? singular : pluralForm);
+
+const intersect = (a: number[], b: number[]) => a.filter(phase => b.includes(phase));
+
+// Phases a task can be placed in according to its own `Phases` column
+const getPhaseRange = (task: LocatedRow | undefined): number[] | null => {
+  const phases = task ? toNumber(task.values.Phases) : null;
+  if (phases === null || !Number.isInteger(phases) || phases < 1) return null;
+  return Array.from({ length: phases }, (_, index) => index + 1);
+};
+
+/**
+ * Higher priorities win, so the rule to relax is the lowest priority one.
+ * Ties go to the rule added last.
+ */
+const suggestRelaxation = (involved: Array<Pick<BusinessRule, 'id' | 'priority'>>): RuleConflict['relax'] => {
+  if (involved.length === 1) {
+    return { ruleId: involved[0].id, reason: 'It is the only rule involved; the data itself rules it out' };
+  }
+
+  const lowest = Math.min(...involved.map(rule => rule.priority));
+  const candidates = involved.filter(rule => rule.priority === lowest);
+  const rule = candidates[candidates.length - 1];
+  return {
+    ruleId: rule.id,
+    reason: candidates.length === 1
+      ? `It has the lowest priority (${lowest}) of the ${involved.length} rules involved`
+      : `${candidates.length} rules share the lowest priority (${lowest}); this is the most recently added`
+  };
+};
+
+/**
+ * Find enabled rules that contradict each other, or that the loaded data
+ * cannot satisfy. Each conflict names the rules involved, explains why and
+ * suggests which rule to relax.
+ */
+export const analyzeRuleConflicts = (
+  rules: BusinessRule[],
+  files: { [fileName: string]: RuleDataFile }
+): RuleConflict[] => {
+  const active = getActiveBusinessRules(rules);
+  const { tasks, workers } = indexRuleData(files);
+  const order = new Map(rules.map((rule, index) => [rule.id, index]));
+  const conflicts: RuleConflict[] = [];
+
+  const addConflict = (
+    kind: RuleConflictKind,
+    involvedRules: Array<Pick<BusinessRule, 'id' | 'name' | 'priority'>>,
+    conflictTasks: string[],
+    title: string,
+    explanation: string
+  ) => {
+    const involved = Array.from(new Set(involvedRules)).sort((a, b) => order.get(a.id)! - order.get(b.id)!);
+    const ruleIds = involved.map(rule => rule.id);
+    conflicts.push({
+      id: `${kind}:${ruleIds.join(',')}:${conflictTasks.join(',')}`,
+      kind,
+      ruleIds,
+      tasks: conflictTasks,
+      title,
+      explanation,
+      relax: suggestRelaxation(involved)
+    });
+  };
+
+  const windowsByTask = new Map<string, BusinessRuleOf<'phase-window'>[]>();
+  const restrictionsByTask = new Map<string, BusinessRuleOf<'slot-restriction'>[]>();
+  const coRuns: BusinessRuleOf<'co-run'>[] = [];
+  const loadLimits: BusinessRuleOf<'load-limit'>[] = [];
+  const restrictions: BusinessRuleOf<'slot-restriction'>[] = [];
+
+  // Zod's inferred union does not narrow on `type` without strict null checks
+  active.forEach(rule => {
+    if (rule.type === 'phase-window') {
+      const window = rule as BusinessRuleOf<'phase-window'>;
+      window.conditions.taskIds.forEach(id => windowsByTask.set(id, [...(windowsByTask.get(id) ?? []), window]));
+    } else if (rule.type === 'slot-restriction') {
+      const restriction = rule as BusinessRuleOf<'slot-restriction'>;
+      restrictions.push(restriction);
+      restriction.conditions.taskIds.forEach(id =>
+        restrictionsByTask.set(id, [...(restrictionsByTask.get(id) ?? []), restriction])
+      );
+    } else if (rule.type === 'co-run') {
+      coRuns.push(rule as BusinessRuleOf<'co-run'>);
+    } else if (rule.type === 'load-limit') {
+      loadLimits.push(rule as BusinessRuleOf<'load-limit'>);
+    }
+  });
+
+  // Phases left open to each task by its phase range and windows; null when unconstrained
+  const allowedPhases = new Map<string, number[] | null>();
+  const getAllowedPhases = (id: string) => {
+    if (!allowedPhases.has(id)) {
+      let allowed = getPhaseRange(tasks.get(id));
+      (windowsByTask.get(id) ?? []).forEach(rule => {
+        allowed = allowed === null ? [...rule.conditions.allowedPhases] : intersect(allowed, rule.conditions.allowedPhases);
+      });
+      allowedPhases.set(id, allowed);
+    }
+    return allowedPhases.get(id)!;
+  };
+
+  // Phase windows that leave a task no phase, grouped by the rules involved
+  const closedTasks = new Map<string, { windows: BusinessRuleOf<'phase-window'>[]; tasks: string[]; disjoint: boolean }>();
+  windowsByTask.forEach((windows, id) => {
+    if (getAllowedPhases(id)?.length !== 0) return;
+
+    const windowsOnly = windows.slice(1).reduce(
+      (allowed, rule) => intersect(allowed, rule.conditions.allowedPhases),
+      windows[0].conditions.allowedPhases
+    );
+    const key = windows.map(rule => rule.id).join(',');
+    const group = closedTasks.get(key) ?? { windows, tasks: [], disjoint: windowsOnly.length === 0 };
+    group.tasks.push(id);
+    closedTasks.set(key, group);
+  });
+  closedTasks.forEach(({ windows, tasks: closed, disjoint }) => {
+    const allowedBy = windows.map(rule => `"${rule.name}" allows ${formatPhases(rule.conditions.allowedPhases)}`).join(', ');
+    addConflict('phase-window', windows, closed,
+      `No phase left for ${closed.join(', ')}`,
+      disjoint
+        ? `${allowedBy}; no phase satisfies every window.`
+        : `${allowedBy}, but ${closed.map(id => `${id} only spans ${formatPhases(getPhaseRange(tasks.get(id)) ?? [])}`).join(', ')}.`);
+  });
+
+  // Co-run rules sharing a task bind all their tasks to one phase, so they are merged
+  const groups: Array<{ rules: BusinessRuleOf<'co-run'>[]; tasks: string[] }> = [];
+  coRuns.forEach(rule => {
+    const overlapping = groups.filter(group => group.tasks.some(id => rule.conditions.taskIds.includes(id)));
+    const merged = {
+      rules: [...overlapping.flatMap(group => group.rules), rule],
+      tasks: Array.from(new Set([...overlapping.flatMap(group => group.tasks), ...rule.conditions.taskIds]))
+    };
+    overlapping.forEach(group => groups.splice(groups.indexOf(group), 1));
+    groups.push(merged);
+  });
+
+  groups.forEach(group => {
+    const groupName = group.rules.map(rule => `"${rule.name}"`).join(' and ');
+
+    // Tasks with no phase at all are reported above
+    const constrained = group.tasks.filter(id => {
+      const allowed = getAllowedPhases(id);
+      return allowed !== null && allowed.length > 0;
+    });
+    const common = constrained.reduce<number[] | null>(
+      (phases, id) => (phases === null ? getAllowedPhases(id) : intersect(phases, getAllowedPhases(id)!)),
+      null
+    );
+    if (common !== null && common.length === 0) {
+      const windows = constrained.flatMap(id => windowsByTask.get(id) ?? []);
+      addConflict('co-run-phase', [...group.rules, ...windows], group.tasks,
+        `Co-run tasks have no phase in common`,
+        `${groupName} ${plural(group.rules.length, 'requires', 'require')} ${group.tasks.join(', ')} to share a phase, but ${
+          constrained.map(id => `${id} can only run in ${formatPhases(getAllowedPhases(id)!)}`).join(', ')
+        }.`);
+      return;
+    }
+
+    if (workers.size === 0 || loadLimits.length === 0) return;
+
+    // Tightest load limit per worker; workers without one are unbounded
+    const limitOf = (worker: LocatedRow) => loadLimits
+      .filter(rule => isInWorkerGroup(worker, rule.conditions.workerGroup))
+      .reduce<BusinessRuleOf<'load-limit'> | null>(
+        (tightest, rule) => (!tightest || rule.conditions.maxSlotsPerPhase < tightest.conditions.maxSlotsPerPhase ? rule : tightest),
+        null
+      );
+
+    // Enough slots across every worker allowed to take one of the tasks?
+    const memberRestrictions = group.tasks.flatMap(id => restrictionsByTask.get(id) ?? []);
+    const eligible = Array.from(workers.values()).filter(worker => group.tasks.some(id =>
+      (restrictionsByTask.get(id) ?? []).every(rule => isInWorkerGroup(worker, rule.conditions.workerGroup))
+    ));
+    const limits = eligible.map(limitOf);
+    if (limits.every(limit => limit !== null)) {
+      const capacity = limits.reduce((sum, limit) => sum + limit!.conditions.maxSlotsPerPhase, 0);
+      if (capacity < group.tasks.length) {
+        addConflict('co-run-load', [...group.rules, ...limits.filter((limit): limit is BusinessRuleOf<'load-limit'> => !!limit), ...memberRestrictions],
+          group.tasks,
+          `Not enough slots for a co-run group`,
+          `${groupName} ${plural(group.rules.length, 'puts', 'put')} ${group.tasks.length} tasks in one phase, but the ${eligible.length} ${
+            plural(eligible.length, 'worker')
+          } allowed to take them ${plural(eligible.length, 'has', 'have')} ${capacity} ${plural(capacity, 'slot')} per phase.`);
+        return;
+      }
+    }
+
+    // Current assignments that stack more co-run tasks on a worker than its limit allows
+    const assigned = new Map<string, string[]>();
+    group.tasks.forEach(id => {
+      const workerId = String(tasks.get(id)?.values.AssignedWorkerID ?? '').trim();
+      if (workers.has(workerId)) assigned.set(workerId, [...(assigned.get(workerId) ?? []), id]);
+    });
+    assigned.forEach((workerTasks, workerId) => {
+      const limit = limitOf(workers.get(workerId)!);
+      // A single task over the limit is a plain load violation, not a co-run one
+      if (!limit || workerTasks.length < 2 || workerTasks.length <= limit.conditions.maxSlotsPerPhase) return;
+      addConflict('co-run-load', [...group.rules, limit], workerTasks,
+        `${workerId} cannot take its co-run tasks in one phase`,
+        `${workerId} is assigned ${workerTasks.join(', ')}, which ${groupName} ${plural(group.rules.length, 'puts', 'put')} in one phase, but "${limit.name}" allows ${workerId} ${
+          limit.conditions.maxSlotsPerPhase
+        } ${plural(limit.conditions.maxSlotsPerPhase, 'task')} per phase.`);
+    });
+  });
+
+  // A task restricted to two departments fits no worker
+  const splitTasks = new Map<string, { rules: BusinessRuleOf<'slot-restriction'>[]; tasks: string[] }>();
+  restrictionsByTask.forEach((taskRestrictions, id) => {
+    if (new Set(taskRestrictions.map(rule => rule.conditions.workerGroup.toLowerCase())).size < 2) return;
+    const key = taskRestrictions.map(rule => rule.id).join(',');
+    const group = splitTasks.get(key) ?? { rules: taskRestrictions, tasks: [] };
+    group.tasks.push(id);
+    splitTasks.set(key, group);
+  });
+  splitTasks.forEach(({ rules: taskRestrictions, tasks: split }) => {
+    addConflict('slot-restriction', taskRestrictions, split,
+      `${split.join(', ')} restricted to different worker groups`,
+      `${taskRestrictions.map(rule => `"${rule.name}" allows only ${rule.conditions.workerGroup}`).join(', ')}; no worker belongs to all of them.`);
+  });
+
+  if (workers.size > 0) {
+    restrictions.forEach(rule => {
+      const groupWorkers = Array.from(workers.values()).filter(worker => isInWorkerGroup(worker, rule.conditions.workerGroup));
+      if (groupWorkers.length === 0) {
+        addConflict('slot-restriction', [rule], rule.conditions.taskIds,
+          `No ${rule.conditions.workerGroup} workers`,
+          `"${rule.name}" assigns ${rule.conditions.taskIds.join(', ')} only to ${rule.conditions.workerGroup} workers, and no loaded worker is in that department.`);
+        return;
+      }
+
+      const blocking = loadLimits.filter(limit =>
+        limit.conditions.maxSlotsPerPhase === 0 && groupWorkers.some(worker => isInWorkerGroup(worker, limit.conditions.workerGroup))
+      );
+      const blocked = groupWorkers.every(worker => blocking.some(limit => isInWorkerGroup(worker, limit.conditions.workerGroup)));
+      if (blocked) {
+        addConflict('slot-restriction', [rule, ...blocking], rule.conditions.taskIds,
+          `${rule.conditions.workerGroup} workers have no slots`,
+          `"${rule.name}" assigns ${rule.conditions.taskIds.join(', ')} only to ${rule.conditions.workerGroup} workers, but ${
+            blocking.map(limit => `"${limit.name}"`).join(' and ')
+          } ${plural(blocking.length, 'allows', 'allow')} them 0 tasks per phase.`);
+      }
+    });
+  }
+
+  return conflicts;
+};
@@ -0,0 +1,360 @@
+import {
+  ALL_WORKERS,
+  BusinessRule,
+  BusinessRuleType,
+  CustomOperator,
+  RuleOptions,
+  createDefaultConditions
+} from '@/utils/businessRules';
+import { ENTITY_TYPES, EntityType, isValidPattern } from '@/utils/validationRules';
+
+export type ParseConfidence = 'high' | 'low';
+
+export interface RuleParseFinding {
+  // Words of the sentence the finding was read from
+  source: string;
+  // What they were read as
+  reading: string;
+  // Low confidence findings need the user's confirmation
+  confidence: ParseConfidence;
+}
+
+export interface ParsedRule {
+  rule: BusinessRule;
+  findings: RuleParseFinding[];
+}
+
+export const normalize = (value: string) => value.toLowerCase().replace(/[^a-z0-9]/g, '');
+
+const escapeRegExp = (value: string) => value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+export const containsWord = (text: string, word: string) =>
+  new RegExp(`(^|[^a-z0-9])${escapeRegExp(word.toLowerCase())}($|[^a-z0-9])`).test(text);
+
+const levenshtein = (a: string, b: string) => {
+  let previous = Array.from({ length: b.length + 1 }, (_, index) => index);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      current[j] = Math.min(previous[j] + 1, current[j - 1] + 1, previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1));
+    }
+    previous = current;
+  }
+  return previous[b.length];
+};
+
+// Runs of one to three words, for matching multi-word names like "front end"
+export const wordGrams = (text: string) => {
+  const words = text.split(/[^A-Za-z0-9]+/).filter(Boolean);
+  const grams: string[] = [];
+  for (let size = 1; size <= 3; size++) {
+    for (let start = 0; start + size <= words.length; start++) grams.push(words.slice(start, start + size).join(' '));
+  }
+  return grams;
+};
+
+interface Intent {
+  type: BusinessRuleType;
+  source: string;
+  confidence: ParseConfidence;
+}
+
+const LIMIT_PATTERN = /\b(?:at most|max(?:imum)?(?: of)?|no more than|up to|limit(?:ed)? (?:to|of)|cap(?:ped)? at|only)\s+(\d+)\b/i;
+const PER_PHASE_PATTERN = /\b(\d+)\s+(?:slots?|tasks?)\s+(?:per|each|a|in any)\s+phase\b/i;
+const PATTERN_PATTERN = /\b(?:match(?:es)?(?:\s+(?:the\s+|a\s+)?(?:pattern|regex|format))?|pattern|regex|format)\b\s*(?:of\s+)?(?:\/(.+)\/|"([^"]+)"|'([^']+)'|`([^`]+)`|(\S+))?/i;
+
+const OPERATOR_PHRASES: Array<{ pattern: RegExp; operator: CustomOperator }> = [
+  { pattern: /\b(?:must not|cannot|can't|should not) be (?:empty|blank)\b|\b(?:is|are) required\b|\bmust be (?:filled|set|present)\b/i, operator: 'not-empty' },
+  { pattern: /\b(?:greater than|more than|above|over|exceeds?)\s+(.+)$/i, operator: 'greater-than' },
+  { pattern: /\b(?:less than|fewer than|below|under)\s+(.+)$/i, operator: 'less-than' },
+  { pattern: /\b(?:must not|should not|cannot|can't) (?:be|equal)\s+(.+)$|\bnot equal(?:s| to)?\s+(.+)$|!=\s*(.+)$/i, operator: 'not-equals' },
+  { pattern: /\b(?:contains?|includes?)\s+(.+)$/i, operator: 'contains' },
+  { pattern: /\b(?:must|should) (?:be|equal)\s+(.+)$|\bequals?(?: to)?\s+(.+)$|=\s*(.+)$/i, operator: 'equals' }
+];
+
+const detectIntent = (text: string): Intent | null => {
+  const strong: Array<[BusinessRuleType, RegExp]> = [
+    ['regex', /\b(?:must |should )?match(?:es)?\b.*\S|\b(?:pattern|regex)\b/i],
+    ['load-limit', /\bslots?\b.*\bper phase\b|\bper phase\b.*\b\d+\b|\bload limit\b|\bmax(?:imum)? load\b/i],
+    ['co-run', /\b(?:together|co-?run|same phase|alongside|concurrently|simultaneously|in parallel)\b/i],
+    ['slot-restriction', /\b(?:only|exclusively|restricted to|reserved for)\b.*\b(?:workers?|team|department|assigned|by)\b|\bassigned (?:only )?to\b/i],
+    ['phase-window', /\b(?:in|during|within|before|after|by|from) phases?\s+\d+|\bphases?\s+\d+/i]
+  ];
+  for (const [type, pattern] of strong) {
+    const match = text.match(pattern);
+    if (match) return { type, source: match[0].trim(), confidence: 'high' };
+  }
+
+  if (OPERATOR_PHRASES.some(({ pattern }) => pattern.test(text))) {
+    return { type: 'custom', source: text, confidence: 'high' };
+  }
+
+  // Loose keywords, kept from the original matcher, give a guess to confirm
+  const weak: Array<[BusinessRuleType, RegExp]> = [
+    ['load-limit', /\b(?:limit|maximum|max)\b/i],
+    ['phase-window', /\b(?:phase|window)\b/i]
+  ];
+  for (const [type, pattern] of weak) {
+    const match = text.match(pattern);
+    if (match) return { type, source: match[0], confidence: 'low' };
+  }
+  return null;
+};
+
+const RULE_TYPE_LABELS: { [K in BusinessRuleType]: string } = {
+  'co-run': 'co-run rule',
+  'slot-restriction': 'slot restriction',
+  'load-limit': 'load limit',
+  'phase-window': 'phase window',
+  regex: 'pattern rule',
+  custom: 'custom condition'
+};
+
+/**
+ * Read a rule from a plain English sentence such as "T12 and T14 must run
+ * together" or "Workers in Frontend can take at most 3 slots per phase".
+ * Task IDs, task names, skills, departments and columns are resolved against
+ * the loaded data; anything guessed is returned as a low confidence finding.
+ * Returns null when no rule type can be recognised.
+ */
+export const parseRuleSentence = (sentence: string, options: RuleOptions): ParsedRule | null => {
+  const text = sentence.trim();
+  const lower = text.toLowerCase();
+  const intent = detectIntent(text);
+  if (!intent) return null;
+
+  const findings: RuleParseFinding[] = [{
+    source: intent.source,
+    reading: `A ${RULE_TYPE_LABELS[intent.type]}`,
+    confidence: intent.confidence
+  }];
+  const note = (source: string, reading: string, confidence: ParseConfidence) =>
+    findings.push({ source, reading, confidence });
+
+  const tasksLoaded = options.headers.tasks !== undefined;
+  const workersLoaded = options.headers.workers !== undefined;
+  const taskIds = new Map(options.tasks.map(task => [task.id.toLowerCase(), task.id]));
+
+  // Task IDs: exact IDs, ranges like T1-T5, full task names and skills
+  const resolveTasks = (): string[] => {
+    const found: string[] = [];
+    const add = (ids: string[]) => ids.forEach(id => {
+      if (!found.includes(id)) found.push(id);
+    });
+    const prefixes = new Set(options.tasks.map(task => task.id.match(/^[A-Za-z]+/)?.[0].toLowerCase()).filter(Boolean));
+    if (prefixes.size === 0) prefixes.add('t');
+    const numberOf = (id: string) => Number(id.match(/(\d+)$/)?.[1] ?? NaN);
+
+    const rangePattern = /\b([A-Za-z]+)-?(\d+)\s*(?:-|–|to|through|thru)\s*(?:\1-?)?(\d+)\b/gi;
+    const ranged = new Set<string>();
+    for (const match of text.matchAll(rangePattern)) {
+      const prefix = match[1].toLowerCase();
+      if (!prefixes.has(prefix)) continue;
+      const [from, to] = [Number(match[2]), Number(match[3])].sort((a, b) => a - b);
+      const inRange = options.tasks
+        .filter(task => task.id.toLowerCase().startsWith(prefix) && numberOf(task.id) >= from && numberOf(task.id) <= to)
+        .map(task => task.id);
+      ranged.add(match[0]);
+      if (inRange.length > 0) {
+        add(inRange);
+        note(match[0], `${inRange.length} tasks: ${inRange.join(', ')}`, 'high');
+      } else {
+        note(match[0], tasksLoaded ? 'No loaded tasks in this range' : 'A task range; no tasks file is loaded to expand it', 'low');
+      }
+    }
+
+    for (const match of text.matchAll(/\b([A-Za-z]+)-?(\d+)\b/g)) {
+      const token = match[0];
+      const prefix = match[1].toLowerCase();
+      if (!prefixes.has(prefix) || Array.from(ranged).some(range => range.includes(token))) continue;
+
+      const exact = taskIds.get(token.toLowerCase());
+      if (exact) {
+        add([exact]);
+        continue;
+      }
+      // T12 for T012 and the like
+      const sameNumber = options.tasks.find(task => task.id.toLowerCase().startsWith(prefix) && numberOf(task.id) === Number(match[2]));
+      if (sameNumber) {
+        add([sameNumber.id]);
+        note(token, `Task ${sameNumber.id}`, 'low');
+      } else {
+        add([token.toUpperCase()]);
+        note(token, tasksLoaded ? `Task ${token.toUpperCase()}, which is not in the loaded tasks` : `Task ${token.toUpperCase()} (no tasks file loaded to check)`, 'low');
+      }
+    }
+
+    options.tasks.forEach(task => {
+      if (task.name.length >= 4 && containsWord(lower, task.name) && !found.includes(task.id)) {
+        add([task.id]);
+        note(task.name, `Task ${task.id}`, 'high');
+      }
+    });
+
+    options.skills.forEach(skill => {
+      if (skill.length < 2 || !containsWord(lower, skill)) return;
+      if (options.workerGroups.some(group => normalize(group) === normalize(skill))) return;
+      const skilled = options.tasks
+        .filter(task => task.skills.some(taskSkill => taskSkill.toLowerCase() === skill.toLowerCase()))
+        .map(task => task.id)
+        .filter(id => !found.includes(id));
+      if (skilled.length === 0) return;
+      add(skilled);
+      note(skill, `Tasks needing ${skill}: ${skilled.join(', ')}`, 'low');
+    });
+
+    return found;
+  };
+
+  const resolveWorkerGroup = (allowAll: boolean): string => {
+    const grams = wordGrams(text);
+    for (const group of options.workerGroups) {
+      const match = grams.find(gram => normalize(gram) === normalize(group));
+      if (match) {
+        if (match !== group) note(match, `Worker group ${group}`, 'high');
+        return group;
+      }
+    }
+
+    // Close spellings, e.g. "Fronted" for Frontend
+    let best: { group: string; gram: string; distance: number } | null = null;
+    grams.forEach(gram => {
+      const normalized = normalize(gram);
+      if (normalized.length < 4) return;
+      options.workerGroups.forEach(group => {
+        const distance = levenshtein(normalized, normalize(group));
+        if (distance <= Math.max(1, Math.floor(group.length / 4)) && (!best || distance < best.distance)) {
+          best = { group, gram, distance };
+        }
+      });
+    });
+    if (best) {
+      note(best.gram, `Worker group ${best.group} (closest department)`, 'low');
+      return best.group;
+    }
+
+    if (allowAll && /\b(?:all|every|each|any)\b/i.test(text)) return ALL_WORKERS;
+
+    const named = text.match(/\b(?:in|from|of|to)\s+(?:the\s+)?([A-Z][\w-]*)(?:\s+(?:team|department|group|workers?))?/);
+    if (named && !/^(?:Phase|Phases|T\d+)$/i.test(named[1])) {
+      note(named[1], workersLoaded ? `Worker group ${named[1]}, which no loaded worker belongs to` : `Worker group ${named[1]} (no workers file loaded to check)`, 'low');
+      return named[1];
+    }
+
+    if (allowAll) {
+      note('(no department named)', 'All workers', 'low');
+      return ALL_WORKERS;
+    }
+    return '';
+  };
+
+  const resolvePhases = (): number[] => {
+    const clip = (phases: number[]) => Array.from(new Set(phases.filter(phase => phase >= 1))).sort((a, b) => a - b);
+    const upTo = (last: number) => Array.from({ length: Math.max(0, last) }, (_, index) => index + 1);
+    const between = (from: number, to: number) => upTo(to).filter(phase => phase >= from);
+
+    const relative = lower.match(/\b(before|after|by|no later than|from|starting(?: in| at)?|not before)\s+phase\s+(\d+)/);
+    if (relative) {
+      const phase = Number(relative[2]);
+      const last = Math.max(options.maxPhase, phase);
+      const phases = relative[1] === 'before' ? upTo(phase - 1)
+        : relative[1] === 'after' ? between(phase + 1, last)
+        : ['by', 'no later than'].includes(relative[1]) ? upTo(phase)
+        : between(phase, last);
+      note(relative[0], `Phases ${clip(phases).join(', ') || 'none'}`, 'high');
+      return clip(phases);
+    }
+
+    const listed = text.match(/\bphases?\s+((?:\d+\s*(?:,|and|or|-|–|to|through|thru)?\s*)+)/i);
+    if (!listed) return [];
+    const phases: number[] = [];
+    listed[1].replace(/\s*(?:through|thru|to|–)\s*/gi, '-').split(/\s*(?:,|\band\b|\bor\b|\s)\s*/i).forEach(part => {
+      const [from, to] = part.split('-').map(Number);
+      if (isNaN(from)) return;
+      phases.push(...(to !== undefined && !isNaN(to) ? between(from, to) : [from]));
+    });
+    const beyond = phases.filter(phase => phase > options.maxPhase);
+    if (tasksLoaded && beyond.length > 0) {
+      note(listed[0].trim(), `Phases ${clip(phases).join(', ')}; ${beyond.join(', ')} is past the last phase in the data (${options.maxPhase})`, 'low');
+    }
+    return clip(phases);
+  };
+
+  const resolveColumn = (): { entity: EntityType; field: string } => {
+    const entityWord = lower.match(/\b(task|worker|client)s?\b/);
+    const hinted = entityWord ? `${entityWord[1]}s` as EntityType : null;
+    const grams = wordGrams(text);
+
+    const entities = hinted ? [hinted, ...ENTITY_TYPES.filter(entity => entity !== hinted)] : [...ENTITY_TYPES];
+    for (const entity of entities) {
+      const header = (options.headers[entity] ?? [])
+        .filter(candidate => grams.some(gram => normalize(gram) === normalize(candidate)))
+        .sort((a, b) => b.length - a.length)[0];
+      if (header) return { entity, field: header };
+    }
+
+    const guessed = text.match(/^\s*(?:(?:the|each|every|all)\s+)?(?:(?:task|worker|client)s?(?:'s?)?\s+)?([A-Za-z][\w]*)/i);
+    const field = guessed && !/^(?:must|should|the|each|every|all)$/i.test(guessed[1]) ? guessed[1] : '';
+    note(field || '(no column named)', field ? `Column ${field}, which is not in the loaded files` : 'No column recognised; pick one below', 'low');
+    return { entity: hinted ?? 'tasks', field };
+  };
+
+  let conditions: BusinessRule['conditions'];
+  switch (intent.type) {
+    case 'co-run':
+      conditions = { taskIds: resolveTasks() };
+      break;
+
+    case 'slot-restriction':
+      conditions = { taskIds: resolveTasks(), workerGroup: resolveWorkerGroup(false) };
+      break;
+
+    case 'load-limit': {
+      const limit = text.match(PER_PHASE_PATTERN) ?? text.match(LIMIT_PATTERN) ?? text.match(/\b(\d+)\b/);
+      if (!limit) note('(no number given)', 'At most 1 task per phase', 'low');
+      else if (!PER_PHASE_PATTERN.test(text) && !LIMIT_PATTERN.test(text)) note(limit[0], `At most ${limit[1]} tasks per phase`, 'low');
+      conditions = { workerGroup: resolveWorkerGroup(true), maxSlotsPerPhase: limit ? Number(limit[1]) : 1 };
+      break;
+    }
+
+    case 'phase-window':
+      conditions = { taskIds: resolveTasks(), allowedPhases: resolvePhases() };
+      break;
+
+    case 'regex': {
+      const match = text.match(PATTERN_PATTERN);
+      const pattern = match ? (match[1] ?? match[2] ?? match[3] ?? match[4] ?? match[5] ?? '').replace(/[.,;]$/, '') : '';
+      if (!pattern) {
+        note(match?.[0] ?? text, 'No pattern found; enter one below', 'low');
+      } else if (!isValidPattern(pattern)) {
+        note(pattern, 'Not a valid regular expression', 'low');
+      }
+      conditions = { ...resolveColumn(), pattern };
+      break;
+    }
+
+    case 'custom': {
+      const column = resolveColumn();
+      const phrase = OPERATOR_PHRASES.map(({ pattern, operator }) => ({ match: text.match(pattern), operator })).find(({ match }) => match)!;
+      const value = phrase.operator === 'not-empty'
+        ? ''
+        : (phrase.match!.slice(1).find(group => group !== undefined) ?? '').trim().replace(/^["']|["'.]+$/g, '');
+      conditions = { ...column, operator: phrase.operator, value };
+      break;
+    }
+  }
+
+  const name = text.length > 40 ? `${text.slice(0, 40).trim()}…` : text;
+  return {
+    rule: {
+      id: '',
+      name,
+      type: intent.type,
+      description: `Generated from: "${text}"`,
+      conditions: { ...createDefaultConditions(intent.type), ...conditions },
+      priority: 1,
+      enabled: true
+    } as BusinessRule,
+    findings
+  };
+};
@@ -0,0 +1,162 @@
+import { z } from 'zod';
+import {
+  ALL_WORKERS,
+  BUSINESS_RULE_TYPES,
+  BusinessRule,
+  RuleOptions,
+  businessRuleSchema,
+  normalizeBusinessRules
+} from '@/utils/businessRules';
+import { mergeById, readJsonFile, validateJsonFile } from '@/utils/jsonFile';
+
+// Older versions can still be imported
+export const RULES_FILE_VERSION = '2.0';
+
+const uniqueIds = (rules: Array<{ id?: string | number }>, ctx: z.RefinementCtx) => {
+  const seen = new Set<string>();
+  rules.forEach((rule, index) => {
+    const id = String(rule.id);
+    if (seen.has(id)) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['rules', index, 'id'], message: `Duplicate rule id "${id}"` });
+    }
+    seen.add(id);
+  });
+};
+
+const metadataShape = {
+  timestamp: z.string().optional(),
+  metadata: z.record(z.unknown()).optional()
+};
+
+// 1.0 files stored whatever conditions the form held, usually none
+const legacyRuleSchema = z.object({
+  id: z.union([z.string().min(1), z.number()]),
+  name: z.string().min(1),
+  type: z.enum(BUSINESS_RULE_TYPES),
+  description: z.string().optional(),
+  conditions: z.record(z.unknown()).optional(),
+  // A cleared priority field was NaN, which JSON writes as null; it gets the default priority
+  priority: z.number().nullable().optional(),
+  enabled: z.boolean().optional()
+});
+
+const rulesFileSchemas = {
+  '1.0': z.object({ version: z.literal('1.0'), rules: z.array(legacyRuleSchema), ...metadataShape })
+    .superRefine((file, ctx) => uniqueIds(file.rules, ctx)),
+  '2.0': z.object({ version: z.literal('2.0'), rules: z.array(businessRuleSchema), ...metadataShape })
+    .superRefine((file, ctx) => uniqueIds(file.rules, ctx))
+};
+
+type RulesFileVersion = keyof typeof rulesFileSchemas;
+
+export const SUPPORTED_RULES_FILE_VERSIONS = Object.keys(rulesFileSchemas) as RulesFileVersion[];
+
+export interface ParsedRulesFile {
+  version: RulesFileVersion;
+  rules: BusinessRule[];
+  // Ids of enabled rules that came without usable conditions and were disabled
+  disabledOnImport: string[];
+}
+
+export const serializeRulesFile = (rules: BusinessRule[]): string =>
+  JSON.stringify({
+    version: RULES_FILE_VERSION,
+    timestamp: new Date().toISOString(),
+    rules,
+    metadata: {
+      totalRules: rules.length,
+      enabledRules: rules.filter(r => r.enabled).length,
+      ruleTypes: [...new Set(rules.map(r => r.type))]
+    }
+  }, null, 2);
+
+/**
+ * Parse and validate an exported rules file against the schema of its
+ * `version`. Rules from 1.0 files are brought to the current shape; those
+ * without usable conditions come back disabled. Throws with a readable list
+ * of problems when the file does not match.
+ */
+export const parseRulesFile = (text: string): ParsedRulesFile => {
+  const json = readJsonFile(text);
+  const version = json && typeof json === 'object' ? (json as { version?: unknown }).version : undefined;
+  if (!SUPPORTED_RULES_FILE_VERSIONS.includes(version as RulesFileVersion)) {
+    throw new Error(`Unsupported version ${JSON.stringify(version ?? null)}; expected ${SUPPORTED_RULES_FILE_VERSIONS.join(' or ')}`);
+  }
+
+  const file = validateJsonFile(json, rulesFileSchemas[version as RulesFileVersion]);
+  if (version !== '1.0') {
+    return { version: version as RulesFileVersion, rules: file.rules as BusinessRule[], disabledOnImport: [] };
+  }
+
+  const rules = normalizeBusinessRules(file.rules);
+  return {
+    version,
+    rules,
+    disabledOnImport: rules
+      .filter((rule, index) => !rule.enabled && file.rules[index].enabled !== false)
+      .map(rule => rule.id)
+  };
+};
+
+const RULE_FIELDS = ['name', 'type', 'description', 'priority', 'enabled', 'conditions'] as const;
+
+export interface RuleDiff {
+  added: BusinessRule[];
+  changed: Array<{ before: BusinessRule; after: BusinessRule; fields: string[] }>;
+  // Current rules the file does not contain; dropped only on replace
+  removed: BusinessRule[];
+  unchanged: BusinessRule[];
+}
+
+// Rules are matched by id
+export const diffBusinessRules = (current: BusinessRule[], incoming: BusinessRule[]): RuleDiff => {
+  const currentById = new Map(current.map(rule => [rule.id, rule]));
+  const incomingIds = new Set(incoming.map(rule => rule.id));
+  const diff: RuleDiff = { added: [], changed: [], removed: [], unchanged: [] };
+
+  incoming.forEach(rule => {
+    const before = currentById.get(rule.id);
+    if (!before) {
+      diff.added.push(rule);
+      return;
+    }
+    const fields = RULE_FIELDS.filter(field => JSON.stringify(before[field]) !== JSON.stringify(rule[field]));
+    if (fields.length > 0) {
+      diff.changed.push({ before, after: rule, fields: [...fields] });
+    } else {
+      diff.unchanged.push(rule);
+    }
+  });
+  diff.removed = current.filter(rule => !incomingIds.has(rule.id));
+
+  return diff;
+};
+
+// Imported rules replace current rules with the same id; the rest are kept
+export const mergeBusinessRules = (current: BusinessRule[], incoming: BusinessRule[]): BusinessRule[] =>
+  mergeById(current, incoming);
+
+export interface MissingReferences {
+  tasks: string[];
+  workerGroups: string[];
+}
+
+/**
+ * Task IDs and worker groups a rule names that the loaded data lacks. Only
+ * checked for entities that are loaded.
+ */
+export const findMissingReferences = (rule: BusinessRule, options: RuleOptions): MissingReferences => {
+  const missing: MissingReferences = { tasks: [], workerGroups: [] };
+
+  if (options.headers.tasks && 'taskIds' in rule.conditions) {
+    const known = new Set(options.tasks.map(task => task.id));
+    missing.tasks = rule.conditions.taskIds.filter(id => !known.has(id));
+  }
+  if (options.headers.workers && 'workerGroup' in rule.conditions) {
+    const group = rule.conditions.workerGroup;
+    const known = options.workerGroups.some(workerGroup => workerGroup.toLowerCase() === group.toLowerCase());
+    if (group && group !== ALL_WORKERS && !known) missing.workerGroups = [group];
+  }
+
+  return missing;
+};
@@ -0,0 +1,106 @@
+import { z } from 'zod';
+import { RuleDataFile, getRuleOptions } from '@/utils/businessRules';
+import { SortState } from '@/utils/gridModel';
+import { mergeById, parseJsonFile } from '@/utils/jsonFile';
+import { Query, QueryError, bindQuery, executeQuery, parseQuery } from '@/utils/queryLanguage';
+
+export const VIEWS_FILE_VERSION = '1.0';
+
+const queryTextSchema = z.string().min(1, 'View has no query').superRefine((text, ctx) => {
+  try {
+    parseQuery(text);
+  } catch (error) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, message: error instanceof Error ? error.message : 'Invalid query' });
+  }
+});
+
+export const savedViewSchema = z.object({
+  id: z.string().min(1),
+  name: z.string().min(1, 'View name is required'),
+  // Query language text of the view's filter
+  query: queryTextSchema,
+  sort: z.object({ column: z.string().min(1), direction: z.enum(['asc', 'desc']) }).nullable(),
+  // Columns to show, in order; null shows every column
+  columns: z.array(z.string()).nullable(),
+  // Pinned views get a button above the Data tab grids
+  pinned: z.boolean()
+});
+
+export type SavedView = z.infer<typeof savedViewSchema>;
+
+const viewsFileSchema = z.object({
+  version: z.literal(VIEWS_FILE_VERSION),
+  timestamp: z.string().optional(),
+  views: z.array(savedViewSchema)
+}).superRefine((file, ctx) => {
+  const seen = new Set<string>();
+  file.views.forEach((view, index) => {
+    if (seen.has(view.id)) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['views', index, 'id'], message: `Duplicate view id "${view.id}"` });
+    }
+    seen.add(view.id);
+  });
+});
+
+export const createSavedView = (
+  name: string,
+  query: string,
+  layout: { sort: SortState | null; columns: string[] | null } = { sort: null, columns: null }
+): SavedView => ({
+  id: Date.now().toString(),
+  name: name.trim(),
+  query,
+  sort: layout.sort,
+  columns: layout.columns,
+  pinned: true
+});
+
+// Views restored from a workspace; anything that no longer fits the schema is dropped
+export const normalizeSavedViews = (views: unknown[] | undefined): SavedView[] =>
+  (views ?? []).flatMap(view => {
+    const result = savedViewSchema.safeParse(view);
+    return result.success ? [result.data as SavedView] : [];
+  });
+
+export const serializeViewsFile = (views: SavedView[]): string =>
+  JSON.stringify({ version: VIEWS_FILE_VERSION, timestamp: new Date().toISOString(), views }, null, 2);
+
+/**
+ * Parse and validate an exported views file. Every query must parse; whether
+ * its columns exist is only known once it is run against the loaded data.
+ */
+export const parseViewsFile = (text: string): SavedView[] =>
+  parseJsonFile(text, viewsFileSchema).views as SavedView[];
+
+// Imported views replace current views with the same id; the rest are kept
+export const mergeSavedViews = (current: SavedView[], incoming: SavedView[]): SavedView[] =>
+  mergeById(current, incoming);
+
+export type ViewResolution =
+  | { query: Query; fileName: string; rows: number[]; total: number }
+  | { error: string };
+
+/**
+ * Run each view's query against the loaded files. Views whose entity is not
+ * loaded, or that name missing columns, come back with the reason instead.
+ */
+export const resolveSavedViews = (
+  views: SavedView[],
+  files: { [fileName: string]: RuleDataFile }
+): Map<string, ViewResolution> => {
+  const { headers } = getRuleOptions(files);
+  const resolved = new Map<string, ViewResolution>();
+
+  views.forEach(view => {
+    try {
+      const query = bindQuery(parseQuery(view.query), headers);
+      const result = executeQuery(query, files);
+      resolved.set(view.id, { query, fileName: result.fileName, rows: result.rows, total: files[result.fileName].data.length });
+    } catch (error) {
+      if (!(error instanceof QueryError)) throw error;
+      resolved.set(view.id, { error: error.message });
+    }
+  });
+
+  return resolved;
+};
@@ -0,0 +1,279 @@
+import { ENTITY_TYPES, EntityType } from '@/utils/validationRules';
+
+type ValueKind = 'id' | 'id-list' | 'text' | 'email' | 'phone' | 'number' | 'json-array' | 'enum';
+
+interface SchemaColumn {
+  name: string;
+  aliases: string[];
+  kind: ValueKind;
+  // ID prefix for id/id-list columns, allowed values for enum columns
+  prefix?: string;
+  values?: string[];
+}
+
+interface EntitySchema {
+  label: string;
+  columns: SchemaColumn[];
+}
+
+/**
+ * Maps each source header to a canonical column, or null to keep it as is.
+ */
+export type HeaderMapping = { [sourceHeader: string]: string | null };
+
+export interface EntityCandidate {
+  entity: EntityType;
+  confidence: number;
+  mapping: HeaderMapping;
+  // Match score (0-1) per mapped source header
+  scores: { [sourceHeader: string]: number };
+}
+
+export const ENTITY_SCHEMAS: Record<EntityType, EntitySchema> = {
+  clients: {
+    label: 'Clients',
+    columns: [
+      { name: 'ClientID', aliases: ['client id', 'client', 'client no', 'customer id', 'customer', 'account id'], kind: 'id', prefix: 'C' },
+      { name: 'Name', aliases: ['client name', 'customer name', 'company', 'company name', 'name'], kind: 'text' },
+      { name: 'Email', aliases: ['email address', 'e-mail', 'mail', 'contact email'], kind: 'email' },
+      { name: 'Industry', aliases: ['sector', 'vertical'], kind: 'text' },
+      { name: 'ProjectType', aliases: ['project type', 'project', 'engagement type'], kind: 'text' },
+      { name: 'ContactPerson', aliases: ['contact person', 'contact', 'contact name', 'account manager'], kind: 'text' },
+      { name: 'PhoneNumber', aliases: ['phone number', 'phone', 'telephone', 'tel', 'mobile'], kind: 'phone' },
+      { name: 'TaskIDs', aliases: ['task ids', 'tasks', 'task list', 'requested tasks'], kind: 'id-list', prefix: 'T' }
+    ]
+  },
+  workers: {
+    label: 'Workers',
+    columns: [
+      { name: 'WorkerID', aliases: ['worker id', 'worker', 'employee id', 'employee', 'staff id', 'resource id'], kind: 'id', prefix: 'W' },
+      { name: 'Name', aliases: ['worker name', 'employee name', 'full name', 'name'], kind: 'text' },
+      { name: 'Email', aliases: ['email address', 'e-mail', 'mail', 'work email'], kind: 'email' },
+      { name: 'Skills', aliases: ['skill set', 'skillset', 'competencies', 'skill'], kind: 'json-array' },
+      { name: 'MaxLoadPerPhase', aliases: ['max load per phase', 'max load', 'capacity', 'max capacity'], kind: 'number' },
+      { name: 'CurrentLoad', aliases: ['current load', 'load', 'utilization', 'allocated'], kind: 'number' },
+      { name: 'Availability', aliases: ['available', 'status'], kind: 'enum', values: ['available', 'busy', 'unavailable', 'on leave'] },
+      { name: 'Department', aliases: ['dept', 'team', 'group', 'worker group'], kind: 'text' },
+      { name: 'HourlyRate', aliases: ['hourly rate', 'rate', 'cost per hour', 'hourly cost'], kind: 'number' }
+    ]
+  },
+  tasks: {
+    label: 'Tasks',
+    columns: [
+      { name: 'TaskID', aliases: ['task id', 'task', 'task no', 'ticket id', 'job id'], kind: 'id', prefix: 'T' },
+      { name: 'Name', aliases: ['task name', 'title', 'summary', 'name'], kind: 'text' },
+      { name: 'ClientID', aliases: ['client id', 'client', 'customer id', 'customer'], kind: 'id', prefix: 'C' },
+      { name: 'AssignedWorkerID', aliases: ['assigned worker id', 'assigned worker', 'assignee', 'worker id', 'owner'], kind: 'id', prefix: 'W' },
+      { name: 'EstimatedHours', aliases: ['estimated hours', 'estimate', 'est hours', 'duration'], kind: 'number' },
+      { name: 'ActualHours', aliases: ['actual hours', 'actuals', 'hours spent', 'time spent'], kind: 'number' },
+      { name: 'Status', aliases: ['state', 'task status'], kind: 'enum', values: ['not started', 'in progress', 'completed', 'blocked', 'cancelled'] },
+      { name: 'Priority', aliases: ['prio', 'importance'], kind: 'enum', values: ['low', 'medium', 'high', 'critical'] },
+      { name: 'Phases', aliases: ['phase count', 'number of phases', 'duration phases'], kind: 'number' },
+      { name: 'PreferredPhase', aliases: ['preferred phase', 'phase', 'target phase'], kind: 'number' },
+      { name: 'Dependencies', aliases: ['depends on', 'dependency', 'predecessors', 'blocked by'], kind: 'id-list', prefix: 'T' },
+      { name: 'Skills', aliases: ['required skills', 'skill', 'required skill'], kind: 'text' }
+    ]
+  }
+};
+
+// Below this a header is left unmapped rather than guessed
+const MATCH_THRESHOLD = 0.55;
+const NAME_WEIGHT = 0.75;
+const VALUE_WEIGHT = 0.25;
+const SAMPLE_SIZE = 20;
+
+export const normalizeHeader = (header: string) => header.toLowerCase().replace(/[^a-z0-9]/g, '');
+
+const levenshtein = (a: string, b: string): number => {
+  const previous = Array.from({ length: b.length + 1 }, (_, i) => i);
+
+  for (let i = 1; i <= a.length; i++) {
+    let diagonal = previous[0];
+    previous[0] = i;
+    for (let j = 1; j <= b.length; j++) {
+      const above = previous[j];
+      previous[j] = Math.min(
+        previous[j] + 1,
+        previous[j - 1] + 1,
+        diagonal + (a[i - 1] === b[j - 1] ? 0 : 1)
+      );
+      diagonal = above;
+    }
+  }
+
+  return previous[b.length];
+};
+
+const stringSimilarity = (a: string, b: string): number => {
+  if (!a || !b) return 0;
+  if (a === b) return 1;
+  // "clientidentifier" vs "clientid" style abbreviations
+  if (Math.min(a.length, b.length) >= 4 && (a.includes(b) || b.includes(a))) return 0.85;
+  return 1 - levenshtein(a, b) / Math.max(a.length, b.length);
+};
+
+const nameSimilarity = (header: string, column: SchemaColumn): number => {
+  const normalized = normalizeHeader(header);
+  return Math.max(...[column.name, ...column.aliases].map(name => stringSimilarity(normalized, normalizeHeader(name))));
+};
+
+const valueMatches = (value: string, column: SchemaColumn): boolean => {
+  const idPattern = new RegExp(`^${column.prefix ?? '[A-Z]'}\\d+$`, 'i');
+
+  switch (column.kind) {
+    case 'id':
+      return idPattern.test(value);
+    case 'id-list':
+      return value.startsWith('[')
+        ? /^\[.*\]$/.test(value)
+        : value.split(/[,;]/).every(part => idPattern.test(part.trim()));
+    case 'email':
+      return /^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(value);
+    case 'phone':
+      return /^[+]?[\d\s().-]{7,}$/.test(value);
+    case 'number':
+      return !isNaN(Number(value));
+    case 'json-array':
+      return /^\[.*\]$/.test(value) || value.includes(',');
+    case 'enum':
+      return (column.values ?? []).includes(value.toLowerCase());
+    case 'text':
+      return isNaN(Number(value));
+  }
+};
+
+// Share of sampled non-empty values that look like the column's kind
+const valueFit = (header: string, rows: Record<string, unknown>[], column: SchemaColumn): number => {
+  const values = rows
+    .slice(0, SAMPLE_SIZE)
+    .map(row => row[header])
+    .filter(value => value !== undefined && value !== null && String(value).trim() !== '')
+    .map(value => String(value).trim());
+
+  if (values.length === 0) return 0.5;
+  return values.filter(value => valueMatches(value, column)).length / values.length;
+};
+
+/**
+ * Propose a canonical column for every source header. Each canonical column
+ * is used at most once; the best scoring pairs are assigned first.
+ */
+export const proposeMapping = (
+  headers: string[],
+  rows: Record<string, unknown>[],
+  entity: EntityType
+): { mapping: HeaderMapping; scores: { [sourceHeader: string]: number } } => {
+  const columns = ENTITY_SCHEMAS[entity].columns;
+  const pairs: Array<{ header: string; column: string; score: number }> = [];
+
+  headers.forEach(header => {
+    columns.forEach(column => {
+      const nameScore = nameSimilarity(header, column);
+      const score = rows.length > 0
+        ? nameScore * NAME_WEIGHT + valueFit(header, rows, column) * VALUE_WEIGHT
+        : nameScore;
+      if (score >= MATCH_THRESHOLD) {
+        pairs.push({ header, column: column.name, score });
+      }
+    });
+  });
+
+  const mapping: HeaderMapping = Object.fromEntries(headers.map(header => [header, null]));
+  const scores: { [sourceHeader: string]: number } = {};
+  const usedColumns = new Set<string>();
+
+  pairs
+    .sort((a, b) => b.score - a.score)
+    .forEach(({ header, column, score }) => {
+      if (mapping[header] !== null || usedColumns.has(column)) return;
+      mapping[header] = column;
+      scores[header] = score;
+      usedColumns.add(column);
+    });
+
+  return { mapping, scores };
+};
+
+/**
+ * Score a file against every known entity schema, best match first.
+ * Confidence combines how well the mapped headers match with how much of the
+ * schema they cover, and rewards finding the entity's own ID column.
+ */
+export const detectEntity = (headers: string[], rows: Record<string, unknown>[] = []): EntityCandidate[] => {
+  return ENTITY_TYPES
+    .map(entity => {
+      const { mapping, scores } = proposeMapping(headers, rows, entity);
+      const columns = ENTITY_SCHEMAS[entity].columns;
+      const matched = Object.values(scores);
+      const quality = matched.length > 0 ? matched.reduce((sum, score) => sum + score, 0) / matched.length : 0;
+      const coverage = matched.length / columns.length;
+      const hasPrimaryKey = Object.values(mapping).includes(columns[0].name);
+
+      return {
+        entity,
+        confidence: Math.min(1, quality * coverage * (hasPrimaryKey ? 1.2 : 0.8)),
+        mapping,
+        scores
+      };
+    })
+    .sort((a, b) => b.confidence - a.confidence);
+};
+
+const headerOnlyCache = new Map<string, EntityType | null>();
+
+/**
+ * Best entity guess from headers alone, for files uploaded without a
+ * confirmed mapping. Null when nothing matches convincingly.
+ */
+export const detectEntityFromHeaders = (headers: string[]): EntityType | null => {
+  const signature = getHeaderSignature(headers);
+  if (!headerOnlyCache.has(signature)) {
+    const [best] = detectEntity(headers);
+    headerOnlyCache.set(signature, best && best.confidence >= 0.3 ? best.entity : null);
+  }
+  return headerOnlyCache.get(signature)!;
+};
+
+export const getHeaderSignature = (headers: string[]) =>
+  headers.map(normalizeHeader).sort().join('|');
+
+/**
+ * Rename mapped columns to their canonical names. Unmapped columns keep
+ * their original header so no data is dropped.
+ */
+export const applyHeaderMapping = (
+  rows: Record<string, unknown>[],
+  headers: string[],
+  mapping: HeaderMapping
+): { data: Record<string, unknown>[]; headers: string[] } => {
+  const targetFor = (header: string) => mapping[header] ?? header;
+
+  return {
+    headers: headers.map(targetFor),
+    data: rows.map(row => Object.fromEntries(headers.map(header => [targetFor(header), row[header]])))
+  };
+};
+
+const MAPPING_STORAGE_KEY = 'data-alchemist:header-mappings';
+
+interface RememberedMapping {
+  entity: EntityType;
+  mapping: HeaderMapping;
+}
+
+const readRememberedMappings = (): { [signature: string]: RememberedMapping } => {
+  try {
+    return JSON.parse(localStorage.getItem(MAPPING_STORAGE_KEY) || '{}');
+  } catch {
+    return {};
+  }
+};
+
+export const getRememberedMapping = (headers: string[]): RememberedMapping | null =>
+  readRememberedMappings()[getHeaderSignature(headers)] ?? null;
+
+export const rememberMapping = (headers: string[], entity: EntityType, mapping: HeaderMapping) => {
+  const remembered = readRememberedMappings();
+  remembered[getHeaderSignature(headers)] = { entity, mapping };
+  localStorage.setItem(MAPPING_STORAGE_KEY, JSON.stringify(remembered));
+};
@@ -1,13 +1,16 @@
+import { DEFAULT_VALIDATION_RULES, EntityType, ValidationRule } from '@/utils/validationRules';
+import { detectEntityFromHeaders } from '@/utils/schemaDetection';
+import {
+  buildDependencyGraph,
+  findDependencyCycles,
+  findPhaseInversions,
+  formatDependencyPath,
+  getCycleThrough,
+  indexRowsById,
+  parseIdList
+} from '@/utils/dependencyGraph';
 
-export interface ValidationRule {
-  id: string;
-  name: string;
-  type: 'required' | 'email' | 'phone' | 'reference' | 'duplicate' | 'range' | 'regex' | 'custom';
-  field: string;
-  message: string;
-  severity: 'error' | 'warning';
-  config?: any;
-}
+export type { ValidationRule } from '@/utils/validationRules';
 
 export interface ValidationError {
   row: number;
@@ -17,119 +20,289 @@ export interface ValidationError {
   ruleId: string;
 }
 
+interface ReferenceSourceFile {
+  name: string;
+  headers: string[];
+  entityType?: EntityType | null;
+  data: Record<string, unknown>[];
+}
+
+type Row = Record<string, unknown>;
+
+// Target rows by ID for each reference rule, built once per validation pass
+type ReferenceIndex = Map<ValidationRule, Map<string, Row>>;
+
+// Rule types that compare rows with each other rather than one row at a time
+const FILE_RULE_TYPES: ValidationRule['type'][] = ['duplicate', 'dependency-cycle'];
+
+/**
+ * One unit of validation work: a rule over all or some rows of a file, a
+ * rule comparing all rows of a file, or the unreferenced-row side of a
+ * reference rule (run on the referenced file).
+ */
+export type ValidationCheck =
+  | { kind: 'row'; rule: ValidationRule; rows?: number[] }
+  | { kind: 'file'; rule: ValidationRule }
+  | { kind: 'unreferenced'; rule: ValidationRule };
+
 export class ValidationEngine {
-  private rules: ValidationRule[] = [
-    {
-      id: 'req-client-name',
-      name: 'Required Client Name',
-      type: 'required',
-      field: 'Name',
-      message: 'Client name is required',
-      severity: 'error'
-    },
-    {
-      id: 'email-format',
-      name: 'Email Format',
-      type: 'email',
-      field: 'Email',
-      message: 'Invalid email format',
-      severity: 'error'
-    },
-    {
-      id: 'phone-format',
-      name: 'Phone Format',
-      type: 'phone',
-      field: 'PhoneNumber',
-      message: 'Invalid phone number format',
-      severity: 'warning'
-    },
-    {
-      id: 'duplicate-ids',
-      name: 'Duplicate IDs',
-      type: 'duplicate',
-      field: 'ClientID',
-      message: 'Duplicate ID found',
-      severity: 'error'
-    },
-    {
-      id: 'worker-load-range',
-      name: 'Worker Load Range',
-      type: 'range',
-      field: 'CurrentLoad',
-      message: 'Current load exceeds maximum capacity',
-      severity: 'warning',
-      config: { min: 0, max: 100 }
-    },
-    {
-      id: 'task-reference',
-      name: 'Task References',
-      type: 'reference',
-      field: 'TaskIDs',
-      message: 'Referenced task ID not found',
-      severity: 'error'
-    },
-    {
-      id: 'hourly-rate-range',
-      name: 'Hourly Rate Range',
-      type: 'range',
-      field: 'HourlyRate',
-      message: 'Hourly rate seems unusually high/low',
-      severity: 'warning',
-      config: { min: 15, max: 200 }
-    },
-    {
-      id: 'skill-format',
-      name: 'Skills Format',
-      type: 'regex',
-      field: 'Skills',
-      message: 'Skills must be in JSON array format',
-      severity: 'error',
-      config: { pattern: /^\[.*\]$/ }
+  private rules: ValidationRule[] = DEFAULT_VALIDATION_RULES;
+  private patternCache = new Map<string, RegExp>();
+
+  /**
+   * Work out which entity a file holds: the type confirmed in the header
+   * mapping step, or the best guess from its headers.
+   */
+  getEntityType(file: { headers: string[]; entityType?: EntityType | null }): EntityType | null {
+    return file.entityType ?? detectEntityFromHeaders(file.headers);
+  }
+
+  private getActiveRules(entityType: EntityType | null): ValidationRule[] {
+    return this.rules.filter(rule => 
+      rule.enabled && (rule.entity === 'all' || rule.entity === entityType)
+    );
+  }
+
+  private getPattern(pattern: string): RegExp {
+    if (!this.patternCache.has(pattern)) {
+      this.patternCache.set(pattern, new RegExp(pattern));
     }
-  ];
+    return this.patternCache.get(pattern)!;
+  }
+
+  /**
+   * Every check that applies to a file holding `entityType`, each covering
+   * all rows.
+   */
+  getChecks(file: { headers: string[]; entityType?: EntityType | null }): ValidationCheck[] {
+    const ownEntity = this.getEntityType(file);
+    const checks: ValidationCheck[] = this.getActiveRules(ownEntity).map(rule =>
+      FILE_RULE_TYPES.includes(rule.type) ? { kind: 'file', rule } : { kind: 'row', rule }
+    );
 
-  validateData(data: any[], headers: string[], fileName: string, allFiles?: { [key: string]: any }): ValidationError[] {
+    if (ownEntity) {
+      this.rules
+        .filter(rule =>
+          rule.enabled &&
+          rule.type === 'reference' &&
+          rule.entity !== 'all' &&
+          rule.config?.reportUnreferenced &&
+          rule.config.target?.entity === ownEntity
+        )
+        .forEach(rule => checks.push({ kind: 'unreferenced', rule }));
+    }
+
+    return checks;
+  }
+
+  validateData(
+    data: any[],
+    headers: string[],
+    fileName: string,
+    allFiles?: { [key: string]: any },
+    entityType?: EntityType | null
+  ): ValidationError[] {
+    return this.runChecks(this.getChecks({ headers, entityType }), data, headers, allFiles, entityType);
+  }
+
+  /**
+   * Run a subset of a file's checks, e.g. only the rules that read an edited
+   * column. Returns exactly the errors those checks own.
+   */
+  runChecks(
+    checks: ValidationCheck[],
+    data: Row[],
+    headers: string[],
+    allFiles?: { [key: string]: ReferenceSourceFile },
+    entityType?: EntityType | null
+  ): ValidationError[] {
     const errors: ValidationError[] = [];
-    const duplicateTracker = new Map<string, number[]>();
+    const ownEntity = this.getEntityType({ headers, entityType });
+    const rowChecks = checks.filter((check): check is Extract<ValidationCheck, { kind: 'row' }> => check.kind === 'row');
+    const referenceIndex = this.buildReferenceIndex(rowChecks.map(check => check.rule), data, ownEntity, allFiles);
 
-    data.forEach((row, rowIndex) => {
-      this.rules.forEach(rule => {
-        const fieldValue = row[rule.field];
-        const error = this.validateField(fieldValue, rule, rowIndex, row, allFiles);
-        
-        if (error) {
-          errors.push(error);
-        }
+    const validateRow = (rule: ValidationRule, rowIndex: number) => {
+      const row = data[rowIndex];
+      if (!row) return;
+      const error = this.validateField(row[rule.field], rule, rowIndex, row, referenceIndex);
+      if (error) errors.push(error);
+    };
 
-        // Track duplicates
-        if (rule.type === 'duplicate' && fieldValue) {
-          if (!duplicateTracker.has(fieldValue)) {
-            duplicateTracker.set(fieldValue, []);
-          }
-          duplicateTracker.get(fieldValue)!.push(rowIndex);
-        }
-      });
+    // Whole-file row checks go row by row so errors come out in reading order
+    const allRowRules = rowChecks.filter(check => !check.rows).map(check => check.rule);
+    if (allRowRules.length > 0) {
+      data.forEach((_row, rowIndex) => allRowRules.forEach(rule => validateRow(rule, rowIndex)));
+    }
+    rowChecks.forEach(check => check.rows?.forEach(rowIndex => validateRow(check.rule, rowIndex)));
+
+    checks.forEach(check => {
+      if (check.kind === 'file') {
+        errors.push(...(check.rule.type === 'duplicate'
+          ? this.findDuplicates(data, check.rule)
+          : this.findDependencyIssues(data, check.rule)));
+      } else if (check.kind === 'unreferenced') {
+        errors.push(...this.findUnreferencedRows(data, check.rule, ownEntity, allFiles));
+      }
+    });
+
+    return errors;
+  }
+
+  private findDuplicates(data: Row[], rule: ValidationRule): ValidationError[] {
+    // Rows seen per value
+    const tracker = new Map<unknown, number[]>();
+    data.forEach((row, rowIndex) => {
+      const fieldValue = row[rule.field];
+      if (!fieldValue) return;
+      if (!tracker.has(fieldValue)) {
+        tracker.set(fieldValue, []);
+      }
+      tracker.get(fieldValue)!.push(rowIndex);
     });
 
-    // Add duplicate errors
-    duplicateTracker.forEach((rows, value) => {
+    const errors: ValidationError[] = [];
+    tracker.forEach((rows, value) => {
       if (rows.length > 1) {
         rows.forEach(rowIndex => {
           errors.push({
             row: rowIndex,
-            column: 'ClientID',
+            column: rule.field,
             message: `Duplicate ID "${value}" found in rows ${rows.map(r => r + 1).join(', ')}`,
-            severity: 'error',
-            ruleId: 'duplicate-ids'
+            severity: rule.severity,
+            ruleId: rule.id
           });
         });
       }
     });
+    return errors;
+  }
+
+  /**
+   * Rows of the file being validated, or of the loaded file holding `entity`.
+   * The file's own rows win so self references see unsaved edits.
+   */
+  private getEntityRows(
+    entity: EntityType,
+    data: Row[],
+    ownEntity: EntityType | null,
+    allFiles?: { [key: string]: ReferenceSourceFile }
+  ): Row[] | null {
+    if (entity === ownEntity) return data;
+    const file = allFiles && Object.values(allFiles).find(candidate => this.getEntityType(candidate) === entity);
+    return file ? file.data : null;
+  }
+
+  private buildReferenceIndex(
+    rules: ValidationRule[],
+    data: Row[],
+    ownEntity: EntityType | null,
+    allFiles?: { [key: string]: ReferenceSourceFile }
+  ): ReferenceIndex {
+    const index: ReferenceIndex = new Map();
+    // Rules pointing at the same column share one lookup
+    const byTarget = new Map<string, Map<string, Row> | null>();
+
+    rules.forEach(rule => {
+      const target = rule.type === 'reference' ? rule.config?.target : undefined;
+      if (!target) return;
+
+      const key = `${target.entity}.${target.field}`;
+      if (!byTarget.has(key)) {
+        const rows = this.getEntityRows(target.entity, data, ownEntity, allFiles);
+        byTarget.set(key, rows && this.rowsById(rows, target.field));
+      }
+      // Without the target file loaded there is nothing to check against
+      const rowsById = byTarget.get(key);
+      if (rowsById) index.set(rule, rowsById);
+    });
+
+    return index;
+  }
+
+  private rowsById(rows: Row[], field: string): Map<string, Row> {
+    const rowsById = new Map<string, Row>();
+    indexRowsById(rows, field).forEach((rowIndex, id) => rowsById.set(id, rows[rowIndex]));
+    return rowsById;
+  }
+
+  /**
+   * The other side of a reference rule that asks for it: rows of this file
+   * that no row of the referencing entity points at.
+   */
+  private findUnreferencedRows(
+    data: Row[],
+    rule: ValidationRule,
+    ownEntity: EntityType | null,
+    allFiles?: { [key: string]: ReferenceSourceFile }
+  ): ValidationError[] {
+    const errors: ValidationError[] = [];
+    const target = rule.config?.target;
+    if (!ownEntity || !target || rule.entity === 'all') return errors;
+
+    const sourceRows = this.getEntityRows(rule.entity, data, ownEntity, allFiles);
+    if (!sourceRows) return errors;
+
+    const referenced = new Set<string>();
+    sourceRows.forEach(row => parseIdList(row[rule.field]).forEach(id => referenced.add(id)));
+
+    data.forEach((row, rowIndex) => {
+      const id = row[target.field];
+      if (id === undefined || id === null || String(id).trim() === '') return;
+      if (!referenced.has(String(id).trim())) {
+        errors.push({
+          row: rowIndex,
+          column: target.field,
+          message: `${target.field} ${String(id).trim()} is not referenced by any ${rule.entity} ${rule.field}`,
+          severity: 'warning',
+          ruleId: rule.id
+        });
+      }
+    });
+
+    return errors;
+  }
+
+  /**
+   * Self dependencies, circular dependencies of any length and dependencies
+   * on tasks preferred in a later phase, reported on the dependent row.
+   */
+  private findDependencyIssues(data: Row[], rule: ValidationRule): ValidationError[] {
+    const graph = buildDependencyGraph(data, {
+      idField: rule.config?.idField ?? 'TaskID',
+      dependenciesField: rule.field,
+      phaseField: rule.config?.phaseField
+    });
+    const errors: ValidationError[] = [];
+    const report = (taskId: string, message: string) => errors.push({
+      row: graph.nodes.get(taskId)!.row,
+      column: rule.field,
+      message,
+      severity: rule.severity,
+      ruleId: rule.id
+    });
+
+    graph.nodes.forEach(node => {
+      if (node.dependsOnSelf) report(node.id, `${node.id} depends on itself`);
+    });
+    findDependencyCycles(graph).forEach(cycle => {
+      cycle.tasks.forEach(taskId => {
+        const path = getCycleThrough(graph, cycle, taskId);
+        report(taskId, path
+          ? `Circular dependency: ${formatDependencyPath(path)}`
+          : `${taskId} is in a circular dependency between ${cycle.tasks.length} tasks, e.g. ${formatDependencyPath(cycle.path)}`);
+      });
+    });
+    findPhaseInversions(graph).forEach(inversion => {
+      report(
+        inversion.task,
+        `${inversion.task} (${rule.config?.phaseField} ${inversion.taskPhase}) depends on ${inversion.dependency}, which is preferred in later phase ${inversion.dependencyPhase}`
+      );
+    });
 
     return errors;
   }
 
-  private validateField(value: any, rule: ValidationRule, rowIndex: number, row: any, allFiles?: any): ValidationError | null {
+  private validateField(value: unknown, rule: ValidationRule, rowIndex: number, row: Record<string, unknown>, referenceIndex: ReferenceIndex): ValidationError | null {
     switch (rule.type) {
       case 'required':
         if (!value || String(value).trim() === '') {
@@ -144,7 +317,7 @@ export class ValidationEngine {
         break;
 
       case 'email':
-        if (value && !/^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(value)) {
+        if (value && !/^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(String(value))) {
           return {
             row: rowIndex,
             column: rule.field,
@@ -156,7 +329,7 @@ export class ValidationEngine {
         break;
 
       case 'phone':
-        if (value && !/^[\+]?[1-9][\d]{0,15}$/.test(value.replace(/[-\s\(\)]/g, ''))) {
+        if (value && !/^[\+]?[1-9][\d]{0,15}$/.test(String(value).replace(/[-\s\(\)]/g, ''))) {
           return {
             row: rowIndex,
             column: rule.field,
@@ -167,21 +340,98 @@ export class ValidationEngine {
         }
         break;
 
-      case 'range':
-        const numValue = parseFloat(value);
-        if (!isNaN(numValue) && (numValue < rule.config.min || numValue > rule.config.max)) {
+      case 'range': {
+        const numValue = parseFloat(String(value));
+        const min = rule.config?.min ?? -Infinity;
+        let max = rule.config?.max ?? Infinity;
+        let maxLabel = String(rule.config?.max ?? '…');
+        // The upper bound can come from another column of the same row
+        const maxField = rule.config?.maxField;
+        if (maxField) {
+          const limit = parseFloat(String(row[maxField]));
+          if (isNaN(limit)) break;
+          if (limit < max) {
+            max = limit;
+            maxLabel = `${limit} (${maxField})`;
+          }
+        }
+        if (!isNaN(numValue) && (numValue < min || numValue > max)) {
           return {
             row: rowIndex,
             column: rule.field,
-            message: `${rule.message} (${rule.config.min}-${rule.config.max})`,
+            message: `${rule.message}: ${rule.field} ${numValue} is outside ${rule.config?.min ?? '…'}..${maxLabel}`,
             severity: rule.severity,
             ruleId: rule.id
           };
         }
         break;
+      }
+
+      case 'ratio': {
+        const otherField = rule.config?.otherField;
+        const numValue = parseFloat(String(value));
+        const base = otherField ? parseFloat(String(row[otherField])) : NaN;
+        if (isNaN(numValue) || isNaN(base)) break;
+
+        if (base <= 0) {
+          return {
+            row: rowIndex,
+            column: rule.field,
+            message: `${rule.message}: ${otherField} is ${base}, so ${rule.field} ${numValue} cannot be compared`,
+            severity: rule.severity,
+            ruleId: rule.id
+          };
+        }
+        const ratio = numValue / base;
+        const { min, max } = rule.config ?? {};
+        if (ratio < (min ?? -Infinity) || ratio > (max ?? Infinity)) {
+          const expected = min === undefined ? `at most ${max}×` : max === undefined ? `at least ${min}×` : `${min}×–${max}×`;
+          return {
+            row: rowIndex,
+            column: rule.field,
+            message: `${rule.message}: ${rule.field} ${numValue} is ${ratio.toFixed(2)}× ${otherField} ${base} (expected ${expected})`,
+            severity: rule.severity,
+            ruleId: rule.id
+          };
+        }
+        break;
+      }
+
+      case 'enum': {
+        if (value === undefined || value === null || String(value).trim() === '') break;
+        const text = String(value).trim();
+        const allowed = rule.config?.values ?? [];
+        if (allowed.includes(text)) break;
+
+        const canonical = this.findCanonicalValue(text, allowed);
+        return {
+          row: rowIndex,
+          column: rule.field,
+          message: canonical
+            ? `${rule.message}: "${text}" should be written "${canonical}"`
+            : `${rule.message}: "${text}" is not one of ${allowed.join(', ')}`,
+          severity: rule.severity,
+          ruleId: rule.id
+        };
+      }
+
+      case 'json-array': {
+        if (value === undefined || value === null || String(value).trim() === '') break;
+        const problem = this.checkJsonArray(String(value), rule);
+        if (problem) {
+          return {
+            row: rowIndex,
+            column: rule.field,
+            message: problem.message,
+            severity: problem.severity,
+            ruleId: rule.id
+          };
+        }
+        break;
+      }
 
       case 'regex':
-        if (value && !rule.config.pattern.test(String(value))) {
+        if (value && rule.config?.pattern && !this.getPattern(rule.config.pattern).test(String(value))) {
           return {
             row: rowIndex,
             column: rule.field,
@@ -192,48 +442,180 @@ export class ValidationEngine {
         }
         break;
 
-      case 'reference':
-        if (value && allFiles) {
-          const taskIds = this.parseJsonArray(value);
-          const allTaskIds = this.getAllTaskIds(allFiles);
-          const invalidRefs = taskIds.filter(id => !allTaskIds.includes(id));
-          
-          if (invalidRefs.length > 0) {
+      case 'reference': {
+        const rowsById = referenceIndex.get(rule);
+        if (!rowsById) break;
+
+        const referencedIds = parseIdList(value);
+        const invalidRefs = referencedIds.filter(id => !rowsById.has(id));
+        if (invalidRefs.length > 0) {
+          return {
+            row: rowIndex,
+            column: rule.field,
+            message: `${rule.message}: ${invalidRefs.join(', ')}`,
+            severity: rule.severity,
+            ruleId: rule.id
+          };
+        }
+
+        // Each referenced row must point back at this one
+        const back = rule.config?.backReference;
+        const ownId = back ? String(row[back.key] ?? '').trim() : '';
+        if (back && ownId) {
+          const notListed = referencedIds.filter(id => !parseIdList(rowsById.get(id)![back.field]).includes(ownId));
+          if (notListed.length > 0) {
             return {
               row: rowIndex,
               column: rule.field,
-              message: `${rule.message}: ${invalidRefs.join(', ')}`,
+              message: notListed
+                .map(id => `${rule.config!.target!.field} ${id} has ${back.field} ${String(rowsById.get(id)![back.field] ?? '') || '(blank)'}, which does not include ${ownId}`)
+                .join('; '),
               severity: rule.severity,
               ruleId: rule.id
             };
           }
         }
         break;
+      }
     }
 
     return null;
   }
 
-  private parseJsonArray(value: string): string[] {
+  private findCanonicalValue(text: string, allowed: string[]): string | undefined {
+    const lower = text.toLowerCase();
+    return allowed.find(candidate => candidate.toLowerCase() === lower);
+  }
+
+  /**
+   * Structural problems use the rule's severity; entries that are merely
+   * missing from the rule's known values are reported as warnings.
+   */
+  private checkJsonArray(text: string, rule: ValidationRule): Pick<ValidationError, 'message' | 'severity'> | null {
+    let items: unknown;
     try {
-      return JSON.parse(value) || [];
+      items = JSON.parse(text);
     } catch {
-      return [];
+      return { message: `${rule.message}: "${text}" is not valid JSON`, severity: rule.severity };
+    }
+    if (!Array.isArray(items)) {
+      return { message: `${rule.message}: expected a JSON array, got ${JSON.stringify(items)}`, severity: rule.severity };
+    }
+
+    const invalid = items.filter(item => typeof item !== 'string' || item.trim() === '');
+    if (invalid.length > 0) {
+      return {
+        message: `${rule.message}: ${invalid.map(item => JSON.stringify(item)).join(', ')} ${invalid.length === 1 ? 'is' : 'are'} not a name`,
+        severity: rule.severity
+      };
     }
+
+    const entries = items as string[];
+    const duplicates = Array.from(new Set(entries.filter((item, index) => entries.indexOf(item) !== index)));
+    if (duplicates.length > 0) {
+      return { message: `${rule.message}: ${duplicates.map(item => `"${item}"`).join(', ')} listed more than once`, severity: rule.severity };
+    }
+
+    const known = rule.config?.values ?? [];
+    if (known.length === 0) return null;
+    const unknown = entries.filter(item => !known.includes(item));
+    if (unknown.length === 0) return null;
+
+    const described = unknown.map(item => {
+      const canonical = this.findCanonicalValue(item, known);
+      return canonical ? `"${item}" (did you mean "${canonical}"?)` : `"${item}"`;
+    });
+    return { message: `Unknown ${rule.field.toLowerCase()}: ${described.join(', ')}`, severity: 'warning' };
   }
 
-  private getAllTaskIds(allFiles: { [key: string]: any }): string[] {
-    const taskFile = Object.values(allFiles).find(file => 
-      file.name.toLowerCase().includes('task')
+  /**
+   * A corrected value for a cell flagged by `ruleId`, or null when the rule
+   * has no safe automatic correction for it.
+   */
+  suggestFix(ruleId: string, value: unknown): string | null {
+    const rule = this.rules.find(r => r.id === ruleId);
+    if (!rule || value === undefined || value === null) return null;
+
+    const text = String(value);
+    let fixed: string | null = null;
+
+    switch (rule.type) {
+      case 'email': {
+        const candidate = text.trim().toLowerCase();
+        if (/^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(candidate)) {
+          fixed = candidate;
+        }
+        break;
+      }
+
+      case 'phone': {
+        // Only strip punctuation; anything else means the number is really wrong
+        const candidate = text.replace(/[^\d+]/g, '');
+        if (/^[\d+\s().-]+$/.test(text) && /^[+]?[1-9]\d{0,15}$/.test(candidate)) {
+          fixed = candidate;
+        }
+        break;
+      }
+
+      case 'enum':
+        fixed = this.findCanonicalValue(text.trim(), rule.config?.values ?? []) ?? null;
+        break;
+
+      case 'regex':
+      case 'json-array':
+        // Comma separated lists are the usual reason a JSON array check fails
+        if (rule.config?.fix === 'json-array' && text.trim() !== '' && !text.trim().startsWith('[')) {
+          const items = text.split(',').map(item => item.trim()).filter(Boolean);
+          fixed = JSON.stringify(items);
+        }
+        break;
+    }
+
+    return fixed !== null && fixed !== text ? fixed : null;
+  }
+
+  /**
+   * The slice of `allFiles` that reference rules read: only the files and
+   * columns they look IDs up in. Small enough to post to a worker.
+   */
+  getReferenceSources(allFiles: { [key: string]: ReferenceSourceFile }): { [key: string]: ReferenceSourceFile } {
+    // Columns read per entity: target IDs, back references and referencing columns
+    const columns: Array<{ entity: string; field: string }> = [];
+    this.rules
+      .filter(rule => rule.enabled && rule.type === 'reference' && rule.config?.target)
+      .forEach(rule => {
+        const { target, backReference, reportUnreferenced } = rule.config!;
+        columns.push({ entity: target!.entity, field: target!.field });
+        if (backReference) columns.push({ entity: target!.entity, field: backReference.field });
+        if (reportUnreferenced) columns.push({ entity: rule.entity, field: rule.field });
+      });
+
+    return Object.fromEntries(
+      Object.entries(allFiles)
+        .map(([name, file]): [string, ReferenceSourceFile] => {
+          const entityType = this.getEntityType(file);
+          const fields = Array.from(new Set(
+            columns.filter(column => column.entity === entityType).map(column => column.field)
+          ));
+          return [name, {
+            name,
+            headers: fields,
+            entityType,
+            data: file.data.map(row => Object.fromEntries(fields.map(field => [field, row[field]])))
+          }];
+        })
+        .filter(([, file]) => file.headers.length > 0)
     );
-    
-    return taskFile ? taskFile.data.map((row: any) => row.TaskID).filter(Boolean) : [];
   }
 
   getRules(): ValidationRule[] {
     return this.rules;
   }
 
+  setRules(rules: ValidationRule[]): void {
+    this.rules = rules;
+  }
+
   addCustomRule(rule: ValidationRule): void {
     this.rules.push(rule);
   }
@@ -0,0 +1,345 @@
+import { z } from 'zod';
+import { parseJsonFile } from '@/utils/jsonFile';
+
+export const ENTITY_TYPES = ['clients', 'workers', 'tasks'] as const;
+export type EntityType = typeof ENTITY_TYPES[number];
+
+export const RULE_TYPES = [
+  'required',
+  'email',
+  'phone',
+  'reference',
+  'duplicate',
+  'range',
+  'regex',
+  'enum',
+  'json-array',
+  'ratio',
+  'dependency-cycle',
+  'custom'
+] as const;
+
+export const VALIDATION_PROFILE_VERSION = '1.0';
+
+export const isValidPattern = (pattern: string) => {
+  try {
+    new RegExp(pattern);
+    return true;
+  } catch {
+    return false;
+  }
+};
+
+const ruleConfigSchema = z.object({
+  min: z.number().optional(),
+  max: z.number().optional(),
+  pattern: z.string().refine(isValidPattern, 'Invalid regular expression').optional(),
+  // Allowed values for enum rules, known entries for json-array rules
+  values: z.array(z.string().min(1)).optional(),
+  // Range upper bound read from another column of the same row
+  maxField: z.string().min(1).optional(),
+  // Column a ratio rule divides by
+  otherField: z.string().min(1).optional(),
+  // Each row's own ID, for rules relating rows of the same file
+  idField: z.string().min(1).optional(),
+  // Phase column compared along dependencies
+  phaseField: z.string().min(1).optional(),
+  // Automatic correction offered for values failing the rule
+  fix: z.enum(['json-array']).optional(),
+  // Where a reference rule looks up the IDs it checks
+  target: z.object({
+    entity: z.enum(ENTITY_TYPES),
+    field: z.string().min(1)
+  }).optional(),
+  // The referenced row's `field` must list this row's `key` back
+  backReference: z.object({
+    field: z.string().min(1),
+    key: z.string().min(1)
+  }).strict().optional(),
+  // Also warn about target rows that no row references
+  reportUnreferenced: z.boolean().optional()
+}).strict();
+
+/**
+ * A single declarative validation rule. Rules only run against files of the
+ * entity they are scoped to ('all' runs everywhere).
+ */
+export const validationRuleSchema = z.object({
+  id: z.string().min(1),
+  name: z.string().min(1),
+  type: z.enum(RULE_TYPES),
+  entity: z.enum([...ENTITY_TYPES, 'all']),
+  field: z.string().min(1),
+  message: z.string(),
+  severity: z.enum(['error', 'warning']),
+  enabled: z.boolean().default(true),
+  config: ruleConfigSchema.optional()
+}).superRefine((rule, ctx) => {
+  if (rule.type === 'range' && rule.config?.min === undefined && rule.config?.max === undefined && !rule.config?.maxField) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['config'], message: 'Range rules need a min, max or max column' });
+  }
+  if (rule.type === 'enum' && !rule.config?.values?.length) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['config', 'values'], message: 'Enum rules need allowed values' });
+  }
+  if (rule.type === 'dependency-cycle' && !rule.config?.idField) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['config', 'idField'], message: 'Dependency rules need an ID column' });
+  }
+  if (rule.type === 'ratio' && (!rule.config?.otherField || (rule.config.min === undefined && rule.config.max === undefined))) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['config'], message: 'Ratio rules need a column to compare with and a min or max ratio' });
+  }
+  if (rule.type === 'regex' && !rule.config?.pattern) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['config', 'pattern'], message: 'Regex rules need a pattern' });
+  }
+  if (rule.type === 'reference' && !rule.config?.target) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['config', 'target'], message: 'Reference rules need a target' });
+  }
+});
+
+export type ValidationRule = z.infer<typeof validationRuleSchema>;
+
+export const validationProfileSchema = z.object({
+  version: z.literal(VALIDATION_PROFILE_VERSION),
+  rules: z.array(validationRuleSchema)
+}).superRefine((profile, ctx) => {
+  const seen = new Set<string>();
+  profile.rules.forEach((rule, index) => {
+    if (seen.has(rule.id)) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['rules', index, 'id'], message: `Duplicate rule id "${rule.id}"` });
+    }
+    seen.add(rule.id);
+  });
+});
+
+export const DEFAULT_VALIDATION_RULES: ValidationRule[] = [
+  {
+    id: 'req-client-name',
+    name: 'Required Client Name',
+    type: 'required',
+    entity: 'clients',
+    field: 'Name',
+    message: 'Client name is required',
+    severity: 'error',
+    enabled: true
+  },
+  {
+    id: 'email-format',
+    name: 'Email Format',
+    type: 'email',
+    entity: 'all',
+    field: 'Email',
+    message: 'Invalid email format',
+    severity: 'error',
+    enabled: true
+  },
+  {
+    id: 'phone-format',
+    name: 'Phone Format',
+    type: 'phone',
+    entity: 'clients',
+    field: 'PhoneNumber',
+    message: 'Invalid phone number format',
+    severity: 'warning',
+    enabled: true
+  },
+  {
+    id: 'duplicate-ids',
+    name: 'Duplicate Client IDs',
+    type: 'duplicate',
+    entity: 'clients',
+    field: 'ClientID',
+    message: 'Duplicate ID found',
+    severity: 'error',
+    enabled: true
+  },
+  {
+    id: 'duplicate-worker-ids',
+    name: 'Duplicate Worker IDs',
+    type: 'duplicate',
+    entity: 'workers',
+    field: 'WorkerID',
+    message: 'Duplicate ID found',
+    severity: 'error',
+    enabled: true
+  },
+  {
+    id: 'duplicate-task-ids',
+    name: 'Duplicate Task IDs',
+    type: 'duplicate',
+    entity: 'tasks',
+    field: 'TaskID',
+    message: 'Duplicate ID found',
+    severity: 'error',
+    enabled: true
+  },
+  {
+    id: 'worker-load-range',
+    name: 'Worker Load Range',
+    type: 'range',
+    entity: 'workers',
+    field: 'CurrentLoad',
+    message: 'Current load exceeds maximum capacity',
+    severity: 'warning',
+    enabled: true,
+    config: { min: 0, max: 100 }
+  },
+  {
+    id: 'task-reference',
+    name: 'Task References',
+    type: 'reference',
+    entity: 'clients',
+    field: 'TaskIDs',
+    message: 'Referenced task ID not found',
+    severity: 'error',
+    enabled: true,
+    config: {
+      target: { entity: 'tasks', field: 'TaskID' },
+      backReference: { field: 'ClientID', key: 'ClientID' },
+      reportUnreferenced: true
+    }
+  },
+  {
+    id: 'client-reference',
+    name: 'Task Client',
+    type: 'reference',
+    entity: 'tasks',
+    field: 'ClientID',
+    message: 'Referenced client ID not found',
+    severity: 'error',
+    enabled: true,
+    config: {
+      target: { entity: 'clients', field: 'ClientID' },
+      backReference: { field: 'TaskIDs', key: 'TaskID' },
+      reportUnreferenced: true
+    }
+  },
+  {
+    id: 'worker-reference',
+    name: 'Assigned Worker',
+    type: 'reference',
+    entity: 'tasks',
+    field: 'AssignedWorkerID',
+    message: 'Assigned worker ID not found',
+    severity: 'error',
+    enabled: true,
+    config: {
+      target: { entity: 'workers', field: 'WorkerID' },
+      reportUnreferenced: true
+    }
+  },
+  {
+    id: 'dependency-reference',
+    name: 'Task Dependencies',
+    type: 'reference',
+    entity: 'tasks',
+    field: 'Dependencies',
+    message: 'Dependency task ID not found',
+    severity: 'error',
+    enabled: true,
+    // Tasks nothing depends on are normal, so only dangling IDs are reported
+    config: { target: { entity: 'tasks', field: 'TaskID' } }
+  },
+  {
+    id: 'dependency-cycles',
+    name: 'Dependency Order',
+    type: 'dependency-cycle',
+    entity: 'tasks',
+    field: 'Dependencies',
+    message: 'Task dependencies must form an acyclic order',
+    severity: 'error',
+    enabled: true,
+    config: { idField: 'TaskID', phaseField: 'PreferredPhase' }
+  },
+  {
+    id: 'hourly-rate-range',
+    name: 'Hourly Rate Range',
+    type: 'range',
+    entity: 'workers',
+    field: 'HourlyRate',
+    message: 'Hourly rate seems unusually high/low',
+    severity: 'warning',
+    enabled: true,
+    config: { min: 15, max: 200 }
+  },
+  {
+    id: 'skill-format',
+    name: 'Skills Format',
+    type: 'json-array',
+    entity: 'workers',
+    field: 'Skills',
+    message: 'Skills must be a JSON array of skill names',
+    severity: 'error',
+    enabled: true,
+    config: {
+      fix: 'json-array',
+      values: [
+        'JavaScript', 'TypeScript', 'React', 'React Native', 'Node.js', 'Python', 'Django', 'Java', 'Spring',
+        'PostgreSQL', 'MySQL', 'UI/UX', 'Figma', 'Adobe XD', 'iOS', 'Android', 'DevOps', 'AWS', 'Docker'
+      ]
+    }
+  },
+  {
+    id: 'worker-load-capacity',
+    name: 'Load Within Capacity',
+    type: 'range',
+    entity: 'workers',
+    field: 'CurrentLoad',
+    message: 'Current load exceeds the worker\'s max load per phase',
+    severity: 'error',
+    enabled: true,
+    config: { min: 0, maxField: 'MaxLoadPerPhase' }
+  },
+  {
+    id: 'preferred-phase-window',
+    name: 'Preferred Phase Within Phases',
+    type: 'range',
+    entity: 'tasks',
+    field: 'PreferredPhase',
+    message: 'Preferred phase is outside the task\'s phases',
+    severity: 'error',
+    enabled: true,
+    config: { min: 1, maxField: 'Phases' }
+  },
+  {
+    id: 'hours-anomaly',
+    name: 'Actual vs Estimated Hours',
+    type: 'ratio',
+    entity: 'tasks',
+    field: 'ActualHours',
+    message: 'Actual hours overrun the estimate',
+    severity: 'warning',
+    enabled: true,
+    config: { otherField: 'EstimatedHours', max: 1.5 }
+  },
+  {
+    id: 'task-status',
+    name: 'Task Status',
+    type: 'enum',
+    entity: 'tasks',
+    field: 'Status',
+    message: 'Unknown task status',
+    severity: 'error',
+    enabled: true,
+    config: { values: ['Not Started', 'In Progress', 'Completed', 'Blocked', 'Cancelled'] }
+  },
+  {
+    id: 'task-priority',
+    name: 'Task Priority',
+    type: 'enum',
+    entity: 'tasks',
+    field: 'Priority',
+    message: 'Unknown task priority',
+    severity: 'error',
+    enabled: true,
+    config: { values: ['Low', 'Medium', 'High', 'Critical'] }
+  }
+];
+
+export const serializeValidationProfile = (rules: ValidationRule[]): string =>
+  JSON.stringify({ version: VALIDATION_PROFILE_VERSION, rules }, null, 2);
+
+/**
+ * Parse and validate an exported profile. Throws with a readable list of
+ * problems when the file does not match the schema.
+ */
+export const parseValidationProfile = (text: string): ValidationRule[] =>
+  parseJsonFile(text, validationProfileSchema, 'profile').rules as ValidationRule[];
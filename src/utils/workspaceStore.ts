@@ -0,0 +1,143 @@
+import { DataCommand } from '@/utils/dataCommands';
+import { DEFAULT_PRIORITIZATION_CONFIG, PrioritizationConfig } from '@/utils/prioritization';
+import { DEFAULT_VALIDATION_RULES, EntityType, ValidationRule } from '@/utils/validationRules';
+import type { ValidationError } from '@/utils/validationEngine';
+
+export interface StoredFile {
+  name: string;
+  data: Record<string, unknown>[];
+  headers: string[];
+  // Recomputed on restore so they always match the restored rules
+  validationErrors: ValidationError[];
+  entityType?: EntityType | null;
+}
+
+/**
+ * Everything that makes up a workspace. Saved as a whole on every autosave.
+ */
+export interface WorkspaceSnapshot {
+  files: { [key: string]: StoredFile };
+  history: { entries: DataCommand[]; position: number };
+  rules: Record<string, unknown>[];
+  validationRules: ValidationRule[];
+  prioritization: PrioritizationConfig;
+  queryHistory: string[];
+  // Missing from workspaces saved before views existed
+  savedViews?: Record<string, unknown>[];
+}
+
+export const createEmptyWorkspace = (): WorkspaceSnapshot => ({
+  files: {},
+  history: { entries: [], position: 0 },
+  rules: [],
+  validationRules: DEFAULT_VALIDATION_RULES,
+  prioritization: DEFAULT_PRIORITIZATION_CONFIG,
+  queryHistory: [],
+  savedViews: []
+});
+
+export interface WorkspaceSession {
+  id: string;
+  name: string;
+  createdAt: string;
+  updatedAt: string;
+  workspace: WorkspaceSnapshot;
+}
+
+export interface SessionSummary {
+  id: string;
+  name: string;
+  createdAt: string;
+  updatedAt: string;
+  fileCount: number;
+}
+
+const DB_NAME = 'data-alchemist';
+const DB_VERSION = 1;
+const SESSION_STORE = 'sessions';
+const ACTIVE_SESSION_KEY = 'data-alchemist:active-session';
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openDatabase = (): Promise<IDBDatabase> => {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        if (!db.objectStoreNames.contains(SESSION_STORE)) {
+          db.createObjectStore(SESSION_STORE, { keyPath: 'id' });
+        }
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => {
+        dbPromise = null;
+        reject(request.error);
+      };
+    });
+  }
+  return dbPromise;
+};
+
+const runRequest = async <T>(
+  mode: IDBTransactionMode,
+  operation: (store: IDBObjectStore) => IDBRequest<T>
+): Promise<T> => {
+  const db = await openDatabase();
+
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction(SESSION_STORE, mode);
+    const request = operation(transaction.objectStore(SESSION_STORE));
+    transaction.oncomplete = () => resolve(request.result);
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error);
+  });
+};
+
+const createSessionId = () => `session-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`;
+
+export const listSessions = async (): Promise<SessionSummary[]> => {
+  const sessions = await runRequest<WorkspaceSession[]>('readonly', store => store.getAll());
+
+  return sessions
+    .map(session => ({
+      id: session.id,
+      name: session.name,
+      createdAt: session.createdAt,
+      updatedAt: session.updatedAt,
+      fileCount: Object.keys(session.workspace.files).length
+    }))
+    .sort((a, b) => b.updatedAt.localeCompare(a.updatedAt));
+};
+
+export const loadSession = async (id: string): Promise<WorkspaceSession | undefined> => {
+  return runRequest<WorkspaceSession | undefined>('readonly', store => store.get(id));
+};
+
+export const saveSession = async (session: WorkspaceSession): Promise<void> => {
+  await runRequest('readwrite', store => store.put({ ...session, updatedAt: new Date().toISOString() }));
+};
+
+export const createSession = async (name: string, workspace: WorkspaceSnapshot): Promise<WorkspaceSession> => {
+  const now = new Date().toISOString();
+  const session: WorkspaceSession = { id: createSessionId(), name, createdAt: now, updatedAt: now, workspace };
+  await saveSession(session);
+  return session;
+};
+
+export const duplicateSession = async (id: string, name: string): Promise<WorkspaceSession> => {
+  const source = await loadSession(id);
+  if (!source) {
+    throw new Error(`Workspace ${id} not found`);
+  }
+  return createSession(name, source.workspace);
+};
+
+export const deleteSession = async (id: string): Promise<void> => {
+  await runRequest('readwrite', store => store.delete(id));
+};
+
+export const getActiveSessionId = (): string | null => localStorage.getItem(ACTIVE_SESSION_KEY);
+
+export const setActiveSessionId = (id: string) => localStorage.setItem(ACTIVE_SESSION_KEY, id);
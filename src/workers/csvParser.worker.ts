@@ -0,0 +1,89 @@
+import Papa from 'papaparse';
+import { ValidationEngine } from '@/utils/validationEngine';
+import { applyHeaderMapping } from '@/utils/schemaDetection';
+import { ParsedRow } from '@/utils/fileParsing';
+import { CSV_CHUNK_SIZE, CsvValidateRequest, CsvWorkerRequest, CsvWorkerResponse } from '@/workers/csvProtocol';
+
+const ctx = self as unknown as Worker;
+const post = (response: CsvWorkerResponse) => ctx.postMessage(response);
+
+// Rows are kept here so the validation pass does not need them posted back
+let headers: string[] = [];
+const rows: ParsedRow[] = [];
+let parseComplete = false;
+let queuedValidation: CsvValidateRequest | null = null;
+
+const parse = (file: File) => {
+  let malformedRows = 0;
+
+  Papa.parse<ParsedRow>(file, {
+    header: true,
+    skipEmptyLines: true,
+    transformHeader: (header: string) => header.trim(),
+    chunkSize: CSV_CHUNK_SIZE,
+    chunk: (results) => {
+      if (headers.length === 0) {
+        headers = results.meta.fields ?? [];
+      }
+      malformedRows += new Set(results.errors.map(error => error.row)).size;
+      rows.push(...results.data);
+
+      post({
+        type: 'rows',
+        headers,
+        rows: results.data,
+        // Papa's position in the file; chunks can come back shorter than chunkSize
+        bytesRead: Math.min(file.size, results.meta.cursor),
+        totalBytes: file.size
+      });
+    },
+    complete: () => {
+      parseComplete = true;
+      post({ type: 'complete', rowCount: rows.length, malformedRows });
+      if (queuedValidation) {
+        validate(queuedValidation);
+      }
+    },
+    error: (error) => post({ type: 'error', message: error.message })
+  });
+};
+
+const postError = (error: unknown) =>
+  post({ type: 'error', message: error instanceof Error ? error.message : 'Unknown error' });
+
+// Also run from Papa's complete callback when queued, so it reports its own errors
+const validate = (request: CsvValidateRequest) => {
+  try {
+    const engine = new ValidationEngine();
+    engine.setRules(request.rules);
+
+    const mapped = applyHeaderMapping(rows, headers, request.mapping);
+    const errors = engine.validateData(
+      mapped.data,
+      mapped.headers,
+      request.fileName,
+      request.referenceFiles,
+      request.entityType
+    );
+
+    post({ type: 'validated', errors });
+  } catch (error) {
+    postError(error);
+  }
+};
+
+ctx.onmessage = (event: MessageEvent<CsvWorkerRequest>) => {
+  const request = event.data;
+
+  try {
+    if (request.type === 'parse') {
+      parse(request.file);
+    } else if (parseComplete) {
+      validate(request);
+    } else {
+      queuedValidation = request;
+    }
+  } catch (error) {
+    postError(error);
+  }
+};
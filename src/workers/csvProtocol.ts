@@ -0,0 +1,26 @@
+import { EntityType, ValidationRule } from '@/utils/validationRules';
+import { HeaderMapping } from '@/utils/schemaDetection';
+import { ParsedRow } from '@/utils/fileParsing';
+import type { ValidationError } from '@/utils/validationEngine';
+
+// Bytes read per Papa chunk; each chunk is posted back as one batch of rows
+export const CSV_CHUNK_SIZE = 1024 * 1024;
+
+export interface CsvValidateRequest {
+  fileName: string;
+  mapping: HeaderMapping;
+  entityType: EntityType;
+  rules: ValidationRule[];
+  // Only the columns reference rules look up, see ValidationEngine.getReferenceSources
+  referenceFiles: { [fileName: string]: { name: string; headers: string[]; entityType?: EntityType | null; data: ParsedRow[] } };
+}
+
+export type CsvWorkerRequest =
+  | { type: 'parse'; file: File }
+  | ({ type: 'validate' } & CsvValidateRequest);
+
+export type CsvWorkerResponse =
+  | { type: 'rows'; headers: string[]; rows: ParsedRow[]; bytesRead: number; totalBytes: number }
+  | { type: 'complete'; rowCount: number; malformedRows: number }
+  | { type: 'validated'; errors: ValidationError[] }
+  | { type: 'error'; message: string };